@@ -1,4 +1,5 @@
 import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { MongooseModule } from '@nestjs/mongoose';
 import { ThrottlerModule } from '@nestjs/throttler';
@@ -8,9 +9,17 @@ import { UsersModule } from './users/users.module';
 import { AuctionsModule } from './auctions/auctions.module';
 import { BidsModule } from './bids/bids.module';
 import { AuthModule } from './auth/auth.module';
+import { OrganizationsModule } from './organizations/organizations.module';
+import { CreditModule } from './credit/credit.module';
+import { NotificationsModule } from './notifications/notifications.module';
+import { WatchlistModule } from './watchlist/watchlist.module';
+import { SavedSearchesModule } from './saved-searches/saved-searches.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
+import { AuditModule } from './audit/audit.module';
 import { WebsocketModule } from './websocket/websocket.module';
 import { RedisModule } from './redis/redis.module';
 import { RabbitmqModule } from './rabbitmq/rabbitmq.module';
+import { RateLimitGuard } from './common/guards/rate-limit.guard';
 import { AuctionSeederService } from './database/seeders/auction-seeder';
 import { Auction, AuctionSchema } from './database/schemas/auction.schema';
 import { User, UserSchema } from './database/schemas/user.schema';
@@ -49,11 +58,23 @@ import configuration from './config/configuration';
     AuctionsModule,
     BidsModule,
     AuthModule,
+    OrganizationsModule,
+    CreditModule,
+    NotificationsModule,
+    WatchlistModule,
+    SavedSearchesModule,
+    WebhooksModule,
+    AuditModule,
     WebsocketModule,
     RedisModule,
     RabbitmqModule,
   ],
   controllers: [AppController],
-  providers: [AppService, AuctionSeederService],
+  providers: [
+    AppService,
+    AuctionSeederService,
+    // Enforces @RateLimit() and its presets wherever they are declared
+    { provide: APP_GUARD, useClass: RateLimitGuard },
+  ],
 })
 export class AppModule {}
@@ -0,0 +1,124 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ConflictException } from '@nestjs/common';
+import { AuctionSchedulerService } from './auction-scheduler.service';
+import { AuctionsService } from './auctions.service';
+
+const auction = (id: string) => ({ _id: id });
+
+async function createHarness(due: { start?: string[]; end?: string[] }) {
+  const auctionsService = {
+    findDueToStart: jest.fn<Promise<{ _id: string }[]>, [Date]>(() =>
+      Promise.resolve((due.start ?? []).map(auction)),
+    ),
+    findDueToEnd: jest.fn<Promise<{ _id: string }[]>, [Date]>(() =>
+      Promise.resolve((due.end ?? []).map(auction)),
+    ),
+    findActiveDutch: jest.fn(() => Promise.resolve([auction('dutch-1')])),
+    startAuction: jest.fn<Promise<unknown>, [string]>(() =>
+      Promise.resolve({}),
+    ),
+    endAuction: jest.fn<Promise<unknown>, [string, Date]>(() =>
+      Promise.resolve({}),
+    ),
+    publishDutchPrice: jest.fn<Promise<void>, [unknown, Date]>(() =>
+      Promise.resolve(),
+    ),
+  };
+
+  const module = await Test.createTestingModule({
+    providers: [
+      AuctionSchedulerService,
+      { provide: AuctionsService, useValue: auctionsService },
+      {
+        provide: ConfigService,
+        useValue: { get: (_key: string, fallback?: unknown) => fallback },
+      },
+    ],
+  }).compile();
+
+  return { scheduler: module.get(AuctionSchedulerService), auctionsService };
+}
+
+describe('AuctionSchedulerService', () => {
+  const now = new Date('2026-01-01T12:00:00Z');
+
+  it('starts and ends the auctions that are due and publishes Dutch prices', async () => {
+    const { scheduler, auctionsService } = await createHarness({
+      start: ['pending-1', 'pending-2'],
+      end: ['active-1'],
+    });
+
+    await scheduler.tick(now);
+
+    expect(auctionsService.findDueToStart).toHaveBeenCalledWith(now);
+    expect(auctionsService.findDueToEnd).toHaveBeenCalledWith(now);
+    expect(auctionsService.startAuction.mock.calls).toEqual([
+      ['pending-1'],
+      ['pending-2'],
+    ]);
+    // Ending is checked against the tick's clock, so an auction extended by
+    // a late bid after the query is left running
+    expect(auctionsService.endAuction.mock.calls).toEqual([['active-1', now]]);
+    expect(auctionsService.publishDutchPrice).toHaveBeenCalledWith(
+      auction('dutch-1'),
+      now,
+    );
+  });
+
+  it('keeps going when another instance got to an auction first', async () => {
+    const { scheduler, auctionsService } = await createHarness({
+      start: ['pending-1', 'pending-2'],
+      end: ['active-1', 'active-2'],
+    });
+    auctionsService.startAuction.mockImplementationOnce(() =>
+      Promise.reject(new ConflictException('Auction is not pending')),
+    );
+    auctionsService.endAuction.mockImplementationOnce(() =>
+      Promise.reject(new ConflictException('Auction is busy')),
+    );
+
+    await scheduler.tick(now);
+
+    expect(auctionsService.startAuction).toHaveBeenCalledWith('pending-2');
+    expect(auctionsService.endAuction).toHaveBeenCalledWith('active-2', now);
+    expect(auctionsService.publishDutchPrice).toHaveBeenCalled();
+  });
+
+  it('skips a tick while the previous one is still running', async () => {
+    const { scheduler, auctionsService } = await createHarness({
+      start: ['pending-1'],
+    });
+    let finishStart = () => {};
+    auctionsService.startAuction.mockImplementationOnce(
+      () => new Promise((resolve) => (finishStart = () => resolve({}))),
+    );
+
+    const first = scheduler.tick(now);
+    await new Promise(setImmediate);
+    await scheduler.tick(now);
+    finishStart();
+    await first;
+
+    expect(auctionsService.findDueToStart).toHaveBeenCalledTimes(1);
+    expect(auctionsService.startAuction).toHaveBeenCalledTimes(1);
+
+    await scheduler.tick(now);
+    expect(auctionsService.findDueToStart).toHaveBeenCalledTimes(2);
+  });
+
+  it('runs again after a tick fails', async () => {
+    const { scheduler, auctionsService } = await createHarness({
+      end: ['active-1'],
+    });
+    auctionsService.findDueToStart.mockImplementationOnce(() =>
+      Promise.reject(new Error('connection lost')),
+    );
+
+    await scheduler.tick(now);
+    expect(auctionsService.endAuction).not.toHaveBeenCalled();
+
+    await scheduler.tick(now);
+    expect(auctionsService.endAuction).toHaveBeenCalledWith('active-1', now);
+  });
+});
@@ -0,0 +1,90 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuctionsService } from './auctions.service';
+
+@Injectable()
+export class AuctionSchedulerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AuctionSchedulerService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(
+    private readonly auctionsService: AuctionsService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    const intervalMs = this.configService.get<number>(
+      'scheduler.intervalMs',
+      5000,
+    );
+    this.timer = setInterval(() => void this.tick(), intervalMs);
+    this.logger.log(
+      `Auction lifecycle scheduler running every ${intervalMs}ms`,
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Every backend instance runs this loop. Transitions are safe to race:
+  // starting is a conditional PENDING -> ACTIVE update and ending holds the
+  // per-auction Redis lock, so only one instance ever fires each event.
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+
+    try {
+      const dueToStart = await this.auctionsService.findDueToStart(now);
+      for (const auction of dueToStart) {
+        await this.runTransition('start', String(auction._id), now);
+      }
+
+      const dueToEnd = await this.auctionsService.findDueToEnd(now);
+      for (const auction of dueToEnd) {
+        await this.runTransition('end', String(auction._id), now);
+      }
+
+      // Push each Dutch price step to the auction room
+      const dutchAuctions = await this.auctionsService.findActiveDutch();
+      for (const auction of dutchAuctions) {
+        await this.auctionsService.publishDutchPrice(auction, now);
+      }
+    } catch (error) {
+      this.logger.error('Auction scheduler tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async runTransition(
+    transition: 'start' | 'end',
+    auctionId: string,
+    now: Date = new Date(),
+  ): Promise<void> {
+    try {
+      if (transition === 'start') {
+        await this.auctionsService.startAuction(auctionId);
+      } else {
+        await this.auctionsService.endAuction(auctionId, now);
+      }
+    } catch (error) {
+      // Another instance got there first or the lock is busy; the next
+      // tick picks the auction up again if it is still due
+      this.logger.debug(
+        `Skipped ${transition} of auction ${auctionId}: ${(error as Error).message}`,
+      );
+    }
+  }
+}
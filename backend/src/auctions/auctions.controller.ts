@@ -7,6 +7,7 @@ import {
   Param, 
   Delete, 
   Query,
+  Request,
   UseGuards 
 } from '@nestjs/common';
 import { ThrottlerGuard } from '@nestjs/throttler';
@@ -14,8 +15,13 @@ import { AuctionsService } from './auctions.service';
 import { BidsService } from '../bids/bids.service';
 import { CreateAuctionDto } from './dto/create-auction.dto';
 import { UpdateAuctionDto } from './dto/update-auction.dto';
+import { UpdateReservePriceDto } from './dto/update-reserve-price.dto';
 import { APIRateLimit } from '../common/guards/rate-limit.guard';
-import { AuctionStatus } from '../common/enums/auction.enum';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { AuctionStatus, UserRole } from '../common/enums/auction.enum';
+import type { IAuthenticatedRequest } from '../common/interfaces/auction.interface';
 
 @Controller('auctions')
 @UseGuards(ThrottlerGuard)
@@ -26,9 +32,17 @@ export class AuctionsController {
     private readonly bidsService: BidsService,
   ) {}
 
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.SELLER, UserRole.ADMIN)
   @Post()
-  create(@Body() createAuctionDto: CreateAuctionDto) {
-    return this.auctionsService.create(createAuctionDto);
+  create(
+    @Request() req: IAuthenticatedRequest,
+    @Body() createAuctionDto: CreateAuctionDto,
+  ) {
+    return this.auctionsService.create(
+      createAuctionDto,
+      req.user._id.toString(),
+    );
   }
 
   @Get()
@@ -56,28 +70,75 @@ export class AuctionsController {
     return this.auctionsService.getAuctionStats(id);
   }
 
+  @Get(':id/next-minimum')
+  getNextMinimumBid(@Param('id') id: string) {
+    return this.auctionsService.getNextMinimumBid(id);
+  }
+
   @Get(':id/bids')
   async getAuctionBids(@Param('id') id: string) {
     return this.bidsService.findByAuction(id);
   }
 
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.SELLER, UserRole.ADMIN)
   @Patch(':id')
-  update(@Param('id') id: string, @Body() updateAuctionDto: UpdateAuctionDto) {
-    return this.auctionsService.update(id, updateAuctionDto);
+  async update(
+    @Request() req: IAuthenticatedRequest,
+    @Param('id') id: string,
+    @Body() updateAuctionDto: UpdateAuctionDto,
+  ) {
+    await this.auctionsService.assertCanManage(id, req.user);
+    return this.auctionsService.update(
+      id,
+      updateAuctionDto,
+      req.user._id.toString(),
+    );
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.SELLER, UserRole.ADMIN)
+  @Patch(':id/reserve')
+  async lowerReservePrice(
+    @Request() req: IAuthenticatedRequest,
+    @Param('id') id: string,
+    @Body() updateReservePriceDto: UpdateReservePriceDto,
+  ) {
+    await this.auctionsService.assertCanManage(id, req.user);
+    return this.auctionsService.lowerReservePrice(
+      id,
+      updateReservePriceDto.reservePrice,
+      req.user._id.toString(),
+    );
   }
 
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.SELLER, UserRole.ADMIN)
   @Post(':id/start')
-  startAuction(@Param('id') id: string) {
+  async startAuction(
+    @Request() req: IAuthenticatedRequest,
+    @Param('id') id: string,
+  ) {
+    await this.auctionsService.assertCanManage(id, req.user);
     return this.auctionsService.startAuction(id);
   }
 
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.SELLER, UserRole.ADMIN)
   @Post(':id/end')
-  endAuction(@Param('id') id: string, @Body('winnerId') winnerId?: string) {
-    return this.auctionsService.endAuction(id, winnerId);
+  async endAuction(
+    @Request() req: IAuthenticatedRequest,
+    @Param('id') id: string,
+  ) {
+    await this.auctionsService.assertCanManage(id, req.user);
+    return this.auctionsService.endAuction(id);
   }
 
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.SELLER, UserRole.ADMIN)
   @Delete(':id')
-  remove(@Param('id') id: string) {
-    return this.auctionsService.remove(id);
+  async remove(@Request() req: IAuthenticatedRequest, @Param('id') id: string) {
+    await this.auctionsService.assertCanManage(id, req.user);
+    return this.auctionsService.remove(id, req.user._id.toString());
   }
 }
\ No newline at end of file
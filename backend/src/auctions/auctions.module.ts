@@ -2,16 +2,28 @@ import { Module, forwardRef } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { AuctionsController } from './auctions.controller';
 import { AuctionsService } from './auctions.service';
+import { AuctionSchedulerService } from './auction-scheduler.service';
+import { BidIncrementService } from './bid-increment.service';
 import { Auction, AuctionSchema } from '../database/schemas/auction.schema';
+import { Bid, BidSchema } from '../database/schemas/bid.schema';
 import { BidsModule } from '../bids/bids.module';
+import { CreditModule } from '../credit/credit.module';
+import { SavedSearchesModule } from '../saved-searches/saved-searches.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
 
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: Auction.name, schema: AuctionSchema }]),
+    MongooseModule.forFeature([
+      { name: Auction.name, schema: AuctionSchema },
+      { name: Bid.name, schema: BidSchema },
+    ]),
     forwardRef(() => BidsModule),
+    CreditModule,
+    SavedSearchesModule,
+    WebhooksModule,
   ],
   controllers: [AuctionsController],
-  providers: [AuctionsService],
-  exports: [AuctionsService],
+  providers: [AuctionsService, AuctionSchedulerService, BidIncrementService],
+  exports: [AuctionsService, BidIncrementService],
 })
 export class AuctionsModule {}
\ No newline at end of file
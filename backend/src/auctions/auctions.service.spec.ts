@@ -0,0 +1,454 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { AuctionsService } from './auctions.service';
+import { BidIncrementService } from './bid-increment.service';
+import { Auction, AuctionDocument } from '../database/schemas/auction.schema';
+import { Bid } from '../database/schemas/bid.schema';
+import { RedisService } from '../redis/redis.service';
+import { RabbitmqService } from '../rabbitmq/rabbitmq-simple.service';
+import { CreditService } from '../credit/credit.service';
+import { SavedSearchesService } from '../saved-searches/saved-searches.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import {
+  AuctionOutcome,
+  AuctionStatus,
+  AuctionType,
+  BidStatus,
+} from '../common/enums/auction.enum';
+
+// Awaitable stand-in for a mongoose query
+const query = <T>(value: T) => {
+  const chain = {
+    select: () => chain,
+    sort: () => chain,
+    exec: () => Promise.resolve(value),
+  };
+  return chain;
+};
+
+// One auction and its bids, with just the queries closing an auction makes
+function createStore(fields: Record<string, any>) {
+  const auction: Record<string, any> = {
+    _id: new Types.ObjectId(),
+    title: 'Test car',
+    sellerId: new Types.ObjectId(),
+    auctionType: AuctionType.ENGLISH,
+    status: AuctionStatus.ACTIVE,
+    startTime: new Date(Date.now() - 3_600_000),
+    endTime: new Date(Date.now() - 1000),
+    startingBid: 1000,
+    currentHighestBid: 1000,
+    bidCount: 0,
+    ...fields,
+  };
+  const bids: Record<string, any>[] = [];
+  const addBid = (bidAmount: number, userId = new Types.ObjectId()) => {
+    bids.push({
+      _id: new Types.ObjectId(),
+      auctionId: auction._id as Types.ObjectId,
+      userId,
+      bidAmount,
+      status: BidStatus.ACCEPTED,
+      timestamp: new Date(Date.now() - 60_000 + bids.length),
+    });
+    return String(userId);
+  };
+
+  const auctionModel = {
+    findById: () => query(auction),
+    findOneAndUpdate: (
+      filter: Record<string, any>,
+      update: { $set: Record<string, any>; $unset?: Record<string, 1> },
+    ) => {
+      const below = (filter.currentHighestBid as { $gt?: number })?.$gt;
+      if (
+        filter.status !== auction.status ||
+        (below !== undefined &&
+          !((auction.currentHighestBid as number) > below))
+      ) {
+        return query(null);
+      }
+      Object.assign(auction, update.$set);
+      for (const key of Object.keys(update.$unset ?? {})) {
+        delete auction[key];
+      }
+      return query(auction);
+    },
+  };
+
+  // Highest bid first, earliest first on a tie
+  const bidModel = {
+    findOne: (filter: { _id?: { $ne: unknown } }) =>
+      query(
+        bids
+          .filter(
+            (bid) =>
+              bid.status === BidStatus.ACCEPTED &&
+              String(bid._id) !== String(filter._id?.$ne),
+          )
+          .sort(
+            (a, b) =>
+              (b.bidAmount as number) - (a.bidAmount as number) ||
+              (a.timestamp as Date).getTime() - (b.timestamp as Date).getTime(),
+          )[0] ?? null,
+      ),
+    updateOne: () => query({}),
+  };
+
+  return {
+    auction,
+    auctionId: String(auction._id),
+    addBid,
+    auctionModel,
+    bidModel,
+  };
+}
+
+async function createHarness(fields: Record<string, any> = {}) {
+  const store = createStore(fields);
+  const resolved = () => Promise.resolve();
+
+  const redisService = {
+    acquireLock: () => Promise.resolve(true),
+    releaseLock: resolved,
+    invalidateAuctionCache: resolved,
+    publishAuctionEvent: jest.fn<
+      Promise<void>,
+      [string, string, Record<string, any>]
+    >(resolved),
+  };
+  const rabbitmqService = {
+    publishNotification: jest.fn<Promise<void>, [Record<string, any>]>(
+      resolved,
+    ),
+  };
+  const creditService = {
+    settleAuction: jest.fn<Promise<void>, [string, string | undefined]>(
+      resolved,
+    ),
+  };
+
+  const module = await Test.createTestingModule({
+    providers: [
+      AuctionsService,
+      BidIncrementService,
+      { provide: getModelToken(Auction.name), useValue: store.auctionModel },
+      { provide: getModelToken(Bid.name), useValue: store.bidModel },
+      { provide: RedisService, useValue: redisService },
+      { provide: RabbitmqService, useValue: rabbitmqService },
+      { provide: CreditService, useValue: creditService },
+      { provide: SavedSearchesService, useValue: { alertMatches: resolved } },
+      { provide: WebhooksService, useValue: { emit: resolved } },
+      {
+        provide: ConfigService,
+        useValue: { get: (_key: string, fallback?: unknown) => fallback },
+      },
+    ],
+  }).compile();
+
+  const eventsOf = (type: string) =>
+    redisService.publishAuctionEvent.mock.calls
+      .filter(([, event]) => event === type)
+      .map(([, , data]) => data);
+  const notificationsOf = (type: string) =>
+    rabbitmqService.publishNotification.mock.calls
+      .map(([notification]) => notification)
+      .filter((notification) => notification.type === type);
+
+  return {
+    service: module.get(AuctionsService),
+    store,
+    creditService,
+    eventsOf,
+    notificationsOf,
+  };
+}
+
+describe('AuctionsService reserve price', () => {
+  it.each([
+    [undefined, 0, 1000, true],
+    [5000, 0, 1000, false],
+    [5000, 3, 4999, false],
+    [5000, 4, 5000, true],
+  ])(
+    'with a reserve of %s and %s bids up to %s, isReserveMet is %s',
+    async (reservePrice, bidCount, currentHighestBid, met) => {
+      const { service } = await createHarness();
+
+      expect(
+        service.isReserveMet({ reservePrice, bidCount, currentHighestBid }),
+      ).toBe(met);
+    },
+  );
+
+  it('closes without a sale when the highest bid is below the reserve', async () => {
+    const harness = await createHarness({ reservePrice: 5000 });
+    harness.store.addBid(3000);
+    const bidderId = harness.store.addBid(4500);
+
+    await harness.service.endAuction(harness.store.auctionId, new Date());
+
+    expect(harness.store.auction.outcome).toBe(AuctionOutcome.RESERVE_NOT_MET);
+    expect(harness.store.auction.winnerId).toBeUndefined();
+    expect(harness.store.auction.clearingPrice).toBeUndefined();
+    expect(harness.creditService.settleAuction).toHaveBeenCalledWith(
+      harness.store.auctionId,
+      undefined,
+    );
+    expect(harness.eventsOf('AUCTION_ENDED')).toMatchObject([
+      { outcome: AuctionOutcome.RESERVE_NOT_MET, reserveMet: false },
+    ]);
+    expect(harness.notificationsOf('RESERVE_NOT_MET')).toMatchObject([
+      { userId: bidderId, data: { bidAmount: 4500 } },
+    ]);
+    expect(harness.notificationsOf('AUCTION_WON')).toEqual([]);
+  });
+
+  it('sells to the highest bid once it reaches the reserve', async () => {
+    const harness = await createHarness({ reservePrice: 5000 });
+    harness.store.addBid(3000);
+    const winnerId = harness.store.addBid(5000);
+
+    await harness.service.endAuction(harness.store.auctionId, new Date());
+
+    expect(harness.store.auction).toMatchObject({
+      status: AuctionStatus.ENDED,
+      outcome: AuctionOutcome.SOLD,
+      clearingPrice: 5000,
+    });
+    expect(String(harness.store.auction.winnerId)).toBe(winnerId);
+    expect(harness.creditService.settleAuction).toHaveBeenCalledWith(
+      harness.store.auctionId,
+      winnerId,
+    );
+    expect(harness.eventsOf('AUCTION_ENDED')).toMatchObject([
+      { outcome: AuctionOutcome.SOLD, reserveMet: true, winnerId },
+    ]);
+    expect(harness.notificationsOf('RESERVE_NOT_MET')).toEqual([]);
+  });
+});
+
+describe('AuctionsService buy-it-now', () => {
+  it.each([
+    ['no buy-it-now price', { buyNowPrice: undefined, bidCount: 0 }, false],
+    ['no bids yet', { bidCount: 0 }, true],
+    [
+      'bidding below the threshold',
+      { bidCount: 2, currentHighestBid: 3999 },
+      true,
+    ],
+    [
+      'bidding at the threshold',
+      { bidCount: 2, currentHighestBid: 4000 },
+      false,
+    ],
+    [
+      'no threshold and bidding below the price',
+      { buyNowBidThreshold: undefined, bidCount: 2, currentHighestBid: 7900 },
+      true,
+    ],
+    [
+      'bidding at the price',
+      { buyNowBidThreshold: undefined, bidCount: 2, currentHighestBid: 8000 },
+      false,
+    ],
+  ])('with %s, isBuyNowAvailable is %s', async (_case, fields, available) => {
+    const { service } = await createHarness();
+
+    expect(
+      service.isBuyNowAvailable({
+        buyNowPrice: 8000,
+        buyNowBidThreshold: 4000,
+        currentHighestBid: 1000,
+        ...fields,
+      }),
+    ).toBe(available);
+  });
+
+  it('sells at the buy-it-now price and ends the auction now', async () => {
+    const harness = await createHarness({
+      buyNowPrice: 8000,
+      endTime: new Date(Date.now() + 3_600_000),
+    });
+    const buyerId = harness.store.addBid(8000);
+
+    await harness.service.closeAuction(
+      harness.store.auction as AuctionDocument,
+      true,
+    );
+
+    expect(harness.store.auction).toMatchObject({
+      status: AuctionStatus.ENDED,
+      outcome: AuctionOutcome.SOLD,
+      clearingPrice: 8000,
+    });
+    expect(
+      (harness.store.auction.endTime as Date).getTime(),
+    ).toBeLessThanOrEqual(Date.now());
+    expect(harness.eventsOf('AUCTION_ENDED')).toMatchObject([
+      { winnerId: buyerId, boughtNow: true },
+    ]);
+    expect(harness.notificationsOf('AUCTION_WON')).toMatchObject([
+      {
+        userId: buyerId,
+        message: 'Congratulations! You bought "Test car" for $8,000',
+        data: { boughtNow: true },
+      },
+    ]);
+  });
+});
+
+describe('AuctionsService sealed-bid clearing price', () => {
+  const closeSealed = async (
+    auctionType: AuctionType,
+    bidAmounts: number[],
+    reservePrice?: number,
+  ) => {
+    const harness = await createHarness({ auctionType, reservePrice });
+    bidAmounts.forEach((bidAmount) => harness.store.addBid(bidAmount));
+    await harness.service.endAuction(harness.store.auctionId, new Date());
+    return harness;
+  };
+
+  // min(winner, max(runner-up + increment, max(starting bid, reserve)))
+  it.each([
+    ['one increment above the runner-up', [3000, 5000], undefined, 3100],
+    [
+      'at the increment of the runner-up tier',
+      [10000, 20000],
+      undefined,
+      10250,
+    ],
+    ['capped at what the winner bid', [4950, 5000], undefined, 5000],
+    ['at the reserve when the runner-up is below it', [1500, 5000], 4000, 4000],
+    ['at the reserve when unopposed', [5000], 4000, 4000],
+    ['at the starting bid when unopposed', [5000], undefined, 1000],
+  ])(
+    'clears a second-price auction %s',
+    async (_case, bidAmounts, reservePrice, clearingPrice) => {
+      const harness = await closeSealed(
+        AuctionType.SEALED_SECOND_PRICE,
+        bidAmounts,
+        reservePrice,
+      );
+
+      expect(harness.store.auction).toMatchObject({
+        outcome: AuctionOutcome.SOLD,
+        clearingPrice,
+        // The winning bid itself is revealed once the auction is over
+        currentHighestBid: Math.max(...bidAmounts),
+      });
+    },
+  );
+
+  it('tells a second-price winner what they bid and what they pay', async () => {
+    const harness = await closeSealed(
+      AuctionType.SEALED_SECOND_PRICE,
+      [3000, 5000],
+    );
+
+    expect(harness.notificationsOf('AUCTION_WON')).toMatchObject([
+      {
+        message:
+          'Congratulations! You won "Test car" with a bid of $5,000 and pay $3,100',
+        data: { bidAmount: 5000, clearingPrice: 3100 },
+      },
+    ]);
+  });
+
+  it('clears a first-price auction at the winning bid', async () => {
+    const harness = await closeSealed(
+      AuctionType.SEALED_FIRST_PRICE,
+      [3000, 5000],
+    );
+
+    expect(harness.store.auction.clearingPrice).toBe(5000);
+  });
+
+  it('sells a tie to the earlier bid at the tied amount', async () => {
+    const harness = await createHarness({
+      auctionType: AuctionType.SEALED_SECOND_PRICE,
+    });
+    const earlierId = harness.store.addBid(5000);
+    harness.store.addBid(5000);
+
+    await harness.service.endAuction(harness.store.auctionId, new Date());
+
+    expect(String(harness.store.auction.winnerId)).toBe(earlierId);
+    expect(harness.store.auction.clearingPrice).toBe(5000);
+  });
+});
+
+describe('AuctionsService Dutch price', () => {
+  const startTime = new Date('2026-01-01T12:00:00Z');
+  const after = (seconds: number) =>
+    new Date(startTime.getTime() + seconds * 1000);
+  const dutch = {
+    auctionType: AuctionType.DUTCH,
+    startTime,
+    startingBid: 10000,
+    currentHighestBid: 10000,
+    dutchFloorPrice: 6000,
+    dutchPriceStep: 500,
+    dutchStepIntervalSeconds: 60,
+  };
+
+  it.each([
+    [-30, 10000],
+    [0, 10000],
+    [59, 10000],
+    [60, 9500],
+    [119, 9500],
+    [420, 6500],
+    [480, 6000],
+    [3600, 6000],
+  ])('%s seconds after the start, the price is %s', async (seconds, price) => {
+    const { service } = await createHarness();
+
+    expect(service.getDutchPrice(dutch, after(seconds))).toBe(price);
+  });
+
+  it('schedules the next drop until the floor is reached', async () => {
+    const { service } = await createHarness();
+
+    expect(service.getNextDutchPriceAt(dutch, after(0))).toEqual(after(60));
+    expect(service.getNextDutchPriceAt(dutch, after(90))).toEqual(after(120));
+    expect(service.getNextDutchPriceAt(dutch, after(480))).toBeNull();
+  });
+
+  it('steps once a minute unless the auction sets its own interval', async () => {
+    const { service } = await createHarness();
+    const unset = { ...dutch, dutchStepIntervalSeconds: undefined };
+
+    expect(service.getDutchPrice(unset, after(59))).toBe(10000);
+    expect(service.getDutchPrice(unset, after(60))).toBe(9500);
+  });
+
+  it('announces each drop once and stops at the floor', async () => {
+    const harness = await createHarness(dutch);
+    const auction = harness.store.auction as AuctionDocument;
+
+    await harness.service.publishDutchPrice(auction, after(30));
+    await harness.service.publishDutchPrice(auction, after(60));
+    // A second scheduler instance on the same step
+    await harness.service.publishDutchPrice(auction, after(61));
+    await harness.service.publishDutchPrice(auction, after(600));
+    await harness.service.publishDutchPrice(auction, after(660));
+
+    expect(harness.store.auction.currentHighestBid).toBe(6000);
+    expect(harness.eventsOf('PRICE_DROPPED')).toEqual([
+      {
+        auctionId: harness.store.auctionId,
+        currentHighestBid: 9500,
+        nextPriceAt: after(120),
+      },
+      {
+        auctionId: harness.store.auctionId,
+        currentHighestBid: 6000,
+        nextPriceAt: null,
+      },
+    ]);
+  });
+});
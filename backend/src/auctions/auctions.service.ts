@@ -1,18 +1,64 @@
-import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { Auction, AuctionDocument } from '../database/schemas/auction.schema';
+import { Bid, BidDocument } from '../database/schemas/bid.schema';
 import { CreateAuctionDto } from './dto/create-auction.dto';
 import { UpdateAuctionDto } from './dto/update-auction.dto';
-import { AuctionStatus } from '../common/enums/auction.enum';
+import {
+  AuctionOutcome,
+  AuctionStatus,
+  AuditAction,
+  AuctionType,
+  BidStatus,
+  SEALED_AUCTION_TYPES,
+  UserRole,
+  WebhookEvent,
+} from '../common/enums/auction.enum';
+import { RedisService } from '../redis/redis.service';
+import { RabbitmqService } from '../rabbitmq/rabbitmq-simple.service';
+import { BidIncrementService } from './bid-increment.service';
+import { CreditService } from '../credit/credit.service';
+import { SavedSearchesService } from '../saved-searches/saved-searches.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+
+type DutchAuction = Pick<
+  Auction,
+  | 'startingBid'
+  | 'startTime'
+  | 'dutchFloorPrice'
+  | 'dutchPriceStep'
+  | 'dutchStepIntervalSeconds'
+>;
 
 @Injectable()
 export class AuctionsService {
+  private readonly logger = new Logger(AuctionsService.name);
+
   constructor(
     @InjectModel(Auction.name) private auctionModel: Model<AuctionDocument>,
+    @InjectModel(Bid.name) private bidModel: Model<BidDocument>,
+    private readonly redisService: RedisService,
+    private readonly rabbitmqService: RabbitmqService,
+    private readonly bidIncrementService: BidIncrementService,
+    private readonly configService: ConfigService,
+    private readonly creditService: CreditService,
+    private readonly savedSearchesService: SavedSearchesService,
+    private readonly webhooksService: WebhooksService,
   ) {}
 
-  async create(createAuctionDto: CreateAuctionDto): Promise<Auction> {
+  async create(
+    createAuctionDto: CreateAuctionDto,
+    sellerId: string,
+  ): Promise<Auction> {
     const startTime = new Date(createAuctionDto.startTime);
     const endTime = new Date(createAuctionDto.endTime);
     const now = new Date();
@@ -21,6 +67,13 @@ export class AuctionsService {
       throw new BadRequestException('Start time must be before end time');
     }
 
+    if (createAuctionDto.bidIncrements) {
+      this.bidIncrementService.validateTable(createAuctionDto.bidIncrements);
+    }
+
+    this.validateBuyNow(createAuctionDto);
+    this.validateDutch(createAuctionDto);
+
     // Allow auctions to start immediately for testing
     const shouldStartImmediately = startTime <= now;
     const status = shouldStartImmediately ? AuctionStatus.ACTIVE : AuctionStatus.PENDING;
@@ -31,9 +84,19 @@ export class AuctionsService {
       endTime,
       currentHighestBid: createAuctionDto.startingBid,
       status,
+      sellerId,
     });
 
-    return auction.save();
+    const saved = await auction.save();
+    await this.rabbitmqService.publishAuditLog({
+      action: AuditAction.AUCTION_CREATED,
+      userId: sellerId,
+      auctionId: String(saved._id),
+      success: true,
+      details: { title: saved.title, status, auctionType: saved.auctionType },
+    });
+    await this.alertSavedSearches(saved);
+    return saved;
   }
 
   async findAll(status?: AuctionStatus): Promise<Auction[]> {
@@ -41,6 +104,14 @@ export class AuctionsService {
     return this.auctionModel.find(filter).sort({ createdAt: -1 }).exec();
   }
 
+  async findBySeller(sellerId: string): Promise<Auction[]> {
+    return this.auctionModel
+      .find({ sellerId })
+      .select('+reservePrice')
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
   async findActive(): Promise<Auction[]> {
     const now = new Date();
     return this.auctionModel
@@ -72,8 +143,272 @@ export class AuctionsService {
     return auction;
   }
 
-  async update(id: string, updateAuctionDto: UpdateAuctionDto): Promise<Auction> {
+  private async findOneWithReserve(id: string): Promise<AuctionDocument> {
+    const auction = await this.auctionModel
+      .findById(id)
+      .select('+reservePrice')
+      .exec();
+    if (!auction) {
+      throw new NotFoundException('Auction not found');
+    }
+    return auction;
+  }
+
+  // Sellers manage only their own lots; admins manage every lot
+  async assertCanManage(
+    id: string,
+    user: { _id: unknown; roles?: UserRole[] },
+  ): Promise<void> {
     const auction = await this.findOne(id);
+    if (user.roles?.includes(UserRole.ADMIN)) {
+      return;
+    }
+    if (!auction.sellerId || auction.sellerId.toString() !== String(user._id)) {
+      throw new ForbiddenException(
+        'Only the seller or an admin can manage this auction',
+      );
+    }
+  }
+
+  // Bidders only ever see this flag, never the reserve amount itself
+  isReserveMet(
+    auction: Pick<Auction, 'reservePrice' | 'currentHighestBid' | 'bidCount'>,
+  ): boolean {
+    if (!auction.reservePrice) {
+      return true;
+    }
+    return (
+      auction.bidCount > 0 && auction.currentHighestBid >= auction.reservePrice
+    );
+  }
+
+  isSealed(auction: { auctionType?: AuctionType }): boolean {
+    return (
+      !!auction.auctionType &&
+      SEALED_AUCTION_TYPES.includes(auction.auctionType)
+    );
+  }
+
+  isDutch(auction: { auctionType?: AuctionType }): boolean {
+    return auction.auctionType === AuctionType.DUTCH;
+  }
+
+  // Dutch prices come from the server clock alone: the ceiling
+  // (startingBid) drops one step per interval since startTime, down to the
+  // floor. Clients only ever display what this returns.
+  getDutchPrice(auction: DutchAuction, now: Date = new Date()): number {
+    return Math.max(
+      auction.dutchFloorPrice!,
+      auction.startingBid -
+        this.getDutchStepsElapsed(auction, now) * auction.dutchPriceStep!,
+    );
+  }
+
+  getNextDutchPriceAt(
+    auction: DutchAuction,
+    now: Date = new Date(),
+  ): Date | null {
+    if (this.getDutchPrice(auction, now) <= auction.dutchFloorPrice!) {
+      return null;
+    }
+    const steps = this.getDutchStepsElapsed(auction, now);
+    return new Date(
+      auction.startTime.getTime() +
+        (steps + 1) * this.getDutchStepIntervalMs(auction),
+    );
+  }
+
+  private getDutchStepsElapsed(auction: DutchAuction, now: Date): number {
+    const elapsedMs = now.getTime() - auction.startTime.getTime();
+    return Math.max(
+      0,
+      Math.floor(elapsedMs / this.getDutchStepIntervalMs(auction)),
+    );
+  }
+
+  private getDutchStepIntervalMs(auction: DutchAuction): number {
+    const seconds =
+      auction.dutchStepIntervalSeconds ??
+      this.configService.get<number>('dutch.stepIntervalSeconds', 60);
+    return seconds * 1000;
+  }
+
+  private validateDutch(
+    auction: Pick<
+      CreateAuctionDto,
+      | 'auctionType'
+      | 'startingBid'
+      | 'reservePrice'
+      | 'dutchFloorPrice'
+      | 'dutchPriceStep'
+    >,
+  ): void {
+    if (!this.isDutch(auction)) {
+      return;
+    }
+
+    const { startingBid, reservePrice, dutchFloorPrice, dutchPriceStep } =
+      auction;
+
+    if (!dutchFloorPrice || !dutchPriceStep) {
+      throw new BadRequestException(
+        'Dutch auctions need a floor price and a price step',
+      );
+    }
+
+    if (dutchFloorPrice >= startingBid) {
+      throw new BadRequestException(
+        'Dutch floor price must be below the starting price',
+      );
+    }
+
+    // The floor already is the lowest acceptable price
+    if (reservePrice) {
+      throw new BadRequestException(
+        'Dutch auctions use their floor price instead of a reserve',
+      );
+    }
+  }
+
+  isBuyNowAvailable(
+    auction: Pick<
+      Auction,
+      'buyNowPrice' | 'buyNowBidThreshold' | 'currentHighestBid' | 'bidCount'
+    >,
+  ): boolean {
+    if (!auction.buyNowPrice) {
+      return false;
+    }
+    if (auction.bidCount === 0) {
+      return true;
+    }
+    if (auction.currentHighestBid >= auction.buyNowPrice) {
+      return false;
+    }
+    return (
+      !auction.buyNowBidThreshold ||
+      auction.currentHighestBid < auction.buyNowBidThreshold
+    );
+  }
+
+  private validateBuyNow(
+    auction: Pick<
+      CreateAuctionDto,
+      | 'auctionType'
+      | 'startingBid'
+      | 'reservePrice'
+      | 'buyNowPrice'
+      | 'buyNowBidThreshold'
+    >,
+  ): void {
+    const { startingBid, reservePrice, buyNowPrice, buyNowBidThreshold } =
+      auction;
+
+    if (!buyNowPrice) {
+      if (buyNowBidThreshold) {
+        throw new BadRequestException(
+          'Buy-it-now threshold requires a buy-it-now price',
+        );
+      }
+      return;
+    }
+
+    if (auction.auctionType && auction.auctionType !== AuctionType.ENGLISH) {
+      throw new BadRequestException(
+        'Buy-it-now is only available on open auctions',
+      );
+    }
+
+    if (buyNowPrice <= startingBid) {
+      throw new BadRequestException(
+        'Buy-it-now price must be above the starting bid',
+      );
+    }
+
+    // Taking buy-it-now always has to result in a sale
+    if (reservePrice && buyNowPrice < reservePrice) {
+      throw new BadRequestException(
+        'Buy-it-now price cannot be below the reserve price',
+      );
+    }
+
+    if (buyNowBidThreshold && buyNowBidThreshold >= buyNowPrice) {
+      throw new BadRequestException(
+        'Buy-it-now threshold must be below the buy-it-now price',
+      );
+    }
+  }
+
+  async checkReserveMet(id: string): Promise<boolean> {
+    return this.isReserveMet(await this.findOneWithReserve(id));
+  }
+
+  async lowerReservePrice(
+    id: string,
+    reservePrice: number,
+    actorId?: string,
+  ): Promise<Auction> {
+    const auction = await this.findOneWithReserve(id);
+
+    if (auction.status === AuctionStatus.ENDED) {
+      throw new BadRequestException(
+        'Cannot change the reserve of an ended auction',
+      );
+    }
+
+    if (!auction.reservePrice) {
+      throw new BadRequestException('Auction has no reserve price');
+    }
+
+    if (reservePrice >= auction.reservePrice) {
+      throw new BadRequestException('Reserve price can only be lowered');
+    }
+
+    // Guard on the old value so concurrent changes cannot raise it again
+    const updated = await this.auctionModel
+      .findOneAndUpdate(
+        {
+          _id: id,
+          status: { $ne: AuctionStatus.ENDED },
+          reservePrice: auction.reservePrice,
+        },
+        reservePrice > 0
+          ? { $set: { reservePrice } }
+          : { $unset: { reservePrice: 1 } },
+        { new: true },
+      )
+      .select('+reservePrice')
+      .exec();
+
+    if (!updated) {
+      throw new ConflictException('Auction changed, please try again');
+    }
+
+    await this.redisService.invalidateAuctionCache(id);
+    await this.redisService.publishAuctionEvent(id, 'RESERVE_UPDATED', {
+      auctionId: id,
+      reserveLowered: true,
+      reserveMet: this.isReserveMet(updated),
+    });
+
+    await this.rabbitmqService.publishAuditLog({
+      action: AuditAction.AUCTION_RESERVE_LOWERED,
+      userId: actorId,
+      auctionId: id,
+      success: true,
+      details: { from: auction.reservePrice, to: reservePrice },
+    });
+
+    this.logger.log(`Reserve price lowered for auction ${id}`);
+    return updated;
+  }
+
+  async update(
+    id: string,
+    updateAuctionDto: UpdateAuctionDto,
+    actorId?: string,
+  ): Promise<Auction> {
+    const auction = await this.findOneWithReserve(id);
     
     if (auction.status === AuctionStatus.ACTIVE) {
       throw new BadRequestException('Cannot update active auction');
@@ -83,6 +418,27 @@ export class AuctionsService {
       throw new BadRequestException('Cannot update ended auction');
     }
 
+    if (updateAuctionDto.bidIncrements) {
+      this.bidIncrementService.validateTable(updateAuctionDto.bidIncrements);
+    }
+
+    this.validateBuyNow({
+      auctionType: updateAuctionDto.auctionType ?? auction.auctionType,
+      startingBid: updateAuctionDto.startingBid ?? auction.startingBid,
+      reservePrice: updateAuctionDto.reservePrice ?? auction.reservePrice,
+      buyNowPrice: updateAuctionDto.buyNowPrice ?? auction.buyNowPrice,
+      buyNowBidThreshold:
+        updateAuctionDto.buyNowBidThreshold ?? auction.buyNowBidThreshold,
+    });
+    this.validateDutch({
+      auctionType: updateAuctionDto.auctionType ?? auction.auctionType,
+      startingBid: updateAuctionDto.startingBid ?? auction.startingBid,
+      reservePrice: updateAuctionDto.reservePrice ?? auction.reservePrice,
+      dutchFloorPrice:
+        updateAuctionDto.dutchFloorPrice ?? auction.dutchFloorPrice,
+      dutchPriceStep: updateAuctionDto.dutchPriceStep ?? auction.dutchPriceStep,
+    });
+
     const updated = await this.auctionModel
       .findByIdAndUpdate(id, updateAuctionDto, { new: true })
       .exec();
@@ -91,10 +447,18 @@ export class AuctionsService {
       throw new NotFoundException('Auction not found');
     }
 
+    await this.rabbitmqService.publishAuditLog({
+      action: AuditAction.AUCTION_UPDATED,
+      userId: actorId,
+      auctionId: id,
+      success: true,
+      details: { fields: Object.keys(updateAuctionDto) },
+    });
+
     return updated;
   }
 
-  async remove(id: string): Promise<void> {
+  async remove(id: string, actorId?: string): Promise<void> {
     const auction = await this.findOne(id);
     
     if (auction.status === AuctionStatus.ACTIVE) {
@@ -105,6 +469,68 @@ export class AuctionsService {
     if (result.deletedCount === 0) {
       throw new NotFoundException('Auction not found');
     }
+
+    await this.rabbitmqService.publishAuditLog({
+      action: AuditAction.AUCTION_DELETED,
+      userId: actorId,
+      auctionId: id,
+      success: true,
+      details: { title: auction.title, status: auction.status },
+    });
+  }
+
+  async findDueToStart(now: Date = new Date()): Promise<AuctionDocument[]> {
+    return this.auctionModel
+      .find({ status: AuctionStatus.PENDING, startTime: { $lte: now } })
+      .sort({ startTime: 1 })
+      .exec();
+  }
+
+  async findDueToEnd(now: Date = new Date()): Promise<AuctionDocument[]> {
+    return this.auctionModel
+      .find({ status: AuctionStatus.ACTIVE, endTime: { $lte: now } })
+      .sort({ endTime: 1 })
+      .exec();
+  }
+
+  async findActiveDutch(): Promise<AuctionDocument[]> {
+    return this.auctionModel
+      .find({ status: AuctionStatus.ACTIVE, auctionType: AuctionType.DUTCH })
+      .exec();
+  }
+
+  // Stores and broadcasts the Dutch price once it has dropped. Prices only
+  // ever fall, so the conditional update lets a single scheduler instance
+  // announce each step.
+  async publishDutchPrice(
+    auction: AuctionDocument,
+    now: Date = new Date(),
+  ): Promise<void> {
+    const id = String(auction._id);
+    const price = this.getDutchPrice(auction, now);
+
+    const updated = await this.auctionModel
+      .findOneAndUpdate(
+        {
+          _id: id,
+          status: AuctionStatus.ACTIVE,
+          currentHighestBid: { $gt: price },
+        },
+        { $set: { currentHighestBid: price } },
+        { new: true },
+      )
+      .exec();
+
+    if (!updated) {
+      return;
+    }
+
+    await this.redisService.invalidateAuctionCache(id);
+    await this.redisService.publishAuctionEvent(id, 'PRICE_DROPPED', {
+      auctionId: id,
+      currentHighestBid: price,
+      nextPriceAt: this.getNextDutchPriceAt(updated, now),
+    });
   }
 
   async startAuction(id: string): Promise<Auction> {
@@ -119,57 +545,307 @@ export class AuctionsService {
       throw new BadRequestException('Auction start time has not arrived yet');
     }
 
-    auction.status = AuctionStatus.ACTIVE;
-    return auction.save();
+    // Conditional update so that only one caller (REST or any scheduler
+    // instance) wins the PENDING -> ACTIVE transition
+    const started = await this.auctionModel
+      .findOneAndUpdate(
+        { _id: id, status: AuctionStatus.PENDING },
+        { $set: { status: AuctionStatus.ACTIVE } },
+        { new: true },
+      )
+      .exec();
+
+    if (!started) {
+      throw new ConflictException('Auction has already been started');
+    }
+
+    await this.redisService.invalidateAuctionCache(id);
+    await this.redisService.publishAuctionEvent(id, 'AUCTION_STARTED', {
+      auctionId: id,
+      status: started.status,
+      startTime: started.startTime,
+      endTime: started.endTime,
+    });
+
+    await this.webhooksService.emit(
+      WebhookEvent.AUCTION_STARTED,
+      { userIds: [started.sellerId?.toString()] },
+      {
+        auctionId: id,
+        title: started.title,
+        startTime: started.startTime,
+        endTime: started.endTime,
+        startingBid: started.startingBid,
+      },
+    );
+
+    this.logger.log(`Auction ${id} started`);
+    await this.alertSavedSearches(started);
+    return started;
   }
 
-  async endAuction(id: string, winnerId?: string): Promise<Auction> {
-    const auction = await this.findOne(id);
+  // Alerts are a side effect; a failure must not fail the listing or start
+  private async alertSavedSearches(auction: AuctionDocument): Promise<void> {
+    try {
+      await this.savedSearchesService.alertMatches(auction);
+    } catch (error) {
+      this.logger.error(
+        `Saved search alerts for auction ${String(auction._id)} failed:`,
+        error,
+      );
+    }
+  }
 
-    if (auction.status !== AuctionStatus.ACTIVE) {
-      throw new BadRequestException('Only active auctions can be ended');
+  async endAuction(id: string, dueBy?: Date): Promise<Auction> {
+    // Share the bid processor's lock so no bid is accepted while closing
+    const lockKey = `bid-processing:${id}`;
+    const lockAcquired = await this.redisService.acquireLock(lockKey, 10000);
+    if (!lockAcquired) {
+      throw new ConflictException('Auction is busy, please try again');
     }
 
-    auction.status = AuctionStatus.ENDED;
-    if (winnerId) {
-      auction.winnerId = winnerId as any;
+    try {
+      const auction = await this.findOneWithReserve(id);
+
+      if (auction.status !== AuctionStatus.ACTIVE) {
+        throw new BadRequestException('Only active auctions can be ended');
+      }
+
+      // A late bid may have extended the auction since it was picked up
+      if (dueBy && auction.endTime > dueBy) {
+        throw new BadRequestException('Auction end time has been extended');
+      }
+
+      return await this.closeAuction(auction);
+    } finally {
+      await this.redisService.releaseLock(lockKey);
     }
-    
-    return auction.save();
   }
 
-  async updateHighestBid(id: string, bidAmount: number, winnerId: string): Promise<Auction> {
-    const auction = await this.auctionModel
-      .findByIdAndUpdate(
-        id,
+  // Settles an active auction on its highest accepted bid. Caller must hold
+  // the auction lock.
+  async closeAuction(
+    auction: AuctionDocument,
+    boughtNow = false,
+  ): Promise<AuctionDocument> {
+    const id = String(auction._id);
+
+    const winningBid = await this.bidModel
+      .findOne({ auctionId: id, status: BidStatus.ACCEPTED })
+      .sort({ bidAmount: -1, timestamp: 1 })
+      .exec();
+
+    let outcome = AuctionOutcome.NO_BIDS;
+    if (winningBid) {
+      outcome =
+        winningBid.bidAmount >= (auction.reservePrice || 0)
+          ? AuctionOutcome.SOLD
+          : AuctionOutcome.RESERVE_NOT_MET;
+    }
+
+    const sold = outcome === AuctionOutcome.SOLD;
+    const sealed = this.isSealed(auction);
+    const winnerOrganizationId = sold ? winningBid!.organizationId : undefined;
+
+    // winnerId tracks the leader while live; only a sale keeps it, and the
+    // organization the winning bid was placed for follows it
+    const ended = await this.auctionModel
+      .findOneAndUpdate(
+        { _id: id, status: AuctionStatus.ACTIVE },
         {
           $set: {
-            currentHighestBid: bidAmount,
-            winnerId: winnerId,
+            status: AuctionStatus.ENDED,
+            outcome,
+            ...(sold && {
+              winnerId: winningBid!.userId,
+              clearingPrice: await this.getClearingPrice(auction, winningBid!),
+            }),
+            ...(winnerOrganizationId && { winnerOrganizationId }),
+            // Sealed amounts are only revealed once the auction is over
+            ...(sealed &&
+              winningBid && { currentHighestBid: winningBid.bidAmount }),
+            // Buy-it-now and Dutch acceptances close the auction on the spot
+            ...(boughtNow && { endTime: new Date() }),
           },
-          $inc: { bidCount: 1 },
+          ...(!winnerOrganizationId && {
+            $unset: { ...(!sold && { winnerId: 1 }), winnerOrganizationId: 1 },
+          }),
         },
-        { new: true }
+        { new: true },
       )
       .exec();
 
-    if (!auction) {
-      throw new NotFoundException('Auction not found');
+    if (!ended) {
+      throw new ConflictException('Auction has already been ended');
     }
 
-    return auction;
+    if (sealed && winningBid) {
+      await this.bidModel.updateOne(
+        { _id: winningBid._id },
+        { isWinning: true },
+      );
+    }
+
+    // Personal credit held by the winning bid is settled, the rest released
+    await this.creditService.settleAuction(
+      id,
+      sold && !winnerOrganizationId ? winningBid!.userId.toString() : undefined,
+    );
+
+    await this.publishAuctionEnded(ended, winningBid, outcome, boughtNow);
+
+    this.logger.log(
+      `Auction ${id} ended${boughtNow ? ' by instant sale' : ''}`,
+    );
+    return ended;
   }
 
-  async getAuctionStats(id: string): Promise<any> {
+  // Open and first-price auctions clear at the winning bid. Second-price
+  // auctions clear one increment above the runner-up, or at the reserve or
+  // starting bid when unopposed, but never above what the winner bid.
+  private async getClearingPrice(
+    auction: AuctionDocument,
+    winningBid: BidDocument,
+  ): Promise<number> {
+    if (auction.auctionType !== AuctionType.SEALED_SECOND_PRICE) {
+      return winningBid.bidAmount;
+    }
+
+    const runnerUp = await this.bidModel
+      .findOne({
+        auctionId: auction._id,
+        status: BidStatus.ACCEPTED,
+        _id: { $ne: winningBid._id },
+      })
+      .sort({ bidAmount: -1, timestamp: 1 })
+      .exec();
+
+    const floor = Math.max(auction.startingBid, auction.reservePrice || 0);
+    const price = runnerUp
+      ? runnerUp.bidAmount +
+        this.bidIncrementService.getIncrement(auction, runnerUp.bidAmount)
+      : floor;
+    return Math.min(winningBid.bidAmount, Math.max(price, floor));
+  }
+
+  private async publishAuctionEnded(
+    auction: AuctionDocument,
+    winningBid: BidDocument | null,
+    outcome: AuctionOutcome,
+    boughtNow = false,
+  ): Promise<void> {
+    const auctionId = String(auction._id);
+    const sold = outcome === AuctionOutcome.SOLD;
+    const winnerId = sold ? winningBid!.userId.toString() : undefined;
+
+    await this.redisService.invalidateAuctionCache(auctionId);
+    await this.redisService.publishAuctionEvent(auctionId, 'AUCTION_ENDED', {
+      auctionId,
+      outcome,
+      reserveMet: outcome !== AuctionOutcome.RESERVE_NOT_MET,
+      winnerId,
+      winnerOrganizationId: auction.winnerOrganizationId?.toString(),
+      winningBid: sold ? auction.clearingPrice : undefined,
+      highestBid: winningBid?.bidAmount,
+      auctionType: auction.auctionType,
+      boughtNow,
+    });
+
+    if (outcome === AuctionOutcome.RESERVE_NOT_MET) {
+      await this.rabbitmqService.publishNotification({
+        type: 'RESERVE_NOT_MET',
+        userId: winningBid!.userId.toString(),
+        auctionId,
+        message: `"${auction.title}" closed without a sale: the reserve price was not met`,
+        data: {
+          bidId: winningBid!._id,
+          bidAmount: winningBid!.bidAmount,
+          auctionTitle: auction.title,
+        },
+      });
+    }
+
+    if (sold) {
+      await this.rabbitmqService.publishNotification({
+        type: 'AUCTION_WON',
+        userId: winnerId,
+        auctionId,
+        message: boughtNow
+          ? `Congratulations! You bought "${auction.title}" for $${winningBid!.bidAmount.toLocaleString()}`
+          : auction.clearingPrice !== winningBid!.bidAmount
+            ? `Congratulations! You won "${auction.title}" with a bid of $${winningBid!.bidAmount.toLocaleString()} and pay $${auction.clearingPrice!.toLocaleString()}`
+            : `Congratulations! You won "${auction.title}" with a bid of $${winningBid!.bidAmount.toLocaleString()}`,
+        data: {
+          bidId: winningBid!._id,
+          bidAmount: winningBid!.bidAmount,
+          clearingPrice: auction.clearingPrice,
+          boughtNow,
+          auctionTitle: auction.title,
+        },
+      });
+    }
+
+    // The seller hears every close; the buyer, and the organization they
+    // bought for, also hear the win
+    const winnerOrganizationId = auction.winnerOrganizationId?.toString();
+    const result = {
+      auctionId,
+      title: auction.title,
+      outcome,
+      winnerId,
+      winnerOrganizationId,
+      clearingPrice: sold ? auction.clearingPrice : undefined,
+      highestBid: winningBid?.bidAmount,
+      boughtNow,
+    };
+    await this.webhooksService.emit(
+      WebhookEvent.AUCTION_ENDED,
+      {
+        userIds: [auction.sellerId?.toString(), winnerId],
+        organizationIds: [winnerOrganizationId],
+      },
+      result,
+    );
+    if (sold) {
+      await this.webhooksService.emit(
+        WebhookEvent.AUCTION_WON,
+        { userIds: [winnerId], organizationIds: [winnerOrganizationId] },
+        { ...result, bidId: String(winningBid!._id) },
+      );
+    }
+  }
+
+  async getNextMinimumBid(id: string) {
     const auction = await this.findOne(id);
+    const nextMinimum = this.bidIncrementService.getNextMinimum(auction);
+
+    return {
+      auctionId: id,
+      currentHighestBid: auction.currentHighestBid,
+      bidCount: auction.bidCount,
+      increment: this.bidIncrementService.getIncrement(auction, nextMinimum),
+      nextMinimum,
+    };
+  }
+
+  async getAuctionStats(id: string): Promise<any> {
+    const auction = await this.findOneWithReserve(id);
     const now = new Date();
     
     return {
       id: auction._id,
       title: auction.title,
+      auctionType: auction.auctionType,
       status: auction.status,
       currentHighestBid: auction.currentHighestBid,
       bidCount: auction.bidCount,
+      reserveMet: this.isReserveMet(auction),
+      outcome: auction.outcome,
+      ...(this.isDutch(auction) &&
+        auction.status === AuctionStatus.ACTIVE && {
+          currentPrice: this.getDutchPrice(auction, now),
+          nextPriceAt: this.getNextDutchPriceAt(auction, now),
+        }),
       timeRemaining: auction.endTime.getTime() - now.getTime(),
       isActive: auction.status === AuctionStatus.ACTIVE && auction.endTime > now,
     };
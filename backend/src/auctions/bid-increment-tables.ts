@@ -0,0 +1,19 @@
+import { IBidIncrementTier } from '../common/interfaces/auction.interface';
+
+// Named increment tables an auction can opt into with `incrementTable`.
+// Tiers are ordered by `upTo`; the last tier has no upper bound.
+export const BID_INCREMENT_TABLES: Record<string, IBidIncrementTier[]> = {
+  standard: [
+    { upTo: 10000, increment: 100 },
+    { upTo: 50000, increment: 250 },
+    { upTo: 100000, increment: 500 },
+    { upTo: 250000, increment: 1000 },
+    { increment: 2500 },
+  ],
+  flat: [{ increment: 100 }],
+  premium: [
+    { upTo: 100000, increment: 1000 },
+    { upTo: 500000, increment: 2500 },
+    { increment: 5000 },
+  ],
+};
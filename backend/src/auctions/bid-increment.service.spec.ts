@@ -0,0 +1,104 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BidIncrementService } from './bid-increment.service';
+import { AuctionType } from '../common/enums/auction.enum';
+
+const createService = (defaultTable?: string) =>
+  new BidIncrementService({
+    get: (_key: string, fallback?: unknown) => defaultTable ?? fallback,
+  } as unknown as ConfigService);
+
+const auction = (fields: Record<string, any> = {}) => ({
+  auctionType: AuctionType.ENGLISH,
+  startingBid: 1000,
+  currentHighestBid: 1000,
+  bidCount: 1,
+  ...fields,
+});
+
+describe('BidIncrementService', () => {
+  // Each tier covers prices below its upTo, so the boundary belongs to the
+  // next tier up
+  it.each([
+    [0, 100],
+    [9999, 100],
+    [10000, 250],
+    [49999, 250],
+    [50000, 500],
+    [99999, 500],
+    [100000, 1000],
+    [249999, 1000],
+    [250000, 2500],
+    [10_000_000, 2500],
+  ])('at a price of %s uses an increment of %s', (price, increment) => {
+    expect(createService().getIncrement(auction(), price)).toBe(increment);
+  });
+
+  it('takes the next minimum from the tier of the current bid', () => {
+    const service = createService();
+
+    expect(service.getNextMinimum(auction({ currentHighestBid: 9900 }))).toBe(
+      10000,
+    );
+    expect(service.getNextMinimum(auction({ currentHighestBid: 10000 }))).toBe(
+      10250,
+    );
+  });
+
+  it('lets the opening bid and sealed bids match the starting bid', () => {
+    const service = createService();
+
+    expect(service.getNextMinimum(auction({ bidCount: 0 }))).toBe(1000);
+    expect(
+      service.getNextMinimum(
+        auction({
+          auctionType: AuctionType.SEALED_SECOND_PRICE,
+          currentHighestBid: 5000,
+          bidCount: 3,
+        }),
+      ),
+    ).toBe(1000);
+  });
+
+  it("prefers the auction's own tiers, then its named table, then the default", () => {
+    const own = auction({
+      incrementTable: 'premium',
+      bidIncrements: [{ upTo: 2000, increment: 50 }, { increment: 75 }],
+    });
+
+    expect(createService().getIncrement(own, 1999)).toBe(50);
+    expect(createService().getIncrement(own, 2000)).toBe(75);
+    expect(
+      createService().getIncrement(auction({ incrementTable: 'premium' }), 0),
+    ).toBe(1000);
+    expect(createService('flat').getIncrement(auction(), 300000)).toBe(100);
+    expect(createService('missing').getIncrement(auction(), 10000)).toBe(250);
+  });
+
+  it('rejects a bid below the next minimum', () => {
+    const service = createService();
+    const current = auction({ currentHighestBid: 10000 });
+
+    expect(() => service.validateBidAmount(current, 10249)).toThrow(
+      new BadRequestException('Bid must be at least $10250'),
+    );
+    expect(() => service.validateBidAmount(current, 10250)).not.toThrow();
+  });
+
+  it('accepts only ascending tiers with an open-ended last tier', () => {
+    const service = createService();
+
+    expect(() =>
+      service.validateTable([{ upTo: 1000, increment: 10 }, { increment: 50 }]),
+    ).not.toThrow();
+    expect(() =>
+      service.validateTable([{ increment: 10 }, { upTo: 1000, increment: 50 }]),
+    ).toThrow('Only the last increment tier may omit upTo');
+    expect(() =>
+      service.validateTable([
+        { upTo: 1000, increment: 10 },
+        { upTo: 1000, increment: 50 },
+      ]),
+    ).toThrow('Increment tiers must be in ascending upTo order');
+  });
+});
@@ -0,0 +1,88 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Auction } from '../database/schemas/auction.schema';
+import { IBidIncrementTier } from '../common/interfaces/auction.interface';
+import { BID_INCREMENT_TABLES } from './bid-increment-tables';
+import { SEALED_AUCTION_TYPES } from '../common/enums/auction.enum';
+
+type IncrementAuction = Pick<
+  Auction,
+  | 'auctionType'
+  | 'startingBid'
+  | 'currentHighestBid'
+  | 'bidCount'
+  | 'bidIncrements'
+  | 'incrementTable'
+>;
+
+// Single source of truth for minimum bids, shared by the REST path, the
+// queue processor and the next-minimum endpoint
+@Injectable()
+export class BidIncrementService {
+  constructor(private readonly configService: ConfigService) {}
+
+  getTable(
+    auction: Pick<IncrementAuction, 'bidIncrements' | 'incrementTable'>,
+  ) {
+    if (auction.bidIncrements?.length) {
+      return auction.bidIncrements;
+    }
+
+    const tableName =
+      auction.incrementTable ||
+      this.configService.get<string>('bidIncrements.defaultTable', 'standard');
+    return BID_INCREMENT_TABLES[tableName] ?? BID_INCREMENT_TABLES.standard;
+  }
+
+  getIncrement(auction: IncrementAuction, price: number): number {
+    const table = this.getTable(auction);
+    const tier =
+      table.find((entry) => entry.upTo === undefined || price < entry.upTo) ??
+      table[table.length - 1];
+    return tier.increment;
+  }
+
+  // The opening bid may match the starting bid; after that each bid must
+  // beat the current one by the increment for its price band. Sealed bids
+  // never see each other, so they only have to cover the starting bid.
+  getNextMinimum(auction: IncrementAuction): number {
+    if (
+      !auction.bidCount ||
+      SEALED_AUCTION_TYPES.includes(auction.auctionType)
+    ) {
+      return auction.startingBid;
+    }
+    return (
+      auction.currentHighestBid +
+      this.getIncrement(auction, auction.currentHighestBid)
+    );
+  }
+
+  validateBidAmount(auction: IncrementAuction, bidAmount: number): void {
+    const nextMinimum = this.getNextMinimum(auction);
+    if (bidAmount < nextMinimum) {
+      throw new BadRequestException(`Bid must be at least $${nextMinimum}`);
+    }
+  }
+
+  validateTable(tiers: IBidIncrementTier[]): void {
+    tiers.forEach((tier, index) => {
+      const isLast = index === tiers.length - 1;
+      if (!isLast && tier.upTo === undefined) {
+        throw new BadRequestException(
+          'Only the last increment tier may omit upTo',
+        );
+      }
+      const previous = tiers[index - 1];
+      if (
+        previous?.upTo !== undefined &&
+        tier.upTo !== undefined &&
+        tier.upTo <= previous.upTo
+      ) {
+        throw new BadRequestException(
+          'Increment tiers must be in ascending upTo order',
+        );
+      }
+    });
+  }
+}
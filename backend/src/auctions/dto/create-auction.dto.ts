@@ -1,4 +1,30 @@
-import { IsString, IsNumber, IsDateString, MinLength, Min } from 'class-validator';
+import {
+  IsString,
+  IsNumber,
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  ArrayMinSize,
+  ValidateNested,
+  MinLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { BID_INCREMENT_TABLES } from '../bid-increment-tables';
+import { AuctionType } from '../../common/enums/auction.enum';
+
+export class BidIncrementTierDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  upTo?: number;
+
+  @IsNumber()
+  @Min(1)
+  increment: number;
+}
 
 export class CreateAuctionDto {
   @IsString()
@@ -13,6 +39,10 @@ export class CreateAuctionDto {
   @MinLength(10)
   description: string;
 
+  @IsOptional()
+  @IsEnum(AuctionType)
+  auctionType?: AuctionType;
+
   @IsDateString()
   startTime: string;
 
@@ -22,4 +52,64 @@ export class CreateAuctionDto {
   @IsNumber()
   @Min(1)
   startingBid: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  reservePrice?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  buyNowPrice?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  buyNowBidThreshold?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  stepUpBidThreshold?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  dutchFloorPrice?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  dutchPriceStep?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  dutchStepIntervalSeconds?: number;
+
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @ArrayMinSize(1)
+  @Type(() => BidIncrementTierDto)
+  bidIncrements?: BidIncrementTierDto[];
+
+  @IsOptional()
+  @IsIn(Object.keys(BID_INCREMENT_TABLES))
+  incrementTable?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  softCloseWindowSeconds?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  softCloseExtensionSeconds?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxExtensions?: number;
 }
\ No newline at end of file
@@ -0,0 +1,8 @@
+import { IsNumber, Min } from 'class-validator';
+
+export class UpdateReservePriceDto {
+  // 0 removes the reserve
+  @IsNumber()
+  @Min(0)
+  reservePrice: number;
+}
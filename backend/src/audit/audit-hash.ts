@@ -0,0 +1,59 @@
+import { createHash } from 'crypto';
+
+// The first entry chains from this instead of a previous hash
+export const GENESIS_HASH = '0'.repeat(64);
+
+export interface AuditHashInput {
+  sequence: number;
+  action: string;
+  userId?: string | null;
+  auctionId?: string | null;
+  success?: boolean | null;
+  details?: Record<string, any> | null;
+  occurredAt: Date;
+}
+
+// SHA-256 over the previous hash and a canonical JSON form of the entry,
+// with object keys sorted so the result does not depend on the order
+// Mongo hands fields back in
+export function hashAuditEntry(
+  previousHash: string,
+  entry: AuditHashInput,
+): string {
+  const body = canonicalJson({
+    sequence: entry.sequence,
+    action: entry.action,
+    userId: entry.userId ?? null,
+    auctionId: entry.auctionId ?? null,
+    success: entry.success ?? null,
+    details: entry.details ?? {},
+    occurredAt: entry.occurredAt.toISOString(),
+  });
+  return createHash('sha256').update(`${previousHash}.${body}`).digest('hex');
+}
+
+// Reduces details to plain JSON before they are hashed and stored, so ids,
+// dates and class instances hash the same once read back
+export function toAuditDetails(details: unknown): Record<string, any> {
+  if (!details || typeof details !== 'object') {
+    return {};
+  }
+  return JSON.parse(JSON.stringify(details)) as Record<string, any>;
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const fields = Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`,
+      );
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
@@ -0,0 +1,37 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { AuditService } from './audit.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../common/enums/auction.enum';
+
+@Controller('audit')
+@UseGuards(ThrottlerGuard, JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  // Newest first; from and to bound when the action happened
+  @Get()
+  find(
+    @Query('auctionId') auctionId?: string,
+    @Query('userId') userId?: string,
+    @Query('action') action?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+  ) {
+    return this.auditService.find(
+      { auctionId, userId, action, from, to },
+      page,
+      limit,
+    );
+  }
+
+  @Get('verify')
+  verifyChain() {
+    return this.auditService.verifyChain();
+  }
+}
@@ -0,0 +1,128 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { AuditService } from './audit.service';
+import { AuditEntry } from '../database/schemas/audit-entry.schema';
+import { RabbitmqService } from '../rabbitmq/rabbitmq-simple.service';
+import { AuditAction } from '../common/enums/auction.enum';
+
+interface StoredEntry {
+  sequence: number;
+  hash: string;
+  previousHash: string | null;
+  details: Record<string, unknown>;
+  [field: string]: unknown;
+}
+
+// In-memory collection with the unique sequence index and just the
+// queries the service makes
+function createEntries() {
+  const entries: StoredEntry[] = [];
+  const bySequence = () => [...entries].sort((a, b) => a.sequence - b.sequence);
+  const query = <T>(value: () => T) => {
+    const chain = {
+      sort: () => chain,
+      select: () => chain,
+      limit: (count: number) => {
+        const current = value();
+        return query(() => (current as unknown[]).slice(0, count));
+      },
+      exec: () => Promise.resolve(value()),
+    };
+    return chain;
+  };
+
+  const model = {
+    findOne: () => query(() => bySequence().at(-1) ?? null),
+    find: (filter: { sequence: { $gte: number } }) =>
+      query(() =>
+        bySequence().filter((entry) => entry.sequence >= filter.sequence.$gte),
+      ),
+    create: jest.fn((doc: Record<string, any>) => {
+      if (entries.some((entry) => entry.sequence === doc.sequence)) {
+        return Promise.reject(
+          Object.assign(new Error('duplicate key'), { code: 11000 }),
+        );
+      }
+      const entry = structuredClone(doc) as StoredEntry;
+      entries.push(entry);
+      return Promise.resolve(entry);
+    }),
+  };
+
+  return { entries, model };
+}
+
+async function createService(model: Record<string, any>) {
+  const module = await Test.createTestingModule({
+    providers: [
+      AuditService,
+      { provide: getModelToken(AuditEntry.name), useValue: model },
+      {
+        provide: RabbitmqService,
+        useValue: { startAuditConsumer: () => Promise.resolve() },
+      },
+    ],
+  }).compile();
+
+  return module.get(AuditService);
+}
+
+const bidPlaced = (bidAmount: number) => ({
+  action: AuditAction.BID_PLACED,
+  auctionId: 'auction-1',
+  userId: 'bidder-1',
+  success: true,
+  details: { bidAmount },
+  timestamp: new Date(2026, 0, 1, 12, 0, bidAmount % 60).toISOString(),
+});
+
+describe('AuditService', () => {
+  it('chains entries and finds the first one tampered with or removed', async () => {
+    const { entries, model } = createEntries();
+    const service = await createService(model);
+
+    await service.record(bidPlaced(100));
+    await service.record(bidPlaced(200));
+    await service.record(bidPlaced(300));
+
+    expect(entries.map((entry) => entry.sequence)).toEqual([1, 2, 3]);
+    expect(entries[1].previousHash).toBe(entries[0].hash);
+    await expect(service.verifyChain()).resolves.toEqual({
+      valid: true,
+      checked: 3,
+      headSequence: 3,
+      headHash: entries[2].hash,
+    });
+
+    entries[1].details.bidAmount = 150;
+    await expect(service.verifyChain()).resolves.toMatchObject({
+      valid: false,
+      checked: 1,
+      firstInvalid: { sequence: 2, reason: 'Contents do not match the hash' },
+    });
+
+    entries.splice(1, 1);
+    await expect(service.verifyChain()).resolves.toMatchObject({
+      valid: false,
+      firstInvalid: { sequence: 2, reason: 'Entry 2 is missing' },
+    });
+  });
+
+  it('chains onto the entry another instance appended first', async () => {
+    const { entries, model } = createEntries();
+    const first = await createService(model);
+    const second = await createService(model);
+
+    await Promise.all([
+      first.record(bidPlaced(100)),
+      second.record(bidPlaced(200)),
+    ]);
+
+    expect(model.create).toHaveBeenCalledTimes(3);
+    expect(entries.map((entry) => entry.sequence)).toEqual([1, 2]);
+    await expect(first.verifyChain()).resolves.toMatchObject({
+      valid: true,
+      checked: 2,
+    });
+  });
+});
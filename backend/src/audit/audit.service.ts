@@ -0,0 +1,206 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  AuditEntry,
+  AuditEntryDocument,
+} from '../database/schemas/audit-entry.schema';
+import { RabbitmqService } from '../rabbitmq/rabbitmq-simple.service';
+import { GENESIS_HASH, hashAuditEntry, toAuditDetails } from './audit-hash';
+
+// As published through RabbitmqService.publishAuditLog
+export interface AuditLogMessage {
+  action: string;
+  userId?: string;
+  auctionId?: string;
+  success?: boolean;
+  details?: unknown;
+  timestamp?: string;
+}
+
+export interface AuditFilters {
+  auctionId?: string;
+  userId?: string;
+  action?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  // Record these somewhere else: cutting entries off the end of the chain
+  // can only be noticed against a head seen before
+  headSequence: number;
+  headHash: string;
+  firstInvalid?: { sequence: number; reason: string };
+}
+
+// Appends beyond this many lost races mean something is badly wrong
+const MAX_APPEND_ATTEMPTS = 10;
+const VERIFY_BATCH_SIZE = 500;
+
+// Consumes the audit-logs queue into a hash chain in Mongo. Each entry
+// hashes the one before it, so verifyChain finds any entry edited,
+// removed or inserted after the fact.
+@Injectable()
+export class AuditService implements OnModuleInit {
+  private readonly logger = new Logger(AuditService.name);
+  // Appends from this process run one at a time; other instances are kept
+  // apart by the unique sequence index
+  private appending: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    @InjectModel(AuditEntry.name)
+    private auditEntryModel: Model<AuditEntryDocument>,
+    private readonly rabbitmqService: RabbitmqService,
+  ) {}
+
+  async onModuleInit() {
+    await this.rabbitmqService.startAuditConsumer((log: AuditLogMessage) =>
+      this.record(log).then(() => undefined),
+    );
+  }
+
+  record(log: AuditLogMessage): Promise<AuditEntryDocument> {
+    const appended = this.appending.then(() => this.append(log));
+    this.appending = appended.catch(() => undefined);
+    return appended;
+  }
+
+  async find(filters: AuditFilters, page: number = 1, limit: number = 50) {
+    page = Math.max(page, 1);
+    limit = Math.min(Math.max(limit, 1), 100);
+    const from = this.parseDate(filters.from, 'from');
+    const to = this.parseDate(filters.to, 'to');
+    const filter = {
+      ...(filters.auctionId && { auctionId: filters.auctionId }),
+      ...(filters.userId && { userId: filters.userId }),
+      ...(filters.action && { action: filters.action }),
+      ...((from || to) && {
+        occurredAt: { ...(from && { $gte: from }), ...(to && { $lte: to }) },
+      }),
+    };
+
+    const [entries, total] = await Promise.all([
+      this.auditEntryModel
+        .find(filter)
+        .sort({ occurredAt: -1, sequence: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.auditEntryModel.countDocuments(filter),
+    ]);
+
+    return {
+      entries,
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  // Walks the whole chain in sequence order and stops at the first break
+  async verifyChain(): Promise<AuditChainVerification> {
+    let previousHash = GENESIS_HASH;
+    let expected = 1;
+    let checked = 0;
+
+    for (;;) {
+      const batch = await this.auditEntryModel
+        .find({ sequence: { $gte: expected } })
+        .sort({ sequence: 1 })
+        .limit(VERIFY_BATCH_SIZE)
+        .exec();
+
+      for (const entry of batch) {
+        const reason =
+          entry.sequence !== expected
+            ? `Entry ${expected} is missing`
+            : entry.previousHash !== previousHash
+              ? 'Does not follow the previous entry'
+              : hashAuditEntry(previousHash, entry) !== entry.hash
+                ? 'Contents do not match the hash'
+                : null;
+        if (reason) {
+          this.logger.warn(`Audit chain broken at ${expected}: ${reason}`);
+          return {
+            valid: false,
+            checked,
+            headSequence: expected - 1,
+            headHash: previousHash,
+            firstInvalid: { sequence: expected, reason },
+          };
+        }
+
+        previousHash = entry.hash;
+        expected++;
+        checked++;
+      }
+
+      if (batch.length < VERIFY_BATCH_SIZE) {
+        return {
+          valid: true,
+          checked,
+          headSequence: expected - 1,
+          headHash: previousHash,
+        };
+      }
+    }
+  }
+
+  private async append(log: AuditLogMessage): Promise<AuditEntryDocument> {
+    const timestamp = log.timestamp ? new Date(log.timestamp) : new Date();
+    const fields = {
+      action: String(log.action),
+      ...(log.userId != null && { userId: String(log.userId) }),
+      ...(log.auctionId != null && { auctionId: String(log.auctionId) }),
+      ...(typeof log.success === 'boolean' && { success: log.success }),
+      details: toAuditDetails(log.details),
+      occurredAt: isNaN(timestamp.getTime()) ? new Date() : timestamp,
+    };
+
+    for (let attempt = 1; ; attempt++) {
+      const last = await this.auditEntryModel
+        .findOne()
+        .sort({ sequence: -1 })
+        .select('sequence hash')
+        .exec();
+      const sequence = (last?.sequence ?? 0) + 1;
+      const previousHash = last?.hash ?? GENESIS_HASH;
+
+      try {
+        return await this.auditEntryModel.create({
+          ...fields,
+          sequence,
+          previousHash,
+          hash: hashAuditEntry(previousHash, { ...fields, sequence }),
+        });
+      } catch (error) {
+        // Another instance appended first; chain onto its entry instead
+        if (
+          (error as { code?: number }).code !== 11000 ||
+          attempt >= MAX_APPEND_ATTEMPTS
+        ) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private parseDate(value: string | undefined, name: string): Date | undefined {
+    if (!value) {
+      return undefined;
+    }
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`${name} must be a date`);
+    }
+    return date;
+  }
+}
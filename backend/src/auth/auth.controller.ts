@@ -1,51 +1,261 @@
-import { 
-  Controller, 
-  Post, 
-  Body, 
-  UseGuards, 
+import {
+  Controller,
+  Post,
+  Body,
+  UseGuards,
   Request,
-  Get
+  Get,
+  Delete,
+  Param,
+  HttpCode,
+  HttpStatus,
 } from '@nestjs/common';
 import { ThrottlerGuard } from '@nestjs/throttler';
 import { AuthService } from './auth.service';
 import { LocalAuthGuard } from './guards/local-auth.guard';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
-import { AuthRateLimit } from '../common/guards/rate-limit.guard';
+import {
+  AuthRateLimit,
+  SignInRateLimit,
+} from '../common/guards/rate-limit.guard';
 import { LoginDto, RegisterDto } from './dto/login.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import { ForgotPasswordDto, ResetPasswordDto } from './dto/password-reset.dto';
+import { TwoFactorCodeDto, TwoFactorLoginDto } from './dto/two-factor.dto';
+import { ClearLockoutDto } from './dto/clear-lockout.dto';
+import { SwitchOrganizationDto } from './dto/switch-organization.dto';
+import { SessionClient } from './sessions.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { RolesGuard } from './guards/roles.guard';
+import { Roles } from './decorators/roles.decorator';
+import { UserRole } from '../common/enums/auction.enum';
+import type { Request as ExpressRequest } from 'express';
+import type { IAuthenticatedRequest } from '../common/interfaces/auction.interface';
+import type { UserDocument } from '../database/schemas/user.schema';
+
+// The parts of the request a new session records about the client
+type ClientRequest = Pick<ExpressRequest, 'headers' | 'ip'>;
 
 @Controller('auth')
 @UseGuards(ThrottlerGuard)
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly loginAttemptsService: LoginAttemptsService,
+  ) {}
 
   @Post('register')
   @AuthRateLimit()
-  async register(@Body() registerDto: RegisterDto) {
-    return this.authService.register(registerDto);
+  async register(
+    @Request() req: ClientRequest,
+    @Body() registerDto: RegisterDto,
+  ) {
+    return this.authService.register(registerDto, this.getClient(req));
   }
 
   @UseGuards(LocalAuthGuard)
   @Post('login')
+  @SignInRateLimit()
+  async login(
+    @Request() req: ClientRequest & { user: UserDocument },
+    @Body() loginDto: LoginDto,
+  ) {
+    return this.authService.login(req.user, this.getClient(req));
+  }
+
+  // Second step of the login for accounts with two-factor authentication
+  @Post('2fa/login')
+  @HttpCode(HttpStatus.OK)
+  @SignInRateLimit()
+  async completeTwoFactorLogin(
+    @Request() req: ClientRequest,
+    @Body() twoFactorLoginDto: TwoFactorLoginDto,
+  ) {
+    return this.authService.completeTwoFactorLogin(
+      twoFactorLoginDto.challengeToken,
+      twoFactorLoginDto.code,
+      this.getClient(req),
+    );
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post('2fa/setup')
+  @HttpCode(HttpStatus.OK)
+  async setupTwoFactor(@Request() req: IAuthenticatedRequest) {
+    return this.authService.setupTwoFactor(req.user._id.toString());
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post('2fa/enable')
+  @HttpCode(HttpStatus.OK)
+  @AuthRateLimit()
+  async enableTwoFactor(
+    @Request() req: IAuthenticatedRequest,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ) {
+    return this.authService.enableTwoFactor(
+      req.user._id.toString(),
+      req.user.sessionId,
+      twoFactorCodeDto.code,
+    );
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post('2fa/disable')
+  @HttpCode(HttpStatus.OK)
+  @AuthRateLimit()
+  async disableTwoFactor(
+    @Request() req: IAuthenticatedRequest,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ) {
+    return this.authService.disableTwoFactor(
+      req.user._id.toString(),
+      twoFactorCodeDto.code,
+    );
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post('2fa/recovery-codes')
+  @HttpCode(HttpStatus.OK)
+  @AuthRateLimit()
+  async regenerateRecoveryCodes(
+    @Request() req: IAuthenticatedRequest,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ) {
+    return this.authService.regenerateRecoveryCodes(
+      req.user._id.toString(),
+      twoFactorCodeDto.code,
+    );
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post('2fa/step-up')
+  @HttpCode(HttpStatus.OK)
   @AuthRateLimit()
-  async login(@Request() req, @Body() loginDto: LoginDto) {
-    return this.authService.login(req.user);
+  async stepUp(
+    @Request() req: IAuthenticatedRequest,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ) {
+    return this.authService.stepUp(
+      req.user._id.toString(),
+      req.user.sessionId,
+      twoFactorCodeDto.code,
+    );
   }
 
+  // Bids placed with the returned token are made for the organization
   @UseGuards(JwtAuthGuard)
+  @Post('organization')
+  @HttpCode(HttpStatus.OK)
+  async switchOrganization(
+    @Request() req: IAuthenticatedRequest,
+    @Body() switchOrganizationDto: SwitchOrganizationDto,
+  ) {
+    return this.authService.switchOrganization(
+      req.user._id.toString(),
+      req.user.sessionId,
+      switchOrganizationDto.organizationId ?? null,
+    );
+  }
+
+  // Works with an expired access token; the refresh token is single-use
   @Post('refresh')
-  async refresh(@Request() req) {
-    return this.authService.refreshToken(req.user);
+  async refresh(
+    @Request() req: ClientRequest,
+    @Body() refreshTokenDto: RefreshTokenDto,
+  ) {
+    return this.authService.refreshToken(
+      refreshTokenDto.refreshToken,
+      this.getClient(req),
+    );
+  }
+
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto) {
+    return this.authService.verifyEmail(verifyEmailDto.token);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post('resend-verification')
+  @HttpCode(HttpStatus.OK)
+  @AuthRateLimit()
+  async resendVerification(@Request() req: IAuthenticatedRequest) {
+    return this.authService.resendVerification(req.user);
+  }
+
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.OK)
+  @AuthRateLimit()
+  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
+    return this.authService.forgotPassword(forgotPasswordDto.email);
+  }
+
+  @Post('reset-password')
+  @HttpCode(HttpStatus.OK)
+  @AuthRateLimit()
+  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+    return this.authService.resetPassword(
+      resetPasswordDto.token,
+      resetPasswordDto.password,
+    );
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logout(@Request() req: IAuthenticatedRequest) {
+    return this.authService.logout(req.user._id.toString(), req.user.sessionId);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Get('sessions')
+  async getSessions(@Request() req: IAuthenticatedRequest) {
+    return this.authService.getSessions(
+      req.user._id.toString(),
+      req.user.sessionId,
+    );
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Delete('sessions/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revokeSession(
+    @Request() req: IAuthenticatedRequest,
+    @Param('id') id: string,
+  ) {
+    return this.authService.revokeSession(req.user._id.toString(), id);
+  }
+
+  // Lifts an account and/or IP sign-in lockout
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @Post('lockouts/clear')
+  @HttpCode(HttpStatus.OK)
+  async clearLockout(
+    @Request() req: IAuthenticatedRequest,
+    @Body() clearLockoutDto: ClearLockoutDto,
+  ) {
+    return this.loginAttemptsService.clear(
+      clearLockoutDto,
+      req.user._id.toString(),
+    );
   }
 
   @UseGuards(JwtAuthGuard)
   @Get('profile')
-  async getProfile(@Request() req) {
-    return this.authService.getProfile(req.user._id);
+  async getProfile(@Request() req: IAuthenticatedRequest) {
+    return this.authService.getProfile(req.user._id.toString());
   }
 
   @UseGuards(JwtAuthGuard)
   @Get('me')
-  async getMe(@Request() req) {
+  getMe(@Request() req: IAuthenticatedRequest) {
     return req.user;
   }
-}
\ No newline at end of file
+
+  private getClient(req: ClientRequest): SessionClient {
+    return { userAgent: req.headers['user-agent'], ip: req.ip };
+  }
+}
@@ -2,16 +2,30 @@ import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
+import { MongooseModule } from '@nestjs/mongoose';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
 import { UsersModule } from '../users/users.module';
+import { MailModule } from '../mail/mail.module';
+import { OrganizationsModule } from '../organizations/organizations.module';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { LocalStrategy } from './strategies/local.strategy';
+import { SessionsService } from './sessions.service';
+import { TwoFactorService } from './two-factor.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { Session, SessionSchema } from '../database/schemas/session.schema';
+import { User, UserSchema } from '../database/schemas/user.schema';
 
 @Module({
   imports: [
     UsersModule,
+    MailModule,
+    OrganizationsModule,
     PassportModule,
+    MongooseModule.forFeature([
+      { name: Session.name, schema: SessionSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: async (configService: ConfigService) => ({
@@ -24,7 +38,14 @@ import { LocalStrategy } from './strategies/local.strategy';
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthService, LocalStrategy, JwtStrategy],
-  exports: [AuthService],
+  providers: [
+    AuthService,
+    SessionsService,
+    TwoFactorService,
+    LoginAttemptsService,
+    LocalStrategy,
+    JwtStrategy,
+  ],
+  exports: [AuthService, SessionsService],
 })
 export class AuthModule {}
\ No newline at end of file
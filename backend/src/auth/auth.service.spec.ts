@@ -0,0 +1,233 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { AuthService } from './auth.service';
+import { SessionsService } from './sessions.service';
+import { UsersService } from '../users/users.service';
+import { MailService } from '../mail/mail.service';
+import { MAIL_TRANSPORT } from '../mail/mail-transport.interface';
+import { LocalMailTransport } from '../mail/local-mail.transport';
+import { TwoFactorService } from './two-factor.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { RabbitmqService } from '../rabbitmq/rabbitmq-simple.service';
+import { UserDocument } from '../database/schemas/user.schema';
+
+// In-memory users with just the operations the auth flows use
+function createUsers() {
+  const users: Record<string, any>[] = [];
+  const withToObject = (user: Record<string, any>) => ({
+    ...user,
+    toObject: () => ({ ...user }),
+  });
+  const byId = (id: string) =>
+    users.find((user) => String(user._id) === String(id));
+
+  return {
+    users,
+    service: {
+      create: jest.fn((dto: Record<string, any>) => {
+        const user = {
+          ...dto,
+          _id: new Types.ObjectId(),
+          password: `hashed:${dto.password}`,
+          roles: ['BIDDER'],
+          emailVerified: false,
+        };
+        users.push(user);
+        return Promise.resolve(withToObject(user));
+      }),
+      findById: jest.fn((id: string) => {
+        const user = byId(id);
+        return Promise.resolve(user ? withToObject(user) : null);
+      }),
+      findByEmail: jest.fn((email: string) => {
+        const user = users.find((entry) => entry.email === email);
+        return Promise.resolve(user ? withToObject(user) : null);
+      }),
+      markEmailVerified: jest.fn((id: string) => {
+        byId(id)!.emailVerified = true;
+        return Promise.resolve();
+      }),
+      updatePassword: jest.fn((id: string, password: string) => {
+        byId(id)!.password = `hashed:${password}`;
+        return Promise.resolve();
+      }),
+    },
+  };
+}
+
+async function createHarness() {
+  const transport = new LocalMailTransport();
+  const users = createUsers();
+  const sessionsService = {
+    create: jest.fn(() =>
+      Promise.resolve({
+        session: { _id: new Types.ObjectId() },
+        refreshToken: 'refresh-token',
+      }),
+    ),
+    revokeAllForUser: jest.fn(() => Promise.resolve()),
+  };
+  const loginAttemptsService = {
+    assertNotLocked: jest.fn(() => Promise.resolve()),
+    recordFailure: jest.fn(() => Promise.resolve()),
+  };
+  const twoFactorService = {
+    verify: jest.fn((_userId: string, code: string) =>
+      Promise.resolve(code === '123456'),
+    ),
+  };
+
+  const module = await Test.createTestingModule({
+    providers: [
+      AuthService,
+      MailService,
+      { provide: MAIL_TRANSPORT, useValue: transport },
+      { provide: JwtService, useValue: new JwtService({ secret: 'test' }) },
+      { provide: UsersService, useValue: users.service },
+      { provide: SessionsService, useValue: sessionsService },
+      { provide: TwoFactorService, useValue: twoFactorService },
+      { provide: LoginAttemptsService, useValue: loginAttemptsService },
+      { provide: OrganizationsService, useValue: {} },
+      {
+        provide: RabbitmqService,
+        useValue: { publishAuditLog: () => Promise.resolve() },
+      },
+      {
+        provide: ConfigService,
+        useValue: { get: (_key: string, fallback?: unknown) => fallback },
+      },
+    ],
+  }).compile();
+
+  // The token is the link's only query parameter
+  const tokenFromLastMail = () => {
+    const link = /\?token=(\S+)/.exec(transport.sent.at(-1)!.text)!;
+    return decodeURIComponent(link[1]);
+  };
+
+  return {
+    authService: module.get(AuthService),
+    transport,
+    users,
+    sessionsService,
+    loginAttemptsService,
+    tokenFromLastMail,
+  };
+}
+
+describe('AuthService email flows', () => {
+  it('verifies the email address from the registration mail', async () => {
+    const harness = await createHarness();
+
+    await harness.authService.register({
+      username: 'bidder',
+      email: 'bidder@example.com',
+      password: 'secret1',
+    });
+
+    expect(harness.transport.sent).toHaveLength(1);
+    expect(harness.transport.sent[0].to).toBe('bidder@example.com');
+    expect(harness.users.users[0].emailVerified).toBe(false);
+
+    await harness.authService.verifyEmail(harness.tokenFromLastMail());
+
+    expect(harness.users.users[0].emailVerified).toBe(true);
+  });
+
+  it('resets the password once and signs out every session', async () => {
+    const harness = await createHarness();
+    await harness.authService.register({
+      username: 'bidder',
+      email: 'bidder@example.com',
+      password: 'secret1',
+    });
+
+    await harness.authService.forgotPassword('bidder@example.com');
+    const token = harness.tokenFromLastMail();
+
+    await harness.authService.resetPassword(token, 'secret2');
+
+    expect(harness.users.users[0].password).toBe('hashed:secret2');
+    expect(harness.sessionsService.revokeAllForUser).toHaveBeenCalledWith(
+      String(harness.users.users[0]._id),
+      'password-reset',
+    );
+    await expect(
+      harness.authService.resetPassword(token, 'secret3'),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('rejects a verification token as a reset token', async () => {
+    const harness = await createHarness();
+    await harness.authService.register({
+      username: 'bidder',
+      email: 'bidder@example.com',
+      password: 'secret1',
+    });
+
+    await expect(
+      harness.authService.resetPassword(harness.tokenFromLastMail(), 'secret2'),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('answers forgot-password the same way for unknown emails', async () => {
+    const harness = await createHarness();
+
+    const result =
+      await harness.authService.forgotPassword('nobody@example.com');
+
+    expect(result.message).toMatch(/If an account exists/);
+    expect(harness.transport.sent).toHaveLength(0);
+  });
+});
+
+describe('AuthService two-factor login', () => {
+  it('returns a challenge instead of tokens until the code is verified', async () => {
+    const harness = await createHarness();
+    await harness.authService.register({
+      username: 'bidder',
+      email: 'bidder@example.com',
+      password: 'secret1',
+    });
+    const user = harness.users.users[0];
+    user.twoFactorEnabled = true;
+    harness.sessionsService.create.mockClear();
+
+    const challenge = (await harness.authService.login(
+      user as unknown as UserDocument,
+    )) as {
+      challenge_token: string;
+    };
+
+    expect(challenge).toMatchObject({ two_factor_required: true });
+    expect(typeof challenge.challenge_token).toBe('string');
+    expect(harness.sessionsService.create).not.toHaveBeenCalled();
+
+    await expect(
+      harness.authService.completeTwoFactorLogin(
+        challenge.challenge_token,
+        '000000',
+      ),
+    ).rejects.toThrow(UnauthorizedException);
+    expect(harness.loginAttemptsService.recordFailure).toHaveBeenCalledWith(
+      'bidder@example.com',
+      undefined,
+    );
+
+    const tokens = await harness.authService.completeTwoFactorLogin(
+      challenge.challenge_token,
+      '123456',
+    );
+
+    expect(tokens.access_token).toEqual(expect.any(String));
+    expect(harness.sessionsService.create).toHaveBeenCalledWith(
+      String(user._id),
+      {},
+      true,
+    );
+  });
+});
@@ -1,21 +1,63 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { JwtService } from '@nestjs/jwt';
+import { JwtService, JwtSignOptions } from '@nestjs/jwt';
+import { createHash } from 'crypto';
 import { UsersService } from '../users/users.service';
+import { MailService } from '../mail/mail.service';
 import { RegisterDto } from './dto/login.dto';
 import { IJwtPayload } from '../common/interfaces/auction.interface';
+import { SessionsService, SessionClient } from './sessions.service';
+import { TwoFactorService } from './two-factor.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { RabbitmqService } from '../rabbitmq/rabbitmq-simple.service';
+import { AuditAction } from '../common/enums/auction.enum';
+import { User, UserDocument } from '../database/schemas/user.schema';
+
+// bcrypt hash of a random string, compared against when the email is unknown
+const DUMMY_PASSWORD_HASH =
+  '$2b$12$jdP.v62ShKyQVddwkL3ua.aI5fINPZY4xnn.cEbJyURt.TR43B2/K';
+
+type TokenPurpose = 'verify-email' | 'reset-password' | 'two-factor-login';
+
+interface IPurposeTokenPayload {
+  sub: string;
+  purpose: TokenPurpose;
+  // Fingerprint of the password hash, so a reset link dies once used
+  pwd?: string;
+}
+
+// The account fields that sessions, tokens and emails are issued from
+type AccountUser = Pick<UserDocument, '_id' | 'username' | 'email' | 'roles'> &
+  Partial<Pick<User, 'emailVerified' | 'twoFactorEnabled'>>;
 
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
   constructor(
     private readonly usersService: UsersService,
     private readonly jwtService: JwtService,
     private readonly configService: ConfigService,
+    private readonly sessionsService: SessionsService,
+    private readonly mailService: MailService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly loginAttemptsService: LoginAttemptsService,
+    private readonly organizationsService: OrganizationsService,
+    private readonly rabbitmqService: RabbitmqService,
   ) {}
 
   async validateUser(email: string, password: string): Promise<any> {
     const user = await this.usersService.findByEmail(email);
     if (!user) {
+      // Spend the same bcrypt time as a real check, so response timing
+      // does not reveal which emails have accounts
+      await this.usersService.validatePassword(password, DUMMY_PASSWORD_HASH);
       return null;
     }
 
@@ -31,50 +73,352 @@ export class AuthService {
     return null;
   }
 
-  async login(user: any) {
-    const payload: IJwtPayload = {
-      sub: user._id,
-      username: user.username,
-      email: user.email,
+  // Users with two-factor authentication get a short-lived challenge
+  // token instead, exchanged for the real tokens by completeTwoFactorLogin
+  async login(user: AccountUser, client: SessionClient = {}) {
+    if (user.twoFactorEnabled) {
+      return {
+        two_factor_required: true,
+        challenge_token: this.signPurposeToken(
+          { sub: String(user._id), purpose: 'two-factor-login' },
+          this.configService.get<string>('twoFactor.challengeExpiresIn', '5m'),
+        ),
+      };
+    }
+
+    return this.issueSession(user, client, false);
+  }
+
+  async completeTwoFactorLogin(
+    challengeToken: string,
+    code: string,
+    client: SessionClient = {},
+  ) {
+    const payload = this.verifyPurposeToken(challengeToken, 'two-factor-login');
+    if (!payload) {
+      throw new UnauthorizedException(
+        'Sign-in challenge is invalid or has expired',
+      );
+    }
+
+    const user = await this.usersService.findById(payload.sub);
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    await this.loginAttemptsService.assertNotLocked(user.email, client.ip);
+    if (!(await this.twoFactorService.verify(payload.sub, code))) {
+      await this.loginAttemptsService.recordFailure(user.email, client.ip);
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    // Signing in with a code counts as a fresh step-up on this device
+    return this.issueSession(user, client, true);
+  }
+
+  async setupTwoFactor(userId: string) {
+    return this.twoFactorService.beginEnrollment(userId);
+  }
+
+  async enableTwoFactor(userId: string, sessionId: string, code: string) {
+    const result = await this.twoFactorService.confirmEnrollment(userId, code);
+    await this.sessionsService.markTwoFactorVerified(sessionId);
+    await this.audit(AuditAction.TWO_FACTOR_ENABLED, userId, { sessionId });
+    return result;
+  }
+
+  async disableTwoFactor(userId: string, code: string) {
+    await this.twoFactorService.disable(userId, code);
+    await this.audit(AuditAction.TWO_FACTOR_DISABLED, userId);
+    return { message: 'Two-factor authentication disabled' };
+  }
+
+  async regenerateRecoveryCodes(userId: string, code: string) {
+    return this.twoFactorService.regenerateRecoveryCodes(userId, code);
+  }
+
+  // Confirms a code on the current session so high-value bids are accepted
+  async stepUp(userId: string, sessionId: string, code: string) {
+    await this.twoFactorService.assertCode(userId, code);
+    const verifiedAt =
+      await this.sessionsService.markTwoFactorVerified(sessionId);
+    return { verifiedAt };
+  }
+
+  // Switches the organization this session acts for (null for personal
+  // bidding) and returns an access token carrying it
+  async switchOrganization(
+    userId: string,
+    sessionId: string,
+    organizationId: string | null,
+  ) {
+    const membership = organizationId
+      ? await this.organizationsService.getMembership(organizationId, userId)
+      : null;
+
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    await this.sessionsService.setActiveOrganization(sessionId, organizationId);
+
+    return {
+      access_token: this.signAccessToken(
+        user,
+        sessionId,
+        organizationId ?? undefined,
+      ),
+      organization: membership && {
+        id: String(membership.organization._id),
+        name: membership.organization.name,
+        role: membership.role,
+      },
     };
+  }
+
+  private async issueSession(
+    user: AccountUser,
+    client: SessionClient,
+    twoFactorVerified: boolean,
+  ) {
+    const { session, refreshToken } = await this.sessionsService.create(
+      String(user._id),
+      client,
+      twoFactorVerified,
+    );
+    await this.audit(AuditAction.LOGIN_SUCCEEDED, String(user._id), {
+      sessionId: String(session._id),
+      ip: client.ip,
+      twoFactor: twoFactorVerified,
+    });
 
     return {
-      access_token: this.jwtService.sign(payload),
+      access_token: this.signAccessToken(user, String(session._id)),
+      refresh_token: refreshToken,
       user: {
         id: user._id,
         username: user.username,
         email: user.email,
+        roles: user.roles,
+        emailVerified: user.emailVerified,
+        twoFactorEnabled: user.twoFactorEnabled,
       },
     };
   }
 
-  async register(registerDto: RegisterDto) {
+  async register(registerDto: RegisterDto, client: SessionClient = {}) {
     const user = await this.usersService.create(registerDto);
     const userObj = (user as any).toObject();
     const { password, ...userWithoutPassword } = userObj;
-    
-    const payload: IJwtPayload = {
-      sub: userObj._id.toString(),
+
+    await this.audit(AuditAction.USER_REGISTERED, userObj._id.toString(), {
       username: userObj.username,
-      email: userObj.email,
-    };
+      ip: client.ip,
+    });
+    await this.sendVerificationEmail(userObj);
+
+    const { session, refreshToken } = await this.sessionsService.create(
+      userObj._id.toString(),
+      client,
+    );
 
     return {
-      access_token: this.jwtService.sign(payload),
+      access_token: this.signAccessToken(userObj, String(session._id)),
+      refresh_token: refreshToken,
       user: userWithoutPassword,
     };
   }
 
-  async refreshToken(user: any) {
-    const payload: IJwtPayload = {
-      sub: user._id,
-      username: user.username,
-      email: user.email,
+  // Rotates the refresh token; the new access token picks up any role or
+  // organization membership changes made since the last one was issued
+  async refreshToken(refreshToken: string, client: SessionClient = {}) {
+    const { session, refreshToken: nextRefreshToken } =
+      await this.sessionsService.rotate(refreshToken, client);
+
+    const user = await this.usersService.findById(session.userId.toString());
+    if (!user) {
+      await this.sessionsService.revoke(String(session._id), 'revoked');
+      throw new UnauthorizedException('User not found');
+    }
+
+    const sessionId = String(session._id);
+    let organizationId = session.activeOrganizationId?.toString();
+    if (
+      organizationId &&
+      !(await this.organizationsService.findMembership(
+        organizationId,
+        String(user._id),
+      ))
+    ) {
+      await this.sessionsService.setActiveOrganization(sessionId, null);
+      organizationId = undefined;
+    }
+
+    return {
+      access_token: this.signAccessToken(user, sessionId, organizationId),
+      refresh_token: nextRefreshToken,
     };
+  }
+
+  async logout(userId: string, sessionId: string) {
+    await this.sessionsService.revoke(sessionId, 'logout');
+    await this.audit(AuditAction.LOGOUT, userId, { sessionId });
+  }
+
+  async getSessions(userId: string, currentSessionId?: string) {
+    const sessions = await this.sessionsService.findActiveByUser(userId);
+    return sessions.map((session) =>
+      this.sessionsService.toSessionView(session, currentSessionId),
+    );
+  }
+
+  async revokeSession(userId: string, sessionId: string) {
+    await this.sessionsService.revokeForUser(userId, sessionId);
+    await this.audit(AuditAction.SESSION_REVOKED, userId, { sessionId });
+  }
+
+  async verifyEmail(token: string) {
+    const payload = this.verifyEmailToken(token, 'verify-email');
+    const user = await this.usersService.findById(payload.sub);
+    if (!user) {
+      throw new BadRequestException('Invalid or expired link');
+    }
+
+    await this.usersService.markEmailVerified(payload.sub);
+    await this.audit(AuditAction.EMAIL_VERIFIED, payload.sub);
+    return { message: 'Email verified' };
+  }
+
+  async resendVerification(user: AccountUser) {
+    if (user.emailVerified) {
+      throw new BadRequestException('Email is already verified');
+    }
+    await this.sendVerificationEmail(user);
+    return { message: 'Verification email sent' };
+  }
+
+  // Same answer whether or not the account exists, so this endpoint cannot
+  // be used to discover registered emails
+  async forgotPassword(email: string) {
+    const user = await this.usersService.findByEmail(email);
+    if (user) {
+      const token = this.signPurposeToken(
+        {
+          sub: String(user._id),
+          purpose: 'reset-password',
+          pwd: this.fingerprint(user.password),
+        },
+        this.configService.get<string>('mail.resetExpiresIn', '1h'),
+      );
+      await this.mailService.sendPasswordReset(
+        user.email,
+        user.username,
+        token,
+      );
+    }
 
     return {
-      access_token: this.jwtService.sign(payload),
+      message:
+        'If an account exists for that email, a reset link has been sent',
+    };
+  }
+
+  // Changing the password signs out every device
+  async resetPassword(token: string, password: string) {
+    const payload = this.verifyEmailToken(token, 'reset-password');
+    const user = await this.usersService.findById(payload.sub);
+    if (!user || payload.pwd !== this.fingerprint(user.password)) {
+      throw new BadRequestException('Invalid or expired link');
+    }
+
+    await this.usersService.updatePassword(payload.sub, password);
+    // Receiving the link proves the user controls the address
+    await this.usersService.markEmailVerified(payload.sub);
+    await this.sessionsService.revokeAllForUser(payload.sub, 'password-reset');
+
+    await this.audit(AuditAction.PASSWORD_RESET, payload.sub);
+    this.logger.log(`Password reset for user ${payload.sub}`);
+    return { message: 'Password has been reset, please sign in again' };
+  }
+
+  private async audit(
+    action: AuditAction,
+    userId: string,
+    details: Record<string, unknown> = {},
+  ) {
+    await this.rabbitmqService.publishAuditLog({
+      action,
+      userId,
+      success: true,
+      details,
+    });
+  }
+
+  private async sendVerificationEmail(user: AccountUser) {
+    const token = this.signPurposeToken(
+      { sub: String(user._id), purpose: 'verify-email' },
+      this.configService.get<string>('mail.verificationExpiresIn', '24h'),
+    );
+    await this.mailService.sendEmailVerification(
+      user.email,
+      user.username,
+      token,
+    );
+  }
+
+  private signPurposeToken(
+    payload: IPurposeTokenPayload,
+    expiresIn: string,
+  ): string {
+    return this.jwtService.sign(payload, {
+      expiresIn: expiresIn as JwtSignOptions['expiresIn'],
+    });
+  }
+
+  // Expired, tampered and wrong-purpose tokens all come back as null
+  private verifyPurposeToken(
+    token: string,
+    purpose: TokenPurpose,
+  ): IPurposeTokenPayload | null {
+    try {
+      const payload = this.jwtService.verify<IPurposeTokenPayload>(token);
+      return payload.purpose === purpose ? payload : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private verifyEmailToken(
+    token: string,
+    purpose: 'verify-email' | 'reset-password',
+  ): IPurposeTokenPayload {
+    const payload = this.verifyPurposeToken(token, purpose);
+    if (!payload) {
+      throw new BadRequestException('Invalid or expired link');
+    }
+    return payload;
+  }
+
+  private fingerprint(passwordHash: string): string {
+    return createHash('sha256').update(passwordHash).digest('hex').slice(0, 16);
+  }
+
+  private signAccessToken(
+    user: AccountUser,
+    sessionId: string,
+    organizationId?: string,
+  ): string {
+    const payload: IJwtPayload = {
+      sub: String(user._id),
+      username: user.username,
+      email: user.email,
+      roles: user.roles,
+      sid: sessionId,
+      ...(organizationId && { org: organizationId }),
     };
+    return this.jwtService.sign(payload);
   }
 
   async getProfile(userId: string) {
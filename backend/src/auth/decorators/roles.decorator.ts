@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common';
+import { UserRole } from '../../common/enums/auction.enum';
+
+export const ROLES_KEY = 'roles';
+
+// Any one of the listed roles grants access
+export const Roles = (...roles: UserRole[]) => SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,12 @@
+import { IsEmail, IsIP, IsOptional, ValidateIf } from 'class-validator';
+
+// At least one of email and ip
+export class ClearLockoutDto {
+  @ValidateIf((dto: ClearLockoutDto) => !dto.ip || dto.email !== undefined)
+  @IsEmail()
+  email?: string;
+
+  @IsOptional()
+  @IsIP()
+  ip?: string;
+}
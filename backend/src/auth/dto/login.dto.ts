@@ -1,4 +1,5 @@
-import { IsString, IsEmail } from 'class-validator';
+import { IsString, IsEmail, IsOptional, IsArray, IsIn } from 'class-validator';
+import { UserRole } from '../../common/enums/auction.enum';
 
 export class LoginDto {
   @IsEmail()
@@ -17,4 +18,10 @@ export class RegisterDto {
 
   @IsString()
   password: string;
+
+  // Self-service accounts can bid and/or sell; admins are granted by an admin
+  @IsOptional()
+  @IsArray()
+  @IsIn([UserRole.BIDDER, UserRole.SELLER], { each: true })
+  roles?: UserRole[];
 }
\ No newline at end of file
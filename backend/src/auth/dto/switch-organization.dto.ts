@@ -0,0 +1,8 @@
+import { IsMongoId, IsOptional } from 'class-validator';
+
+export class SwitchOrganizationDto {
+  // Omitted or null switches back to bidding personally
+  @IsOptional()
+  @IsMongoId()
+  organizationId?: string | null;
+}
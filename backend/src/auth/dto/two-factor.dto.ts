@@ -0,0 +1,13 @@
+import { IsString, MaxLength } from 'class-validator';
+
+// A 6-digit authenticator code or a recovery code
+export class TwoFactorCodeDto {
+  @IsString()
+  @MaxLength(32)
+  code: string;
+}
+
+export class TwoFactorLoginDto extends TwoFactorCodeDto {
+  @IsString()
+  challengeToken: string;
+}
@@ -0,0 +1,43 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { WsException } from '@nestjs/websockets';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { UserRole } from '../../common/enums/auction.enum';
+
+type RoleHolder = { roles?: UserRole[] };
+
+// Runs after authentication: REST routes need JwtAuthGuard first, sockets
+// carry the user verified on connect in socket.data.user
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requiredRoles = this.reflector.getAllAndOverride<UserRole[]>(
+      ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!requiredRoles || requiredRoles.length === 0) {
+      return true;
+    }
+
+    const isSocket = context.getType() === 'ws';
+    const user = isSocket
+      ? context.switchToWs().getClient<{ data?: { user?: RoleHolder } }>().data
+          ?.user
+      : context.switchToHttp().getRequest<{ user?: RoleHolder }>().user;
+    const roles = user?.roles ?? [];
+
+    if (roles.some((role) => requiredRoles.includes(role))) {
+      return true;
+    }
+
+    const message = `Requires one of the roles: ${requiredRoles.join(', ')}`;
+    throw isSocket ? new WsException(message) : new ForbiddenException(message);
+  }
+}
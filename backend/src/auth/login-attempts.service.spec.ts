@@ -0,0 +1,152 @@
+import { HttpStatus } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  LoginAttemptsService,
+  LoginLockedException,
+} from './login-attempts.service';
+import { RedisService } from '../redis/redis.service';
+import { RabbitmqService } from '../rabbitmq/rabbitmq-simple.service';
+
+// In-memory Redis with just the key-value operations lockouts use; expiry
+// is left to the stored unlock time
+function createRedis() {
+  const store = new Map<string, string>();
+  return {
+    store,
+    get: jest.fn((key: string) => Promise.resolve(store.get(key) ?? null)),
+    set: jest.fn((key: string, value: string) => {
+      store.set(key, value);
+      return Promise.resolve();
+    }),
+    del: jest.fn((key: string) => {
+      store.delete(key);
+      return Promise.resolve();
+    }),
+    incr: jest.fn((key: string) => {
+      const value = Number(store.get(key) ?? 0) + 1;
+      store.set(key, String(value));
+      return Promise.resolve(value);
+    }),
+    expire: jest.fn(() => Promise.resolve()),
+  };
+}
+
+async function createHarness() {
+  const redis = createRedis();
+  const rabbitmqService = {
+    publishAuditLog: jest.fn<Promise<void>, [Record<string, unknown>]>(() =>
+      Promise.resolve(),
+    ),
+  };
+
+  const module = await Test.createTestingModule({
+    providers: [
+      LoginAttemptsService,
+      { provide: RedisService, useValue: redis },
+      { provide: RabbitmqService, useValue: rabbitmqService },
+      {
+        provide: ConfigService,
+        useValue: { get: (_key: string, fallback?: unknown) => fallback },
+      },
+    ],
+  }).compile();
+
+  const service = module.get(LoginAttemptsService);
+
+  // Fails `count` sign-ins and returns the lockout that ended them, if any
+  const fail = async (count: number, email: string, ip = '10.0.0.1') => {
+    for (let attempt = 0; attempt < count; attempt++) {
+      try {
+        await service.recordFailure(email, ip);
+      } catch (error) {
+        return error as LoginLockedException;
+      }
+    }
+    return undefined;
+  };
+
+  // Moves the account's unlock time into the past
+  const expireLock = (email: string) =>
+    redis.store.set(`login-lock:account:${email}`, String(Date.now() - 1));
+
+  return { service, redis, rabbitmqService, fail, expireLock };
+}
+
+describe('LoginAttemptsService', () => {
+  it('locks an account out after five failures and says when to retry', async () => {
+    const harness = await createHarness();
+
+    expect(await harness.fail(4, 'bidder@example.com')).toBeUndefined();
+    const lockout = await harness.fail(1, 'bidder@example.com');
+
+    expect(lockout).toBeInstanceOf(LoginLockedException);
+    expect(lockout!.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+    expect(lockout!.retryAfter).toBe(60);
+    await expect(
+      harness.service.assertNotLocked('Bidder@Example.com', '10.0.0.2'),
+    ).rejects.toThrow(LoginLockedException);
+    expect(
+      harness.rabbitmqService.publishAuditLog.mock.calls
+        .map(([log]) => log)
+        .find((log) => log.action === 'LOGIN_LOCKOUT'),
+    ).toMatchObject({
+      details: { scope: 'account', subject: 'bidder@example.com' },
+    });
+  });
+
+  it('doubles the lockout each time it is triggered again', async () => {
+    const harness = await createHarness();
+
+    const first = await harness.fail(5, 'bidder@example.com', '10.0.0.1');
+    harness.expireLock('bidder@example.com');
+    const second = await harness.fail(5, 'bidder@example.com', '10.0.0.2');
+
+    expect(first!.retryAfter).toBe(60);
+    expect(second!.retryAfter).toBe(120);
+  });
+
+  it('answers the same for emails with and without an account', async () => {
+    const harness = await createHarness();
+
+    const known = await harness.fail(5, 'bidder@example.com', '10.0.0.1');
+    const unknown = await harness.fail(5, 'nobody@example.com', '10.0.0.2');
+
+    expect(unknown!.getResponse()).toMatchObject({
+      message: (known!.getResponse() as { message: string }).message,
+    });
+  });
+
+  it('locks out an IP trying many accounts', async () => {
+    const harness = await createHarness();
+
+    for (let account = 0; account < 19; account++) {
+      expect(
+        await harness.fail(1, `user${account}@example.com`),
+      ).toBeUndefined();
+    }
+    const lockout = await harness.fail(1, 'user19@example.com');
+
+    expect(lockout).toBeInstanceOf(LoginLockedException);
+    await expect(
+      harness.service.assertNotLocked('someone-else@example.com', '10.0.0.1'),
+    ).rejects.toThrow(LoginLockedException);
+  });
+
+  it('lets an admin clear a lockout', async () => {
+    const harness = await createHarness();
+    await harness.fail(5, 'bidder@example.com');
+
+    await harness.service.clear({ email: 'bidder@example.com' }, 'admin-id');
+
+    await expect(
+      harness.service.assertNotLocked('bidder@example.com', '10.0.0.1'),
+    ).resolves.toBeUndefined();
+    expect(harness.rabbitmqService.publishAuditLog).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        action: 'LOGIN_LOCKOUT_CLEARED',
+        userId: 'admin-id',
+      }),
+    );
+  });
+});
@@ -0,0 +1,205 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from '../redis/redis.service';
+import { RabbitmqService } from '../rabbitmq/rabbitmq-simple.service';
+import { AuditAction } from '../common/enums/auction.enum';
+
+type LockoutScope = 'account' | 'ip';
+
+// Same body whether or not the email belongs to an account
+export class LoginLockedException extends HttpException {
+  constructor(readonly retryAfter: number) {
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        error: 'Too Many Requests',
+        message: `Too many failed sign-in attempts, try again in ${retryAfter} seconds`,
+        retryAfter,
+        retryAt: new Date(Date.now() + retryAfter * 1000).toISOString(),
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
+
+// Counts failed sign-ins per account and per IP in Redis. Reaching the
+// limit locks the subject out, and every further lockout within a day
+// doubles the wait. Accounts are keyed by the email as typed, so unknown
+// emails lock out exactly like real ones.
+@Injectable()
+export class LoginAttemptsService {
+  private readonly logger = new Logger(LoginAttemptsService.name);
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly rabbitmqService: RabbitmqService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async assertNotLocked(email: string, ip?: string): Promise<void> {
+    const retryAfter = await this.failOpen(async () =>
+      Math.max(
+        await this.getLockRemaining('account', this.normalize(email)),
+        ip ? await this.getLockRemaining('ip', ip) : 0,
+      ),
+    );
+    if (retryAfter > 0) {
+      throw new LoginLockedException(retryAfter);
+    }
+  }
+
+  // Throws LoginLockedException when this failure triggers a lockout
+  async recordFailure(email: string, ip?: string): Promise<void> {
+    await this.rabbitmqService.publishAuditLog({
+      action: AuditAction.LOGIN_FAILED,
+      success: false,
+      details: { email: this.normalize(email), ip },
+    });
+
+    const retryAfter = await this.failOpen(async () =>
+      Math.max(
+        await this.countFailure('account', this.normalize(email), ip),
+        ip ? await this.countFailure('ip', ip, ip) : 0,
+      ),
+    );
+    if (retryAfter > 0) {
+      throw new LoginLockedException(retryAfter);
+    }
+  }
+
+  // IP failures are kept: one good password must not reset the count for
+  // a source trying many accounts
+  async recordSuccess(email: string): Promise<void> {
+    await this.failOpen(async () => {
+      await this.redisService.del(
+        this.key('failures', 'account', this.normalize(email)),
+      );
+      return 0;
+    });
+  }
+
+  // Lifts a lockout and forgets the backoff history
+  async clear(target: { email?: string; ip?: string }, adminId: string) {
+    const subjects: [LockoutScope, string][] = [];
+    if (target.email) {
+      subjects.push(['account', this.normalize(target.email)]);
+    }
+    if (target.ip) {
+      subjects.push(['ip', target.ip]);
+    }
+
+    for (const [scope, subject] of subjects) {
+      await this.redisService.del(this.key('lock', scope, subject));
+      await this.redisService.del(this.key('failures', scope, subject));
+      await this.redisService.del(this.key('lockouts', scope, subject));
+
+      await this.rabbitmqService.publishAuditLog({
+        action: AuditAction.LOGIN_LOCKOUT_CLEARED,
+        userId: adminId,
+        success: true,
+        details: { scope, subject },
+      });
+    }
+
+    this.logger.log(
+      `Admin ${adminId} cleared login lockouts: ${JSON.stringify(target)}`,
+    );
+    return {
+      cleared: subjects.map(([scope, subject]) => ({ scope, subject })),
+    };
+  }
+
+  private async countFailure(
+    scope: LockoutScope,
+    subject: string,
+    ip?: string,
+  ): Promise<number> {
+    const failuresKey = this.key('failures', scope, subject);
+    const failures = await this.redisService.incr(failuresKey);
+    if (failures === 1) {
+      await this.redisService.expire(
+        failuresKey,
+        this.configService.get<number>('loginLockout.windowSeconds', 900),
+      );
+    }
+
+    const maxAttempts =
+      scope === 'account'
+        ? this.configService.get<number>('loginLockout.maxAttempts', 5)
+        : this.configService.get<number>('loginLockout.ipMaxAttempts', 20);
+    if (failures < maxAttempts) {
+      return 0;
+    }
+
+    const lockoutsKey = this.key('lockouts', scope, subject);
+    const lockouts = await this.redisService.incr(lockoutsKey);
+    await this.redisService.expire(lockoutsKey, 24 * 60 * 60);
+
+    const seconds = Math.min(
+      this.configService.get<number>('loginLockout.baseSeconds', 60) *
+        2 ** (lockouts - 1),
+      this.configService.get<number>('loginLockout.maxSeconds', 3600),
+    );
+    await this.redisService.set(
+      this.key('lock', scope, subject),
+      String(Date.now() + seconds * 1000),
+      seconds,
+    );
+    await this.redisService.del(failuresKey);
+
+    this.logger.warn(
+      `Locked out ${scope} ${subject} for ${seconds}s after ${failures} failed sign-ins`,
+    );
+    await this.rabbitmqService.publishAuditLog({
+      action: AuditAction.LOGIN_LOCKOUT,
+      success: false,
+      details: {
+        scope,
+        subject,
+        ip,
+        failures,
+        lockoutCount: lockouts,
+        lockoutSeconds: seconds,
+      },
+    });
+
+    return seconds;
+  }
+
+  private async getLockRemaining(
+    scope: LockoutScope,
+    subject: string,
+  ): Promise<number> {
+    const lockedUntil = await this.redisService.get(
+      this.key('lock', scope, subject),
+    );
+    if (!lockedUntil) {
+      return 0;
+    }
+    return Math.max(0, Math.ceil((Number(lockedUntil) - Date.now()) / 1000));
+  }
+
+  // Sign-in keeps working if Redis is unavailable, like the rate limiter
+  private async failOpen(work: () => Promise<number>): Promise<number> {
+    try {
+      return await work();
+    } catch (error) {
+      this.logger.error(
+        `Login lockout check failed: ${(error as Error).message}`,
+      );
+      return 0;
+    }
+  }
+
+  private key(
+    kind: 'failures' | 'lockouts' | 'lock',
+    scope: LockoutScope,
+    subject: string,
+  ) {
+    return `login-${kind}:${scope}:${subject}`;
+  }
+
+  private normalize(email: string): string {
+    return (email || '').trim().toLowerCase();
+  }
+}
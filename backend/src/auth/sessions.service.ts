@@ -0,0 +1,210 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { createHash, randomBytes } from 'crypto';
+import { Session, SessionDocument } from '../database/schemas/session.schema';
+import { RedisService } from '../redis/redis.service';
+
+export interface SessionClient {
+  userAgent?: string;
+  ip?: string;
+}
+
+// Refresh tokens are `<sessionId>.<secret>`, so a presented token always
+// identifies its session even after it has been rotated away
+@Injectable()
+export class SessionsService {
+  private readonly logger = new Logger(SessionsService.name);
+
+  constructor(
+    @InjectModel(Session.name) private sessionModel: Model<SessionDocument>,
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async create(
+    userId: string,
+    client: SessionClient = {},
+    twoFactorVerified = false,
+  ): Promise<{ session: SessionDocument; refreshToken: string }> {
+    const secret = this.generateSecret();
+    const now = new Date();
+    const session = await this.sessionModel.create({
+      userId,
+      tokenHash: this.hash(secret),
+      userAgent: client.userAgent,
+      ip: client.ip,
+      lastUsedAt: now,
+      expiresAt: this.getExpiry(),
+      ...(twoFactorVerified && { twoFactorVerifiedAt: now }),
+    });
+
+    return {
+      session,
+      refreshToken: `${String(session._id)}.${secret}`,
+    };
+  }
+
+  // Exchanges a refresh token for a new one. Presenting a token that has
+  // already been rotated means it leaked, so the whole session is revoked.
+  async rotate(
+    refreshToken: string,
+    client: SessionClient = {},
+  ): Promise<{ session: SessionDocument; refreshToken: string }> {
+    const [sessionId, secret] = (refreshToken || '').split('.');
+    if (!sessionId || !secret || !Types.ObjectId.isValid(sessionId)) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const session = await this.sessionModel.findById(sessionId).exec();
+    if (!session || !this.isUsable(session)) {
+      throw new UnauthorizedException('Session has expired or was revoked');
+    }
+
+    const presentedHash = this.hash(secret);
+    if (presentedHash !== session.tokenHash) {
+      this.logger.warn(
+        `Refresh token reuse detected for session ${sessionId}, revoking it`,
+      );
+      await this.revoke(sessionId, 'reuse');
+      throw new UnauthorizedException('Refresh token has already been used');
+    }
+
+    // Conditional on the old hash so two concurrent refreshes cannot both win
+    const nextSecret = this.generateSecret();
+    const rotated = await this.sessionModel
+      .findOneAndUpdate(
+        { _id: sessionId, tokenHash: presentedHash, revokedAt: null },
+        {
+          $set: {
+            tokenHash: this.hash(nextSecret),
+            lastUsedAt: new Date(),
+            expiresAt: this.getExpiry(),
+            ...(client.userAgent && { userAgent: client.userAgent }),
+            ...(client.ip && { ip: client.ip }),
+          },
+        },
+        { new: true },
+      )
+      .exec();
+
+    if (!rotated) {
+      await this.revoke(sessionId, 'reuse');
+      throw new UnauthorizedException('Refresh token has already been used');
+    }
+
+    return { session: rotated, refreshToken: `${sessionId}.${nextSecret}` };
+  }
+
+  async isActive(sessionId: string | undefined): Promise<boolean> {
+    if (!sessionId || !Types.ObjectId.isValid(sessionId)) {
+      return false;
+    }
+    const session = await this.sessionModel.findById(sessionId).exec();
+    return !!session && this.isUsable(session);
+  }
+
+  // Records a two-factor step-up on this device
+  async markTwoFactorVerified(sessionId: string): Promise<Date> {
+    const verifiedAt = new Date();
+    await this.sessionModel
+      .updateOne(
+        { _id: sessionId, revokedAt: null },
+        { $set: { twoFactorVerifiedAt: verifiedAt } },
+      )
+      .exec();
+    return verifiedAt;
+  }
+
+  // null goes back to bidding personally
+  async setActiveOrganization(
+    sessionId: string,
+    organizationId: string | null,
+  ): Promise<void> {
+    await this.sessionModel
+      .updateOne(
+        { _id: sessionId, revokedAt: null },
+        organizationId
+          ? { $set: { activeOrganizationId: organizationId } }
+          : { $unset: { activeOrganizationId: 1 } },
+      )
+      .exec();
+  }
+
+  async findActiveByUser(userId: string): Promise<SessionDocument[]> {
+    return this.sessionModel
+      .find({ userId, revokedAt: null, expiresAt: { $gt: new Date() } })
+      .sort({ lastUsedAt: -1 })
+      .exec();
+  }
+
+  async revokeForUser(userId: string, sessionId: string): Promise<void> {
+    if (!Types.ObjectId.isValid(sessionId)) {
+      throw new NotFoundException('Session not found');
+    }
+    const session = await this.sessionModel
+      .findOne({ _id: sessionId, userId, revokedAt: null })
+      .exec();
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+    await this.revoke(sessionId, 'revoked');
+  }
+
+  async revokeAllForUser(userId: string, reason: string): Promise<void> {
+    const sessions = await this.findActiveByUser(userId);
+    for (const session of sessions) {
+      await this.revoke(String(session._id), reason);
+    }
+  }
+
+  // Live sockets of the session are disconnected on every instance
+  async revoke(sessionId: string, reason: string): Promise<void> {
+    await this.sessionModel
+      .updateOne(
+        { _id: sessionId, revokedAt: null },
+        { $set: { revokedAt: new Date(), revokedReason: reason } },
+      )
+      .exec();
+
+    await this.redisService.publishGlobalNotification({
+      type: 'SESSION_REVOKED',
+      sessionId,
+    });
+  }
+
+  toSessionView(session: SessionDocument, currentSessionId?: string) {
+    return {
+      id: String(session._id),
+      userAgent: session.userAgent,
+      ip: session.ip,
+      createdAt: session.get('createdAt') as Date,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: String(session._id) === currentSessionId,
+    };
+  }
+
+  private isUsable(session: Session): boolean {
+    return !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  private getExpiry(): Date {
+    const days = this.configService.get<number>('jwt.refreshExpiresInDays', 30);
+    return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  }
+
+  private generateSecret(): string {
+    return randomBytes(48).toString('base64url');
+  }
+
+  private hash(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+}
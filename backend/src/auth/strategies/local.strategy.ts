@@ -1,21 +1,32 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
+import { Request } from 'express';
 import { Strategy } from 'passport-local';
 import { AuthService } from '../auth.service';
+import { LoginAttemptsService } from '../login-attempts.service';
 
 @Injectable()
 export class LocalStrategy extends PassportStrategy(Strategy) {
-  constructor(private authService: AuthService) {
+  constructor(
+    private authService: AuthService,
+    private loginAttemptsService: LoginAttemptsService,
+  ) {
     super({
       usernameField: 'email',
+      passReqToCallback: true,
     });
   }
 
-  async validate(email: string, password: string): Promise<any> {
+  async validate(req: Request, email: string, password: string): Promise<any> {
+    await this.loginAttemptsService.assertNotLocked(email, req.ip);
+
     const user = await this.authService.validateUser(email, password);
     if (!user) {
+      await this.loginAttemptsService.recordFailure(email, req.ip);
       throw new UnauthorizedException('Invalid credentials');
     }
+
+    await this.loginAttemptsService.recordSuccess(email);
     return user;
   }
-}
\ No newline at end of file
+}
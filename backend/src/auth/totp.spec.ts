@@ -0,0 +1,45 @@
+import {
+  base32Decode,
+  base32Encode,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  verifyTotp,
+} from './totp';
+
+// The RFC 6238 SHA-1 test key, "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP', () => {
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+  ])('matches the RFC 6238 test vector at %is', (seconds, code) => {
+    const step = getTotpStep(new Date(seconds * 1000));
+    expect(generateTotp(RFC_SECRET, step)).toBe(code);
+  });
+
+  it('round-trips secrets through base32', () => {
+    const secret = generateTotpSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(base32Encode(base32Decode(secret))).toBe(secret);
+  });
+
+  it('accepts codes from one step either side and nothing further', () => {
+    const now = new Date(1111111109 * 1000);
+    const step = getTotpStep(now);
+
+    expect(
+      verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), now),
+    ).toBe(step - 1);
+    expect(
+      verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), now),
+    ).toBe(step + 1);
+    expect(
+      verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), now),
+    ).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef', now)).toBeNull();
+  });
+});
@@ -0,0 +1,219 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { createHash, randomBytes } from 'crypto';
+import { User, UserDocument } from '../database/schemas/user.schema';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from './totp';
+
+const RECOVERY_CODE_COUNT = 10;
+const TWO_FACTOR_FIELDS =
+  '+twoFactorSecret +twoFactorPendingSecret +twoFactorRecoveryCodes +twoFactorLastStep';
+
+// Enrollment and verification of TOTP codes and one-time recovery codes
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // Stores a pending secret; 2FA only switches on once a code from it is
+  // confirmed, so a half-finished enrollment never locks anyone out
+  async beginEnrollment(userId: string) {
+    const user = await this.findWithSecrets(userId);
+    if (user.twoFactorEnabled) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await this.userModel
+      .updateOne({ _id: userId }, { $set: { twoFactorPendingSecret: secret } })
+      .exec();
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(
+        secret,
+        user.email,
+        this.configService.get<string>(
+          'twoFactor.issuer',
+          'Royal Class Auctions',
+        ),
+      ),
+    };
+  }
+
+  // Recovery codes are returned in plain text only here
+  async confirmEnrollment(userId: string, code: string) {
+    const user = await this.findWithSecrets(userId);
+    if (user.twoFactorEnabled) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+    if (!user.twoFactorPendingSecret) {
+      throw new BadRequestException('Start two-factor enrollment first');
+    }
+
+    const step = verifyTotp(user.twoFactorPendingSecret, code);
+    if (step === null) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.userModel
+      .updateOne(
+        { _id: userId },
+        {
+          $set: {
+            twoFactorEnabled: true,
+            twoFactorSecret: user.twoFactorPendingSecret,
+            twoFactorRecoveryCodes: recoveryCodes.map((entry) =>
+              this.hash(entry),
+            ),
+            twoFactorLastStep: step,
+          },
+          $unset: { twoFactorPendingSecret: 1 },
+        },
+      )
+      .exec();
+
+    this.logger.log(`Two-factor authentication enabled for user ${userId}`);
+    return { recoveryCodes };
+  }
+
+  async disable(userId: string, code: string): Promise<void> {
+    await this.assertEnabled(userId);
+    await this.assertCode(userId, code);
+    await this.userModel
+      .updateOne(
+        { _id: userId },
+        {
+          $set: { twoFactorEnabled: false },
+          $unset: {
+            twoFactorSecret: 1,
+            twoFactorPendingSecret: 1,
+            twoFactorRecoveryCodes: 1,
+            twoFactorLastStep: 1,
+          },
+        },
+      )
+      .exec();
+
+    this.logger.log(`Two-factor authentication disabled for user ${userId}`);
+  }
+
+  // Replaces every unused recovery code
+  async regenerateRecoveryCodes(userId: string, code: string) {
+    await this.assertEnabled(userId);
+    await this.assertCode(userId, code);
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.userModel
+      .updateOne(
+        { _id: userId },
+        {
+          $set: {
+            twoFactorRecoveryCodes: recoveryCodes.map((entry) =>
+              this.hash(entry),
+            ),
+          },
+        },
+      )
+      .exec();
+
+    return { recoveryCodes };
+  }
+
+  // Accepts a current TOTP code or an unused recovery code. Both are
+  // consumed with conditional updates, so each works exactly once.
+  async verify(userId: string, code: string): Promise<boolean> {
+    const user = await this.userModel
+      .findById(userId)
+      .select(TWO_FACTOR_FIELDS)
+      .exec();
+    if (!user?.twoFactorEnabled || !user.twoFactorSecret) {
+      return false;
+    }
+
+    const normalized = (code || '').replace(/[\s-]/g, '').toLowerCase();
+    const step = verifyTotp(user.twoFactorSecret, normalized);
+    if (step !== null) {
+      const result = await this.userModel
+        .updateOne(
+          {
+            _id: userId,
+            $or: [
+              { twoFactorLastStep: { $lt: step } },
+              { twoFactorLastStep: { $exists: false } },
+            ],
+          },
+          { $set: { twoFactorLastStep: step } },
+        )
+        .exec();
+      return result.modifiedCount > 0;
+    }
+
+    const codeHash = this.hash(normalized);
+    const result = await this.userModel
+      .updateOne(
+        { _id: userId, twoFactorRecoveryCodes: codeHash },
+        { $pull: { twoFactorRecoveryCodes: codeHash } },
+      )
+      .exec();
+    if (result.modifiedCount > 0) {
+      this.logger.log(`Recovery code used by user ${userId}`);
+      return true;
+    }
+    return false;
+  }
+
+  async assertCode(userId: string, code: string): Promise<void> {
+    if (!(await this.verify(userId, code))) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+  }
+
+  private async assertEnabled(userId: string): Promise<void> {
+    const user = await this.findWithSecrets(userId);
+    if (!user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+  }
+
+  private async findWithSecrets(userId: string): Promise<UserDocument> {
+    const user = await this.userModel
+      .findById(userId)
+      .select(TWO_FACTOR_FIELDS)
+      .exec();
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  // Formatted xxxxx-xxxxx; stored without the dash, like codes are checked
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const code = randomBytes(5).toString('hex');
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+
+  private hash(code: string): string {
+    return createHash('sha256')
+      .update(code.replace(/-/g, '').toLowerCase())
+      .digest('hex');
+  }
+}
@@ -0,0 +1,1230 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { getModelToken } from '@nestjs/mongoose';
+import {
+  ConflictException,
+  ForbiddenException,
+  ValidationPipe,
+} from '@nestjs/common';
+import { PIPES_METADATA } from '@nestjs/common/constants';
+import { WsException } from '@nestjs/websockets';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { Types } from 'mongoose';
+import { BidMessage, BidProcessorService } from './bid-processor.service';
+import { BidsController } from './bids.controller';
+import { BidsService } from './bids.service';
+import { CreateBidDto } from './dto/create-bid.dto';
+import { AuctionsService } from '../auctions/auctions.service';
+import { BidIncrementService } from '../auctions/bid-increment.service';
+import { ClientSocket, WebsocketGateway } from '../websocket/websocket.gateway';
+import {
+  RabbitmqService,
+  RequeueMessageError,
+} from '../rabbitmq/rabbitmq-simple.service';
+import { RedisService } from '../redis/redis.service';
+import { WebSocketConnectionLimitService } from '../common/guards/websocket-connection-limit.guard';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { SessionsService } from '../auth/sessions.service';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import {
+  CreditLimitExceededException,
+  CreditService,
+} from '../credit/credit.service';
+import { Bid } from '../database/schemas/bid.schema';
+import { Auction } from '../database/schemas/auction.schema';
+import { User } from '../database/schemas/user.schema';
+import { ProxyBid } from '../database/schemas/proxy-bid.schema';
+import { BidRequest } from '../database/schemas/bid-request.schema';
+import { Session } from '../database/schemas/session.schema';
+import {
+  AuctionStatus,
+  AuctionType,
+  BidRequestStatus,
+  BidStatus,
+  ProxyBidStatus,
+  UserRole,
+} from '../common/enums/auction.enum';
+
+// Awaitable stand-in for a mongoose query
+const query = <T>(value: T) => {
+  const chain = {
+    select: () => chain,
+    sort: () => chain,
+    exec: () => Promise.resolve(value),
+    then: (
+      resolve: (value: T) => unknown,
+      reject?: (error: unknown) => unknown,
+    ) => Promise.resolve(value).then(resolve, reject),
+  };
+  return chain;
+};
+
+const withToObject = <T extends object>(record: T) => ({
+  ...record,
+  toObject: () => ({ ...record }),
+});
+
+interface StoredProxy {
+  _id: Types.ObjectId;
+  auctionId: Types.ObjectId;
+  userId: Types.ObjectId;
+  organizationId?: string;
+  maxAmount: number;
+  status: ProxyBidStatus;
+  registeredAt: Date;
+}
+
+// Matches plain equality and $in, the only operators used on proxies
+const matchesProxy = (proxy: StoredProxy, filter: Record<string, unknown>) =>
+  Object.entries(filter).every(([key, value]) => {
+    const field = String(proxy[key as keyof StoredProxy]);
+    const ids = (value as { $in?: unknown[] } | undefined)?.$in;
+    return ids
+      ? ids.some((id) => String(id) === field)
+      : String(value) === field;
+  });
+
+// In-memory models with just the operations the bid pipeline uses
+function createStore() {
+  const userId = new Types.ObjectId();
+  const auctionId = new Types.ObjectId();
+  const user: Record<string, any> = {
+    _id: userId,
+    username: 'bidder',
+    email: 'bidder@example.com',
+    emailVerified: true,
+  };
+  const session: Record<string, any> = { _id: new Types.ObjectId() };
+  const newAuction = (_id: Types.ObjectId): Record<string, any> => ({
+    _id,
+    title: 'Test car',
+    auctionType: AuctionType.ENGLISH,
+    status: AuctionStatus.ACTIVE,
+    startTime: new Date(Date.now() - 60_000),
+    endTime: new Date(Date.now() + 3_600_000),
+    startingBid: 1000,
+    currentHighestBid: 1000,
+    bidCount: 0,
+    extensionCount: 0,
+  });
+  const auction = newAuction(auctionId);
+  const auctions = new Map([[String(auctionId), auction]]);
+  // Another open auction, for bids spread across auctions
+  const addAuction = () => {
+    const id = new Types.ObjectId();
+    auctions.set(String(id), newAuction(id));
+    return String(id);
+  };
+  const bids: Record<string, any>[] = [];
+  const requests: Record<string, any>[] = [];
+
+  const bidModel = Object.assign(
+    function (this: Record<string, any>, data: Record<string, any>) {
+      const bid = Object.assign(this, data, { _id: new Types.ObjectId() });
+      bid.save = () => {
+        bids.push(bid);
+        return Promise.resolve(bid);
+      };
+      bid.toObject = () => ({ ...data, _id: bid._id });
+    },
+    {
+      updateMany: () => Promise.resolve({}),
+    },
+  );
+
+  const auctionModel = {
+    findById: (id: unknown) => query(withToObject(auctions.get(String(id))!)),
+    findByIdAndUpdate: (id: unknown, update: Record<string, any>) => {
+      const updated = auctions.get(String(id))!;
+      Object.assign(updated, update.$set as object);
+      const increments = (update.$inc ?? {}) as Record<string, number>;
+      for (const [key, value] of Object.entries(increments)) {
+        updated[key] = ((updated[key] as number) ?? 0) + value;
+      }
+      return query(withToObject(updated));
+    },
+  };
+
+  const users = new Map([[String(userId), user]]);
+  // Another verified bidder, for rival bids and maximum bids
+  const addUser = () => {
+    const id = new Types.ObjectId();
+    users.set(String(id), {
+      _id: id,
+      username: `bidder-${users.size}`,
+      email: `bidder-${users.size}@example.com`,
+      emailVerified: true,
+    });
+    return String(id);
+  };
+  const userModel = {
+    findById: (id: unknown) => query(users.get(String(id)) ?? null),
+  };
+
+  const proxies: StoredProxy[] = [];
+  const updateProxies = (
+    filter: Record<string, unknown>,
+    update: { $set: Partial<StoredProxy> },
+  ) => {
+    proxies
+      .filter((proxy) => matchesProxy(proxy, filter))
+      .forEach((proxy) => Object.assign(proxy, update.$set));
+    return query({});
+  };
+  // Strongest first, like the ceiling then registration index; the stable
+  // sort keeps insertion order on full ties, as the _id tie-break would
+  const proxyBidModel = {
+    find: (filter: Record<string, unknown>) =>
+      query(
+        proxies
+          .filter((proxy) => matchesProxy(proxy, filter))
+          .sort(
+            (a, b) =>
+              b.maxAmount - a.maxAmount ||
+              a.registeredAt.getTime() - b.registeredAt.getTime(),
+          ),
+      ),
+    findOne: (filter: Record<string, unknown>) =>
+      query(proxies.find((proxy) => matchesProxy(proxy, filter)) ?? null),
+    findOneAndUpdate: (
+      filter: Record<string, unknown>,
+      update: {
+        $set: Partial<StoredProxy>;
+        $unset?: Partial<Record<keyof StoredProxy, 1>>;
+      },
+      options: { upsert?: boolean } = {},
+    ) => {
+      let proxy = proxies.find((entry) => matchesProxy(entry, filter));
+      if (!proxy && !options.upsert) {
+        return query(null);
+      }
+      if (!proxy) {
+        proxy = {
+          _id: new Types.ObjectId(),
+          auctionId: new Types.ObjectId(String(filter.auctionId)),
+          userId: new Types.ObjectId(String(filter.userId)),
+          maxAmount: 0,
+          status: ProxyBidStatus.ACTIVE,
+          registeredAt: new Date(),
+        };
+        proxies.push(proxy);
+      }
+      Object.assign(proxy, update.$set);
+      for (const key of Object.keys(update.$unset ?? {})) {
+        delete proxy[key as keyof StoredProxy];
+      }
+      return query(proxy);
+    },
+    updateMany: updateProxies,
+    updateOne: updateProxies,
+  };
+  const sessionModel = {
+    findById: (id: unknown) =>
+      query(String(id) === String(session._id) ? session : null),
+  };
+  const bidRequestModel = {
+    create: (data: Record<string, any>) => {
+      const duplicate = requests.find(
+        (request) =>
+          String(request.userId) === String(data.userId) &&
+          request.idempotencyKey === data.idempotencyKey,
+      );
+      if (duplicate) {
+        return Promise.reject(
+          Object.assign(new Error('duplicate key'), { code: 11000 }),
+        );
+      }
+      const request = {
+        ...data,
+        _id: new Types.ObjectId(),
+        auctionId: new Types.ObjectId(String(data.auctionId)),
+        status: BidRequestStatus.PENDING,
+      };
+      requests.push(request);
+      return Promise.resolve(request);
+    },
+    findOne: (filter: Record<string, any>) =>
+      Promise.resolve(
+        requests.find(
+          (request) =>
+            String(request.userId) === String(filter.userId) &&
+            request.idempotencyKey === filter.idempotencyKey,
+        ) ?? null,
+      ),
+    findById: (id: unknown) =>
+      Promise.resolve(
+        requests.find((request) => String(request._id) === String(id)) ?? null,
+      ),
+    updateOne: (filter: Record<string, any>, update: Record<string, any>) => {
+      const request = requests.find(
+        (entry) => String(entry._id) === String(filter._id),
+      );
+      if (request && request.status === filter.status) {
+        Object.assign(request, update.$set as object);
+      }
+      return Promise.resolve({});
+    },
+  };
+
+  return {
+    userId: String(userId),
+    auctionId: String(auctionId),
+    sessionId: String(session._id),
+    // Set to bid for an organization over REST
+    organizationId: undefined as string | undefined,
+    user,
+    addUser,
+    session,
+    auction,
+    addAuction,
+    bids,
+    proxies,
+    requests,
+    models: {
+      bidModel,
+      auctionModel,
+      userModel,
+      proxyBidModel,
+      bidRequestModel,
+      sessionModel,
+    },
+  };
+}
+
+async function createHarness(brokerConnected: boolean) {
+  const store = createStore();
+  let consume: ((bid: BidMessage) => Promise<void>) | undefined;
+  // How the queue settled each delivery, as the real consumer would
+  const deliveries: ('ack' | 'requeue' | 'dead-letter')[] = [];
+  const resolved = () => Promise.resolve();
+
+  // Delivers published bids straight to the consumer, like the real queue
+  const rabbitmqService = {
+    isConnected: () => brokerConnected,
+    startBidProcessingConsumer: (
+      handler: (bid: BidMessage) => Promise<void>,
+    ) => {
+      consume = handler;
+      return resolved();
+    },
+    publishBidProcessing: jest.fn(async (bid: BidMessage) => {
+      deliveries.push(
+        await consume!(bid).then(
+          () => 'ack' as const,
+          (error) =>
+            error instanceof RequeueMessageError ? 'requeue' : 'dead-letter',
+        ),
+      );
+    }),
+    publishNotification: jest.fn<Promise<void>, [Record<string, any>]>(
+      resolved,
+    ),
+    publishAuditLog: jest.fn<Promise<void>, [Record<string, any>]>(resolved),
+  };
+
+  // Locks are held for real, so bids on different auctions interleave
+  // while bids contending for the same lock take turns
+  const locks = new Set<string>();
+  const redisService = {
+    waitForLock: jest.fn<Promise<boolean>, [string, number?, number?]>(
+      async (key) => {
+        while (locks.has(key)) {
+          await new Promise((resolve) => setImmediate(resolve));
+        }
+        locks.add(key);
+        return true;
+      },
+    ),
+    releaseLock: (key: string) => {
+      locks.delete(key);
+      return resolved();
+    },
+    cacheHighestBid: resolved,
+    cacheAuction: resolved,
+    invalidateAuctionCache: resolved,
+    publishBidUpdate: jest.fn(resolved),
+    publishAuctionEvent: jest.fn<
+      Promise<void>,
+      [string, string, Record<string, any>]
+    >(resolved),
+    publishGlobalNotification: jest.fn(resolved),
+  };
+
+  const auctionsService = {
+    isSealed: () => false,
+    isDutch: () => false,
+    isReserveMet: () => true,
+    isBuyNowAvailable: jest.fn(() => true),
+    closeAuction: jest.fn<Promise<unknown>, [Record<string, any>, boolean?]>(
+      (auction) => Promise.resolve(auction),
+    ),
+  };
+
+  const organizationsService = {
+    assertCanBid: jest.fn<Promise<void>, [string, string, string, number]>(
+      resolved,
+    ),
+  };
+
+  const creditService = {
+    assertAvailable: jest.fn<Promise<void>, [string, string, number]>(resolved),
+    holdLeadingBid: jest.fn<
+      Promise<void>,
+      [string, string | undefined, number, Types.ObjectId]
+    >(resolved),
+    holdSealedBid: jest.fn(resolved),
+    release: jest.fn(resolved),
+  };
+
+  const module: TestingModule = await Test.createTestingModule({
+    controllers: [BidsController],
+    providers: [
+      BidProcessorService,
+      BidIncrementService,
+      WebsocketGateway,
+      { provide: getModelToken(Bid.name), useValue: store.models.bidModel },
+      {
+        provide: getModelToken(Auction.name),
+        useValue: store.models.auctionModel,
+      },
+      { provide: getModelToken(User.name), useValue: store.models.userModel },
+      {
+        provide: getModelToken(ProxyBid.name),
+        useValue: store.models.proxyBidModel,
+      },
+      {
+        provide: getModelToken(BidRequest.name),
+        useValue: store.models.bidRequestModel,
+      },
+      {
+        provide: getModelToken(Session.name),
+        useValue: store.models.sessionModel,
+      },
+      { provide: RabbitmqService, useValue: rabbitmqService },
+      { provide: RedisService, useValue: redisService },
+      { provide: AuctionsService, useValue: auctionsService },
+      { provide: OrganizationsService, useValue: organizationsService },
+      { provide: CreditService, useValue: creditService },
+      {
+        provide: WebhooksService,
+        useValue: { emit: () => Promise.resolve() },
+      },
+      {
+        provide: ConfigService,
+        useValue: { get: (_key: string, fallback?: unknown) => fallback },
+      },
+      { provide: BidsService, useValue: {} },
+      { provide: JwtService, useValue: {} },
+      { provide: WebSocketConnectionLimitService, useValue: {} },
+      { provide: SessionsService, useValue: {} },
+    ],
+  })
+    .overrideGuard(ThrottlerGuard)
+    .useValue({ canActivate: () => true })
+    .overrideGuard(JwtAuthGuard)
+    .useValue({ canActivate: () => true })
+    .compile();
+
+  await module.get(BidProcessorService).onModuleInit();
+
+  const placeOverRest = async (
+    bidAmount: number,
+    idempotencyKey?: string,
+    auctionId = store.auctionId,
+  ) =>
+    module.get(BidsController).placeBid(
+      {
+        user: {
+          _id: new Types.ObjectId(store.userId),
+          username: 'bidder',
+          email: 'bidder@example.com',
+          roles: [UserRole.BIDDER],
+          sessionId: store.sessionId,
+          organizationId: store.organizationId,
+        },
+      },
+      { auctionId, bidAmount, idempotencyKey },
+    );
+
+  const placeOverSocket = async (
+    bidAmount: number,
+    idempotencyKey?: string,
+  ) => {
+    const emit = jest.fn<boolean, [string, { requestId: string }]>(() => true);
+    const socket: Pick<ClientSocket, 'id' | 'data' | 'emit'> = {
+      id: 'socket-1',
+      data: {
+        user: {
+          _id: store.userId,
+          username: 'bidder',
+          email: 'bidder@example.com',
+          roles: [UserRole.BIDDER],
+        },
+        sessionId: 'session-1',
+        clientIP: '127.0.0.1',
+      },
+      emit,
+    };
+    await module
+      .get(WebsocketGateway)
+      .handlePlaceBid(
+        { auctionId: store.auctionId, bidAmount, idempotencyKey },
+        socket as ClientSocket,
+      );
+    return emit.mock.calls[0][1];
+  };
+
+  const setProxy = (userId: string, maxAmount: number, sessionId?: string) =>
+    module
+      .get(BidProcessorService)
+      .setProxyBid(store.auctionId, userId, maxAmount, { sessionId });
+
+  const buyNow = () =>
+    module.get(BidProcessorService).buyNow(store.auctionId, store.userId, {
+      sessionId: store.sessionId,
+    });
+
+  const notificationsOf = (type: string) =>
+    rabbitmqService.publishNotification.mock.calls
+      .map(([notification]) => notification)
+      .filter((notification) => notification.type === type);
+
+  return {
+    store,
+    rabbitmqService,
+    deliveries,
+    redisService,
+    auctionsService,
+    organizationsService,
+    creditService,
+    placeOverRest,
+    placeOverSocket,
+    setProxy,
+    buyNow,
+    notificationsOf,
+  };
+}
+
+// Strips per-run identifiers so outcomes from separate runs can be compared
+const outcomeOf = (harness: Awaited<ReturnType<typeof createHarness>>) => ({
+  request: {
+    status: harness.store.requests[0]?.status as BidRequestStatus | undefined,
+    reason: harness.store.requests[0]?.reason as string | undefined,
+  },
+  auction: {
+    currentHighestBid: harness.store.auction.currentHighestBid as number,
+    bidCount: harness.store.auction.bidCount as number,
+    leader: harness.store.auction.winnerId === harness.store.userId,
+  },
+  bids: harness.store.bids.map((bid) => ({
+    bidAmount: bid.bidAmount as number,
+    status: bid.status as BidStatus,
+    isWinning: bid.isWinning as boolean,
+  })),
+  bidUpdates: harness.redisService.publishBidUpdate.mock.calls.length,
+  notifications: harness.rabbitmqService.publishNotification.mock.calls.map(
+    ([notification]) => String(notification.type),
+  ),
+  audit: harness.rabbitmqService.publishAuditLog.mock.calls.map(([log]) =>
+    String(log.action),
+  ),
+});
+
+describe('BidProcessorService bid placement paths', () => {
+  it.each([true, false])(
+    'accepts a valid bid identically over REST and WebSocket (broker connected: %s)',
+    async (brokerConnected) => {
+      const rest = await createHarness(brokerConnected);
+      const socket = await createHarness(brokerConnected);
+
+      await rest.placeOverRest(1000);
+      await socket.placeOverSocket(1000);
+
+      const restOutcome = outcomeOf(rest);
+      expect(restOutcome.request.status).toBe(BidRequestStatus.ACCEPTED);
+      expect(restOutcome.auction.currentHighestBid).toBe(1000);
+      expect(restOutcome.bids).toEqual([
+        { bidAmount: 1000, status: BidStatus.ACCEPTED, isWinning: true },
+      ]);
+      expect(restOutcome.auction.leader).toBe(true);
+      expect(restOutcome.bidUpdates).toBe(1);
+      expect(outcomeOf(socket)).toEqual(restOutcome);
+    },
+  );
+
+  it('rejects a bid below the minimum identically over REST and WebSocket', async () => {
+    const rest = await createHarness(true);
+    const socket = await createHarness(true);
+    rest.store.auction.bidCount = socket.store.auction.bidCount = 1;
+
+    await rest.placeOverRest(1050);
+    await socket.placeOverSocket(1050);
+
+    const restOutcome = outcomeOf(rest);
+    expect(restOutcome.request.status).toBe(BidRequestStatus.REJECTED);
+    expect(restOutcome.request.reason).toMatch(/Bid must be at least/);
+    expect(restOutcome.bids).toEqual([]);
+    expect(restOutcome.bidUpdates).toBe(0);
+    expect(outcomeOf(socket)).toEqual(restOutcome);
+  });
+
+  it('rejects a seller bidding on their own auction', async () => {
+    const harness = await createHarness(true);
+    harness.store.auction.sellerId = new Types.ObjectId(harness.store.userId);
+
+    await harness.placeOverRest(1000);
+
+    expect(outcomeOf(harness).request).toEqual({
+      status: BidRequestStatus.REJECTED,
+      reason: 'Sellers cannot bid on their own auctions',
+    });
+    expect(harness.store.bids).toEqual([]);
+  });
+
+  it('requires a recent two-factor step-up above the auction threshold', async () => {
+    const harness = await createHarness(true);
+    harness.store.auction.stepUpBidThreshold = 1000;
+
+    await harness.placeOverRest(1000, 'no-2fa');
+    expect(outcomeOf(harness).request.reason).toBe(
+      'Enable two-factor authentication to bid $1000 or more',
+    );
+
+    harness.store.user.twoFactorEnabled = true;
+    harness.store.session.twoFactorVerifiedAt = new Date(
+      Date.now() - 3_600_000,
+    );
+    await harness.placeOverRest(1000, 'stale-step-up');
+    expect(harness.store.requests[1].reason).toBe(
+      'Confirm a two-factor code to bid $1000 or more',
+    );
+
+    harness.store.session.twoFactorVerifiedAt = new Date();
+    await harness.placeOverRest(1000, 'fresh-step-up');
+    expect(harness.store.requests[2].status).toBe(BidRequestStatus.ACCEPTED);
+    expect(harness.store.bids).toHaveLength(1);
+  });
+
+  it("rejects a bid beyond the bidder's credit and reports it in BID_FAILED", async () => {
+    const harness = await createHarness(true);
+    const credit = { creditLimit: 5000, exposure: 4500, available: 500 };
+    harness.creditService.assertAvailable.mockRejectedValueOnce(
+      new CreditLimitExceededException(1000, credit),
+    );
+
+    await harness.placeOverRest(1000, 'over-limit');
+
+    expect(outcomeOf(harness).request.reason).toBe(
+      'Bid of $1000 exceeds your available credit of $500 (limit $5000, $4500 held for your leading bids)',
+    );
+    expect(
+      harness.rabbitmqService.publishNotification.mock.calls.find(
+        ([notification]) => notification.type === 'BID_FAILED',
+      )?.[0],
+    ).toMatchObject({ data: { reason: 'CREDIT_LIMIT_EXCEEDED', credit } });
+    expect(harness.creditService.holdLeadingBid).not.toHaveBeenCalled();
+
+    await harness.placeOverRest(1000, 'within-limit');
+
+    expect(harness.creditService.holdLeadingBid).toHaveBeenCalledWith(
+      harness.store.auctionId,
+      harness.store.userId,
+      1000,
+      harness.store.bids[0]._id,
+    );
+  });
+
+  it('sends an outbid notification only to the bidder who lost the lead', async () => {
+    const harness = await createHarness(true);
+    const rivalId = String(new Types.ObjectId());
+    Object.assign(harness.store.auction, { winnerId: rivalId, bidCount: 1 });
+    const outbidNotifications = () =>
+      harness.rabbitmqService.publishNotification.mock.calls
+        .map(([notification]) => notification)
+        .filter((notification) => notification.type === 'OUTBID_NOTIFICATION');
+
+    await harness.placeOverRest(1100, 'take-lead');
+    // Raising your own lead outbids nobody
+    await harness.placeOverRest(1200, 'raise-lead');
+
+    expect(harness.store.bids).toHaveLength(2);
+    expect(outbidNotifications()).toHaveLength(1);
+    expect(outbidNotifications()[0]).toMatchObject({
+      userId: rivalId,
+      auctionId: harness.store.auctionId,
+      data: { bidAmount: 1000, newBidAmount: 1100 },
+    });
+  });
+
+  it('audits each bid with the amount it replaced', async () => {
+    const harness = await createHarness(true);
+    Object.assign(harness.store.auction, { bidCount: 1 });
+
+    await harness.placeOverRest(1100);
+    await harness.placeOverRest(1350);
+
+    expect(
+      harness.rabbitmqService.publishAuditLog.mock.calls.map(
+        ([log]) => log.details as Record<string, any>,
+      ),
+    ).toMatchObject([
+      { bidAmount: 1100, previousBid: 1000 },
+      { bidAmount: 1350, previousBid: 1100 },
+    ]);
+  });
+
+  it('attributes a bid to the organization it was placed for', async () => {
+    const harness = await createHarness(true);
+    const organizationId = String(new Types.ObjectId());
+    harness.store.organizationId = organizationId;
+    harness.organizationsService.assertCanBid.mockRejectedValueOnce(
+      new ForbiddenException('Viewers cannot bid for the organization'),
+    );
+
+    await harness.placeOverRest(1000, 'as-viewer');
+    expect(outcomeOf(harness).request.reason).toBe(
+      'Viewers cannot bid for the organization',
+    );
+
+    await harness.placeOverRest(1000, 'as-buyer');
+
+    expect(harness.organizationsService.assertCanBid).toHaveBeenLastCalledWith(
+      organizationId,
+      harness.store.userId,
+      harness.store.auctionId,
+      1000,
+    );
+    expect(harness.store.requests[1].organizationId).toBe(organizationId);
+    expect(harness.store.bids).toHaveLength(1);
+    expect(harness.store.bids[0].organizationId).toBe(organizationId);
+    expect(harness.store.auction.winnerOrganizationId).toBe(organizationId);
+    // Covered by the organization's limit, not the bidder's credit
+    expect(harness.creditService.assertAvailable).not.toHaveBeenCalled();
+    expect(harness.creditService.holdLeadingBid).toHaveBeenCalledWith(
+      harness.store.auctionId,
+      undefined,
+      1000,
+      harness.store.bids[0]._id,
+    );
+  });
+
+  it('places a bid only once when the idempotency key is reused', async () => {
+    const harness = await createHarness(true);
+
+    const first = await harness.placeOverRest(1000, 'retry-key');
+    const retry = await harness.placeOverSocket(1000, 'retry-key');
+
+    expect(retry.requestId).toBe(first.requestId);
+    expect(harness.store.bids).toHaveLength(1);
+    expect(harness.rabbitmqService.publishBidProcessing).toHaveBeenCalledTimes(
+      1,
+    );
+  });
+
+  it('refuses to reuse an idempotency key for a different bid', async () => {
+    const harness = await createHarness(true);
+    const otherAuctionId = harness.store.addAuction();
+
+    await harness.placeOverRest(1000, 'retry-key');
+
+    await expect(harness.placeOverRest(1100, 'retry-key')).rejects.toThrow(
+      new ConflictException(
+        'Idempotency key was already used for a different bid',
+      ),
+    );
+    await expect(
+      harness.placeOverRest(1000, 'retry-key', otherAuctionId),
+    ).rejects.toThrow('Idempotency key was already used for a different bid');
+    expect(harness.store.requests).toHaveLength(1);
+    expect(harness.store.bids).toHaveLength(1);
+  });
+
+  it('validates a WebSocket bid against CreateBidDto before submitting it', async () => {
+    const handler = Object.getOwnPropertyDescriptor(
+      WebsocketGateway.prototype,
+      'handlePlaceBid',
+    )!.value as object;
+    const [pipe] = Reflect.getMetadata(
+      PIPES_METADATA,
+      handler,
+    ) as ValidationPipe[];
+    const [metatype] = Reflect.getMetadata(
+      'design:paramtypes',
+      WebsocketGateway.prototype,
+      'handlePlaceBid',
+    ) as (new () => unknown)[];
+    const validate = (body: Record<string, unknown>) =>
+      pipe.transform(body, { type: 'body', metatype });
+
+    await expect(
+      validate({ auctionId: 'auction-1', bidAmount: 1000 }),
+    ).resolves.toBeInstanceOf(CreateBidDto);
+    await expect(
+      validate({ auctionId: 'auction-1', bidAmount: 'lots' }),
+    ).rejects.toThrow(WsException);
+    await expect(
+      validate({ auctionId: 'auction-1', bidAmount: 0 }),
+    ).rejects.toThrow('bidAmount must not be less than 1');
+  });
+
+  it('puts a queued bid back on the queue while the auction stays busy', async () => {
+    const harness = await createHarness(true);
+    harness.redisService.waitForLock.mockResolvedValueOnce(false);
+
+    await harness.placeOverRest(1000, 'busy');
+
+    expect(harness.deliveries).toEqual(['requeue']);
+    expect(outcomeOf(harness).request.status).toBe(BidRequestStatus.PENDING);
+    expect(harness.store.bids).toEqual([]);
+    expect(harness.rabbitmqService.publishNotification).not.toHaveBeenCalled();
+
+    // Redelivered once the auction is free
+    await harness.rabbitmqService.publishBidProcessing(
+      harness.rabbitmqService.publishBidProcessing.mock.calls[0][0],
+    );
+
+    expect(harness.deliveries).toEqual(['requeue', 'ack']);
+    expect(outcomeOf(harness).request.status).toBe(BidRequestStatus.ACCEPTED);
+    expect(harness.store.bids).toHaveLength(1);
+  });
+
+  it('rejects an inline bid only after waiting out a busy auction', async () => {
+    const harness = await createHarness(false);
+    harness.redisService.waitForLock.mockResolvedValueOnce(false);
+
+    await harness.placeOverRest(1000, 'busy');
+
+    expect(harness.redisService.waitForLock).toHaveBeenCalledWith(
+      `bid-processing:${harness.store.auctionId}`,
+      10000,
+      5000,
+    );
+    expect(outcomeOf(harness).request).toEqual({
+      status: BidRequestStatus.REJECTED,
+      reason: 'Auction is busy, please try again',
+    });
+  });
+
+  it('lets only one of two simultaneous bids on different auctions spend the same credit', async () => {
+    const harness = await createHarness(false);
+    const otherAuctionId = harness.store.addAuction();
+    // Room for one $1000 bid. Each check yields between reading the holds
+    // and deciding, as a database round trip would.
+    const holds = new Map<string, number>();
+    harness.creditService.assertAvailable.mockImplementation(
+      async (_userId, auctionId, amount) => {
+        const exposure = [...holds]
+          .filter(([heldAuctionId]) => heldAuctionId !== auctionId)
+          .reduce((sum, [, held]) => sum + held, 0);
+        await new Promise((resolve) => setImmediate(resolve));
+        if (exposure + amount > 1500) {
+          throw new CreditLimitExceededException(amount, {
+            creditLimit: 1500,
+            exposure,
+            available: 1500 - exposure,
+          });
+        }
+      },
+    );
+    harness.creditService.holdLeadingBid.mockImplementation(
+      (auctionId, _leaderId, amount) => {
+        holds.set(auctionId, amount);
+        return Promise.resolve();
+      },
+    );
+
+    await Promise.all([
+      harness.placeOverRest(1000, 'first'),
+      harness.placeOverRest(1000, 'second', otherAuctionId),
+    ]);
+
+    expect(
+      harness.store.requests.map((request) => request.status as string).sort(),
+    ).toEqual([BidRequestStatus.ACCEPTED, BidRequestStatus.REJECTED]);
+    expect(harness.store.bids).toHaveLength(1);
+    expect([...holds.values()]).toEqual([1000]);
+  });
+
+  it("lets only one of two simultaneous bids on different auctions spend the organization's limit", async () => {
+    const harness = await createHarness(false);
+    const otherAuctionId = harness.store.addAuction();
+    harness.store.organizationId = String(new Types.ObjectId());
+    // Room for one $1000 bid, committed by the bids already recorded
+    harness.organizationsService.assertCanBid.mockImplementation(
+      async (_id, _userId, auctionId, amount) => {
+        const committed = harness.store.bids
+          .filter((bid) => String(bid.auctionId) !== auctionId)
+          .reduce((sum, bid) => sum + (bid.bidAmount as number), 0);
+        await new Promise((resolve) => setImmediate(resolve));
+        if (committed + amount > 1500) {
+          throw new ForbiddenException('Bid would exceed the spending limit');
+        }
+      },
+    );
+
+    await Promise.all([
+      harness.placeOverRest(1000, 'first'),
+      harness.placeOverRest(1000, 'second', otherAuctionId),
+    ]);
+
+    expect(
+      harness.store.requests.map((request) => request.status as string).sort(),
+    ).toEqual([BidRequestStatus.ACCEPTED, BidRequestStatus.REJECTED]);
+    expect(harness.store.bids).toHaveLength(1);
+  });
+});
+
+describe('BidProcessorService maximum bids', () => {
+  // Who leads, at what price, and every bid placed so far
+  const standingOf = (harness: Awaited<ReturnType<typeof createHarness>>) => ({
+    leaderId: String(harness.store.auction.winnerId),
+    currentHighestBid: harness.store.auction.currentHighestBid as number,
+    bids: harness.store.bids.map((bid) => [
+      String(bid.userId),
+      bid.bidAmount as number,
+      bid.isProxy as boolean,
+    ]),
+  });
+  const statusOf = (
+    harness: Awaited<ReturnType<typeof createHarness>>,
+    userId: string,
+  ) =>
+    harness.store.proxies.find((proxy) => String(proxy.userId) === userId)
+      ?.status;
+
+  it('answers a manual bid one increment above it', async () => {
+    const harness = await createHarness(true);
+    const rivalId = harness.store.addUser();
+
+    await harness.setProxy(rivalId, 3000);
+    await harness.placeOverRest(1500);
+
+    expect(outcomeOf(harness).request.status).toBe(BidRequestStatus.ACCEPTED);
+    expect(standingOf(harness)).toEqual({
+      leaderId: rivalId,
+      currentHighestBid: 1600,
+      bids: [
+        [rivalId, 1000, true],
+        [harness.store.userId, 1500, false],
+        [rivalId, 1600, true],
+      ],
+    });
+    expect(statusOf(harness, rivalId)).toBe(ProxyBidStatus.ACTIVE);
+  });
+
+  it('tells only the manual bidder they were outbid when the leader answers by proxy', async () => {
+    const harness = await createHarness(true);
+    const rivalId = harness.store.addUser();
+
+    await harness.setProxy(rivalId, 3000);
+    await harness.placeOverRest(1500);
+
+    expect(harness.notificationsOf('OUTBID_NOTIFICATION')).toMatchObject([
+      {
+        userId: harness.store.userId,
+        data: { bidAmount: 1500, newBidAmount: 1600 },
+      },
+    ]);
+  });
+
+  it.each([
+    [3000, 2100],
+    [2050, 2050],
+  ])(
+    'takes the lead from a weaker maximum bid one increment over its ceiling, capped at its own (%i)',
+    async (ceiling, price) => {
+      const harness = await createHarness(true);
+      const rivalId = harness.store.addUser();
+
+      await harness.setProxy(rivalId, ceiling);
+      await harness.setProxy(harness.store.userId, 2000);
+
+      expect(standingOf(harness)).toMatchObject({
+        leaderId: rivalId,
+        currentHighestBid: price,
+      });
+      // The weaker ceiling is below the next valid bid, so it is spent
+      expect(statusOf(harness, harness.store.userId)).toBe(
+        ProxyBidStatus.EXHAUSTED,
+      );
+      expect(harness.notificationsOf('PROXY_BID_EXHAUSTED')).toEqual([
+        expect.objectContaining({
+          userId: harness.store.userId,
+          data: expect.objectContaining({ maxAmount: 2000 }) as unknown,
+        }),
+      ]);
+    },
+  );
+
+  it('breaks a tie between equal ceilings in favour of the earlier one', async () => {
+    const harness = await createHarness(true);
+    const rivalId = harness.store.addUser();
+
+    await harness.setProxy(rivalId, 2000);
+    await harness.setProxy(harness.store.userId, 2000);
+
+    expect(standingOf(harness)).toMatchObject({
+      leaderId: rivalId,
+      currentHighestBid: 2000,
+    });
+    expect(statusOf(harness, harness.store.userId)).toBe(
+      ProxyBidStatus.EXHAUSTED,
+    );
+  });
+
+  it('keeps a manual bid when the maximum bid answering it fails', async () => {
+    const harness = await createHarness(true);
+    // Its bidder's account is gone
+    harness.store.proxies.push({
+      _id: new Types.ObjectId(),
+      auctionId: new Types.ObjectId(harness.store.auctionId),
+      userId: new Types.ObjectId(),
+      maxAmount: 3000,
+      status: ProxyBidStatus.ACTIVE,
+      registeredAt: new Date(),
+    });
+
+    await harness.placeOverRest(1500);
+
+    expect(outcomeOf(harness).request.status).toBe(BidRequestStatus.ACCEPTED);
+    expect(harness.notificationsOf('BID_FAILED')).toEqual([]);
+    expect(standingOf(harness)).toEqual({
+      leaderId: harness.store.userId,
+      currentHighestBid: 1500,
+      bids: [[harness.store.userId, 1500, false]],
+    });
+  });
+
+  it('cancels a maximum bid its bidder can no longer cover and lets the next one answer', async () => {
+    const harness = await createHarness(true);
+    const overdrawnId = harness.store.addUser();
+    const rivalId = harness.store.addUser();
+    // Registered before anyone bid, so neither has answered yet
+    for (const [userId, maxAmount] of [
+      [overdrawnId, 3000],
+      [rivalId, 2500],
+    ] as const) {
+      harness.store.proxies.push({
+        _id: new Types.ObjectId(),
+        auctionId: new Types.ObjectId(harness.store.auctionId),
+        userId: new Types.ObjectId(userId),
+        maxAmount,
+        status: ProxyBidStatus.ACTIVE,
+        registeredAt: new Date(),
+      });
+    }
+    // Their credit was spent elsewhere after the ceiling was set
+    harness.creditService.assertAvailable.mockImplementation(
+      (userId, _auctionId, amount) =>
+        userId === overdrawnId
+          ? Promise.reject(
+              new CreditLimitExceededException(amount, {
+                creditLimit: 3000,
+                exposure: 2000,
+                available: 1000,
+              }),
+            )
+          : Promise.resolve(),
+    );
+
+    await harness.placeOverRest(1500);
+
+    // The manual bid stands even though the proxy answering it failed
+    expect(outcomeOf(harness).request.status).toBe(BidRequestStatus.ACCEPTED);
+    expect(statusOf(harness, overdrawnId)).toBe(ProxyBidStatus.CANCELLED);
+    expect(harness.notificationsOf('PROXY_BID_CANCELLED')).toEqual([
+      expect.objectContaining({ userId: overdrawnId }),
+    ]);
+    expect(standingOf(harness)).toEqual({
+      leaderId: rivalId,
+      currentHighestBid: 1600,
+      bids: [
+        [harness.store.userId, 1500, false],
+        [rivalId, 1600, true],
+      ],
+    });
+  });
+
+  it("keeps a manual bid when the proxy answering it finds its buyer's lock busy", async () => {
+    const harness = await createHarness(true);
+    const rivalId = harness.store.addUser();
+    await harness.setProxy(rivalId, 3000);
+    // The rival's other bids hold their buyer lock for as long as we wait
+    const waitForLock =
+      harness.redisService.waitForLock.getMockImplementation()!;
+    harness.redisService.waitForLock.mockImplementation((key, ...rest) =>
+      key === `buying-power:user:${rivalId}`
+        ? Promise.resolve(false)
+        : waitForLock(key, ...rest),
+    );
+
+    await harness.placeOverRest(1500);
+
+    expect(outcomeOf(harness).request.status).toBe(BidRequestStatus.ACCEPTED);
+    expect(harness.notificationsOf('BID_FAILED')).toEqual([]);
+    expect(standingOf(harness)).toMatchObject({
+      leaderId: harness.store.userId,
+      currentHighestBid: 1500,
+    });
+    // It stays registered to answer the next bid
+    expect(statusOf(harness, rivalId)).toBe(ProxyBidStatus.ACTIVE);
+  });
+
+  // The bidder is not present when their proxy bids, so the step-up is
+  // taken once for the ceiling; the proxy never bids above it
+  it('needs the two-factor step-up when the ceiling is set, not for each bid it places', async () => {
+    const harness = await createHarness(true);
+    const rivalId = harness.store.addUser();
+    harness.store.auction.stepUpBidThreshold = 1500;
+    harness.store.user.twoFactorEnabled = true;
+
+    await expect(
+      harness.setProxy(harness.store.userId, 3000, harness.store.sessionId),
+    ).rejects.toThrow('Confirm a two-factor code to bid $1500 or more');
+
+    harness.store.session.twoFactorVerifiedAt = new Date();
+    await harness.setProxy(harness.store.userId, 3000, harness.store.sessionId);
+    // Long after the step-up, a rival challenges the proxy above the threshold
+    harness.store.session.twoFactorVerifiedAt = new Date(
+      Date.now() - 86_400_000,
+    );
+    await harness.setProxy(rivalId, 1400);
+
+    expect(standingOf(harness)).toMatchObject({
+      leaderId: harness.store.userId,
+      currentHighestBid: 1500,
+    });
+  });
+});
+
+describe('BidProcessorService soft close', () => {
+  const extensionsOf = (harness: Awaited<ReturnType<typeof createHarness>>) =>
+    harness.redisService.publishAuctionEvent.mock.calls
+      .filter(([, event]) => event === 'AUCTION_EXTENDED')
+      .map(([, , data]) => data);
+
+  // Two-minute window with 30-second extensions, so an extended auction is
+  // still inside the window; ends `secondsLeft` from now
+  const closingIn = async (secondsLeft: number, extensionCount = 0) => {
+    const harness = await createHarness(true);
+    Object.assign(harness.store.auction, {
+      endTime: new Date(Date.now() + secondsLeft * 1000),
+      softCloseWindowSeconds: 120,
+      softCloseExtensionSeconds: 30,
+      maxExtensions: 2,
+      extensionCount,
+    });
+    return harness;
+  };
+
+  it('extends the auction when a bid lands inside the window', async () => {
+    const harness = await closingIn(60);
+    const endTime = harness.store.auction.endTime as Date;
+
+    await harness.placeOverRest(1000);
+
+    const extendedTo = new Date(endTime.getTime() + 30_000);
+    expect(harness.store.auction).toMatchObject({
+      endTime: extendedTo,
+      extensionCount: 1,
+    });
+    expect(extensionsOf(harness)).toEqual([
+      {
+        auctionId: harness.store.auctionId,
+        endTime: extendedTo,
+        extensionCount: 1,
+        reason: 'SOFT_CLOSE',
+      },
+    ]);
+  });
+
+  it('leaves the end time alone for a bid before the window', async () => {
+    const harness = await closingIn(180);
+    const endTime = harness.store.auction.endTime as Date;
+
+    await harness.placeOverRest(1000);
+
+    expect(outcomeOf(harness).auction.bidCount).toBe(1);
+    expect(harness.store.auction).toMatchObject({ endTime, extensionCount: 0 });
+    expect(extensionsOf(harness)).toEqual([]);
+  });
+
+  it('stops extending once the auction has used its extensions', async () => {
+    const harness = await closingIn(60, 1);
+
+    await harness.placeOverRest(1000);
+    await harness.placeOverRest(1100);
+    const endTime = harness.store.auction.endTime as Date;
+    await harness.placeOverRest(1200);
+
+    expect(harness.store.auction).toMatchObject({ endTime, extensionCount: 2 });
+    expect(extensionsOf(harness)).toHaveLength(1);
+    expect(outcomeOf(harness).auction.currentHighestBid).toBe(1200);
+  });
+});
+
+describe('BidProcessorService buy-it-now', () => {
+  it('buys at the buy-it-now price and closes the auction on the spot', async () => {
+    const harness = await createHarness(true);
+    // Inside the soft-close window, which buying outright must not extend
+    const endTime = new Date(Date.now() + 30_000);
+    Object.assign(harness.store.auction, {
+      buyNowPrice: 8000,
+      endTime,
+      softCloseWindowSeconds: 120,
+      softCloseExtensionSeconds: 120,
+    });
+
+    await harness.buyNow();
+
+    expect(outcomeOf(harness).bids).toEqual([
+      { bidAmount: 8000, status: BidStatus.ACCEPTED, isWinning: true },
+    ]);
+    expect(harness.store.bids[0].isBuyNow).toBe(true);
+    expect(harness.store.auction).toMatchObject({
+      currentHighestBid: 8000,
+      endTime,
+      extensionCount: 0,
+    });
+    expect(harness.creditService.holdLeadingBid).toHaveBeenCalledWith(
+      harness.store.auctionId,
+      harness.store.userId,
+      8000,
+      harness.store.bids[0]._id,
+    );
+    expect(harness.auctionsService.closeAuction).toHaveBeenCalledTimes(1);
+    expect(harness.auctionsService.closeAuction.mock.calls[0][1]).toBe(true);
+  });
+
+  it('refuses once buy-it-now is no longer available', async () => {
+    const harness = await createHarness(true);
+    Object.assign(harness.store.auction, { buyNowPrice: 8000 });
+    harness.auctionsService.isBuyNowAvailable.mockReturnValue(false);
+
+    await expect(harness.buyNow()).rejects.toThrow(
+      'Buy-it-now is not available for this auction',
+    );
+    expect(harness.store.bids).toEqual([]);
+    expect(harness.auctionsService.closeAuction).not.toHaveBeenCalled();
+  });
+
+  it('refuses a buyer who cannot cover the price', async () => {
+    const harness = await createHarness(true);
+    Object.assign(harness.store.auction, { buyNowPrice: 8000 });
+    harness.creditService.assertAvailable.mockRejectedValueOnce(
+      new CreditLimitExceededException(8000, {
+        creditLimit: 5000,
+        exposure: 0,
+        available: 5000,
+      }),
+    );
+
+    await expect(harness.buyNow()).rejects.toBeInstanceOf(
+      CreditLimitExceededException,
+    );
+    expect(harness.store.bids).toEqual([]);
+    expect(harness.auctionsService.closeAuction).not.toHaveBeenCalled();
+  });
+});
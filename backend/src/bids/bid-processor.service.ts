@@ -1,12 +1,79 @@
-import { Injectable, OnModuleInit, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  OnModuleInit,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
-import { RabbitmqService } from '../rabbitmq/rabbitmq-simple.service';
+import { randomUUID } from 'crypto';
+import { HydratedDocument, Model, Types } from 'mongoose';
+import {
+  RabbitmqService,
+  RequeueMessageError,
+} from '../rabbitmq/rabbitmq-simple.service';
 import { RedisService } from '../redis/redis.service';
 import { Bid } from '../database/schemas/bid.schema';
 import { Auction } from '../database/schemas/auction.schema';
 import { User } from '../database/schemas/user.schema';
-import { RabbitMQQueues, BidStatus, AuctionStatus } from '../common/enums/auction.enum';
+import { ProxyBid } from '../database/schemas/proxy-bid.schema';
+import { BidRequest } from '../database/schemas/bid-request.schema';
+import { Session } from '../database/schemas/session.schema';
+import { AuctionsService } from '../auctions/auctions.service';
+import { OrganizationsService } from '../organizations/organizations.service';
+import {
+  CreditDetails,
+  CreditLimitExceededException,
+  CreditService,
+} from '../credit/credit.service';
+import { BidIncrementService } from '../auctions/bid-increment.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import {
+  BidStatus,
+  AuctionStatus,
+  BidRequestStatus,
+  ProxyBidStatus,
+  WebhookEvent,
+  AuditAction,
+} from '../common/enums/auction.enum';
+
+// Who the bidder is acting as, taken from their access token
+export interface BidderContext {
+  // Session the bid was placed from, for the two-factor step-up policy
+  sessionId?: string;
+  // Organization the bid is placed for; its role and spending limit apply
+  organizationId?: string;
+}
+
+export interface BidSubmission extends BidderContext {
+  auctionId: string;
+  userId: string;
+  bidAmount: number;
+  idempotencyKey?: string;
+  username?: string;
+  socketId?: string;
+}
+
+// A bid submission as queued for processing, tied to its bid request
+export interface BidMessage extends BidSubmission {
+  requestId?: string;
+  idempotencyKey: string;
+}
+
+// An accepted bid as cached and broadcast, with who placed it
+type ProcessedBid = Bid & {
+  _id: Types.ObjectId;
+  user: { _id: Types.ObjectId; username: string; email: string };
+};
+
+// How long a bid waits for another bid on the same auction to finish
+const AUCTION_LOCK_WAIT_MS = 5000;
+
+// How long a bid waits for the same buyer's bids on other auctions
+const BUYER_LOCK_WAIT_MS = 5000;
 
 @Injectable()
 export class BidProcessorService implements OnModuleInit {
@@ -16,132 +83,1132 @@ export class BidProcessorService implements OnModuleInit {
     @InjectModel(Bid.name) private bidModel: Model<Bid>,
     @InjectModel(Auction.name) private auctionModel: Model<Auction>,
     @InjectModel(User.name) private userModel: Model<User>,
+    @InjectModel(ProxyBid.name) private proxyBidModel: Model<ProxyBid>,
+    @InjectModel(BidRequest.name) private bidRequestModel: Model<BidRequest>,
+    @InjectModel(Session.name) private sessionModel: Model<Session>,
     private readonly rabbitmqService: RabbitmqService,
     private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+    private readonly auctionsService: AuctionsService,
+    private readonly bidIncrementService: BidIncrementService,
+    private readonly organizationsService: OrganizationsService,
+    private readonly creditService: CreditService,
+    private readonly webhooksService: WebhooksService,
   ) {}
 
   async onModuleInit() {
     // Start consuming bid processing messages from RabbitMQ
-    await this.rabbitmqService.startBidProcessingConsumer(this.processBid.bind(this));
+    await this.rabbitmqService.startBidProcessingConsumer((bid: BidMessage) =>
+      this.processBid(bid),
+    );
     this.logger.log('Bid processor service initialized and consuming messages');
   }
 
-  private async processBid(bidData: any) {
-    const { auctionId, userId, bidAmount, username, socketId } = bidData;
+  // Single entry point for bids from REST and WebSocket alike. Records the
+  // bid request and queues it for processing; a repeated idempotency key
+  // returns the original request instead of queueing again.
+  async submitBid(submission: BidSubmission) {
+    const {
+      auctionId,
+      userId,
+      bidAmount,
+      username,
+      socketId,
+      sessionId,
+      organizationId,
+    } = submission;
+    const idempotencyKey = submission.idempotencyKey || randomUUID();
+
+    let request: HydratedDocument<BidRequest>;
+    try {
+      request = await this.bidRequestModel.create({
+        userId,
+        auctionId,
+        bidAmount,
+        idempotencyKey,
+        socketId,
+        organizationId,
+      });
+    } catch (error) {
+      if ((error as { code?: number }).code !== 11000) {
+        throw error;
+      }
+
+      const existing = await this.bidRequestModel.findOne({
+        userId,
+        idempotencyKey,
+      });
+      if (
+        !existing ||
+        existing.auctionId.toString() !== auctionId ||
+        existing.bidAmount !== bidAmount
+      ) {
+        throw new ConflictException(
+          'Idempotency key was already used for a different bid',
+        );
+      }
+      return this.toBidRequestView(existing);
+    }
+
+    const bidData: BidMessage = {
+      requestId: String(request._id),
+      idempotencyKey,
+      auctionId,
+      userId,
+      bidAmount,
+      username,
+      socketId,
+      sessionId,
+      organizationId,
+    };
+
+    if (this.rabbitmqService.isConnected()) {
+      await this.rabbitmqService.publishBidProcessing(bidData);
+      return this.toBidRequestView(request);
+    }
+
+    // Without a broker the same pipeline runs inline, so the bid is never
+    // silently dropped. There is no queue to put a busy bid back on, so it
+    // is rejected if the auction stays busy.
+    try {
+      await this.processBid(bidData, { requeueWhenBusy: false });
+    } catch {
+      // Already recorded on the request as REJECTED
+    }
+
+    const processed = await this.bidRequestModel.findById(request._id);
+    return this.toBidRequestView(processed ?? request);
+  }
+
+  // Only ever returned to the bidder who submitted it
+  async getBidRequest(requestId: string, userId: string) {
+    const request = Types.ObjectId.isValid(requestId)
+      ? await this.bidRequestModel.findOne({ _id: requestId, userId })
+      : null;
+    if (!request) {
+      throw new NotFoundException('Bid request not found');
+    }
+    return this.toBidRequestView(request);
+  }
+
+  private toBidRequestView(request: HydratedDocument<BidRequest>) {
+    return {
+      requestId: String(request._id),
+      idempotencyKey: request.idempotencyKey,
+      auctionId: request.auctionId.toString(),
+      bidAmount: request.bidAmount,
+      status: request.status,
+      bidId: request.bidId?.toString(),
+      reason: request.reason,
+      processedAt: request.processedAt,
+    };
+  }
+
+  private async processBid(
+    bidData: BidMessage,
+    { requeueWhenBusy = true }: { requeueWhenBusy?: boolean } = {},
+  ) {
+    const {
+      requestId,
+      auctionId,
+      userId,
+      bidAmount,
+      sessionId,
+      organizationId,
+    } = bidData;
     const lockKey = `bid-processing:${auctionId}`;
+    let lockAcquired = false;
+
+    // A redelivered message for a request that already has its result
+    // must not place the bid twice
+    if (requestId) {
+      const request = await this.bidRequestModel.findById(requestId);
+      if (request && request.status !== BidRequestStatus.PENDING) {
+        this.logger.debug(
+          `Skipping already processed bid request ${requestId}`,
+        );
+        return;
+      }
+    }
+
+    // Bids on the same auction take turns. One that keeps losing goes back
+    // on the queue with its request still pending, rather than failing.
+    lockAcquired = await this.redisService.waitForLock(
+      lockKey,
+      10000,
+      AUCTION_LOCK_WAIT_MS,
+    );
+    if (!lockAcquired && requeueWhenBusy) {
+      throw new RequeueMessageError(`Auction ${auctionId} is busy`);
+    }
 
     try {
-      // Acquire distributed lock for this auction
-      const lockAcquired = await this.redisService.acquireLock(lockKey, 10000);
       if (!lockAcquired) {
-        throw new Error('Could not acquire lock for bid processing');
+        throw new ConflictException('Auction is busy, please try again');
       }
 
       // Simplified version without transactions for development
       // 1. Get current auction state
-      const auction = await this.auctionModel.findById(auctionId);
-      
+      const auction = await this.auctionModel
+        .findById(auctionId)
+        .select('+reservePrice');
+
       if (!auction) {
         throw new Error('Auction not found');
       }
 
       // 2. Validate auction state
       const now = new Date();
-      if (auction.status !== AuctionStatus.ACTIVE) {
-        throw new Error('Auction is not active');
-      }
+      this.validateAuctionOpen(auction, now);
+      this.validateNotSeller(auction, userId);
 
-      if (now < auction.startTime) {
-        throw new Error('Auction has not started yet');
-      }
-
-      if (now > auction.endTime) {
-        throw new Error('Auction has ended');
+      if (this.auctionsService.isDutch(auction)) {
+        throw new Error(
+          'Dutch auctions are won by accepting the current price',
+        );
       }
 
       // 3. Validate bid amount
-      const minBidAmount = (auction.currentHighestBid || auction.startingBid) + 100;
-      if (bidAmount < minBidAmount) {
-        throw new Error(`Bid must be at least $${minBidAmount}`);
-      }
+      this.bidIncrementService.validateBidAmount(auction, bidAmount);
 
       // 4. Get user information
       const user = await this.userModel.findById(userId);
       if (!user) {
         throw new Error('User not found');
       }
+      this.validateVerifiedBidder(user);
+      await this.validateTwoFactorStepUp(
+        auction,
+        user,
+        bidAmount,
+        sessionId,
+        now,
+      );
+
+      // 5. Accept the bid, then let registered proxies respond to it
+      let bidId: Types.ObjectId;
+      if (this.auctionsService.isSealed(auction)) {
+        bidId = await this.acceptSealedBid(
+          auction,
+          user,
+          bidAmount,
+          now,
+          organizationId,
+        );
+      } else {
+        const previousLeader = {
+          userId: auction.winnerId?.toString(),
+          bidAmount: auction.currentHighestBid,
+        };
+        const accepted = await this.acceptBid(auction, user, bidAmount, now, {
+          organizationId,
+        });
+        bidId = accepted.bid._id;
+
+        // The bid stands whatever the proxies do next. One that cannot
+        // answer it right now stays registered and answers the next bid.
+        let settledAuction = accepted.auction;
+        try {
+          settledAuction = await this.resolveProxyBids(accepted.auction, now);
+        } catch (error) {
+          this.logger.error(
+            `Maximum bids could not answer the bid on auction ${auctionId}: ${(error as Error).message}`,
+          );
+        }
+        await this.notifyOutbid(settledAuction, [
+          previousLeader,
+          { userId, bidAmount },
+        ]);
+      }
+
+      this.logger.log(`Bid processed successfully for auction ${auctionId}`);
+      await this.completeBidRequest(bidData, BidRequestStatus.ACCEPTED, {
+        bidId: String(bidId),
+      });
+    } catch (error) {
+      const { message } = error as Error;
+      this.logger.error(
+        `Failed to process bid for auction ${auctionId}: ${message}`,
+      );
+
+      // Send failure notifications
+      await this.handleFailedBid(
+        bidData,
+        message,
+        error instanceof CreditLimitExceededException
+          ? error.details
+          : undefined,
+      );
+      await this.completeBidRequest(bidData, BidRequestStatus.REJECTED, {
+        reason: message,
+      });
+
+      throw error;
+    } finally {
+      // Only release a lock we actually hold
+      if (lockAcquired) {
+        await this.redisService.releaseLock(lockKey);
+      }
+    }
+  }
 
-      // 5. Create the bid
-      const newBid = new this.bidModel({
+  async setProxyBid(
+    auctionId: string,
+    userId: string,
+    maxAmount: number,
+    { sessionId, organizationId }: BidderContext = {},
+  ) {
+    return this.withAuctionLock(auctionId, async () => {
+      const auction = await this.auctionModel
+        .findById(auctionId)
+        .select('+reservePrice');
+      if (!auction) {
+        throw new NotFoundException('Auction not found');
+      }
+
+      const now = new Date();
+      this.validateAuctionOpen(auction, now);
+      this.validateNotSeller(auction, userId);
+
+      if (
+        this.auctionsService.isSealed(auction) ||
+        this.auctionsService.isDutch(auction)
+      ) {
+        throw new BadRequestException(
+          'Maximum bids are only available on open auctions',
+        );
+      }
+
+      // The leader may lower their ceiling down to just above the current
+      // price; anyone else must at least cover the next valid bid
+      const currentPrice = auction.currentHighestBid || auction.startingBid;
+      const nextMinimum = this.bidIncrementService.getNextMinimum(auction);
+      const isLeader = auction.winnerId?.toString() === userId;
+      if (isLeader && maxAmount <= currentPrice) {
+        throw new BadRequestException(
+          `Maximum bid must be above the current price of $${currentPrice}`,
+        );
+      }
+      if (!isLeader && maxAmount < nextMinimum) {
+        throw new BadRequestException(
+          `Maximum bid must be at least $${nextMinimum}`,
+        );
+      }
+
+      const user = await this.userModel.findById(userId);
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+      this.validateVerifiedBidder(user);
+      // Proxies bid later without the bidder present, so the ceiling is
+      // what needs the step-up
+      await this.validateTwoFactorStepUp(
+        auction,
+        user,
+        maxAmount,
+        sessionId,
+        now,
+      );
+      await this.validateBuyingPower(
+        organizationId,
         userId,
         auctionId,
-        bidAmount,
-        timestamp: now,
-        isWinning: true,
-        status: BidStatus.ACCEPTED,
-      });
+        maxAmount,
+      );
 
-      await newBid.save();
+      // Changing the ceiling re-registers it, so it queues behind existing
+      // proxies with the same ceiling
+      await this.proxyBidModel.findOneAndUpdate(
+        { auctionId, userId },
+        {
+          $set: {
+            maxAmount,
+            status: ProxyBidStatus.ACTIVE,
+            registeredAt: now,
+            ...(organizationId && { organizationId }),
+          },
+          ...(!organizationId && { $unset: { organizationId: 1 } }),
+        },
+        { upsert: true, new: true },
+      );
+
+      const previousLeader = {
+        userId: auction.winnerId?.toString(),
+        bidAmount: auction.currentHighestBid,
+      };
+      const updatedAuction = await this.resolveProxyBids(auction, now);
+      await this.notifyOutbid(updatedAuction, [previousLeader]);
+      const proxy = await this.proxyBidModel.findOne({ auctionId, userId });
+
+      return this.toProxyBidView(proxy!, updatedAuction, userId);
+    });
+  }
+
+  async cancelProxyBid(auctionId: string, userId: string) {
+    return this.withAuctionLock(auctionId, async () => {
+      const proxy = await this.proxyBidModel.findOneAndUpdate(
+        { auctionId, userId, status: ProxyBidStatus.ACTIVE },
+        { $set: { status: ProxyBidStatus.CANCELLED } },
+        { new: true },
+      );
+
+      if (!proxy) {
+        throw new NotFoundException('No active maximum bid for this auction');
+      }
+
+      const auction = await this.auctionModel.findById(auctionId);
+      if (!auction) {
+        throw new NotFoundException('Auction not found');
+      }
+
+      return this.toProxyBidView(proxy, auction, userId);
+    });
+  }
+
+  async buyNow(
+    auctionId: string,
+    userId: string,
+    { sessionId, organizationId }: BidderContext = {},
+  ) {
+    return this.withAuctionLock(auctionId, async () => {
+      const auction = await this.auctionModel
+        .findById(auctionId)
+        .select('+reservePrice');
+      if (!auction) {
+        throw new NotFoundException('Auction not found');
+      }
+
+      const now = new Date();
+      this.validateAuctionOpen(auction, now);
+      this.validateNotSeller(auction, userId);
+
+      if (!this.auctionsService.isBuyNowAvailable(auction)) {
+        throw new BadRequestException(
+          'Buy-it-now is not available for this auction',
+        );
+      }
+
+      const user = await this.userModel.findById(userId);
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+      this.validateVerifiedBidder(user);
+      await this.validateTwoFactorStepUp(
+        auction,
+        user,
+        auction.buyNowPrice!,
+        sessionId,
+        now,
+      );
+
+      const { auction: updatedAuction } = await this.acceptBid(
+        auction,
+        user,
+        auction.buyNowPrice!,
+        now,
+        { isBuyNow: true, organizationId },
+      );
+      await this.notifyOutbid(updatedAuction, [
+        {
+          userId: auction.winnerId?.toString(),
+          bidAmount: auction.currentHighestBid,
+        },
+      ]);
+
+      return this.auctionsService.closeAuction(updatedAuction, true);
+    });
+  }
+
+  // The first bidder to accept the current Dutch price wins. The price is
+  // read from the server clock inside the lock, so it can only be at or
+  // below what the bidder saw when they accepted.
+  async acceptDutchPrice(
+    auctionId: string,
+    userId: string,
+    { sessionId, organizationId }: BidderContext = {},
+  ) {
+    return this.withAuctionLock(auctionId, async () => {
+      const auction = await this.auctionModel.findById(auctionId);
+      if (!auction) {
+        throw new NotFoundException('Auction not found');
+      }
+
+      const now = new Date();
+      this.validateAuctionOpen(auction, now);
+      this.validateNotSeller(auction, userId);
 
-      // 6. Mark previous winning bids as no longer winning
-      await this.bidModel.updateMany(
-        { auctionId, isWinning: true, _id: { $ne: newBid._id } },
-        { isWinning: false, status: BidStatus.OUTBID }
+      if (!this.auctionsService.isDutch(auction)) {
+        throw new BadRequestException(
+          'Only Dutch auctions have a price to accept',
+        );
+      }
+
+      const user = await this.userModel.findById(userId);
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+      this.validateVerifiedBidder(user);
+
+      const price = this.auctionsService.getDutchPrice(auction, now);
+      await this.validateTwoFactorStepUp(auction, user, price, sessionId, now);
+      const { auction: updatedAuction } = await this.acceptBid(
+        auction,
+        user,
+        price,
+        now,
+        { organizationId },
       );
 
-      // 7. Update auction with new highest bid using atomic operation
-      const updatedAuction = await this.auctionModel.findByIdAndUpdate(
+      return this.auctionsService.closeAuction(updatedAuction, true);
+    });
+  }
+
+  private async withAuctionLock<T>(
+    auctionId: string,
+    work: () => Promise<T>,
+  ): Promise<T> {
+    const lockKey = `bid-processing:${auctionId}`;
+    const lockAcquired = await this.redisService.waitForLock(
+      lockKey,
+      10000,
+      AUCTION_LOCK_WAIT_MS,
+    );
+    if (!lockAcquired) {
+      throw new ConflictException('Auction is busy, please try again');
+    }
+
+    try {
+      return await work();
+    } finally {
+      await this.redisService.releaseLock(lockKey);
+    }
+  }
+
+  private validateVerifiedBidder(user: User): void {
+    if (!user.emailVerified) {
+      throw new ForbiddenException('Verify your email address before bidding');
+    }
+  }
+
+  // Bids at or above the stricter of the auction's and the global threshold
+  // need a two-factor code confirmed recently on the bidding session
+  private async validateTwoFactorStepUp(
+    auction: Auction,
+    user: User,
+    amount: number,
+    sessionId: string | undefined,
+    now: Date,
+  ): Promise<void> {
+    const thresholds = [
+      auction.stepUpBidThreshold,
+      this.configService.get<number>('twoFactor.stepUpBidThreshold'),
+    ].filter((threshold): threshold is number => threshold != null);
+    if (thresholds.length === 0 || amount < Math.min(...thresholds)) {
+      return;
+    }
+
+    const threshold = Math.min(...thresholds);
+    if (!user.twoFactorEnabled) {
+      throw new ForbiddenException(
+        `Enable two-factor authentication to bid $${threshold} or more`,
+      );
+    }
+
+    const session =
+      sessionId && Types.ObjectId.isValid(sessionId)
+        ? await this.sessionModel.findById(sessionId)
+        : null;
+    const windowMs =
+      this.configService.get<number>('twoFactor.stepUpWindowMinutes', 10) *
+      60 *
+      1000;
+    if (
+      !session?.twoFactorVerifiedAt ||
+      now.getTime() - session.twoFactorVerifiedAt.getTime() > windowMs
+    ) {
+      throw new ForbiddenException(
+        `Confirm a two-factor code to bid $${threshold} or more`,
+      );
+    }
+  }
+
+  // Bids for an organization need a bidding role and must fit within its
+  // spending limit; personal bids must fit within the bidder's credit
+  private async validateBuyingPower(
+    organizationId: string | undefined,
+    userId: string,
+    auctionId: string,
+    amount: number,
+  ): Promise<void> {
+    if (organizationId) {
+      await this.organizationsService.assertCanBid(
+        organizationId,
+        userId,
+        auctionId,
+        amount,
+      );
+    } else {
+      await this.creditService.assertAvailable(userId, auctionId, amount);
+    }
+  }
+
+  // Checks that the buyer can cover the bid and records it while holding
+  // the buyer's lock: the organization's for organization bids, the
+  // bidder's own otherwise. Bids on different auctions hold different
+  // auction locks, so without it two of them could both fit the same
+  // headroom.
+  private async withBuyingPower<T>(
+    organizationId: string | undefined,
+    userId: string,
+    auctionId: string,
+    amount: number,
+    record: () => Promise<T>,
+  ): Promise<T> {
+    const lockKey = organizationId
+      ? `buying-power:organization:${organizationId}`
+      : `buying-power:user:${userId}`;
+    const lockAcquired = await this.redisService.waitForLock(
+      lockKey,
+      10000,
+      BUYER_LOCK_WAIT_MS,
+    );
+    if (!lockAcquired) {
+      throw new ConflictException(
+        'Your other bids are still being processed, please try again',
+      );
+    }
+
+    try {
+      await this.validateBuyingPower(organizationId, userId, auctionId, amount);
+      return await record();
+    } finally {
+      await this.redisService.releaseLock(lockKey);
+    }
+  }
+
+  // Sellers may never bid on their own lots, directly or by proxy
+  private validateNotSeller(auction: Auction, userId: string): void {
+    if (auction.sellerId?.toString() === String(userId)) {
+      throw new ForbiddenException('Sellers cannot bid on their own auctions');
+    }
+  }
+
+  private validateAuctionOpen(auction: Auction, now: Date): void {
+    if (auction.status !== AuctionStatus.ACTIVE) {
+      throw new BadRequestException('Auction is not active');
+    }
+
+    if (now < auction.startTime) {
+      throw new BadRequestException('Auction has not started yet');
+    }
+
+    if (now > auction.endTime) {
+      throw new BadRequestException('Auction has ended');
+    }
+  }
+
+  // Records an accepted bid and makes it the auction's leading bid. Caller
+  // must hold the auction lock.
+  private async acceptBid(
+    auction: HydratedDocument<Auction>,
+    user: HydratedDocument<User>,
+    bidAmount: number,
+    now: Date,
+    {
+      isProxy = false,
+      isBuyNow = false,
+      organizationId,
+    }: { isProxy?: boolean; isBuyNow?: boolean; organizationId?: string } = {},
+  ): Promise<{
+    auction: HydratedDocument<Auction>;
+    bid: HydratedDocument<Bid>;
+  }> {
+    const auctionId = String(auction._id);
+    const userId = String(user._id);
+    const previousBidAmount = auction.currentHighestBid;
+
+    // 1. Create the bid
+    const newBid = new this.bidModel({
+      userId,
+      auctionId,
+      bidAmount,
+      timestamp: now,
+      isWinning: true,
+      isProxy,
+      isBuyNow,
+      status: BidStatus.ACCEPTED,
+      organizationId,
+    });
+
+    // Recorded with the buyer's headroom, checked again for every bid
+    // including those placed by a proxy
+    await this.withBuyingPower(
+      organizationId,
+      userId,
+      auctionId,
+      bidAmount,
+      async () => {
+        await newBid.save();
+
+        // 2. Mark previous winning bids as no longer winning
+        await this.bidModel.updateMany(
+          { auctionId, isWinning: true, _id: { $ne: newBid._id } },
+          { isWinning: false, status: BidStatus.OUTBID },
+        );
+
+        // Move the auction's credit hold to the new leader
+        await this.creditService.holdLeadingBid(
+          auctionId,
+          organizationId ? undefined : userId,
+          bidAmount,
+          newBid._id,
+        );
+      },
+    );
+
+    // 3. Update auction with new highest bid using atomic operation,
+    // pushing endTime out if the bid landed inside the soft-close window
+    // (pointless for buy-it-now, which closes the auction right away). The
+    // leading organization is replaced along with the leader.
+    const extendedEndTime = isBuyNow
+      ? null
+      : this.getSoftCloseEndTime(auction, now);
+    const updatedAuction = await this.auctionModel
+      .findByIdAndUpdate(
         auctionId,
         {
           $set: {
             currentHighestBid: bidAmount,
             winnerId: userId,
+            ...(organizationId && { winnerOrganizationId: organizationId }),
+            ...(extendedEndTime && { endTime: extendedEndTime }),
           },
+          ...(!organizationId && { $unset: { winnerOrganizationId: 1 } }),
           $inc: {
             bidCount: 1,
+            ...(extendedEndTime && { extensionCount: 1 }),
           },
         },
-        { 
-          new: true, 
-          runValidators: true 
+        {
+          new: true,
+          runValidators: true,
+        },
+      )
+      .select('+reservePrice');
+
+    if (!updatedAuction) {
+      throw new Error('Failed to update auction');
+    }
+
+    // Store processed bid with user info
+    const processedBid: ProcessedBid = {
+      ...newBid.toObject(),
+      user: {
+        _id: user._id,
+        username: user.username,
+        email: user.email,
+      },
+    };
+
+    // 4. Post-processing after successful update
+    await this.handleSuccessfulBid(
+      processedBid,
+      updatedAuction,
+      previousBidAmount,
+    );
+
+    if (extendedEndTime) {
+      await this.redisService.publishAuctionEvent(
+        auctionId,
+        'AUCTION_EXTENDED',
+        {
+          auctionId,
+          endTime: updatedAuction.endTime,
+          extensionCount: updatedAuction.extensionCount,
+          reason: 'SOFT_CLOSE',
+        },
+      );
+      this.logger.log(
+        `Auction ${auctionId} extended to ${updatedAuction.endTime.toISOString()}`,
+      );
+    }
+
+    if (
+      !this.auctionsService.isReserveMet(auction) &&
+      this.auctionsService.isReserveMet(updatedAuction)
+    ) {
+      await this.redisService.publishAuctionEvent(auctionId, 'RESERVE_MET', {
+        auctionId,
+        reserveMet: true,
+      });
+    }
+
+    return { auction: updatedAuction, bid: newBid };
+  }
+
+  // Records the bidder's single sealed bid, or revises it if they already
+  // have one. The room only learns that a bid arrived; the amount goes back
+  // to the bidder alone. Caller must hold the auction lock.
+  private async acceptSealedBid(
+    auction: HydratedDocument<Auction>,
+    user: HydratedDocument<User>,
+    bidAmount: number,
+    now: Date,
+    organizationId?: string,
+  ): Promise<Types.ObjectId> {
+    const auctionId = String(auction._id);
+    const userId = String(user._id);
+
+    const { previousBid, bidId, bidCount } = await this.withBuyingPower(
+      organizationId,
+      userId,
+      auctionId,
+      bidAmount,
+      async () => {
+        const previousBid = await this.bidModel.findOneAndUpdate(
+          { auctionId, userId, status: BidStatus.ACCEPTED },
+          {
+            $set: {
+              bidAmount,
+              timestamp: now,
+              ...(organizationId && { organizationId }),
+            },
+            ...(!organizationId && { $unset: { organizationId: 1 } }),
+          },
+        );
+
+        let bidId: Types.ObjectId;
+        let bidCount = auction.bidCount;
+        if (previousBid) {
+          bidId = previousBid._id;
+        } else {
+          const newBid = await this.bidModel.create({
+            userId,
+            auctionId,
+            bidAmount,
+            timestamp: now,
+            status: BidStatus.ACCEPTED,
+            organizationId,
+          });
+          bidId = newBid._id;
+
+          const updatedAuction = await this.auctionModel.findByIdAndUpdate(
+            auctionId,
+            { $inc: { bidCount: 1 } },
+            { new: true },
+          );
+          bidCount = updatedAuction?.bidCount ?? bidCount + 1;
+        }
+
+        if (organizationId) {
+          await this.creditService.release(auctionId, userId, 'REPLACED');
+        } else {
+          await this.creditService.holdSealedBid(
+            auctionId,
+            userId,
+            bidAmount,
+            bidId,
+          );
         }
+
+        return { previousBid, bidId, bidCount };
+      },
+    );
+
+    try {
+      await this.redisService.invalidateAuctionCache(auctionId);
+      await this.redisService.publishBidUpdate(auctionId, {
+        auctionId,
+        bidCount,
+        timestamp: now,
+        sealed: true,
+      });
+
+      await this.rabbitmqService.publishNotification({
+        type: 'BID_SUCCESS',
+        userId,
+        auctionId,
+        message: previousBid
+          ? `Your sealed bid on "${auction.title}" has been revised to $${bidAmount.toLocaleString()}`
+          : `Your sealed bid of $${bidAmount.toLocaleString()} has been placed on "${auction.title}"`,
+        data: {
+          bidId,
+          bidAmount,
+          sealed: true,
+          auctionTitle: auction.title,
+        },
+      });
+
+      // The seller does not see sealed amounts, so only the bidder's side
+      await this.webhooksService.emit(
+        WebhookEvent.BID_ACCEPTED,
+        { userIds: [userId], organizationIds: [organizationId] },
+        {
+          auctionId,
+          auctionTitle: auction.title,
+          bidId: String(bidId),
+          userId,
+          organizationId,
+          bidAmount,
+          sealed: true,
+          revised: !!previousBid,
+          timestamp: now,
+        },
       );
 
-      if (!updatedAuction) {
-        throw new Error('Failed to update auction');
+      await this.rabbitmqService.publishAuditLog({
+        action: AuditAction.BID_PLACED,
+        auctionId,
+        userId,
+        success: true,
+        details: {
+          bidId,
+          bidAmount,
+          sealed: true,
+          revised: !!previousBid,
+          previousBid: previousBid?.bidAmount,
+          auctionTitle: auction.title,
+          timestamp: now.toISOString(),
+        },
+      });
+    } catch (error) {
+      this.logger.error('Error in sealed bid post-processing:', error);
+    }
+
+    return bidId;
+  }
+
+  // Lets active proxies answer the current leading bid. The strongest
+  // proxy (highest ceiling, earliest registration on ties) takes the lead
+  // at one increment over its strongest opponent, capped at its ceiling.
+  // A single pass settles the auction because no other proxy can beat the
+  // resulting price. The proxy's bid is checked against the buyer's credit
+  // or organization limit like any other, but not for the two-factor
+  // step-up: the bidder is not present, and took the step-up for the whole
+  // ceiling when they set it. Caller must hold the auction lock.
+  private async resolveProxyBids(
+    auction: HydratedDocument<Auction>,
+    now: Date,
+  ): Promise<HydratedDocument<Auction>> {
+    const auctionId = String(auction._id);
+    const nextMinimum = this.bidIncrementService.getNextMinimum(auction);
+    const leaderId = auction.winnerId?.toString();
+
+    const proxies = await this.proxyBidModel
+      .find({ auctionId, status: ProxyBidStatus.ACTIVE })
+      .sort({ maxAmount: -1, registeredAt: 1, _id: 1 })
+      .exec();
+
+    const contenders = proxies.filter(
+      (proxy) =>
+        proxy.userId.toString() === leaderId || proxy.maxAmount >= nextMinimum,
+    );
+    const [strongest, runnerUp] = contenders;
+    if (!strongest) {
+      return auction;
+    }
+
+    let proxyPrice: number | null = null;
+    if (strongest.userId.toString() === leaderId) {
+      // The leader only needs to bid again if another proxy challenges them
+      if (runnerUp) {
+        proxyPrice = this.getProxyPrice(
+          auction,
+          strongest.maxAmount,
+          runnerUp.maxAmount,
+        );
       }
+    } else {
+      // Never below the next valid bid, never above the ceiling
+      proxyPrice = runnerUp
+        ? Math.max(
+            nextMinimum,
+            this.getProxyPrice(
+              auction,
+              strongest.maxAmount,
+              runnerUp.maxAmount,
+            ),
+          )
+        : nextMinimum;
+    }
 
-      // Store processed bid with user info
-      const processedBid = {
-        ...newBid.toObject(),
-        user: {
-          _id: user._id,
-          username: user.username,
-          email: user.email,
+    let updatedAuction = auction;
+    if (proxyPrice !== null) {
+      const user = await this.userModel.findById(strongest.userId);
+      if (!user) {
+        await this.cancelProxyBidFor(auction, strongest, 'User not found');
+        return this.resolveProxyBids(auction, now);
+      }
+      try {
+        ({ auction: updatedAuction } = await this.acceptBid(
+          auction,
+          user,
+          proxyPrice,
+          now,
+          {
+            isProxy: true,
+            organizationId: strongest.organizationId?.toString(),
+          },
+        ));
+      } catch (error) {
+        // The buyer can no longer cover the proxy's bid, or may no longer
+        // bid for its organization. The bid that triggered it stands, and
+        // the remaining proxies answer it instead.
+        if (!(error instanceof ForbiddenException)) {
+          throw error;
         }
-      };
+        await this.cancelProxyBidFor(auction, strongest, error.message);
+        return this.resolveProxyBids(auction, now);
+      }
+    }
 
-      // 8. Post-processing after successful transaction
-      await this.handleSuccessfulBid(processedBid, updatedAuction);
+    await this.exhaustProxyBids(updatedAuction, proxies);
+    return updatedAuction;
+  }
 
-      this.logger.log(`Bid processed successfully: ${processedBid._id} for auction ${auctionId}`);
-      
-    } catch (error) {
-      this.logger.error(`Failed to process bid for auction ${auctionId}: ${error.message}`);
+  private getProxyPrice(
+    auction: Auction,
+    ceiling: number,
+    opponentCeiling: number,
+  ): number {
+    // Equal ceilings go to the earlier registration at that ceiling
+    if (ceiling === opponentCeiling) {
+      return ceiling;
+    }
+    return Math.min(
+      ceiling,
+      opponentCeiling +
+        this.bidIncrementService.getIncrement(auction, opponentCeiling),
+    );
+  }
 
-      // Send failure notifications
-      await this.handleFailedBid(bidData, error.message);
-      
-      throw error;
-    } finally {
-      // Always release lock
-      await this.redisService.releaseLock(lockKey);
+  private async cancelProxyBidFor(
+    auction: HydratedDocument<Auction>,
+    proxy: HydratedDocument<ProxyBid>,
+    reason: string,
+  ): Promise<void> {
+    await this.proxyBidModel.updateOne(
+      { _id: proxy._id, status: ProxyBidStatus.ACTIVE },
+      { $set: { status: ProxyBidStatus.CANCELLED } },
+    );
+    this.logger.warn(
+      `Cancelled maximum bid of ${proxy.userId.toString()} on auction ${String(auction._id)}: ${reason}`,
+    );
+
+    await this.rabbitmqService.publishNotification({
+      type: 'PROXY_BID_CANCELLED',
+      userId: proxy.userId.toString(),
+      auctionId: String(auction._id),
+      message: `Your maximum bid of $${proxy.maxAmount.toLocaleString()} on "${auction.title}" was cancelled: ${reason}`,
+      data: {
+        maxAmount: proxy.maxAmount,
+        reason,
+        currentHighestBid: auction.currentHighestBid,
+        auctionTitle: auction.title,
+      },
+    });
+  }
+
+  private async exhaustProxyBids(
+    auction: HydratedDocument<Auction>,
+    proxies: HydratedDocument<ProxyBid>[],
+  ): Promise<void> {
+    const leaderId = auction.winnerId?.toString();
+    const minNextBid = this.bidIncrementService.getNextMinimum(auction);
+    const exhausted = proxies.filter(
+      (proxy) =>
+        proxy.userId.toString() !== leaderId && proxy.maxAmount < minNextBid,
+    );
+
+    if (exhausted.length === 0) {
+      return;
+    }
+
+    await this.proxyBidModel.updateMany(
+      { _id: { $in: exhausted.map((proxy) => proxy._id) } },
+      { $set: { status: ProxyBidStatus.EXHAUSTED } },
+    );
+
+    for (const proxy of exhausted) {
+      await this.rabbitmqService.publishNotification({
+        type: 'PROXY_BID_EXHAUSTED',
+        userId: proxy.userId.toString(),
+        auctionId: String(auction._id),
+        message: `Your maximum bid of $${proxy.maxAmount.toLocaleString()} on "${auction.title}" has been exceeded`,
+        data: {
+          maxAmount: proxy.maxAmount,
+          currentHighestBid: auction.currentHighestBid,
+          auctionTitle: auction.title,
+        },
+      });
     }
   }
 
-  private async handleSuccessfulBid(bid: any, auction: any): Promise<void> {
+  private toProxyBidView(
+    proxy: HydratedDocument<ProxyBid>,
+    auction: Auction,
+    userId: string,
+  ) {
+    return {
+      auctionId: proxy.auctionId.toString(),
+      maxAmount: proxy.maxAmount,
+      status: proxy.status,
+      registeredAt: proxy.registeredAt,
+      currentHighestBid: auction.currentHighestBid,
+      isLeading: auction.winnerId?.toString() === userId,
+    };
+  }
+
+  // Returns the new end time when a bid at `now` should extend the auction
+  private getSoftCloseEndTime(auction: Auction, now: Date): Date | null {
+    // A Dutch acceptance closes the auction, so there is nothing to extend
+    if (this.auctionsService.isDutch(auction)) {
+      return null;
+    }
+
+    const windowSeconds =
+      auction.softCloseWindowSeconds ??
+      this.configService.get<number>('softClose.windowSeconds', 0);
+    const extensionSeconds =
+      auction.softCloseExtensionSeconds ??
+      this.configService.get<number>('softClose.extensionSeconds', 0);
+    const maxExtensions =
+      auction.maxExtensions ??
+      this.configService.get<number | undefined>('softClose.maxExtensions');
+
+    if (windowSeconds <= 0 || extensionSeconds <= 0) {
+      return null;
+    }
+
+    if (
+      maxExtensions !== undefined &&
+      (auction.extensionCount || 0) >= maxExtensions
+    ) {
+      return null;
+    }
+
+    if (auction.endTime.getTime() - now.getTime() > windowSeconds * 1000) {
+      return null;
+    }
+
+    return new Date(auction.endTime.getTime() + extensionSeconds * 1000);
+  }
+
+  private async handleSuccessfulBid(
+    bid: ProcessedBid,
+    auction: HydratedDocument<Auction>,
+    previousBidAmount?: number,
+  ): Promise<void> {
     try {
-      const { auctionId, userId, bidAmount, timestamp, user } = bid;
+      const {
+        auctionId,
+        userId,
+        bidAmount,
+        timestamp,
+        user,
+        isProxy,
+        isBuyNow,
+      } = bid;
 
       // 1. Update Redis cache
       await this.redisService.cacheHighestBid(auctionId.toString(), {
@@ -152,7 +1219,9 @@ export class BidProcessorService implements OnModuleInit {
         user,
       });
 
-      await this.redisService.cacheAuction(auctionId.toString(), auction);
+      const publicAuction: Partial<Auction> = auction.toObject();
+      delete publicAuction.reservePrice;
+      await this.redisService.cacheAuction(auctionId.toString(), publicAuction);
 
       // 2. Publish to Redis Pub/Sub for real-time updates
       await this.redisService.publishBidUpdate(auctionId.toString(), {
@@ -162,6 +1231,8 @@ export class BidProcessorService implements OnModuleInit {
         bidAmount,
         timestamp,
         user,
+        isProxy,
+        isBuyNow,
         auctionTitle: auction.title,
       });
 
@@ -170,50 +1241,141 @@ export class BidProcessorService implements OnModuleInit {
         type: 'BID_SUCCESS',
         userId,
         auctionId,
-        message: `Your bid of $${bidAmount.toLocaleString()} has been placed successfully on "${auction.title}"`,
+        message: isProxy
+          ? `Your maximum bid placed a bid of $${bidAmount.toLocaleString()} for you on "${auction.title}"`
+          : `Your bid of $${bidAmount.toLocaleString()} has been placed successfully on "${auction.title}"`,
         data: {
           bidId: bid._id,
           bidAmount,
+          isProxy,
           auctionTitle: auction.title,
-        }
+        },
       });
 
-      // 4. Send outbid notifications to previous bidders
-      await this.rabbitmqService.publishNotification({
-        type: 'OUTBID_NOTIFICATION',
-        auctionId,
-        excludeUserId: userId, // Don't notify the new highest bidder
-        message: `You have been outbid on "${auction.title}". New highest bid: $${bidAmount.toLocaleString()}`,
-        data: {
-          newBidAmount: bidAmount,
-          newBidUser: user,
+      // 4. Call the bidder's, their organization's and the seller's webhooks
+      await this.webhooksService.emit(
+        WebhookEvent.BID_ACCEPTED,
+        {
+          userIds: [userId.toString(), auction.sellerId?.toString()],
+          organizationIds: [bid.organizationId?.toString()],
+        },
+        {
+          auctionId: auctionId.toString(),
           auctionTitle: auction.title,
-        }
-      });
+          bidId: String(bid._id),
+          userId: userId.toString(),
+          organizationId: bid.organizationId?.toString(),
+          bidAmount,
+          isProxy,
+          isBuyNow,
+          timestamp,
+        },
+      );
 
       // 5. Publish audit log
       await this.rabbitmqService.publishAuditLog({
-        action: 'BID_PLACED',
+        action: AuditAction.BID_PLACED,
         auctionId,
         userId,
         success: true,
         details: {
           bidId: bid._id,
           bidAmount,
-          previousBid: auction.currentHighestBid - 100, // Approximate
+          isProxy,
+          previousBid: previousBidAmount,
           auctionTitle: auction.title,
           timestamp: timestamp.toISOString(),
         },
       });
-
     } catch (error) {
       this.logger.error('Error in successful bid post-processing:', error);
     }
   }
 
-  private async handleFailedBid(bidData: any, errorMessage: string): Promise<void> {
+  // Tells the bidders who led at some point in a round of bidding, but no
+  // longer do once every proxy has answered, that they were outbid. A
+  // leader whose proxy took the lead straight back hears nothing. Earlier
+  // leaders were told when they lost it, and spectators never led.
+  private async notifyOutbid(
+    auction: HydratedDocument<Auction>,
+    leaders: { userId?: string; bidAmount: number }[],
+  ): Promise<void> {
+    const auctionId = String(auction._id);
+    const leaderId = auction.winnerId?.toString();
+    const notified = new Set<string>();
+
+    for (const { userId, bidAmount } of leaders) {
+      if (!userId || userId === leaderId || notified.has(userId)) {
+        continue;
+      }
+      notified.add(userId);
+
+      try {
+        await this.rabbitmqService.publishNotification({
+          type: 'OUTBID_NOTIFICATION',
+          userId,
+          auctionId,
+          message: `You have been outbid on "${auction.title}". New highest bid: $${auction.currentHighestBid.toLocaleString()}`,
+          data: {
+            bidAmount,
+            newBidAmount: auction.currentHighestBid,
+            auctionTitle: auction.title,
+          },
+        });
+      } catch (error) {
+        this.logger.error('Error sending outbid notification:', error);
+      }
+    }
+  }
+
+  // Stores the final result of a tracked bid request and pushes it to the
+  // socket that submitted it
+  private async completeBidRequest(
+    bidData: BidMessage,
+    status: BidRequestStatus,
+    result: { bidId?: string; reason?: string },
+  ): Promise<void> {
+    const {
+      requestId,
+      idempotencyKey,
+      auctionId,
+      userId,
+      bidAmount,
+      socketId,
+    } = bidData;
+    if (!requestId) {
+      return;
+    }
+
     try {
-      const { auctionId, userId, bidAmount } = bidData;
+      await this.bidRequestModel.updateOne(
+        { _id: requestId, status: BidRequestStatus.PENDING },
+        { $set: { status, ...result, processedAt: new Date() } },
+      );
+
+      await this.redisService.publishGlobalNotification({
+        type: 'BID_RESULT',
+        userId,
+        socketId,
+        requestId,
+        idempotencyKey,
+        auctionId,
+        bidAmount,
+        status,
+        ...result,
+      });
+    } catch (error) {
+      this.logger.error(`Error completing bid request ${requestId}:`, error);
+    }
+  }
+
+  private async handleFailedBid(
+    bidData: BidMessage,
+    errorMessage: string,
+    credit?: CreditDetails,
+  ): Promise<void> {
+    try {
+      const { auctionId, userId, bidAmount, organizationId } = bidData;
 
       // Send failure notification
       await this.rabbitmqService.publishNotification({
@@ -224,12 +1386,28 @@ export class BidProcessorService implements OnModuleInit {
         data: {
           bidAmount,
           error: errorMessage,
-        }
+          // Lets clients explain a credit rejection without parsing the text
+          ...(credit && { reason: 'CREDIT_LIMIT_EXCEEDED', credit }),
+        },
       });
 
+      await this.webhooksService.emit(
+        WebhookEvent.BID_REJECTED,
+        { userIds: [userId], organizationIds: [organizationId] },
+        {
+          auctionId,
+          userId,
+          organizationId,
+          bidAmount,
+          reason: errorMessage,
+          ...(credit && { credit }),
+          timestamp: new Date(),
+        },
+      );
+
       // Log failure in audit
       await this.rabbitmqService.publishAuditLog({
-        action: 'BID_FAILED',
+        action: AuditAction.BID_FAILED,
         auctionId,
         userId,
         success: false,
@@ -239,9 +1417,8 @@ export class BidProcessorService implements OnModuleInit {
           timestamp: new Date().toISOString(),
         },
       });
-
     } catch (error) {
       this.logger.error('Error in failed bid handling:', error);
     }
   }
-}
\ No newline at end of file
+}
@@ -1,24 +1,138 @@
-import { 
-  Controller, 
-  Get, 
-  Post, 
-  Body, 
-  Param, 
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
   Query,
-  UseGuards 
+  Request,
+  HttpCode,
+  HttpStatus,
+  ForbiddenException,
+  UseGuards,
 } from '@nestjs/common';
 import { ThrottlerGuard } from '@nestjs/throttler';
 import { BidsService } from './bids.service';
-import { PlaceBidDto } from './dto/create-bid.dto';
+import { BidProcessorService, BidderContext } from './bid-processor.service';
+import { CreateBidDto } from './dto/create-bid.dto';
+import { SetProxyBidDto } from './dto/proxy-bid.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../common/enums/auction.enum';
+import type {
+  IAuthenticatedRequest,
+  IRequestUser,
+} from '../common/interfaces/auction.interface';
 
 @Controller('bids')
 @UseGuards(ThrottlerGuard)
 export class BidsController {
-  constructor(private readonly bidsService: BidsService) {}
+  constructor(
+    private readonly bidsService: BidsService,
+    private readonly bidProcessorService: BidProcessorService,
+  ) {}
 
+  // Queued like WebSocket bids; poll the returned request for the result.
+  // The bidder is always the authenticated user, never the request body.
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.BIDDER)
   @Post()
-  placeBid(@Body() placeBidDto: PlaceBidDto) {
-    return this.bidsService.placeBid(placeBidDto);
+  @HttpCode(HttpStatus.ACCEPTED)
+  placeBid(
+    @Request() req: IAuthenticatedRequest,
+    @Body() createBidDto: CreateBidDto,
+  ) {
+    return this.bidProcessorService.submitBid({
+      ...createBidDto,
+      userId: req.user._id.toString(),
+      username: req.user.username,
+      ...this.getBidderContext(req),
+    });
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Get('requests/:id')
+  getBidRequest(
+    @Request() req: IAuthenticatedRequest,
+    @Param('id') id: string,
+  ) {
+    return this.bidProcessorService.getBidRequest(id, req.user._id.toString());
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.BIDDER)
+  @Post('proxy')
+  setProxyBid(
+    @Request() req: IAuthenticatedRequest,
+    @Body() setProxyBidDto: SetProxyBidDto,
+  ) {
+    return this.bidProcessorService.setProxyBid(
+      setProxyBidDto.auctionId,
+      req.user._id.toString(),
+      setProxyBidDto.maxAmount,
+      this.getBidderContext(req),
+    );
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Get('proxy/:auctionId')
+  getProxyBid(
+    @Request() req: IAuthenticatedRequest,
+    @Param('auctionId') auctionId: string,
+  ) {
+    return this.bidsService.getProxyBid(auctionId, req.user._id.toString());
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.BIDDER)
+  @Delete('proxy/:auctionId')
+  cancelProxyBid(
+    @Request() req: IAuthenticatedRequest,
+    @Param('auctionId') auctionId: string,
+  ) {
+    return this.bidProcessorService.cancelProxyBid(
+      auctionId,
+      req.user._id.toString(),
+    );
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Get('sealed/:auctionId')
+  getSealedBid(
+    @Request() req: IAuthenticatedRequest,
+    @Param('auctionId') auctionId: string,
+  ) {
+    return this.bidsService.getSealedBid(auctionId, req.user._id.toString());
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.BIDDER)
+  @Post('buy-now/:auctionId')
+  buyNow(
+    @Request() req: IAuthenticatedRequest,
+    @Param('auctionId') auctionId: string,
+  ) {
+    return this.bidProcessorService.buyNow(
+      auctionId,
+      req.user._id.toString(),
+      this.getBidderContext(req),
+    );
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.BIDDER)
+  @Post('dutch/:auctionId/accept')
+  acceptDutchPrice(
+    @Request() req: IAuthenticatedRequest,
+    @Param('auctionId') auctionId: string,
+  ) {
+    return this.bidProcessorService.acceptDutchPrice(
+      auctionId,
+      req.user._id.toString(),
+      this.getBidderContext(req),
+    );
   }
 
   @Get('auction/:auctionId')
@@ -48,19 +162,42 @@ export class BidsController {
     return this.bidsService.getAuctionBidStats(auctionId);
   }
 
+  @UseGuards(JwtAuthGuard)
   @Get('user/:userId')
   findByUser(
+    @Request() req: IAuthenticatedRequest,
     @Param('userId') userId: string,
     @Query('limit') limit?: number,
   ) {
+    this.assertSelfOrAdmin(req.user, userId);
     return this.bidsService.findByUser(userId, limit);
   }
 
+  @UseGuards(JwtAuthGuard)
   @Get('user/:userId/auction/:auctionId/count')
   getUserBidCount(
+    @Request() req: IAuthenticatedRequest,
     @Param('userId') userId: string,
     @Param('auctionId') auctionId: string,
   ) {
+    this.assertSelfOrAdmin(req.user, userId);
     return this.bidsService.getUserBidCount(userId, auctionId);
   }
-}
\ No newline at end of file
+
+  // A user's bidding history is visible to that user and to admins only
+  private assertSelfOrAdmin(user: IRequestUser, userId: string) {
+    if (
+      user._id.toString() !== userId &&
+      !user.roles?.includes(UserRole.ADMIN)
+    ) {
+      throw new ForbiddenException('You can only view your own bids');
+    }
+  }
+
+  private getBidderContext(req: IAuthenticatedRequest): BidderContext {
+    return {
+      sessionId: req.user.sessionId,
+      organizationId: req.user.organizationId,
+    };
+  }
+}
@@ -6,7 +6,16 @@ import { BidProcessorService } from './bid-processor.service';
 import { Bid, BidSchema } from '../database/schemas/bid.schema';
 import { Auction, AuctionSchema } from '../database/schemas/auction.schema';
 import { User, UserSchema } from '../database/schemas/user.schema';
+import { ProxyBid, ProxyBidSchema } from '../database/schemas/proxy-bid.schema';
+import {
+  BidRequest,
+  BidRequestSchema,
+} from '../database/schemas/bid-request.schema';
+import { Session, SessionSchema } from '../database/schemas/session.schema';
 import { AuctionsModule } from '../auctions/auctions.module';
+import { OrganizationsModule } from '../organizations/organizations.module';
+import { CreditModule } from '../credit/credit.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
 
 @Module({
   imports: [
@@ -14,11 +23,17 @@ import { AuctionsModule } from '../auctions/auctions.module';
       { name: Bid.name, schema: BidSchema },
       { name: Auction.name, schema: AuctionSchema },
       { name: User.name, schema: UserSchema },
+      { name: ProxyBid.name, schema: ProxyBidSchema },
+      { name: BidRequest.name, schema: BidRequestSchema },
+      { name: Session.name, schema: SessionSchema },
     ]),
     forwardRef(() => AuctionsModule),
+    OrganizationsModule,
+    CreditModule,
+    WebhooksModule,
   ],
   controllers: [BidsController],
   providers: [BidsService, BidProcessorService],
-  exports: [BidsService],
+  exports: [BidsService, BidProcessorService],
 })
 export class BidsModule {}
\ No newline at end of file
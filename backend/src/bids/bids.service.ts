@@ -1,113 +1,30 @@
-import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { Bid, BidDocument } from '../database/schemas/bid.schema';
+import {
+  ProxyBid,
+  ProxyBidDocument,
+} from '../database/schemas/proxy-bid.schema';
 import { AuctionsService } from '../auctions/auctions.service';
-import { CreateBidDto, PlaceBidDto } from './dto/create-bid.dto';
+import { BidIncrementService } from '../auctions/bid-increment.service';
 import { AuctionStatus, BidStatus } from '../common/enums/auction.enum';
-import { IBidEvent } from '../common/interfaces/auction.interface';
 
 @Injectable()
 export class BidsService {
   constructor(
     @InjectModel(Bid.name) private bidModel: Model<BidDocument>,
+    @InjectModel(ProxyBid.name) private proxyBidModel: Model<ProxyBidDocument>,
     private readonly auctionsService: AuctionsService,
+    private readonly bidIncrementService: BidIncrementService,
   ) {}
 
-  async placeBid(placeBidDto: PlaceBidDto): Promise<{ bid: Bid; bidEvent: IBidEvent }> {
-    const { auctionId, bidAmount, userId } = placeBidDto;
-
-    // Get auction and validate
-    const auction = await this.auctionsService.findOne(auctionId);
-    
-    if (auction.status !== AuctionStatus.ACTIVE) {
-      throw new BadRequestException('Auction is not active');
-    }
-
-    const now = new Date();
-    if (now < auction.startTime || now > auction.endTime) {
-      throw new BadRequestException('Auction is not currently running');
-    }
-
-    if (bidAmount <= auction.currentHighestBid) {
-      throw new BadRequestException(
-        `Bid amount must be higher than current highest bid: ${auction.currentHighestBid}`
-      );
-    }
-
-    // Check if user is already the highest bidder
-    const currentHighestBid = await this.bidModel
-      .findOne({ auctionId, isWinning: true })
-      .populate('userId', 'username')
-      .exec();
-
-    if (currentHighestBid && currentHighestBid.userId.toString() === userId) {
-      throw new BadRequestException('You are already the highest bidder');
-    }
-
-    // Use MongoDB transaction for atomic operations
-    const session = await this.bidModel.db.startSession();
-    
-    try {
-      await session.withTransaction(async () => {
-        // Mark previous winning bid as not winning
-        if (currentHighestBid) {
-          await this.bidModel
-            .updateOne(
-              { _id: currentHighestBid._id },
-              { isWinning: false },
-              { session }
-            );
-        }
-
-        // Create new bid
-        const bid = new this.bidModel({
-          userId,
-          auctionId,
-          bidAmount,
-          isWinning: true,
-          status: BidStatus.ACCEPTED,
-          timestamp: now,
-        });
-
-        await bid.save({ session });
-
-        // Update auction with new highest bid
-        await this.auctionsService.updateHighestBid(auctionId, bidAmount, userId);
-      });
-
-      await session.endSession();
-
-      // Get the created bid with populated user data
-      const newBid = await this.bidModel
-        .findOne({ auctionId, isWinning: true })
-        .populate('userId', 'username')
-        .exec();
-
-      if (!newBid) {
-        throw new BadRequestException('Failed to retrieve created bid');
-      }
-
-      // Create bid event for real-time updates
-      const bidEvent: IBidEvent = {
-        auctionId,
-        bidId: (newBid._id as any).toString(),
-        userId,
-        username: (newBid.userId as any).username,
-        bidAmount,
-        previousHighestBid: currentHighestBid?.bidAmount || auction.startingBid,
-        timestamp: now,
-      };
-
-      return { bid: newBid, bidEvent };
-
-    } catch (error) {
-      await session.endSession();
-      throw new BadRequestException('Failed to place bid due to concurrent bidding');
-    }
-  }
-
   async findByAuction(auctionId: string, limit: number = 50): Promise<Bid[]> {
+    await this.assertBidsVisible(auctionId);
     return this.bidModel
       .find({ auctionId })
       .populate('userId', 'username')
@@ -126,6 +43,7 @@ export class BidsService {
   }
 
   async getCurrentHighestBid(auctionId: string): Promise<Bid | null> {
+    await this.assertBidsVisible(auctionId);
     return this.bidModel
       .findOne({ auctionId, isWinning: true })
       .populate('userId', 'username')
@@ -138,6 +56,7 @@ export class BidsService {
     page: number;
     totalPages: number;
   }> {
+    await this.assertBidsVisible(auctionId);
     const skip = (page - 1) * limit;
     
     const [bids, total] = await Promise.all([
@@ -159,6 +78,38 @@ export class BidsService {
     };
   }
 
+  // A bidder may always see (and so revise) their own sealed bid
+  async getSealedBid(auctionId: string, userId: string): Promise<Bid> {
+    const bid = await this.bidModel
+      .findOne({ auctionId, userId, status: BidStatus.ACCEPTED })
+      .exec();
+    if (!bid) {
+      throw new NotFoundException('No sealed bid for this auction');
+    }
+    return bid;
+  }
+
+  private async assertBidsVisible(auctionId: string): Promise<void> {
+    const auction = await this.auctionsService.findOne(auctionId);
+    if (
+      this.auctionsService.isSealed(auction) &&
+      auction.status !== AuctionStatus.ENDED
+    ) {
+      throw new ForbiddenException('Bids are sealed until the auction closes');
+    }
+  }
+
+  // Only ever returned to the proxy's owner
+  async getProxyBid(auctionId: string, userId: string): Promise<ProxyBid> {
+    const proxy = await this.proxyBidModel
+      .findOne({ auctionId, userId })
+      .exec();
+    if (!proxy) {
+      throw new NotFoundException('No maximum bid for this auction');
+    }
+    return proxy;
+  }
+
   async getUserBidCount(userId: string, auctionId: string): Promise<number> {
     return this.bidModel.countDocuments({ userId, auctionId });
   }
@@ -169,6 +120,7 @@ export class BidsService {
     averageBidAmount: number;
     currentHighestBid: number;
   }> {
+    await this.assertBidsVisible(auctionId);
     const [totalBids, uniqueBidders, avgResult, highestBid] = await Promise.all([
       this.bidModel.countDocuments({ auctionId }),
       this.bidModel.distinct('userId', { auctionId }).then(users => users.length),
@@ -189,6 +141,6 @@ export class BidsService {
 
   async validateBidAmount(auctionId: string, bidAmount: number): Promise<boolean> {
     const auction = await this.auctionsService.findOne(auctionId);
-    return bidAmount > auction.currentHighestBid;
+    return bidAmount >= this.bidIncrementService.getNextMinimum(auction);
   }
 }
\ No newline at end of file
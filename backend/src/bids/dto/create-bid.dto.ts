@@ -1,4 +1,10 @@
-import { IsString, IsNumber, Min } from 'class-validator';
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  MaxLength,
+  Min,
+} from 'class-validator';
 
 export class CreateBidDto {
   @IsString()
@@ -7,16 +13,10 @@ export class CreateBidDto {
   @IsNumber()
   @Min(1)
   bidAmount: number;
-}
 
-export class PlaceBidDto {
+  // Resubmitting with the same key never creates a second bid
+  @IsOptional()
   @IsString()
-  auctionId: string;
-
-  @IsNumber()
-  @Min(1)
-  bidAmount: number;
-
-  @IsString()
-  userId: string;
-}
\ No newline at end of file
+  @MaxLength(128)
+  idempotencyKey?: string;
+}
@@ -0,0 +1,10 @@
+import { IsString, IsNumber, Min } from 'class-validator';
+
+export class SetProxyBidDto {
+  @IsString()
+  auctionId: string;
+
+  @IsNumber()
+  @Min(1)
+  maxAmount: number;
+}
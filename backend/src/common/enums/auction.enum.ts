@@ -1,9 +1,47 @@
+export enum UserRole {
+  ADMIN = 'ADMIN',
+  SELLER = 'SELLER',
+  BIDDER = 'BIDDER',
+}
+
+// Role within a dealer organization; viewers follow but cannot bid
+export enum OrganizationRole {
+  OWNER = 'OWNER',
+  BUYER = 'BUYER',
+  VIEWER = 'VIEWER',
+}
+
+export enum InvitationStatus {
+  PENDING = 'PENDING',
+  ACCEPTED = 'ACCEPTED',
+  DECLINED = 'DECLINED',
+  REVOKED = 'REVOKED',
+}
+
 export enum AuctionStatus {
   PENDING = 'PENDING',
   ACTIVE = 'ACTIVE',
   ENDED = 'ENDED',
 }
 
+export enum AuctionType {
+  ENGLISH = 'ENGLISH',
+  SEALED_FIRST_PRICE = 'SEALED_FIRST_PRICE',
+  SEALED_SECOND_PRICE = 'SEALED_SECOND_PRICE',
+  DUTCH = 'DUTCH',
+}
+
+export const SEALED_AUCTION_TYPES = [
+  AuctionType.SEALED_FIRST_PRICE,
+  AuctionType.SEALED_SECOND_PRICE,
+];
+
+export enum AuctionOutcome {
+  SOLD = 'SOLD',
+  RESERVE_NOT_MET = 'RESERVE_NOT_MET',
+  NO_BIDS = 'NO_BIDS',
+}
+
 export enum BidStatus {
   PENDING = 'PENDING',
   ACCEPTED = 'ACCEPTED',
@@ -11,18 +49,115 @@ export enum BidStatus {
   OUTBID = 'OUTBID',
 }
 
+export enum BidRequestStatus {
+  PENDING = 'PENDING',
+  ACCEPTED = 'ACCEPTED',
+  REJECTED = 'REJECTED',
+}
+
+export enum ProxyBidStatus {
+  ACTIVE = 'ACTIVE',
+  EXHAUSTED = 'EXHAUSTED',
+  CANCELLED = 'CANCELLED',
+}
+
+// Ledger entry for a bid that counts against the bidder's credit limit
+export enum CreditHoldStatus {
+  ACTIVE = 'ACTIVE',
+  RELEASED = 'RELEASED',
+  SETTLED = 'SETTLED',
+}
+
+// Notification kinds a user can route to channels of their choice
+export enum NotificationEvent {
+  OUTBID = 'OUTBID',
+  AUCTION_WON = 'AUCTION_WON',
+  AUCTION_STARTING = 'AUCTION_STARTING',
+  AUCTION_ENDING = 'AUCTION_ENDING',
+  BID_FAILED = 'BID_FAILED',
+  SAVED_SEARCH = 'SAVED_SEARCH',
+}
+
+export enum NotificationChannel {
+  IN_APP = 'IN_APP',
+  EMAIL = 'EMAIL',
+  WEBHOOK = 'WEBHOOK',
+}
+
+export enum DigestFrequency {
+  NONE = 'NONE',
+  HOURLY = 'HOURLY',
+  DAILY = 'DAILY',
+}
+
+// QUEUED deliveries are waiting on quiet hours, a digest or a retry
+export enum NotificationDeliveryStatus {
+  QUEUED = 'QUEUED',
+  SENT = 'SENT',
+  FAILED = 'FAILED',
+}
+
+export enum WebhookEvent {
+  BID_ACCEPTED = 'bid.accepted',
+  BID_REJECTED = 'bid.rejected',
+  AUCTION_STARTED = 'auction.started',
+  AUCTION_ENDED = 'auction.ended',
+  AUCTION_WON = 'auction.won',
+}
+
+export enum WebhookDeliveryStatus {
+  QUEUED = 'QUEUED',
+  SENT = 'SENT',
+  // Out of attempts and parked in the dead-letter queue
+  FAILED = 'FAILED',
+}
+
+// Actions recorded in the audit log. Entries keep the action as written,
+// so older names stay readable after this list changes.
+export enum AuditAction {
+  BID_PLACED = 'BID_PLACED',
+  BID_FAILED = 'BID_FAILED',
+  AUCTION_CREATED = 'AUCTION_CREATED',
+  AUCTION_UPDATED = 'AUCTION_UPDATED',
+  AUCTION_RESERVE_LOWERED = 'AUCTION_RESERVE_LOWERED',
+  AUCTION_DELETED = 'AUCTION_DELETED',
+  USER_REGISTERED = 'USER_REGISTERED',
+  USER_CREATED = 'USER_CREATED',
+  USER_ROLES_UPDATED = 'USER_ROLES_UPDATED',
+  USER_DELETED = 'USER_DELETED',
+  LOGIN_SUCCEEDED = 'LOGIN_SUCCEEDED',
+  LOGIN_FAILED = 'LOGIN_FAILED',
+  LOGIN_LOCKOUT = 'LOGIN_LOCKOUT',
+  LOGIN_LOCKOUT_CLEARED = 'LOGIN_LOCKOUT_CLEARED',
+  LOGOUT = 'LOGOUT',
+  SESSION_REVOKED = 'SESSION_REVOKED',
+  EMAIL_VERIFIED = 'EMAIL_VERIFIED',
+  PASSWORD_RESET = 'PASSWORD_RESET',
+  TWO_FACTOR_ENABLED = 'TWO_FACTOR_ENABLED',
+  TWO_FACTOR_DISABLED = 'TWO_FACTOR_DISABLED',
+  CREDIT_LIMIT_UPDATED = 'CREDIT_LIMIT_UPDATED',
+}
+
 export enum WebSocketEvents {
   JOIN_AUCTION = 'joinAuction',
   LEAVE_AUCTION = 'leaveAuction',
   PLACE_BID = 'placeBid',
+  SET_PROXY_BID = 'setProxyBid',
+  CANCEL_PROXY_BID = 'cancelProxyBid',
+  PROXY_BID_UPDATE = 'proxyBidUpdate',
+  BUY_NOW = 'buyNow',
+  ACCEPT_PRICE = 'acceptPrice',
   BID_UPDATE = 'bidUpdate',
   BID_RECEIVED = 'bidReceived',
+  BID_RESULT = 'bidResult',
   AUCTION_UPDATE = 'auctionUpdate',
   AUCTION_END = 'auctionEnd',
   AUCTION_WON = 'auctionWon',
   USER_JOINED = 'userJoined',
   USER_LEFT = 'userLeft',
   OUTBID = 'outbid',
+  NOTIFICATION = 'notification',
+  NOTIFICATIONS_READ = 'notificationsRead',
   ERROR = 'error',
 }
 
@@ -0,0 +1,107 @@
+import { EventEmitter } from 'events';
+import { ExecutionContext, HttpException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import {
+  AuthRateLimit,
+  RateLimitGuard,
+  SignInRateLimit,
+} from './rate-limit.guard';
+import { RedisService } from '../../redis/redis.service';
+
+class AuthRoutes {
+  @SignInRateLimit()
+  login() {}
+
+  @AuthRateLimit()
+  forgotPassword() {}
+}
+
+function createHarness() {
+  const counts = new Map<string, number>();
+  const redisService = {
+    get: (key: string) =>
+      Promise.resolve(counts.has(key) ? String(counts.get(key)) : null),
+    incr: (key: string) => {
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+      return Promise.resolve(counts.get(key)!);
+    },
+    expire: () => Promise.resolve(true),
+  };
+  const guard = new RateLimitGuard(
+    new Reflector(),
+    redisService as unknown as RedisService,
+  );
+
+  // Runs the guard for one request, then answers it with `statusCode`
+  const send = async (route: keyof AuthRoutes, statusCode: number) => {
+    const response = Object.assign(new EventEmitter(), {
+      statusCode,
+      setHeader: () => undefined,
+    });
+    const context = {
+      switchToHttp: () => ({
+        getRequest: () => ({ path: `/api/auth/${route}`, ip: '203.0.113.7' }),
+        getResponse: () => response,
+      }),
+      getHandler: () => AuthRoutes.prototype[route],
+      getClass: () => AuthRoutes,
+    } as unknown as ExecutionContext;
+
+    await guard.canActivate(context);
+    response.emit('finish');
+    // Let a count made on finish reach the store
+    await new Promise((resolve) => setImmediate(resolve));
+  };
+
+  return { send };
+}
+
+describe('RateLimitGuard', () => {
+  it('counts only failed sign-ins, well past the lockout thresholds', async () => {
+    const { send } = createHarness();
+
+    for (let i = 0; i < 100; i++) {
+      await send('login', 201);
+    }
+    for (let i = 0; i < 50; i++) {
+      await send('login', 401);
+    }
+
+    await expect(send('login', 401)).rejects.toMatchObject({
+      status: 429,
+    });
+  });
+
+  it('counts every request to the other auth endpoints', async () => {
+    const { send } = createHarness();
+
+    for (let i = 0; i < 5; i++) {
+      await send('forgotPassword', 200);
+    }
+
+    await expect(send('forgotPassword', 200)).rejects.toThrow(HttpException);
+  });
+
+  it('tells the client when it may try again', async () => {
+    const { send } = createHarness();
+    for (let i = 0; i < 5; i++) {
+      await send('forgotPassword', 200);
+    }
+
+    const error = await send('forgotPassword', 200).catch(
+      (caught: HttpException) => caught,
+    );
+
+    const body = (error as HttpException).getResponse() as {
+      retryAfter: number;
+      retryAt: string;
+    };
+    expect(body).toMatchObject({
+      statusCode: 429,
+      message: 'Too many authentication attempts, please try again later',
+    });
+    expect(body.retryAfter).toBeGreaterThan(0);
+    expect(body.retryAfter).toBeLessThanOrEqual(15 * 60);
+    expect(new Date(body.retryAt).getTime()).toBeGreaterThan(Date.now());
+  });
+});
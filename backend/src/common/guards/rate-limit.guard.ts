@@ -1,7 +1,7 @@
-import { Injectable, CanActivate, ExecutionContext, HttpException, HttpStatus, Logger } from '@nestjs/common';
+import { Injectable, CanActivate, ExecutionContext, HttpException, HttpStatus, Logger, SetMetadata } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { RedisService } from '../../redis/redis.service';
-import { Request } from 'express';
+import { Request, Response } from 'express';
 
 export interface RateLimitOptions {
   windowMs: number;    // Time window in milliseconds
@@ -14,8 +14,25 @@ export interface RateLimitOptions {
 
 export const RATE_LIMIT_KEY = 'rate-limit';
 
+// Tells the client when the window resets, like LoginLockedException
+export class RateLimitExceededException extends HttpException {
+  constructor(message: string, resetAt: number) {
+    const retryAfter = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        error: 'Too Many Requests',
+        message,
+        retryAfter,
+        retryAt: new Date(resetAt).toISOString(),
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
+
 export const RateLimit = (options: RateLimitOptions) => {
-  return Reflector.createDecorator<RateLimitOptions>()(options);
+  return SetMetadata(RATE_LIMIT_KEY, options);
 };
 
 @Injectable()
@@ -49,28 +66,37 @@ export class RateLimitGuard implements CanActivate {
       // Get current count
       const currentCount = await this.redisService.get(redisKey);
       const count = currentCount ? parseInt(currentCount, 10) : 0;
+      const resetAt = windowStart + rateLimitOptions.windowMs;
 
       if (count >= rateLimitOptions.maxRequests) {
         this.logger.warn(`Rate limit exceeded for key: ${key}, count: ${count}`);
-        throw new HttpException(
+        throw new RateLimitExceededException(
           rateLimitOptions.message || 'Too many requests',
-          HttpStatus.TOO_MANY_REQUESTS,
+          resetAt,
         );
       }
 
-      // Increment counter
-      const newCount = await this.redisService.incr(redisKey);
-      
-      // Set expiry on first request of the window
-      if (newCount === 1) {
-        await this.redisService.expire(redisKey, Math.ceil(rateLimitOptions.windowMs / 1000));
+      const response = context.switchToHttp().getResponse<Response>();
+
+      // Requests that only count by outcome are counted once answered
+      let newCount = count;
+      if (rateLimitOptions.skipSuccessfulRequests || rateLimitOptions.skipFailedRequests) {
+        response.on('finish', () => {
+          const failed = response.statusCode >= 400;
+          if (failed ? !rateLimitOptions.skipFailedRequests : !rateLimitOptions.skipSuccessfulRequests) {
+            this.count(redisKey, rateLimitOptions).catch((error) =>
+              this.logger.error('Rate limiting error:', error),
+            );
+          }
+        });
+      } else {
+        newCount = await this.count(redisKey, rateLimitOptions);
       }
 
       // Add rate limit headers
-      const response = context.switchToHttp().getResponse();
       response.setHeader('X-RateLimit-Limit', rateLimitOptions.maxRequests);
       response.setHeader('X-RateLimit-Remaining', Math.max(0, rateLimitOptions.maxRequests - newCount));
-      response.setHeader('X-RateLimit-Reset', windowStart + rateLimitOptions.windowMs);
+      response.setHeader('X-RateLimit-Reset', resetAt);
 
       return true;
     } catch (error) {
@@ -83,6 +109,16 @@ export class RateLimitGuard implements CanActivate {
     }
   }
 
+  private async count(redisKey: string, options: RateLimitOptions): Promise<number> {
+    const newCount = await this.redisService.incr(redisKey);
+
+    // Set expiry on first request of the window
+    if (newCount === 1) {
+      await this.redisService.expire(redisKey, Math.ceil(options.windowMs / 1000));
+    }
+    return newCount;
+  }
+
   private generateKey(request: Request, options: RateLimitOptions): string {
     if (options.keyGenerator) {
       return options.keyGenerator(request);
@@ -95,16 +131,15 @@ export class RateLimitGuard implements CanActivate {
   }
 
   private getClientIP(request: Request): string {
-    return (
-      request.headers['x-forwarded-for'] as string ||
-      request.headers['x-real-ip'] as string ||
-      request.connection.remoteAddress ||
-      request.socket.remoteAddress ||
-      'unknown'
-    ).split(',')[0].trim();
+    return clientIp(request);
   }
 }
 
+// Honours X-Forwarded-For only through Express's `trust proxy` setting
+// (TRUST_PROXY), so clients cannot pick their own rate limit key
+export const clientIp = (req: Request): string =>
+  req.ip || req.socket?.remoteAddress || 'unknown';
+
 // Specific rate limiting decorators for different use cases
 export const APIRateLimit = () => RateLimit({
   windowMs: 60 * 1000, // 1 minute
@@ -126,22 +161,25 @@ export const AuthRateLimit = () => RateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   maxRequests: 5,           // 5 attempts per 15 minutes
   message: 'Too many authentication attempts, please try again later',
-  keyGenerator: (req) => {
-    const ip = req.headers['x-forwarded-for'] as string || 
-               req.connection.remoteAddress || 
-               'unknown';
-    return `auth:${ip.split(',')[0].trim()}`;
-  },
+  // Counted per endpoint, so a sign-in does not use up the budget for
+  // password resets or two-factor steps
+  keyGenerator: (req) => `auth:${req.path}:${clientIp(req)}`,
+});
+
+// Sign-ins have their own per-account and per-IP lockouts with backoff.
+// Only failures count here, and far more of them than the lockouts allow,
+// so the lockouts engage first and this only stops a flood from one IP.
+export const SignInRateLimit = () => RateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 50,          // 50 failed sign-ins per 15 minutes
+  message: 'Too many failed sign-in attempts, please try again later',
+  skipSuccessfulRequests: true,
+  keyGenerator: (req) => `auth:${req.path}:${clientIp(req)}`,
 });
 
 export const WebSocketRateLimit = () => RateLimit({
   windowMs: 60 * 1000, // 1 minute
   maxRequests: 5,      // 5 WebSocket connections per minute per IP
   message: 'Too many WebSocket connections, please try again later',
-  keyGenerator: (req) => {
-    const ip = req.headers['x-forwarded-for'] as string || 
-               req.connection.remoteAddress || 
-               'unknown';
-    return `ws:${ip.split(',')[0].trim()}`;
-  },
+  keyGenerator: (req) => `ws:${clientIp(req)}`,
 });
\ No newline at end of file
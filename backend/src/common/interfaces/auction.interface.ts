@@ -1,44 +1,250 @@
-import { AuctionStatus, BidStatus } from '../enums/auction.enum';
+import { Types } from 'mongoose';
+import {
+  AuctionOutcome,
+  AuctionStatus,
+  AuctionType,
+  BidRequestStatus,
+  BidStatus,
+  CreditHoldStatus,
+  InvitationStatus,
+  OrganizationRole,
+  ProxyBidStatus,
+  UserRole,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+} from '../enums/auction.enum';
 
 export interface IAuction {
   _id?: string;
   carId: string;
   title: string;
   description: string;
+  auctionType: AuctionType;
   startTime: Date;
   endTime: Date;
   startingBid: number;
   currentHighestBid: number;
+  clearingPrice?: number;
+  reservePrice?: number;
+  buyNowPrice?: number;
+  buyNowBidThreshold?: number;
+  stepUpBidThreshold?: number;
+  dutchFloorPrice?: number;
+  dutchPriceStep?: number;
+  dutchStepIntervalSeconds?: number;
+  bidIncrements?: IBidIncrementTier[];
+  incrementTable?: string;
   winnerId?: string;
+  winnerOrganizationId?: string;
   status: AuctionStatus;
+  outcome?: AuctionOutcome;
   bidCount: number;
+  watcherCount?: number;
+  softCloseWindowSeconds?: number;
+  softCloseExtensionSeconds?: number;
+  maxExtensions?: number;
+  extensionCount: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface IBidIncrementTier {
+  upTo?: number; // exclusive upper bound of the price band; omit on the last tier
+  increment: number;
+}
+
 export interface IBid {
   _id?: string;
   userId: string;
   auctionId: string;
+  organizationId?: string;
   bidAmount: number;
   timestamp: Date;
   isWinning: boolean;
+  isProxy?: boolean;
+  isBuyNow?: boolean;
   status: BidStatus;
 }
 
+export interface IBidRequest {
+  _id?: string;
+  userId: string;
+  auctionId: string;
+  organizationId?: string;
+  bidAmount: number;
+  idempotencyKey: string;
+  status: BidRequestStatus;
+  bidId?: string;
+  reason?: string;
+  socketId?: string;
+  processedAt?: Date;
+}
+
+export interface IProxyBid {
+  _id?: string;
+  userId: string;
+  auctionId: string;
+  organizationId?: string;
+  maxAmount: number;
+  status: ProxyBidStatus;
+  registeredAt: Date;
+}
+
 export interface IUser {
   _id?: string;
   username: string;
   email: string;
   password: string;
+  roles: UserRole[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IOrganizationMember {
+  userId: string;
+  role: OrganizationRole;
+  joinedAt: Date;
+}
+
+export interface IOrganization {
+  _id?: string;
+  name: string;
+  members: IOrganizationMember[];
+  spendingLimit?: number;
+  createdBy: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface IOrganizationInvitation {
+  _id?: string;
+  organizationId: string;
+  email: string;
+  role: OrganizationRole;
+  invitedBy: string;
+  status: InvitationStatus;
+  expiresAt: Date;
+  respondedAt?: Date;
+}
+
+export interface ICreditAccount {
+  _id?: string;
+  userId: string;
+  creditLimit?: number;
+  approvedBy?: string;
+  approvedAt?: Date;
+}
+
+export interface ICreditHold {
+  _id?: string;
+  userId: string;
+  auctionId: string;
+  bidId?: string;
+  amount: number;
+  status: CreditHoldStatus;
+  releasedAt?: Date;
+  releaseReason?: string;
+}
+
+export interface INotification {
+  _id?: string;
+  userId: string;
+  type: string;
+  message: string;
+  auctionId?: string;
+  data?: Record<string, any>;
+  readAt?: Date;
+  createdAt?: Date;
+}
+
+export interface IWatch {
+  _id?: string;
+  userId: string;
+  auctionId: string;
+  remindersSent: string[];
+}
+
+export interface ISavedSearch {
+  _id?: string;
+  userId: string;
+  name: string;
+  text?: string;
+  terms: string[];
+  anchorTerm: string;
+  status?: AuctionStatus;
+  minPrice?: number;
+  maxPrice?: number;
+  alertsEnabled: boolean;
+  lastAlertAt?: Date;
+}
+
+export interface IWebhookSubscription {
+  _id?: string;
+  userId?: string;
+  organizationId?: string;
+  createdBy: string;
+  url: string;
+  events: WebhookEvent[];
+  active: boolean;
+  description?: string;
+}
+
+export interface IWebhookDelivery {
+  _id?: string;
+  subscriptionId: string;
+  event: WebhookEvent;
+  eventId: string;
+  payload: Record<string, any>;
+  status: WebhookDeliveryStatus;
+  attempts: {
+    attemptedAt: Date;
+    success: boolean;
+    statusCode?: number;
+    error?: string;
+    durationMs?: number;
+  }[];
+  nextAttemptAt?: Date;
+  deliveredAt?: Date;
+}
+
+export interface IAuditEntry {
+  _id?: string;
+  sequence: number;
+  action: string;
+  userId?: string;
+  auctionId?: string;
+  success?: boolean;
+  details: Record<string, any>;
+  occurredAt: Date;
+  previousHash: string;
+  hash: string;
+}
+
 export interface IJwtPayload {
   sub: string;
   username: string;
   email: string;
+  roles: UserRole[];
+  // Session the token was issued for; revoking it invalidates the token
+  sid: string;
+  // Organization the user is acting for, if any
+  org?: string;
+}
+
+// What JwtStrategy puts on req.user: the user plus the session and
+// organization named in the access token
+export interface IRequestUser {
+  _id: Types.ObjectId;
+  username: string;
+  email: string;
+  emailVerified?: boolean;
+  roles: UserRole[];
+  sessionId: string;
+  organizationId?: string;
+}
+
+export interface IAuthenticatedRequest {
+  user: IRequestUser;
 }
 
 export interface IBidEvent {
@@ -64,4 +270,4 @@ export interface IConnectedUser {
   socketId: string;
   auctionId: string;
   connectedAt: Date;
-}
\ No newline at end of file
+}
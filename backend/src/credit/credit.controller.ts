@@ -0,0 +1,49 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Patch,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { CreditService } from './credit.service';
+import { SetCreditLimitDto } from './dto/set-credit-limit.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../common/enums/auction.enum';
+import type { IAuthenticatedRequest } from '../common/interfaces/auction.interface';
+
+// Bidders see their own credit; limits are approved by admins
+@Controller('credit')
+@UseGuards(ThrottlerGuard, JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class CreditController {
+  constructor(private readonly creditService: CreditService) {}
+
+  @Get('me')
+  @Roles(UserRole.BIDDER, UserRole.SELLER, UserRole.ADMIN)
+  getMine(@Request() req: IAuthenticatedRequest) {
+    return this.creditService.getAccount(req.user._id.toString());
+  }
+
+  @Get(':userId')
+  getAccount(@Param('userId') userId: string) {
+    return this.creditService.getAccount(userId);
+  }
+
+  @Patch(':userId/limit')
+  setCreditLimit(
+    @Request() req: IAuthenticatedRequest,
+    @Param('userId') userId: string,
+    @Body() setCreditLimitDto: SetCreditLimitDto,
+  ) {
+    return this.creditService.setCreditLimit(
+      userId,
+      setCreditLimitDto.creditLimit,
+      req.user._id.toString(),
+    );
+  }
+}
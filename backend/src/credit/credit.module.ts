@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { CreditController } from './credit.controller';
+import { CreditService } from './credit.service';
+import {
+  CreditAccount,
+  CreditAccountSchema,
+} from '../database/schemas/credit-account.schema';
+import {
+  CreditHold,
+  CreditHoldSchema,
+} from '../database/schemas/credit-hold.schema';
+import { User, UserSchema } from '../database/schemas/user.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: CreditAccount.name, schema: CreditAccountSchema },
+      { name: CreditHold.name, schema: CreditHoldSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+  ],
+  controllers: [CreditController],
+  providers: [CreditService],
+  exports: [CreditService],
+})
+export class CreditModule {}
@@ -0,0 +1,181 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { CreditLimitExceededException, CreditService } from './credit.service';
+import { CreditAccount } from '../database/schemas/credit-account.schema';
+import { CreditHold } from '../database/schemas/credit-hold.schema';
+import { User } from '../database/schemas/user.schema';
+import { RabbitmqService } from '../rabbitmq/rabbitmq-simple.service';
+import { CreditHoldStatus } from '../common/enums/auction.enum';
+
+// Awaitable stand-in for a mongoose query
+const query = <T>(value: T) => {
+  const chain = {
+    select: () => chain,
+    exec: () => Promise.resolve(value),
+  };
+  return chain;
+};
+
+// Equality and $ne on ids and strings, which is all the ledger filters use
+const matches = (
+  record: Record<string, any>,
+  filter: Record<string, any>,
+): boolean =>
+  Object.entries(filter).every(([key, condition]: [string, unknown]) =>
+    condition && typeof condition === 'object' && '$ne' in condition
+      ? String(record[key]) !== String(condition.$ne)
+      : String(record[key]) === String(condition),
+  );
+
+async function createHarness(defaultLimit?: number) {
+  const holds: Record<string, any>[] = [];
+  const accounts: Record<string, any>[] = [];
+
+  const creditHoldModel = {
+    find: (filter: Record<string, any>) =>
+      query(holds.filter((hold) => matches(hold, filter))),
+    updateMany: (
+      filter: Record<string, any>,
+      update: { $set: Record<string, unknown> },
+    ) => {
+      holds
+        .filter((hold) => matches(hold, filter))
+        .forEach((hold) => Object.assign(hold, update.$set));
+      return query({});
+    },
+    updateOne: (
+      filter: Record<string, any>,
+      update: { $set: Record<string, unknown> },
+      options?: { upsert?: boolean },
+    ) => {
+      const hold = holds.find((entry) => matches(entry, filter));
+      if (hold) {
+        Object.assign(hold, update.$set);
+      } else if (options?.upsert) {
+        holds.push({ ...filter, ...update.$set });
+      }
+      return query({});
+    },
+  };
+
+  const module = await Test.createTestingModule({
+    providers: [
+      CreditService,
+      {
+        provide: getModelToken(CreditAccount.name),
+        useValue: {
+          findOne: (filter: Record<string, any>) =>
+            query(accounts.find((account) => matches(account, filter)) ?? null),
+        },
+      },
+      { provide: getModelToken(CreditHold.name), useValue: creditHoldModel },
+      { provide: getModelToken(User.name), useValue: {} },
+      { provide: RabbitmqService, useValue: {} },
+      {
+        provide: ConfigService,
+        useValue: {
+          get: (key: string, fallback?: unknown) =>
+            key === 'credit.defaultLimit' ? defaultLimit : fallback,
+        },
+      },
+    ],
+  }).compile();
+
+  return {
+    creditService: module.get(CreditService),
+    holds,
+    accounts,
+    userId: String(new Types.ObjectId()),
+    rivalId: String(new Types.ObjectId()),
+    auctionId: () => String(new Types.ObjectId()),
+    bidId: () => new Types.ObjectId(),
+  };
+}
+
+describe('CreditService exposure ledger', () => {
+  it('moves the hold to each new leader and releases it at close', async () => {
+    const harness = await createHarness();
+    const { creditService, userId, rivalId } = harness;
+    const auctionId = harness.auctionId();
+
+    await creditService.holdLeadingBid(
+      auctionId,
+      userId,
+      1000,
+      harness.bidId(),
+    );
+    await creditService.holdLeadingBid(
+      auctionId,
+      rivalId,
+      1100,
+      harness.bidId(),
+    );
+
+    expect(await creditService.getExposure(userId)).toBe(0);
+    expect(await creditService.getExposure(rivalId)).toBe(1100);
+    expect(harness.holds[0]).toMatchObject({
+      status: CreditHoldStatus.RELEASED,
+      releaseReason: 'OUTBID',
+    });
+
+    // Raising your own lead replaces the hold instead of adding to it
+    await creditService.holdLeadingBid(
+      auctionId,
+      rivalId,
+      1500,
+      harness.bidId(),
+    );
+    expect(await creditService.getExposure(rivalId)).toBe(1500);
+
+    await creditService.settleAuction(auctionId, rivalId);
+
+    expect(await creditService.getExposure(rivalId)).toBe(0);
+    expect(harness.holds.at(-1)).toMatchObject({
+      status: CreditHoldStatus.SETTLED,
+      releaseReason: 'WON',
+    });
+  });
+
+  it('rejects a bid that leading bids elsewhere leave no credit for', async () => {
+    const harness = await createHarness(10000);
+    const { creditService, userId } = harness;
+    const elsewhere = harness.auctionId();
+    const target = harness.auctionId();
+
+    await creditService.holdLeadingBid(
+      elsewhere,
+      userId,
+      7000,
+      harness.bidId(),
+    );
+    await creditService.holdLeadingBid(target, userId, 2000, harness.bidId());
+
+    // The target's own hold is replaced by the new bid, so it does not count
+    await expect(
+      creditService.assertAvailable(userId, target, 3000),
+    ).resolves.toBeUndefined();
+    await expect(
+      creditService.assertAvailable(userId, target, 3001),
+    ).rejects.toThrow(CreditLimitExceededException);
+
+    // An approved limit overrides the default
+    harness.accounts.push({ userId, creditLimit: 20000 });
+    await expect(
+      creditService.assertAvailable(userId, target, 13000),
+    ).resolves.toBeUndefined();
+  });
+
+  it('leaves bidders without any limit unrestricted', async () => {
+    const harness = await createHarness();
+
+    await expect(
+      harness.creditService.assertAvailable(
+        harness.userId,
+        harness.auctionId(),
+        1_000_000,
+      ),
+    ).resolves.toBeUndefined();
+  });
+});
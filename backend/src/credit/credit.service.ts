@@ -0,0 +1,267 @@
+import {
+  ForbiddenException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { CreditAccount } from '../database/schemas/credit-account.schema';
+import { CreditHold } from '../database/schemas/credit-hold.schema';
+import { User } from '../database/schemas/user.schema';
+import { RabbitmqService } from '../rabbitmq/rabbitmq-simple.service';
+import { AuditAction, CreditHoldStatus } from '../common/enums/auction.enum';
+
+export interface CreditDetails {
+  creditLimit: number;
+  exposure: number;
+  available: number;
+}
+
+// Carries the figures behind the rejection so BID_FAILED can report them
+export class CreditLimitExceededException extends ForbiddenException {
+  constructor(
+    amount: number,
+    readonly details: CreditDetails,
+  ) {
+    super({
+      statusCode: HttpStatus.FORBIDDEN,
+      error: 'Forbidden',
+      message: `Bid of $${amount} exceeds your available credit of $${details.available} (limit $${details.creditLimit}, $${details.exposure} held for your leading bids)`,
+      reason: 'CREDIT_LIMIT_EXCEEDED',
+      ...details,
+    });
+  }
+}
+
+// Keeps each bidder's exposure ledger: an ACTIVE hold for every open
+// auction they lead and every sealed bid they have standing. The bid
+// pipeline checks and changes a bidder's holds under both the auction
+// lock and the bidder's own lock. Bids placed for an organization are
+// covered by its spending limit instead and never hold personal credit.
+@Injectable()
+export class CreditService {
+  private readonly logger = new Logger(CreditService.name);
+
+  constructor(
+    @InjectModel(CreditAccount.name)
+    private creditAccountModel: Model<CreditAccount>,
+    @InjectModel(CreditHold.name) private creditHoldModel: Model<CreditHold>,
+    @InjectModel(User.name) private userModel: Model<User>,
+    private readonly rabbitmqService: RabbitmqService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // Raising a bid on an auction replaces that auction's hold, so it is left
+  // out of the exposure the new amount is added to
+  async assertAvailable(
+    userId: string,
+    auctionId: string,
+    amount: number,
+  ): Promise<void> {
+    const creditLimit = await this.getCreditLimit(userId);
+    if (creditLimit === undefined) {
+      return;
+    }
+
+    const exposure = await this.getExposure(userId, auctionId);
+    if (exposure + amount > creditLimit) {
+      throw new CreditLimitExceededException(amount, {
+        creditLimit,
+        exposure,
+        available: Math.max(0, creditLimit - exposure),
+      });
+    }
+  }
+
+  // A new leading bid on an open auction: everyone else's hold there is
+  // released as outbid, and the leader's is set to the new amount. An
+  // organization bid (no leaderId) only releases.
+  async holdLeadingBid(
+    auctionId: string,
+    leaderId: string | undefined,
+    amount: number,
+    bidId: Types.ObjectId,
+  ): Promise<void> {
+    await this.creditHoldModel
+      .updateMany(
+        {
+          auctionId,
+          status: CreditHoldStatus.ACTIVE,
+          ...(leaderId && { userId: { $ne: leaderId } }),
+        },
+        {
+          $set: {
+            status: CreditHoldStatus.RELEASED,
+            releasedAt: new Date(),
+            releaseReason: 'OUTBID',
+          },
+        },
+      )
+      .exec();
+
+    if (leaderId) {
+      await this.hold(auctionId, leaderId, amount, bidId);
+    }
+  }
+
+  // Sealed bids do not outbid each other; every standing one is held
+  async holdSealedBid(
+    auctionId: string,
+    userId: string,
+    amount: number,
+    bidId: Types.ObjectId,
+  ): Promise<void> {
+    await this.hold(auctionId, userId, amount, bidId);
+  }
+
+  // A personal sealed bid revised into an organization bid
+  async release(
+    auctionId: string,
+    userId: string,
+    reason: string,
+  ): Promise<void> {
+    await this.creditHoldModel
+      .updateOne(
+        { auctionId, userId, status: CreditHoldStatus.ACTIVE },
+        {
+          $set: {
+            status: CreditHoldStatus.RELEASED,
+            releasedAt: new Date(),
+            releaseReason: reason,
+          },
+        },
+      )
+      .exec();
+  }
+
+  // At close the winner's hold is settled and every other one released
+  async settleAuction(auctionId: string, winnerId?: string): Promise<void> {
+    const releasedAt = new Date();
+    if (winnerId) {
+      await this.creditHoldModel
+        .updateOne(
+          { auctionId, userId: winnerId, status: CreditHoldStatus.ACTIVE },
+          {
+            $set: {
+              status: CreditHoldStatus.SETTLED,
+              releasedAt,
+              releaseReason: 'WON',
+            },
+          },
+        )
+        .exec();
+    }
+
+    await this.creditHoldModel
+      .updateMany(
+        { auctionId, status: CreditHoldStatus.ACTIVE },
+        {
+          $set: {
+            status: CreditHoldStatus.RELEASED,
+            releasedAt,
+            releaseReason: 'CLOSED',
+          },
+        },
+      )
+      .exec();
+  }
+
+  async getExposure(
+    userId: string,
+    excludeAuctionId?: string,
+  ): Promise<number> {
+    const holds = await this.creditHoldModel
+      .find({ userId, status: CreditHoldStatus.ACTIVE })
+      .select('auctionId amount')
+      .exec();
+
+    return holds
+      .filter((hold) => hold.auctionId.toString() !== excludeAuctionId)
+      .reduce((sum, hold) => sum + hold.amount, 0);
+  }
+
+  // undefined means unlimited
+  async getCreditLimit(userId: string): Promise<number | undefined> {
+    const account = await this.creditAccountModel.findOne({ userId }).exec();
+    return (
+      account?.creditLimit ??
+      this.configService.get<number | undefined>('credit.defaultLimit')
+    );
+  }
+
+  async getAccount(userId: string) {
+    const creditLimit = await this.getCreditLimit(userId);
+    const holds = await this.creditHoldModel
+      .find({ userId, status: CreditHoldStatus.ACTIVE })
+      .populate('auctionId', 'title status endTime')
+      .sort({ updatedAt: -1 })
+      .exec();
+    const exposure = holds.reduce((sum, hold) => sum + hold.amount, 0);
+
+    return {
+      userId,
+      creditLimit,
+      exposure,
+      available:
+        creditLimit !== undefined
+          ? Math.max(0, creditLimit - exposure)
+          : undefined,
+      holds,
+    };
+  }
+
+  // null returns the bidder to the default limit
+  async setCreditLimit(
+    userId: string,
+    creditLimit: number | null,
+    adminId: string,
+  ) {
+    const user = Types.ObjectId.isValid(userId)
+      ? await this.userModel.findById(userId).select('_id').exec()
+      : null;
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const approval = { approvedBy: adminId, approvedAt: new Date() };
+    await this.creditAccountModel
+      .updateOne(
+        { userId },
+        creditLimit !== null
+          ? { $set: { ...approval, creditLimit } }
+          : { $set: approval, $unset: { creditLimit: 1 } },
+        { upsert: true },
+      )
+      .exec();
+
+    await this.rabbitmqService.publishAuditLog({
+      action: AuditAction.CREDIT_LIMIT_UPDATED,
+      userId: adminId,
+      success: true,
+      details: { bidderId: userId, creditLimit },
+    });
+
+    this.logger.log(
+      `Admin ${adminId} set credit limit of ${userId} to ${creditLimit}`,
+    );
+    return this.getAccount(userId);
+  }
+
+  private async hold(
+    auctionId: string,
+    userId: string,
+    amount: number,
+    bidId: Types.ObjectId,
+  ): Promise<void> {
+    await this.creditHoldModel
+      .updateOne(
+        { auctionId, userId, status: CreditHoldStatus.ACTIVE },
+        { $set: { amount, bidId } },
+        { upsert: true },
+      )
+      .exec();
+  }
+}
@@ -0,0 +1,9 @@
+import { IsNumber, Min, ValidateIf } from 'class-validator';
+
+export class SetCreditLimitDto {
+  // null returns the bidder to CREDIT_DEFAULT_LIMIT
+  @ValidateIf((dto: SetCreditLimitDto) => dto.creditLimit !== null)
+  @IsNumber()
+  @Min(0)
+  creditLimit: number | null;
+}
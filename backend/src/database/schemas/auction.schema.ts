@@ -1,6 +1,11 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
-import { AuctionStatus } from '../../common/enums/auction.enum';
+import {
+  AuctionOutcome,
+  AuctionStatus,
+  AuctionType,
+} from '../../common/enums/auction.enum';
+import { IBidIncrementTier } from '../../common/interfaces/auction.interface';
 
 export type AuctionDocument = Auction & Document;
 
@@ -15,6 +20,15 @@ export class Auction {
   @Prop({ required: true })
   description: string;
 
+  // Sealed formats hide amounts and bidders until the auction closes
+  @Prop({
+    type: String,
+    required: true,
+    enum: AuctionType,
+    default: AuctionType.ENGLISH,
+  })
+  auctionType: AuctionType;
+
   @Prop({ required: true })
   startTime: Date;
 
@@ -27,19 +41,92 @@ export class Auction {
   @Prop({ required: true, default: 0 })
   currentHighestBid: number;
 
+  // What the winner pays; differs from the top bid in second-price auctions
+  @Prop()
+  clearingPrice?: number;
+
+  // Hidden from every query unless explicitly selected with +reservePrice
+  @Prop({ select: false })
+  reservePrice?: number;
+
+  // Price that closes the auction immediately when taken
+  @Prop()
+  buyNowPrice?: number;
+
+  // Buy-it-now is withdrawn once the leading bid reaches this amount
+  @Prop()
+  buyNowBidThreshold?: number;
+
+  // Bids at or above this amount need a recent two-factor step-up
+  @Prop()
+  stepUpBidThreshold?: number;
+
+  // Dutch auctions descend from startingBid by dutchPriceStep every
+  // dutchStepIntervalSeconds until they reach dutchFloorPrice
+  @Prop()
+  dutchFloorPrice?: number;
+
+  @Prop()
+  dutchPriceStep?: number;
+
+  @Prop()
+  dutchStepIntervalSeconds?: number;
+
+  // Custom increment tiers; otherwise the named `incrementTable` or the default
+  @Prop({
+    type: [
+      { _id: false, upTo: Number, increment: { type: Number, required: true } },
+    ],
+    default: undefined,
+  })
+  bidIncrements?: IBidIncrementTier[];
+
+  @Prop()
+  incrementTable?: string;
+
   @Prop({ type: Types.ObjectId, ref: 'User' })
   winnerId: Types.ObjectId;
 
+  // Organization the leading (and finally winning) bid was placed for
+  @Prop({ type: Types.ObjectId, ref: 'Organization' })
+  winnerOrganizationId?: Types.ObjectId;
+
+  // The user who listed the car; only they or an admin may manage it
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  sellerId: Types.ObjectId;
+
   @Prop({ 
     required: true, 
+    type: String,
     enum: AuctionStatus, 
     default: AuctionStatus.PENDING 
   })
   status: AuctionStatus;
 
+  // Set when the auction closes
+  @Prop({ type: String, enum: AuctionOutcome })
+  outcome?: AuctionOutcome;
+
   @Prop({ default: 0 })
   bidCount: number;
 
+  // Users with the auction on their watchlist
+  @Prop({ default: 0 })
+  watcherCount: number;
+
+  // Soft-close overrides; fall back to the softClose config when unset
+  @Prop()
+  softCloseWindowSeconds?: number;
+
+  @Prop()
+  softCloseExtensionSeconds?: number;
+
+  @Prop()
+  maxExtensions?: number;
+
+  @Prop({ default: 0 })
+  extensionCount: number;
+
   @Prop({ default: Date.now })
   createdAt: Date;
 
@@ -52,4 +139,6 @@ export const AuctionSchema = SchemaFactory.createForClass(Auction);
 // Create indexes for performance
 AuctionSchema.index({ status: 1, startTime: 1 });
 AuctionSchema.index({ endTime: 1 });
+AuctionSchema.index({ sellerId: 1, createdAt: -1 });
+AuctionSchema.index({ winnerOrganizationId: 1, status: 1, endTime: -1 });
 AuctionSchema.index({ currentHighestBid: -1 });
\ No newline at end of file
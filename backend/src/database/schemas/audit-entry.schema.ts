@@ -0,0 +1,51 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type AuditEntryDocument = AuditEntry & Document;
+
+// One link of the audit hash chain. The hash covers the fields below and
+// the previous entry's hash, so editing, removing or reordering entries
+// breaks every link after the change. Ids are kept as logged, since the
+// users and auctions they point at may since have been deleted. Empty
+// objects are kept, so details read back exactly as they were hashed.
+@Schema({ timestamps: true, minimize: false })
+export class AuditEntry {
+  // Position in the chain, starting at 1; unique so two writers cannot
+  // both append after the same entry
+  @Prop({ required: true })
+  sequence: number;
+
+  @Prop({ required: true })
+  action: string;
+
+  // Whoever performed the action, when known
+  @Prop()
+  userId?: string;
+
+  @Prop()
+  auctionId?: string;
+
+  @Prop()
+  success?: boolean;
+
+  @Prop({ type: Object, default: {} })
+  details: Record<string, any>;
+
+  // When the action happened, as reported by the publisher
+  @Prop({ required: true })
+  occurredAt: Date;
+
+  @Prop({ required: true })
+  previousHash: string;
+
+  @Prop({ required: true })
+  hash: string;
+}
+
+export const AuditEntrySchema = SchemaFactory.createForClass(AuditEntry);
+
+AuditEntrySchema.index({ sequence: 1 }, { unique: true });
+AuditEntrySchema.index({ auctionId: 1, occurredAt: -1 });
+AuditEntrySchema.index({ userId: 1, occurredAt: -1 });
+AuditEntrySchema.index({ action: 1, occurredAt: -1 });
+AuditEntrySchema.index({ occurredAt: -1 });
@@ -0,0 +1,52 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { BidRequestStatus } from '../../common/enums/auction.enum';
+
+export type BidRequestDocument = BidRequest & Document;
+
+// One submitted bid, tracked from the client's emit or POST to its final
+// ACCEPTED / REJECTED result
+@Schema({ timestamps: true })
+export class BidRequest {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Auction', required: true })
+  auctionId: Types.ObjectId;
+
+  @Prop({ required: true })
+  bidAmount: number;
+
+  @Prop({ type: Types.ObjectId, ref: 'Organization' })
+  organizationId?: Types.ObjectId;
+
+  // Client-supplied; resubmitting the same key returns the same request
+  @Prop({ required: true })
+  idempotencyKey: string;
+
+  @Prop({
+    required: true,
+    type: String,
+    enum: BidRequestStatus,
+    default: BidRequestStatus.PENDING,
+  })
+  status: BidRequestStatus;
+
+  @Prop({ type: Types.ObjectId, ref: 'Bid' })
+  bidId?: Types.ObjectId;
+
+  // Why the bid was rejected
+  @Prop()
+  reason?: string;
+
+  // Socket that submitted the bid, so the result goes back to it
+  @Prop()
+  socketId?: string;
+
+  @Prop()
+  processedAt?: Date;
+}
+
+export const BidRequestSchema = SchemaFactory.createForClass(BidRequest);
+
+BidRequestSchema.index({ userId: 1, idempotencyKey: 1 }, { unique: true });
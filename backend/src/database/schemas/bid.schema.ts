@@ -12,6 +12,10 @@ export class Bid {
   @Prop({ type: Types.ObjectId, ref: 'Auction', required: true })
   auctionId: Types.ObjectId;
 
+  // Organization the bidder was acting for, if any
+  @Prop({ type: Types.ObjectId, ref: 'Organization' })
+  organizationId?: Types.ObjectId;
+
   @Prop({ required: true })
   bidAmount: number;
 
@@ -21,8 +25,17 @@ export class Bid {
   @Prop({ default: false })
   isWinning: boolean;
 
+  // Placed automatically on behalf of a proxy (max) bid
+  @Prop({ default: false })
+  isProxy: boolean;
+
+  // Took the auction's buy-it-now price and closed it
+  @Prop({ default: false })
+  isBuyNow: boolean;
+
   @Prop({ 
     required: true, 
+    type: String,
     enum: BidStatus, 
     default: BidStatus.PENDING 
   })
@@ -35,4 +48,5 @@ export const BidSchema = SchemaFactory.createForClass(Bid);
 BidSchema.index({ auctionId: 1, timestamp: -1 });
 BidSchema.index({ auctionId: 1, bidAmount: -1 });
 BidSchema.index({ userId: 1, timestamp: -1 });
+BidSchema.index({ organizationId: 1, status: 1, timestamp: -1 });
 BidSchema.index({ isWinning: 1, auctionId: 1 });
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type CreditAccountDocument = CreditAccount & Document;
+
+// Credit approved for a bidder by an admin. Bidders without an account fall
+// back to CREDIT_DEFAULT_LIMIT.
+@Schema({ timestamps: true })
+export class CreditAccount {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, unique: true })
+  userId: Types.ObjectId;
+
+  // Absent means the default limit applies
+  @Prop()
+  creditLimit?: number;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  approvedBy?: Types.ObjectId;
+
+  @Prop()
+  approvedAt?: Date;
+}
+
+export const CreditAccountSchema = SchemaFactory.createForClass(CreditAccount);
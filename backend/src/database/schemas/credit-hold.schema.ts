@@ -0,0 +1,50 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { CreditHoldStatus } from '../../common/enums/auction.enum';
+
+export type CreditHoldDocument = CreditHold & Document;
+
+// Exposure ledger. A bidder's exposure is the sum of their ACTIVE holds:
+// one per open auction they lead, and one per standing sealed bid.
+@Schema({ timestamps: true })
+export class CreditHold {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Auction', required: true })
+  auctionId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Bid' })
+  bidId?: Types.ObjectId;
+
+  @Prop({ required: true })
+  amount: number;
+
+  @Prop({
+    required: true,
+    type: String,
+    enum: CreditHoldStatus,
+    default: CreditHoldStatus.ACTIVE,
+  })
+  status: CreditHoldStatus;
+
+  @Prop()
+  releasedAt?: Date;
+
+  // 'OUTBID', 'CLOSED', 'WON' or 'REPLACED'
+  @Prop()
+  releaseReason?: string;
+}
+
+export const CreditHoldSchema = SchemaFactory.createForClass(CreditHold);
+
+// At most one active hold per bidder per auction
+CreditHoldSchema.index(
+  { userId: 1, auctionId: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { status: CreditHoldStatus.ACTIVE },
+  },
+);
+CreditHoldSchema.index({ userId: 1, status: 1 });
+CreditHoldSchema.index({ auctionId: 1, status: 1 });
@@ -0,0 +1,80 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import {
+  NotificationChannel,
+  NotificationDeliveryStatus,
+  NotificationEvent,
+} from '../../common/enums/auction.enum';
+
+export type NotificationDeliveryDocument = NotificationDelivery & Document;
+
+@Schema({ _id: false })
+export class DeliveryAttempt {
+  @Prop({ required: true })
+  attemptedAt: Date;
+
+  @Prop({ required: true })
+  success: boolean;
+
+  @Prop()
+  error?: string;
+}
+
+export const DeliveryAttemptSchema =
+  SchemaFactory.createForClass(DeliveryAttempt);
+
+// One notification on one channel, with every attempt made to deliver it.
+// The content is copied in so a held delivery can go out later.
+@Schema({ timestamps: true })
+export class NotificationDelivery {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true, type: String, enum: NotificationChannel })
+  channel: NotificationChannel;
+
+  // Published notification type, e.g. OUTBID_NOTIFICATION
+  @Prop({ required: true })
+  type: string;
+
+  @Prop({ type: String, enum: NotificationEvent })
+  event?: NotificationEvent;
+
+  @Prop({ required: true })
+  message: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Auction' })
+  auctionId?: Types.ObjectId;
+
+  @Prop({ type: Object })
+  data?: Record<string, any>;
+
+  @Prop({
+    required: true,
+    type: String,
+    enum: NotificationDeliveryStatus,
+    default: NotificationDeliveryStatus.QUEUED,
+  })
+  status: NotificationDeliveryStatus;
+
+  // When a QUEUED delivery is next due; a dispatcher that claims it pushes
+  // this out so a crashed instance's claim lapses
+  @Prop()
+  deliverAfter?: Date;
+
+  // Held for the user's digest rather than quiet hours or a retry
+  @Prop({ default: false })
+  digest: boolean;
+
+  @Prop({ type: [DeliveryAttemptSchema], default: [] })
+  attempts: DeliveryAttempt[];
+
+  @Prop()
+  deliveredAt?: Date;
+}
+
+export const NotificationDeliverySchema =
+  SchemaFactory.createForClass(NotificationDelivery);
+
+NotificationDeliverySchema.index({ status: 1, deliverAfter: 1 });
+NotificationDeliverySchema.index({ userId: 1, createdAt: -1 });
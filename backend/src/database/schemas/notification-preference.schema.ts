@@ -0,0 +1,53 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import {
+  DigestFrequency,
+  NotificationChannel,
+  NotificationEvent,
+} from '../../common/enums/auction.enum';
+
+export type NotificationPreferenceDocument = NotificationPreference & Document;
+
+@Schema({ _id: false })
+export class QuietHours {
+  // Local times as HH:mm; a window may run past midnight
+  @Prop({ required: true })
+  start: string;
+
+  @Prop({ required: true })
+  end: string;
+}
+
+export const QuietHoursSchema = SchemaFactory.createForClass(QuietHours);
+
+// How one user wants to be reached. Events missing from `channels` use the
+// defaults, so users without a document get the standard behaviour.
+@Schema({ timestamps: true })
+export class NotificationPreference {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, unique: true })
+  userId: Types.ObjectId;
+
+  @Prop({ type: Object, default: {} })
+  channels: Partial<Record<NotificationEvent, NotificationChannel[]>>;
+
+  // IANA zone that quiet hours and the daily digest are read in
+  @Prop({ default: 'UTC' })
+  timezone: string;
+
+  @Prop({ type: QuietHoursSchema })
+  quietHours?: QuietHours;
+
+  @Prop({ type: String, enum: DigestFrequency, default: DigestFrequency.NONE })
+  digest: DigestFrequency;
+
+  // Local time the daily digest goes out
+  @Prop({ default: '08:00' })
+  digestTime: string;
+
+  @Prop()
+  webhookUrl?: string;
+}
+
+export const NotificationPreferenceSchema = SchemaFactory.createForClass(
+  NotificationPreference,
+);
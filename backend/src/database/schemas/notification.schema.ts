@@ -0,0 +1,33 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type NotificationDocument = Notification & Document;
+
+// A user's inbox entry, written by the notification consumer. Read state
+// lives here so every device sees the same unread count.
+@Schema({ timestamps: true })
+export class Notification {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  // The published notification type, e.g. BID_SUCCESS or AUCTION_WON
+  @Prop({ required: true })
+  type: string;
+
+  @Prop({ required: true })
+  message: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Auction' })
+  auctionId?: Types.ObjectId;
+
+  @Prop({ type: Object })
+  data?: Record<string, any>;
+
+  @Prop()
+  readAt?: Date;
+}
+
+export const NotificationSchema = SchemaFactory.createForClass(Notification);
+
+NotificationSchema.index({ userId: 1, createdAt: -1 });
+NotificationSchema.index({ userId: 1, readAt: 1 });
@@ -0,0 +1,45 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import {
+  InvitationStatus,
+  OrganizationRole,
+} from '../../common/enums/auction.enum';
+
+export type OrganizationInvitationDocument = OrganizationInvitation & Document;
+
+// Addressed to an email; whoever verifies that address may accept it
+@Schema({ timestamps: true })
+export class OrganizationInvitation {
+  @Prop({ type: Types.ObjectId, ref: 'Organization', required: true })
+  organizationId: Types.ObjectId;
+
+  @Prop({ required: true, lowercase: true, trim: true })
+  email: string;
+
+  @Prop({ required: true, type: String, enum: OrganizationRole })
+  role: OrganizationRole;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  invitedBy: Types.ObjectId;
+
+  @Prop({
+    required: true,
+    type: String,
+    enum: InvitationStatus,
+    default: InvitationStatus.PENDING,
+  })
+  status: InvitationStatus;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @Prop()
+  respondedAt?: Date;
+}
+
+export const OrganizationInvitationSchema = SchemaFactory.createForClass(
+  OrganizationInvitation,
+);
+
+OrganizationInvitationSchema.index({ organizationId: 1, status: 1 });
+OrganizationInvitationSchema.index({ email: 1, status: 1 });
@@ -0,0 +1,42 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { OrganizationRole } from '../../common/enums/auction.enum';
+
+export type OrganizationDocument = Organization & Document;
+
+@Schema({ _id: false })
+export class OrganizationMember {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true, type: String, enum: OrganizationRole })
+  role: OrganizationRole;
+
+  @Prop({ default: Date.now })
+  joinedAt: Date;
+}
+
+export const OrganizationMemberSchema =
+  SchemaFactory.createForClass(OrganizationMember);
+
+// A dealership whose staff bid on one shared account
+@Schema({ timestamps: true })
+export class Organization {
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  @Prop({ type: [OrganizationMemberSchema], default: [] })
+  members: OrganizationMember[];
+
+  // Cap on the total the organization may have committed across active
+  // auctions at once; unset means unlimited
+  @Prop()
+  spendingLimit?: number;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  createdBy: Types.ObjectId;
+}
+
+export const OrganizationSchema = SchemaFactory.createForClass(Organization);
+
+OrganizationSchema.index({ 'members.userId': 1 });
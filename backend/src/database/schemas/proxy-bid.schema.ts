@@ -0,0 +1,45 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ProxyBidStatus } from '../../common/enums/auction.enum';
+
+export type ProxyBidDocument = ProxyBid & Document;
+
+@Schema({ timestamps: true })
+export class ProxyBid {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Auction', required: true })
+  auctionId: Types.ObjectId;
+
+  // Bids placed by the proxy are attributed to this organization
+  @Prop({ type: Types.ObjectId, ref: 'Organization' })
+  organizationId?: Types.ObjectId;
+
+  // Private ceiling; never included in room broadcasts
+  @Prop({ required: true })
+  maxAmount: number;
+
+  @Prop({
+    required: true,
+    type: String,
+    enum: ProxyBidStatus,
+    default: ProxyBidStatus.ACTIVE,
+  })
+  status: ProxyBidStatus;
+
+  // When the current ceiling was set; the earliest wins ties
+  @Prop({ default: Date.now })
+  registeredAt: Date;
+}
+
+export const ProxyBidSchema = SchemaFactory.createForClass(ProxyBid);
+
+// One proxy per bidder per auction, resolved in ceiling then registration order
+ProxyBidSchema.index({ auctionId: 1, userId: 1 }, { unique: true });
+ProxyBidSchema.index({
+  auctionId: 1,
+  status: 1,
+  maxAmount: -1,
+  registeredAt: 1,
+});
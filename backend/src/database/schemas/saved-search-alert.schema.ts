@@ -0,0 +1,23 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type SavedSearchAlertDocument = SavedSearchAlert & Document;
+
+// An auction a saved search has alerted about; the unique index keeps a
+// search from alerting twice, when the auction is created and started
+@Schema({ timestamps: true })
+export class SavedSearchAlert {
+  @Prop({ type: Types.ObjectId, ref: 'SavedSearch', required: true })
+  searchId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Auction', required: true })
+  auctionId: Types.ObjectId;
+}
+
+export const SavedSearchAlertSchema =
+  SchemaFactory.createForClass(SavedSearchAlert);
+
+SavedSearchAlertSchema.index({ searchId: 1, auctionId: 1 }, { unique: true });
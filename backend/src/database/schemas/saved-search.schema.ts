@@ -0,0 +1,47 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { AuctionStatus } from '../../common/enums/auction.enum';
+
+export type SavedSearchDocument = SavedSearch & Document;
+
+// A search a user saved to be alerted about new matching auctions
+@Schema({ timestamps: true })
+export class SavedSearch {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  text?: string;
+
+  // Normalized words of text; an auction matches when it contains them all
+  @Prop({ type: [String], default: [] })
+  terms: string[];
+
+  // The longest term ('' without text), indexed so a new auction only
+  // loads the searches that could match it
+  @Prop({ default: '' })
+  anchorTerm: string;
+
+  @Prop({ type: String, enum: AuctionStatus })
+  status?: AuctionStatus;
+
+  @Prop()
+  minPrice?: number;
+
+  @Prop()
+  maxPrice?: number;
+
+  @Prop({ default: true })
+  alertsEnabled: boolean;
+
+  @Prop()
+  lastAlertAt?: Date;
+}
+
+export const SavedSearchSchema = SchemaFactory.createForClass(SavedSearch);
+
+SavedSearchSchema.index({ alertsEnabled: 1, anchorTerm: 1 });
+SavedSearchSchema.index({ userId: 1, createdAt: -1 });
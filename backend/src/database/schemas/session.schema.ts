@@ -0,0 +1,51 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type SessionDocument = Session & Document;
+
+// One signed-in device. Access tokens carry the session id, and the
+// session's refresh token is rotated on every use.
+@Schema({ timestamps: true })
+export class Session {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  // SHA-256 of the current refresh token; the token itself is never stored
+  @Prop({ required: true })
+  tokenHash: string;
+
+  @Prop()
+  userAgent?: string;
+
+  @Prop()
+  ip?: string;
+
+  @Prop({ default: Date.now })
+  lastUsedAt: Date;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  // Last time a two-factor code was confirmed on this device; high-value
+  // bids require it to be recent
+  @Prop()
+  twoFactorVerifiedAt?: Date;
+
+  // Organization this device is acting for; carried in access tokens as `org`
+  @Prop({ type: Types.ObjectId, ref: 'Organization' })
+  activeOrganizationId?: Types.ObjectId;
+
+  @Prop()
+  revokedAt?: Date;
+
+  // 'logout', 'revoked', 'password-reset' or 'reuse' (a rotated refresh
+  // token came back)
+  @Prop()
+  revokedReason?: string;
+}
+
+export const SessionSchema = SchemaFactory.createForClass(Session);
+
+SessionSchema.index({ userId: 1, revokedAt: 1, expiresAt: 1 });
+// Expired sessions are removed by MongoDB
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
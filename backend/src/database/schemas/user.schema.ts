@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
+import { UserRole } from '../../common/enums/auction.enum';
 
 export type UserDocument = User & Document;
 
@@ -14,6 +15,36 @@ export class User {
   @Prop({ required: true })
   password: string;
 
+  @Prop({ type: [String], enum: UserRole, default: [UserRole.BIDDER] })
+  roles: UserRole[];
+
+  // Unverified users can browse but not bid
+  @Prop({ default: false })
+  emailVerified: boolean;
+
+  @Prop()
+  emailVerifiedAt?: Date;
+
+  // TOTP two-factor authentication. The secrets are never selected unless
+  // asked for explicitly.
+  @Prop({ default: false })
+  twoFactorEnabled: boolean;
+
+  @Prop({ select: false })
+  twoFactorSecret?: string;
+
+  // Secret awaiting its first code during enrollment
+  @Prop({ select: false })
+  twoFactorPendingSecret?: string;
+
+  // SHA-256 hashes of the unused one-time recovery codes
+  @Prop({ type: [String], select: false, default: undefined })
+  twoFactorRecoveryCodes?: string[];
+
+  // Last accepted time step, so a code cannot be replayed
+  @Prop({ select: false })
+  twoFactorLastStep?: number;
+
   @Prop({ default: Date.now })
   createdAt: Date;
 
@@ -0,0 +1,23 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type WatchDocument = Watch & Document;
+
+// An auction on a user's watchlist
+@Schema({ timestamps: true })
+export class Watch {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Auction', required: true })
+  auctionId: Types.ObjectId;
+
+  // Reminders already sent, as 'start:<minutes>' or 'end:<minutes>'
+  @Prop({ type: [String], default: [] })
+  remindersSent: string[];
+}
+
+export const WatchSchema = SchemaFactory.createForClass(Watch);
+
+WatchSchema.index({ userId: 1, auctionId: 1 }, { unique: true });
+WatchSchema.index({ auctionId: 1 });
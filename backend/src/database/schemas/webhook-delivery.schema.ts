@@ -0,0 +1,75 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import {
+  WebhookDeliveryStatus,
+  WebhookEvent,
+} from '../../common/enums/auction.enum';
+
+export type WebhookDeliveryDocument = WebhookDelivery & Document;
+
+@Schema({ _id: false })
+export class WebhookAttempt {
+  @Prop({ required: true })
+  attemptedAt: Date;
+
+  @Prop({ required: true })
+  success: boolean;
+
+  // Absent when no response came back
+  @Prop()
+  statusCode?: number;
+
+  @Prop()
+  error?: string;
+
+  @Prop()
+  durationMs?: number;
+}
+
+export const WebhookAttemptSchema =
+  SchemaFactory.createForClass(WebhookAttempt);
+
+// One event sent to one subscription, with every attempt made. The payload
+// is stored as sent so redeliveries carry the same body and event id.
+@Schema({ timestamps: true })
+export class WebhookDelivery {
+  @Prop({
+    type: Types.ObjectId,
+    ref: 'WebhookSubscription',
+    required: true,
+  })
+  subscriptionId: Types.ObjectId;
+
+  @Prop({ required: true, type: String, enum: WebhookEvent })
+  event: WebhookEvent;
+
+  // Shared by every subscription's delivery of the same event, so
+  // receivers can drop duplicates
+  @Prop({ required: true })
+  eventId: string;
+
+  @Prop({ type: Object, required: true })
+  payload: Record<string, any>;
+
+  @Prop({
+    required: true,
+    type: String,
+    enum: WebhookDeliveryStatus,
+    default: WebhookDeliveryStatus.QUEUED,
+  })
+  status: WebhookDeliveryStatus;
+
+  @Prop({ type: [WebhookAttemptSchema], default: [] })
+  attempts: WebhookAttempt[];
+
+  @Prop()
+  nextAttemptAt?: Date;
+
+  @Prop()
+  deliveredAt?: Date;
+}
+
+export const WebhookDeliverySchema =
+  SchemaFactory.createForClass(WebhookDelivery);
+
+WebhookDeliverySchema.index({ subscriptionId: 1, createdAt: -1 });
@@ -0,0 +1,41 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { WebhookEvent } from '../../common/enums/auction.enum';
+
+export type WebhookSubscriptionDocument = WebhookSubscription & Document;
+
+// An HTTP endpoint that receives signed auction and bid events for a user
+// or, when organizationId is set, for an organization
+@Schema({ timestamps: true })
+export class WebhookSubscription {
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  userId?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Organization' })
+  organizationId?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  createdBy: Types.ObjectId;
+
+  @Prop({ required: true })
+  url: string;
+
+  @Prop({ type: [String], enum: WebhookEvent, required: true })
+  events: WebhookEvent[];
+
+  // HMAC key for the signature header; only shown when created or rotated
+  @Prop({ required: true, select: false })
+  secret: string;
+
+  @Prop({ default: true })
+  active: boolean;
+
+  @Prop()
+  description?: string;
+}
+
+export const WebhookSubscriptionSchema =
+  SchemaFactory.createForClass(WebhookSubscription);
+
+WebhookSubscriptionSchema.index({ userId: 1, active: 1 });
+WebhookSubscriptionSchema.index({ organizationId: 1, active: 1 });
@@ -0,0 +1,32 @@
+import { Logger } from '@nestjs/common';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { MailMessage, MailTransport } from './mail-transport.interface';
+
+// Development and test transport: keeps every message in memory and, when
+// given a directory, also writes each one there as JSON
+export class LocalMailTransport implements MailTransport {
+  private readonly logger = new Logger(LocalMailTransport.name);
+  readonly sent: (MailMessage & { from: string; sentAt: Date })[] = [];
+
+  constructor(private readonly directory?: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    const entry = { ...message, sentAt: new Date() };
+    this.sent.push(entry);
+
+    if (this.directory) {
+      await mkdir(this.directory, { recursive: true });
+      const file = join(
+        this.directory,
+        `${entry.sentAt.getTime()}-${this.sent.length}.json`,
+      );
+      await writeFile(file, JSON.stringify(entry, null, 2));
+      this.logger.log(
+        `Wrote "${message.subject}" for ${message.to} to ${file}`,
+      );
+    } else {
+      this.logger.log(`Captured "${message.subject}" for ${message.to}`);
+    }
+  }
+}
@@ -0,0 +1,13 @@
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Delivers a finished message; MailService decides what to send
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT } from './mail-transport.interface';
+import { SmtpMailTransport, SmtpOptions } from './smtp-mail.transport';
+import { LocalMailTransport } from './local-mail.transport';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    MailService,
+    {
+      provide: MAIL_TRANSPORT,
+      useFactory: (configService: ConfigService) => {
+        switch (configService.get<string>('mail.transport')) {
+          case 'smtp':
+            return new SmtpMailTransport(
+              configService.get<SmtpOptions>('mail.smtp')!,
+            );
+          case 'memory':
+            return new LocalMailTransport();
+          default:
+            return new LocalMailTransport(
+              configService.get<string>('mail.directory'),
+            );
+        }
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [MailService, MAIL_TRANSPORT],
+})
+export class MailModule {}
@@ -0,0 +1,103 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT } from './mail-transport.interface';
+import type { MailMessage, MailTransport } from './mail-transport.interface';
+
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+
+  constructor(
+    @Inject(MAIL_TRANSPORT) private readonly transport: MailTransport,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async sendEmailVerification(to: string, username: string, token: string) {
+    const link = this.buildLink('/verify-email', token);
+    await this.send({
+      to,
+      subject: 'Verify your email address',
+      text: `Hi ${username},\n\nConfirm your email address to start bidding:\n${link}\n\nThe link expires in ${this.configService.get<string>('mail.verificationExpiresIn', '24h')}.`,
+    });
+  }
+
+  async sendPasswordReset(to: string, username: string, token: string) {
+    const link = this.buildLink('/reset-password', token);
+    await this.send({
+      to,
+      subject: 'Reset your password',
+      text: `Hi ${username},\n\nChoose a new password here:\n${link}\n\nThe link expires in ${this.configService.get<string>('mail.resetExpiresIn', '1h')} and works once. If you did not ask for this, ignore this email.`,
+    });
+  }
+
+  async sendOrganizationInvitation(
+    to: string,
+    organizationName: string,
+    inviterName: string,
+    role: string,
+  ) {
+    const frontendUrl = this.configService.get<string>(
+      'frontendUrl',
+      'http://localhost:3001',
+    );
+    await this.send({
+      to,
+      subject: `Join ${organizationName} on Royal Class Auctions`,
+      text: `${inviterName} invited you to join ${organizationName} as ${role.toLowerCase()}.\n\nSign in with this email address to accept:\n${frontendUrl}/organizations\n\nThe invitation expires in ${this.configService.get<number>('organizations.invitationExpiresInDays', 7)} days.`,
+    });
+  }
+
+  // Throws on failure, unlike the account mails, so the notification
+  // pipeline can record the attempt and retry it. Several notifications
+  // make up a digest.
+  async sendNotifications(
+    to: string,
+    username: string,
+    notifications: { message: string; auctionId?: string }[],
+  ) {
+    const frontendUrl = this.configService.get<string>(
+      'frontendUrl',
+      'http://localhost:3001',
+    );
+    const lines = notifications.map(({ message, auctionId }) =>
+      auctionId
+        ? `- ${message}\n  ${frontendUrl}/auction/${auctionId}`
+        : `- ${message}`,
+    );
+    await this.transport.send({
+      to,
+      subject:
+        notifications.length === 1
+          ? notifications[0].message
+          : `${notifications.length} updates from Royal Class Auctions`,
+      text: `Hi ${username},\n\n${lines.join('\n')}\n\nChoose how you are notified at ${frontendUrl}/notifications/preferences.`,
+      from: this.getSender(),
+    });
+  }
+
+  // Delivery is best effort; a mail outage must not fail the request
+  private async send(message: MailMessage): Promise<void> {
+    try {
+      await this.transport.send({ ...message, from: this.getSender() });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send "${message.subject}" to ${message.to}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private getSender(): string {
+    return this.configService.get<string>(
+      'mail.from',
+      'Royal Class Auctions <no-reply@localhost>',
+    );
+  }
+
+  private buildLink(path: string, token: string): string {
+    const frontendUrl = this.configService.get<string>(
+      'frontendUrl',
+      'http://localhost:3001',
+    );
+    return `${frontendUrl}${path}?token=${encodeURIComponent(token)}`;
+  }
+}
@@ -1,13 +1,18 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 import { AuctionSeederService } from './database/seeders/auction-seeder';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
   const configService = app.get(ConfigService);
 
+  // req.ip, which rate limits and login lockouts key on, only reads
+  // X-Forwarded-For from this many trusted proxies
+  app.set('trust proxy', configService.get<number>('trustProxy') || false);
+
   // Enable CORS for frontend integration
   app.enableCors({
     origin: ['http://localhost:3001', 'http://localhost:3000'],
@@ -0,0 +1,27 @@
+import { Injectable } from '@nestjs/common';
+import { MailService } from '../../mail/mail.service';
+import { NotificationChannel } from '../../common/enums/auction.enum';
+import type {
+  NotificationChannelAdapter,
+  NotificationContent,
+  NotificationRecipient,
+} from './notification-channel.interface';
+
+@Injectable()
+export class EmailChannel implements NotificationChannelAdapter {
+  readonly channel = NotificationChannel.EMAIL;
+  readonly interruptive = true;
+
+  constructor(private readonly mailService: MailService) {}
+
+  async deliver(
+    recipient: NotificationRecipient,
+    notifications: NotificationContent[],
+  ): Promise<void> {
+    await this.mailService.sendNotifications(
+      recipient.email,
+      recipient.username,
+      notifications,
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import { NotificationsService } from '../notifications.service';
+import { NotificationChannel } from '../../common/enums/auction.enum';
+import type {
+  NotificationChannelAdapter,
+  NotificationContent,
+  NotificationRecipient,
+} from './notification-channel.interface';
+
+// The user's inbox, pushed live to their open tabs
+@Injectable()
+export class InAppChannel implements NotificationChannelAdapter {
+  readonly channel = NotificationChannel.IN_APP;
+  readonly interruptive = false;
+
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  async deliver(
+    recipient: NotificationRecipient,
+    notifications: NotificationContent[],
+  ): Promise<void> {
+    for (const notification of notifications) {
+      await this.notificationsService.addToInbox(
+        recipient.userId,
+        notification,
+      );
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import {
+  NotificationChannel,
+  NotificationEvent,
+} from '../../common/enums/auction.enum';
+
+export const NOTIFICATION_CHANNELS = 'NOTIFICATION_CHANNELS';
+
+export interface NotificationRecipient {
+  userId: string;
+  username: string;
+  email: string;
+  webhookUrl?: string;
+}
+
+export interface NotificationContent {
+  type: string;
+  event?: NotificationEvent;
+  message: string;
+  auctionId?: string;
+  data?: Record<string, unknown>;
+}
+
+// One way of reaching a user. An adapter gets a single notification, or
+// several when a digest or quiet hours held them back, and throws when
+// delivery fails so the attempt is recorded and retried.
+export interface NotificationChannelAdapter {
+  readonly channel: NotificationChannel;
+  // Channels that interrupt the user honor quiet hours and digests
+  readonly interruptive: boolean;
+  deliver(
+    recipient: NotificationRecipient,
+    notifications: NotificationContent[],
+  ): Promise<void>;
+}
@@ -0,0 +1,58 @@
+import { ConfigService } from '@nestjs/config';
+import { WebhookChannel } from './webhook.channel';
+import * as webhookUrl from '../../webhooks/webhook-url';
+
+const recipient = (url: string) => ({
+  userId: 'user-1',
+  username: 'alice',
+  email: 'alice@example.com',
+  webhookUrl: url,
+});
+
+const notifications = [{ type: 'outbid', message: 'You were outbid' }];
+
+describe('WebhookChannel', () => {
+  let channel: WebhookChannel;
+  let fetchSpy: jest.SpyInstance<Promise<Response>, Parameters<typeof fetch>>;
+
+  beforeEach(() => {
+    channel = new WebhookChannel({
+      get: (_key: string, fallback?: unknown) => fallback,
+    } as unknown as ConfigService);
+    fetchSpy = jest
+      .spyOn(global, 'fetch')
+      .mockResolvedValue(new Response(null, { status: 200 }));
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('refuses a private address without making a request', async () => {
+    await expect(
+      channel.deliver(
+        recipient('https://169.254.169.254/latest/meta-data/'),
+        notifications,
+      ),
+    ).rejects.toThrow('is not a public address');
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('does not follow a redirect', async () => {
+    jest
+      .spyOn(webhookUrl, 'assertPublicWebhookUrl')
+      .mockResolvedValue(undefined);
+    fetchSpy.mockResolvedValue(
+      new Response(null, {
+        status: 302,
+        headers: { Location: 'http://127.0.0.1/' },
+      }),
+    );
+
+    await expect(
+      channel.deliver(recipient('https://hooks.example.com/in'), notifications),
+    ).rejects.toThrow('Webhook responded with 302');
+    expect(fetchSpy).toHaveBeenCalledWith(
+      'https://hooks.example.com/in',
+      expect.objectContaining({ redirect: 'manual' }),
+    );
+  });
+});
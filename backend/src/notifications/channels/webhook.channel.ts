@@ -0,0 +1,47 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { NotificationChannel } from '../../common/enums/auction.enum';
+import type {
+  NotificationChannelAdapter,
+  NotificationContent,
+  NotificationRecipient,
+} from './notification-channel.interface';
+import { assertPublicWebhookUrl } from '../../webhooks/webhook-url';
+
+// POSTs the notifications as JSON to the URL in the user's preferences
+@Injectable()
+export class WebhookChannel implements NotificationChannelAdapter {
+  readonly channel = NotificationChannel.WEBHOOK;
+  readonly interruptive = false;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async deliver(
+    recipient: NotificationRecipient,
+    notifications: NotificationContent[],
+  ): Promise<void> {
+    if (!recipient.webhookUrl) {
+      throw new Error('No webhook URL is set in the notification preferences');
+    }
+
+    // Checked again here: the host may resolve elsewhere since it was saved
+    await assertPublicWebhookUrl(recipient.webhookUrl);
+    const response = await fetch(recipient.webhookUrl, {
+      method: 'POST',
+      // A redirect would get around the address check
+      redirect: 'manual',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        userId: recipient.userId,
+        notifications,
+        sentAt: new Date().toISOString(),
+      }),
+      signal: AbortSignal.timeout(
+        this.configService.get<number>('notifications.webhookTimeoutMs', 5000),
+      ),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status}`);
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsEnum,
+  IsOptional,
+  IsTimeZone,
+  IsUrl,
+  Matches,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import {
+  DigestFrequency,
+  NotificationChannel,
+} from '../../common/enums/auction.enum';
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// An empty list turns the event off entirely
+export class NotificationChannelsDto {
+  @IsOptional()
+  @IsArray()
+  @IsEnum(NotificationChannel, { each: true })
+  OUTBID?: NotificationChannel[];
+
+  @IsOptional()
+  @IsArray()
+  @IsEnum(NotificationChannel, { each: true })
+  AUCTION_WON?: NotificationChannel[];
+
+  @IsOptional()
+  @IsArray()
+  @IsEnum(NotificationChannel, { each: true })
+  AUCTION_STARTING?: NotificationChannel[];
+
+  @IsOptional()
+  @IsArray()
+  @IsEnum(NotificationChannel, { each: true })
+  AUCTION_ENDING?: NotificationChannel[];
+
+  @IsOptional()
+  @IsArray()
+  @IsEnum(NotificationChannel, { each: true })
+  BID_FAILED?: NotificationChannel[];
+
+  @IsOptional()
+  @IsArray()
+  @IsEnum(NotificationChannel, { each: true })
+  SAVED_SEARCH?: NotificationChannel[];
+}
+
+export class QuietHoursDto {
+  @Matches(TIME_OF_DAY, { message: 'start must be a time as HH:mm' })
+  start: string;
+
+  @Matches(TIME_OF_DAY, { message: 'end must be a time as HH:mm' })
+  end: string;
+}
+
+export class UpdateNotificationPreferencesDto {
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NotificationChannelsDto)
+  channels?: NotificationChannelsDto;
+
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
+
+  // null turns quiet hours off
+  @ValidateIf(
+    (dto: UpdateNotificationPreferencesDto) =>
+      dto.quietHours !== undefined && dto.quietHours !== null,
+  )
+  @ValidateNested()
+  @Type(() => QuietHoursDto)
+  quietHours?: QuietHoursDto | null;
+
+  @IsOptional()
+  @IsEnum(DigestFrequency)
+  digest?: DigestFrequency;
+
+  @IsOptional()
+  @Matches(TIME_OF_DAY, { message: 'digestTime must be a time as HH:mm' })
+  digestTime?: string;
+
+  // null removes the URL
+  @ValidateIf(
+    (dto: UpdateNotificationPreferencesDto) =>
+      dto.webhookUrl !== undefined && dto.webhookUrl !== null,
+  )
+  // Public https endpoints only; the host is also resolved and checked
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  webhookUrl?: string | null;
+}
@@ -0,0 +1,242 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { NotificationDispatcherService } from './notification-dispatcher.service';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { NOTIFICATION_CHANNELS } from './channels/notification-channel.interface';
+import type { NotificationContent } from './channels/notification-channel.interface';
+import { NotificationDelivery } from '../database/schemas/notification-delivery.schema';
+import { NotificationPreference } from '../database/schemas/notification-preference.schema';
+import { User } from '../database/schemas/user.schema';
+import { RabbitmqService } from '../rabbitmq/rabbitmq-simple.service';
+import {
+  NotificationChannel,
+  NotificationDeliveryStatus,
+} from '../common/enums/auction.enum';
+
+// Awaitable stand-in for a mongoose query
+const query = <T>(value: T) => {
+  const chain = {
+    select: () => chain,
+    sort: () => chain,
+    limit: () => chain,
+    exec: () => Promise.resolve(value),
+  };
+  return chain;
+};
+
+// Equality, $lte and $in, which is all the dispatcher filters use
+const matches = (
+  record: Record<string, any>,
+  filter: Record<string, any>,
+): boolean =>
+  Object.entries(filter).every(([key, condition]: [string, unknown]) => {
+    if (condition && typeof condition === 'object' && '$lte' in condition) {
+      return (record[key] as Date) <= (condition.$lte as Date);
+    }
+    if (condition && typeof condition === 'object' && '$in' in condition) {
+      return (condition.$in as unknown[]).some(
+        (value) => String(value) === String(record[key]),
+      );
+    }
+    return String(record[key]) === String(condition);
+  });
+
+const applyUpdate = (
+  record: Record<string, any>,
+  update: Record<string, Record<string, unknown> | undefined>,
+) => {
+  Object.assign(record, update.$set);
+  Object.keys(update.$unset ?? {}).forEach((key) => delete record[key]);
+  for (const [key, value] of Object.entries(update.$push ?? {})) {
+    record[key] = [...(record[key] as unknown[]), value];
+  }
+};
+
+// A channel that records what it was asked to send
+const createChannel = (channel: NotificationChannel, interruptive: boolean) => {
+  const adapter = {
+    channel,
+    interruptive,
+    sent: [] as NotificationContent[][],
+    failNext: false,
+    deliver: (_recipient: unknown, notifications: NotificationContent[]) => {
+      if (adapter.failNext) {
+        adapter.failNext = false;
+        return Promise.reject(new Error('mailbox unavailable'));
+      }
+      adapter.sent.push(notifications);
+      return Promise.resolve();
+    },
+  };
+  return adapter;
+};
+
+async function createHarness(preference: Record<string, any>) {
+  const userId = new Types.ObjectId();
+  const deliveries: Record<string, any>[] = [];
+  const inApp = createChannel(NotificationChannel.IN_APP, false);
+  const email = createChannel(NotificationChannel.EMAIL, true);
+
+  const notificationDeliveryModel = {
+    create: (fields: Record<string, any>) => {
+      const record = { ...fields, _id: new Types.ObjectId(), attempts: [] };
+      deliveries.push(record);
+      return Promise.resolve(record);
+    },
+    find: (filter: Record<string, any>) =>
+      query(deliveries.filter((entry) => matches(entry, filter))),
+    updateOne: (filter: Record<string, any>, update: Record<string, any>) => {
+      const record = deliveries.find((entry) => matches(entry, filter));
+      if (record) {
+        applyUpdate(record, update);
+      }
+      return query({ modifiedCount: record ? 1 : 0 });
+    },
+    updateMany: (filter: Record<string, any>, update: Record<string, any>) => {
+      const records = deliveries.filter((entry) => matches(entry, filter));
+      records.forEach((record) => applyUpdate(record, update));
+      return query({ modifiedCount: records.length });
+    },
+  };
+
+  const module = await Test.createTestingModule({
+    providers: [
+      NotificationDispatcherService,
+      NotificationPreferencesService,
+      {
+        provide: getModelToken(NotificationDelivery.name),
+        useValue: notificationDeliveryModel,
+      },
+      {
+        provide: getModelToken(NotificationPreference.name),
+        useValue: { findOne: () => query({ userId, ...preference }) },
+      },
+      {
+        provide: getModelToken(User.name),
+        useValue: {
+          findById: () =>
+            query({ _id: userId, username: 'bidder', email: 'b@example.com' }),
+        },
+      },
+      { provide: NOTIFICATION_CHANNELS, useValue: [inApp, email] },
+      { provide: RabbitmqService, useValue: {} },
+      {
+        provide: ConfigService,
+        useValue: { get: (_key: string, fallback?: unknown) => fallback },
+      },
+    ],
+  }).compile();
+
+  return {
+    dispatcher: module.get(NotificationDispatcherService),
+    deliveries,
+    inApp,
+    email,
+    userId: String(userId),
+  };
+}
+
+describe('NotificationDispatcherService', () => {
+  it('routes each event to the chosen channels and retries failures', async () => {
+    const harness = await createHarness({
+      channels: {
+        OUTBID: [NotificationChannel.IN_APP, NotificationChannel.EMAIL],
+      },
+    });
+    const { dispatcher, userId } = harness;
+    const now = new Date('2026-03-02T12:00:00Z');
+    harness.email.failNext = true;
+
+    await dispatcher.dispatch(
+      { type: 'OUTBID_NOTIFICATION', userId, message: 'You have been outbid' },
+      now,
+    );
+    // Not a routable event, so the inbox only
+    await dispatcher.dispatch(
+      { type: 'BID_SUCCESS', userId, message: 'Your bid was placed' },
+      now,
+    );
+
+    expect(harness.inApp.sent).toHaveLength(2);
+    const emailDelivery = harness.deliveries.find(
+      (delivery) => delivery.channel === NotificationChannel.EMAIL,
+    )!;
+    expect(emailDelivery).toMatchObject({
+      status: NotificationDeliveryStatus.QUEUED,
+      deliverAfter: new Date('2026-03-02T12:01:00Z'),
+      attempts: [{ success: false, error: 'mailbox unavailable' }],
+    });
+
+    await dispatcher.flush(new Date('2026-03-02T12:01:00Z'));
+
+    expect(harness.email.sent).toEqual([
+      [expect.objectContaining({ message: 'You have been outbid' })],
+    ]);
+    expect(emailDelivery.status).toBe(NotificationDeliveryStatus.SENT);
+    expect(emailDelivery.attempts).toHaveLength(2);
+  });
+
+  it('leaves a delivery being sent inline to the instance sending it', async () => {
+    const harness = await createHarness({});
+    const { dispatcher, userId } = harness;
+    const now = new Date('2026-03-02T12:00:00Z');
+    let finish = () => {};
+    const deliver = jest.spyOn(harness.inApp, 'deliver');
+    const started = new Promise<void>((resolve) =>
+      deliver.mockImplementationOnce(() => {
+        resolve();
+        return new Promise<void>((resolveDelivery) => {
+          finish = resolveDelivery;
+        });
+      }),
+    );
+
+    const dispatching = dispatcher.dispatch(
+      { type: 'OUTBID_NOTIFICATION', userId, message: 'You have been outbid' },
+      now,
+    );
+    await started;
+    await dispatcher.flush(new Date('2026-03-02T12:01:00Z'));
+
+    expect(deliver).toHaveBeenCalledTimes(1);
+    finish();
+    await dispatching;
+    expect(harness.deliveries).toMatchObject([
+      { status: NotificationDeliveryStatus.SENT },
+    ]);
+  });
+
+  it('holds email through quiet hours and sends what built up at once', async () => {
+    const harness = await createHarness({
+      timezone: 'Europe/Berlin',
+      quietHours: { start: '22:00', end: '07:00' },
+    });
+    const { dispatcher, userId } = harness;
+    // 23:30 in Berlin
+    const night = new Date('2026-01-15T22:30:00Z');
+
+    for (const message of ['You won the Porsche', 'You won the Jaguar']) {
+      await dispatcher.dispatch(
+        { type: 'AUCTION_WON', userId, message },
+        night,
+      );
+    }
+
+    expect(harness.inApp.sent).toHaveLength(2);
+    expect(harness.email.sent).toHaveLength(0);
+
+    await dispatcher.flush(new Date('2026-01-16T05:59:00Z'));
+    expect(harness.email.sent).toHaveLength(0);
+
+    // 07:00 in Berlin
+    await dispatcher.flush(new Date('2026-01-16T06:00:00Z'));
+    expect(harness.email.sent).toEqual([
+      [
+        expect.objectContaining({ message: 'You won the Porsche' }),
+        expect.objectContaining({ message: 'You won the Jaguar' }),
+      ],
+    ]);
+  });
+});
@@ -0,0 +1,384 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { HydratedDocument, Model, Types } from 'mongoose';
+import { NotificationDelivery } from '../database/schemas/notification-delivery.schema';
+import { User } from '../database/schemas/user.schema';
+import { RabbitmqService } from '../rabbitmq/rabbitmq-simple.service';
+import {
+  NotificationPreferencesService,
+  NotificationPreferencesView,
+} from './notification-preferences.service';
+import { NOTIFICATION_CHANNELS } from './channels/notification-channel.interface';
+import type {
+  NotificationChannelAdapter,
+  NotificationContent,
+  NotificationRecipient,
+} from './channels/notification-channel.interface';
+import {
+  DigestFrequency,
+  NotificationChannel,
+  NotificationDeliveryStatus,
+} from '../common/enums/auction.enum';
+
+// Shape of the messages services publish to the notifications queue
+export interface PublishedNotification {
+  type: string;
+  userId?: string;
+  auctionId?: string;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+type Delivery = HydratedDocument<NotificationDelivery>;
+
+// How long a claimed delivery stays with the instance sending it
+const CLAIM_MS = 5 * 60 * 1000;
+
+// Consumes the notifications queue and routes each notification to the
+// channels its recipient chose. Every channel gets a delivery record.
+// Interruptive channels wait out quiet hours and collect into digests;
+// failed attempts are retried with backoff. Every instance runs the flush
+// loop; deliveries are claimed one at a time, so each goes out once.
+@Injectable()
+export class NotificationDispatcherService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(NotificationDispatcherService.name);
+  private readonly adapters = new Map<
+    NotificationChannel,
+    NotificationChannelAdapter
+  >();
+  private timer: NodeJS.Timeout | null = null;
+  private flushing = false;
+
+  constructor(
+    @InjectModel(NotificationDelivery.name)
+    private notificationDeliveryModel: Model<NotificationDelivery>,
+    @InjectModel(User.name) private userModel: Model<User>,
+    private readonly preferencesService: NotificationPreferencesService,
+    @Inject(NOTIFICATION_CHANNELS) adapters: NotificationChannelAdapter[],
+    private readonly rabbitmqService: RabbitmqService,
+    private readonly configService: ConfigService,
+  ) {
+    for (const adapter of adapters) {
+      this.adapters.set(adapter.channel, adapter);
+    }
+  }
+
+  async onModuleInit() {
+    await this.rabbitmqService.startNotificationConsumer(
+      (notification: PublishedNotification) => this.dispatch(notification),
+    );
+
+    const intervalMs = this.configService.get<number>(
+      'notifications.dispatchIntervalMs',
+      30000,
+    );
+    this.timer = setInterval(() => void this.flush(), intervalMs);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Every notification is addressed to one user; anything else has no
+  // channel to go to
+  async dispatch(
+    published: PublishedNotification,
+    now: Date = new Date(),
+  ): Promise<void> {
+    const { type, userId, auctionId, message, data } = published;
+    if (!userId || !Types.ObjectId.isValid(userId)) {
+      this.logger.debug(`Not delivering ${type} without a recipient`);
+      return;
+    }
+
+    const recipient = await this.findRecipient(userId);
+    if (!recipient) {
+      return;
+    }
+    const { preferences } = recipient;
+    const event = this.preferencesService.getEventForType(type);
+    const content: NotificationContent = {
+      type,
+      event,
+      message,
+      auctionId:
+        auctionId && Types.ObjectId.isValid(auctionId) ? auctionId : undefined,
+      data,
+    };
+
+    for (const channel of this.preferencesService.getChannels(
+      preferences,
+      event,
+    )) {
+      const adapter = this.adapters.get(channel);
+      if (!adapter) {
+        this.logger.warn(`No adapter for notification channel ${channel}`);
+        continue;
+      }
+
+      // One sent right away starts out claimed by this instance, so the
+      // flush loop leaves it alone unless this instance dies sending it
+      const hold = adapter.interruptive ? this.getHold(preferences, now) : null;
+      const delivery = await this.notificationDeliveryModel.create({
+        userId,
+        channel,
+        ...content,
+        status: NotificationDeliveryStatus.QUEUED,
+        deliverAfter: hold?.until ?? new Date(now.getTime() + CLAIM_MS),
+        digest: hold?.digest ?? false,
+      });
+      if (!hold) {
+        await this.attempt(adapter, recipient, [delivery], now);
+      }
+    }
+  }
+
+  // Sends every due delivery, batched per user and channel so a digest
+  // or the end of quiet hours makes one message
+  async flush(now: Date = new Date()): Promise<void> {
+    if (this.flushing) {
+      return;
+    }
+    this.flushing = true;
+
+    try {
+      const due = await this.notificationDeliveryModel
+        .find({
+          status: NotificationDeliveryStatus.QUEUED,
+          deliverAfter: { $lte: now },
+        })
+        .sort({ deliverAfter: 1 })
+        .limit(500)
+        .exec();
+
+      const batches = new Map<string, Delivery[]>();
+      for (const delivery of due) {
+        if (!(await this.claim(delivery, now))) {
+          continue;
+        }
+        const key = `${delivery.userId.toString()}:${delivery.channel}`;
+        batches.set(key, [...(batches.get(key) ?? []), delivery]);
+      }
+
+      for (const deliveries of batches.values()) {
+        await this.flushBatch(deliveries, now);
+      }
+    } catch (error) {
+      this.logger.error('Notification flush failed:', error);
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  async findForUser(userId: string, page: number = 1, limit: number = 20) {
+    page = Math.max(page, 1);
+    limit = Math.min(Math.max(limit, 1), 100);
+
+    const [deliveries, total] = await Promise.all([
+      this.notificationDeliveryModel
+        .find({ userId })
+        .sort({ createdAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.notificationDeliveryModel.countDocuments({ userId }),
+    ]);
+
+    return {
+      deliveries: deliveries.map((delivery) => ({
+        id: String(delivery._id),
+        channel: delivery.channel,
+        type: delivery.type,
+        event: delivery.event,
+        message: delivery.message,
+        auctionId: delivery.auctionId?.toString(),
+        status: delivery.status,
+        digest: delivery.digest,
+        deliverAfter: delivery.deliverAfter,
+        deliveredAt: delivery.deliveredAt,
+        attempts: delivery.attempts,
+        createdAt: delivery.get('createdAt') as Date,
+      })),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  // Digests wait for their next send time; otherwise quiet hours hold
+  // the delivery until they end
+  private getHold(
+    preferences: NotificationPreferencesView,
+    now: Date,
+  ): { until: Date; digest: boolean } | null {
+    if (preferences.digest !== DigestFrequency.NONE) {
+      return {
+        until: this.preferencesService.getNextDigestTime(preferences, now),
+        digest: true,
+      };
+    }
+    if (this.preferencesService.isQuietTime(preferences, now)) {
+      return {
+        until: this.preferencesService.getQuietHoursEnd(preferences, now),
+        digest: false,
+      };
+    }
+    return null;
+  }
+
+  // Pushing deliverAfter out is the claim; it only succeeds for the
+  // instance that still sees the value it read
+  private async claim(delivery: Delivery, now: Date): Promise<boolean> {
+    const result = await this.notificationDeliveryModel
+      .updateOne(
+        {
+          _id: delivery._id,
+          status: NotificationDeliveryStatus.QUEUED,
+          deliverAfter: delivery.deliverAfter,
+        },
+        { $set: { deliverAfter: new Date(now.getTime() + CLAIM_MS) } },
+      )
+      .exec();
+    return result.modifiedCount === 1;
+  }
+
+  private async flushBatch(deliveries: Delivery[], now: Date): Promise<void> {
+    const [{ userId, channel }] = deliveries;
+    const adapter = this.adapters.get(channel);
+    const recipient = await this.findRecipient(userId.toString());
+    if (!adapter || !recipient) {
+      await this.fail(deliveries, now, 'Recipient or channel no longer exists');
+      return;
+    }
+
+    // A digest that comes due inside quiet hours waits for them to end
+    if (
+      adapter.interruptive &&
+      this.preferencesService.isQuietTime(recipient.preferences, now)
+    ) {
+      await this.notificationDeliveryModel
+        .updateMany(
+          { _id: { $in: deliveries.map((delivery) => delivery._id) } },
+          {
+            $set: {
+              deliverAfter: this.preferencesService.getQuietHoursEnd(
+                recipient.preferences,
+                now,
+              ),
+            },
+          },
+        )
+        .exec();
+      return;
+    }
+
+    await this.attempt(adapter, recipient, deliveries, now);
+  }
+
+  private async attempt(
+    adapter: NotificationChannelAdapter,
+    recipient: NotificationRecipient,
+    deliveries: Delivery[],
+    now: Date,
+  ): Promise<void> {
+    try {
+      await adapter.deliver(
+        recipient,
+        deliveries.map((delivery) => ({
+          type: delivery.type,
+          event: delivery.event,
+          message: delivery.message,
+          auctionId: delivery.auctionId?.toString(),
+          data: delivery.data,
+        })),
+      );
+    } catch (error) {
+      await this.fail(deliveries, now, (error as Error).message);
+      return;
+    }
+
+    await this.notificationDeliveryModel
+      .updateMany(
+        { _id: { $in: deliveries.map((delivery) => delivery._id) } },
+        {
+          $set: { status: NotificationDeliveryStatus.SENT, deliveredAt: now },
+          $unset: { deliverAfter: 1 },
+          $push: { attempts: { attemptedAt: now, success: true } },
+        },
+      )
+      .exec();
+  }
+
+  // Retries after 1, 2, 4... minutes until the attempts run out
+  private async fail(
+    deliveries: Delivery[],
+    now: Date,
+    error: string,
+  ): Promise<void> {
+    this.logger.warn(
+      `Delivery of ${deliveries.length} notification(s) over ${deliveries[0].channel} failed: ${error}`,
+    );
+    const maxAttempts = this.configService.get<number>(
+      'notifications.maxAttempts',
+      5,
+    );
+
+    for (const delivery of deliveries) {
+      const attempts = delivery.attempts.length + 1;
+      await this.notificationDeliveryModel
+        .updateOne(
+          { _id: delivery._id },
+          {
+            $push: { attempts: { attemptedAt: now, success: false, error } },
+            ...(attempts >= maxAttempts
+              ? {
+                  $set: { status: NotificationDeliveryStatus.FAILED },
+                  $unset: { deliverAfter: 1 },
+                }
+              : {
+                  $set: {
+                    deliverAfter: new Date(
+                      now.getTime() + 2 ** (attempts - 1) * 60_000,
+                    ),
+                  },
+                }),
+          },
+        )
+        .exec();
+    }
+  }
+
+  private async findRecipient(
+    userId: string,
+  ): Promise<
+    | (NotificationRecipient & { preferences: NotificationPreferencesView })
+    | null
+  > {
+    const [user, preferences] = await Promise.all([
+      this.userModel.findById(userId).select('username email').exec(),
+      this.preferencesService.findForUser(userId),
+    ]);
+    if (!user) {
+      return null;
+    }
+    return {
+      userId,
+      username: user.username,
+      email: user.email,
+      webhookUrl: preferences.webhookUrl,
+      preferences,
+    };
+  }
+}
@@ -0,0 +1,202 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  NotificationPreference,
+  NotificationPreferenceDocument,
+  QuietHours,
+} from '../database/schemas/notification-preference.schema';
+import { UpdateNotificationPreferencesDto } from './dto/update-notification-preferences.dto';
+import {
+  DigestFrequency,
+  NotificationChannel,
+  NotificationEvent,
+} from '../common/enums/auction.enum';
+import { assertPublicWebhookUrl } from '../webhooks/webhook-url';
+
+export const DEFAULT_CHANNELS: Record<
+  NotificationEvent,
+  NotificationChannel[]
+> = {
+  [NotificationEvent.OUTBID]: [NotificationChannel.IN_APP],
+  [NotificationEvent.AUCTION_WON]: [
+    NotificationChannel.IN_APP,
+    NotificationChannel.EMAIL,
+  ],
+  [NotificationEvent.AUCTION_STARTING]: [NotificationChannel.IN_APP],
+  [NotificationEvent.AUCTION_ENDING]: [NotificationChannel.IN_APP],
+  [NotificationEvent.BID_FAILED]: [NotificationChannel.IN_APP],
+  [NotificationEvent.SAVED_SEARCH]: [NotificationChannel.IN_APP],
+};
+
+// Published notification types users can route. Anything else, such as
+// BID_SUCCESS, only goes to the inbox.
+const EVENT_BY_TYPE: Record<string, NotificationEvent> = {
+  OUTBID_NOTIFICATION: NotificationEvent.OUTBID,
+  PROXY_BID_EXHAUSTED: NotificationEvent.OUTBID,
+  PROXY_BID_CANCELLED: NotificationEvent.BID_FAILED,
+  AUCTION_WON: NotificationEvent.AUCTION_WON,
+  AUCTION_STARTING_SOON: NotificationEvent.AUCTION_STARTING,
+  AUCTION_ENDING_SOON: NotificationEvent.AUCTION_ENDING,
+  BID_FAILED: NotificationEvent.BID_FAILED,
+  SAVED_SEARCH_MATCH: NotificationEvent.SAVED_SEARCH,
+};
+
+export interface NotificationPreferencesView {
+  channels: Record<NotificationEvent, NotificationChannel[]>;
+  timezone: string;
+  quietHours?: QuietHours;
+  digest: DigestFrequency;
+  digestTime: string;
+  webhookUrl?: string;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+@Injectable()
+export class NotificationPreferencesService {
+  constructor(
+    @InjectModel(NotificationPreference.name)
+    private notificationPreferenceModel: Model<NotificationPreference>,
+  ) {}
+
+  async findForUser(userId: string): Promise<NotificationPreferencesView> {
+    const preference = await this.notificationPreferenceModel
+      .findOne({ userId })
+      .exec();
+    return this.toPreferencesView(preference);
+  }
+
+  // Events left out of `channels` keep their current routing; null clears
+  // quiet hours or the webhook URL
+  async update(
+    userId: string,
+    updateDto: UpdateNotificationPreferencesDto,
+  ): Promise<NotificationPreferencesView> {
+    const { channels, quietHours, webhookUrl, ...settings } = updateDto;
+    const $set: Record<string, unknown> = { ...settings };
+    const $unset: Record<string, 1> = {};
+
+    const channelEntries = Object.entries(channels ?? {}) as [
+      string,
+      NotificationChannel[] | null | undefined,
+    ][];
+    for (const [event, eventChannels] of channelEntries) {
+      if (eventChannels) {
+        $set[`channels.${event}`] = [...new Set(eventChannels)];
+      }
+    }
+    if (quietHours === null) {
+      $unset.quietHours = 1;
+    } else if (quietHours) {
+      $set.quietHours = quietHours;
+    }
+    if (webhookUrl === null) {
+      $unset.webhookUrl = 1;
+    } else if (webhookUrl) {
+      try {
+        await assertPublicWebhookUrl(webhookUrl);
+      } catch (error) {
+        throw new BadRequestException((error as Error).message);
+      }
+      $set.webhookUrl = webhookUrl;
+    }
+
+    const preference = await this.notificationPreferenceModel
+      .findOneAndUpdate(
+        { userId },
+        {
+          $set,
+          ...(Object.keys($unset).length > 0 && { $unset }),
+        },
+        { new: true, upsert: true, runValidators: true },
+      )
+      .exec();
+    return this.toPreferencesView(preference);
+  }
+
+  getEventForType(type: string): NotificationEvent | undefined {
+    return EVENT_BY_TYPE[type];
+  }
+
+  getChannels(
+    preferences: NotificationPreferencesView,
+    event?: NotificationEvent,
+  ): NotificationChannel[] {
+    return event ? preferences.channels[event] : [NotificationChannel.IN_APP];
+  }
+
+  isQuietTime(preferences: NotificationPreferencesView, at: Date): boolean {
+    const { quietHours, timezone } = preferences;
+    if (!quietHours || quietHours.start === quietHours.end) {
+      return false;
+    }
+    const now = this.getLocalMinutes(at, timezone);
+    const start = this.parseTime(quietHours.start);
+    const end = this.parseTime(quietHours.end);
+    return start < end ? now >= start && now < end : now >= start || now < end;
+  }
+
+  getQuietHoursEnd(preferences: NotificationPreferencesView, at: Date): Date {
+    return this.getNextLocalTime(
+      at,
+      preferences.timezone,
+      this.parseTime(preferences.quietHours!.end),
+    );
+  }
+
+  // Start of the next local hour, or the next digestTime for daily digests
+  getNextDigestTime(preferences: NotificationPreferencesView, at: Date): Date {
+    const { timezone, digestTime } = preferences;
+    if (preferences.digest === DigestFrequency.HOURLY) {
+      const minutes = this.getLocalMinutes(at, timezone);
+      return this.getNextLocalTime(
+        at,
+        timezone,
+        (minutes - (minutes % 60) + 60) % MINUTES_PER_DAY,
+      );
+    }
+    return this.getNextLocalTime(at, timezone, this.parseTime(digestTime));
+  }
+
+  // The first moment after `at` when the local clock reads `minutes`
+  private getNextLocalTime(at: Date, timezone: string, minutes: number): Date {
+    const wait =
+      (minutes - this.getLocalMinutes(at, timezone) + MINUTES_PER_DAY) %
+        MINUTES_PER_DAY || MINUTES_PER_DAY;
+    const minuteStart = Math.floor(at.getTime() / 60_000) * 60_000;
+    return new Date(minuteStart + wait * 60_000);
+  }
+
+  private getLocalMinutes(at: Date, timezone: string): number {
+    const parts = new Intl.DateTimeFormat('en-GB', {
+      timeZone: timezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(at);
+    const part = (type: string) =>
+      Number(parts.find((entry) => entry.type === type)?.value ?? 0);
+    return part('hour') * 60 + part('minute');
+  }
+
+  private parseTime(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  private toPreferencesView(
+    preference: NotificationPreferenceDocument | null,
+  ): NotificationPreferencesView {
+    return {
+      channels: { ...DEFAULT_CHANNELS, ...preference?.channels },
+      timezone: preference?.timezone ?? 'UTC',
+      quietHours: preference?.quietHours
+        ? { start: preference.quietHours.start, end: preference.quietHours.end }
+        : undefined,
+      digest: preference?.digest ?? DigestFrequency.NONE,
+      digestTime: preference?.digestTime ?? '08:00',
+      webhookUrl: preference?.webhookUrl,
+    };
+  }
+}
@@ -0,0 +1,93 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Patch,
+  Put,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { NotificationsService } from './notifications.service';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { NotificationDispatcherService } from './notification-dispatcher.service';
+import { UpdateNotificationPreferencesDto } from './dto/update-notification-preferences.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import type { IAuthenticatedRequest } from '../common/interfaces/auction.interface';
+
+// A user only ever sees and updates their own inbox
+@Controller('notifications')
+@UseGuards(ThrottlerGuard, JwtAuthGuard)
+export class NotificationsController {
+  constructor(
+    private readonly notificationsService: NotificationsService,
+    private readonly preferencesService: NotificationPreferencesService,
+    private readonly dispatcherService: NotificationDispatcherService,
+  ) {}
+
+  @Get()
+  findMine(
+    @Request() req: IAuthenticatedRequest,
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+    @Query('unread') unread?: boolean,
+  ) {
+    return this.notificationsService.findForUser(
+      req.user._id.toString(),
+      page,
+      limit,
+      unread,
+    );
+  }
+
+  @Get('unread-count')
+  async getUnreadCount(@Request() req: IAuthenticatedRequest) {
+    return {
+      unreadCount: await this.notificationsService.getUnreadCount(
+        req.user._id.toString(),
+      ),
+    };
+  }
+
+  @Patch('read-all')
+  markAllRead(@Request() req: IAuthenticatedRequest) {
+    return this.notificationsService.markAllRead(req.user._id.toString());
+  }
+
+  @Patch(':id/read')
+  markRead(@Request() req: IAuthenticatedRequest, @Param('id') id: string) {
+    return this.notificationsService.markRead(req.user._id.toString(), id);
+  }
+
+  @Get('preferences')
+  getPreferences(@Request() req: IAuthenticatedRequest) {
+    return this.preferencesService.findForUser(req.user._id.toString());
+  }
+
+  @Put('preferences')
+  updatePreferences(
+    @Request() req: IAuthenticatedRequest,
+    @Body() updatePreferencesDto: UpdateNotificationPreferencesDto,
+  ) {
+    return this.preferencesService.update(
+      req.user._id.toString(),
+      updatePreferencesDto,
+    );
+  }
+
+  // Every delivery attempt on every channel, newest first
+  @Get('deliveries')
+  findDeliveries(
+    @Request() req: IAuthenticatedRequest,
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+  ) {
+    return this.dispatcherService.findForUser(
+      req.user._id.toString(),
+      page,
+      limit,
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { NotificationsController } from './notifications.controller';
+import { NotificationsService } from './notifications.service';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { NotificationDispatcherService } from './notification-dispatcher.service';
+import { NOTIFICATION_CHANNELS } from './channels/notification-channel.interface';
+import type { NotificationChannelAdapter } from './channels/notification-channel.interface';
+import { InAppChannel } from './channels/in-app.channel';
+import { EmailChannel } from './channels/email.channel';
+import { WebhookChannel } from './channels/webhook.channel';
+import { MailModule } from '../mail/mail.module';
+import {
+  Notification,
+  NotificationSchema,
+} from '../database/schemas/notification.schema';
+import {
+  NotificationPreference,
+  NotificationPreferenceSchema,
+} from '../database/schemas/notification-preference.schema';
+import {
+  NotificationDelivery,
+  NotificationDeliverySchema,
+} from '../database/schemas/notification-delivery.schema';
+import { User, UserSchema } from '../database/schemas/user.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Notification.name, schema: NotificationSchema },
+      {
+        name: NotificationPreference.name,
+        schema: NotificationPreferenceSchema,
+      },
+      { name: NotificationDelivery.name, schema: NotificationDeliverySchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+    MailModule,
+  ],
+  controllers: [NotificationsController],
+  providers: [
+    NotificationsService,
+    NotificationPreferencesService,
+    NotificationDispatcherService,
+    InAppChannel,
+    EmailChannel,
+    WebhookChannel,
+    // Add a channel by implementing NotificationChannelAdapter and listing
+    // it here
+    {
+      provide: NOTIFICATION_CHANNELS,
+      useFactory: (...channels: NotificationChannelAdapter[]) => channels,
+      inject: [InAppChannel, EmailChannel, WebhookChannel],
+    },
+  ],
+  exports: [NotificationsService, NotificationPreferencesService],
+})
+export class NotificationsModule {}
@@ -0,0 +1,166 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { NotificationsService } from './notifications.service';
+import { Notification } from '../database/schemas/notification.schema';
+import { RedisService } from '../redis/redis.service';
+
+// Awaitable stand-in for a mongoose query
+const query = <T>(value: T) => {
+  const chain = {
+    exec: () => Promise.resolve(value),
+  };
+  return chain;
+};
+
+// Equality on ids and strings, with null matching an unset field
+const matches = (
+  record: Record<string, any>,
+  filter: Record<string, any>,
+): boolean =>
+  Object.entries(filter).every(([key, condition]) =>
+    condition === null
+      ? record[key] == null
+      : String(record[key]) === String(condition),
+  );
+
+async function createHarness() {
+  const notifications: Record<string, any>[] = [];
+  const published: Record<string, any>[] = [];
+  const asDocument = (record: Record<string, any>) => ({
+    ...record,
+    get: (path: string): unknown => record[path],
+  });
+
+  const notificationModel = {
+    create: (fields: Record<string, any>) => {
+      const record = {
+        ...fields,
+        _id: new Types.ObjectId(),
+        createdAt: new Date(),
+      };
+      notifications.push(record);
+      return Promise.resolve(asDocument(record));
+    },
+    findOne: (filter: Record<string, any>) => {
+      const record = notifications.find((entry) => matches(entry, filter));
+      return query(record ? asDocument(record) : null);
+    },
+    findOneAndUpdate: (
+      filter: Record<string, any>,
+      update: { $set?: Record<string, unknown> },
+    ) => {
+      const record = notifications.find((entry) => matches(entry, filter));
+      return query(
+        record ? asDocument(Object.assign(record, update.$set)) : null,
+      );
+    },
+    updateMany: (
+      filter: Record<string, any>,
+      update: { $set?: Record<string, unknown> },
+    ) => {
+      const records = notifications.filter((entry) => matches(entry, filter));
+      records.forEach((record) => Object.assign(record, update.$set));
+      return query({ modifiedCount: records.length });
+    },
+    countDocuments: (filter: Record<string, any>) =>
+      query(notifications.filter((entry) => matches(entry, filter)).length),
+  };
+
+  const module = await Test.createTestingModule({
+    providers: [
+      NotificationsService,
+      {
+        provide: getModelToken(Notification.name),
+        useValue: notificationModel,
+      },
+      {
+        provide: RedisService,
+        useValue: {
+          publishGlobalNotification: (notification: Record<string, any>) => {
+            published.push(notification);
+            return Promise.resolve();
+          },
+        },
+      },
+    ],
+  }).compile();
+
+  return {
+    notificationsService: module.get(NotificationsService),
+    notifications,
+    published,
+    userId: String(new Types.ObjectId()),
+    auctionId: String(new Types.ObjectId()),
+  };
+}
+
+describe('NotificationsService inbox', () => {
+  it('stores a notification and pushes it to the user', async () => {
+    const harness = await createHarness();
+    const { notificationsService, userId, auctionId } = harness;
+
+    await notificationsService.addToInbox(userId, {
+      type: 'BID_SUCCESS',
+      auctionId,
+      message: 'Your bid of $100 has been placed',
+      data: { bidAmount: 100 },
+    });
+
+    expect(harness.notifications).toHaveLength(1);
+    expect(harness.published).toMatchObject([
+      {
+        type: 'NOTIFICATION_CREATED',
+        userId,
+        notification: {
+          type: 'BID_SUCCESS',
+          auctionId,
+          data: { bidAmount: 100 },
+        },
+      },
+    ]);
+    expect(await notificationsService.getUnreadCount(userId)).toBe(1);
+  });
+
+  it('syncs read state to the user on each change', async () => {
+    const harness = await createHarness();
+    const { notificationsService, userId } = harness;
+    for (const message of ['first', 'second', 'third']) {
+      await notificationsService.addToInbox(userId, {
+        type: 'BID_SUCCESS',
+        message,
+      });
+    }
+    const [first] = harness.notifications;
+    harness.published.length = 0;
+
+    await notificationsService.markRead(userId, String(first._id));
+    // Read again from another tab: nothing left to sync
+    await notificationsService.markRead(userId, String(first._id));
+
+    expect(harness.published).toEqual([
+      expect.objectContaining({
+        type: 'NOTIFICATIONS_READ',
+        userId,
+        ids: [String(first._id)],
+        unreadCount: 2,
+      }),
+    ]);
+    await expect(
+      notificationsService.markRead(
+        String(new Types.ObjectId()),
+        String(first._id),
+      ),
+    ).rejects.toThrow(NotFoundException);
+
+    const result = await notificationsService.markAllRead(userId);
+
+    expect(result).toEqual({ updated: 2, unreadCount: 0 });
+    expect(harness.published.at(-1)).toMatchObject({
+      type: 'NOTIFICATIONS_READ',
+      all: true,
+      unreadCount: 0,
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { HydratedDocument, Model, Types } from 'mongoose';
+import { Notification } from '../database/schemas/notification.schema';
+import { RedisService } from '../redis/redis.service';
+import type { NotificationContent } from './channels/notification-channel.interface';
+
+// Per-user inboxes, filled by the in-app channel. New entries and
+// read-state changes go out as global notifications, so the gateway on
+// every instance can push them to each of the user's open tabs.
+@Injectable()
+export class NotificationsService {
+  constructor(
+    @InjectModel(Notification.name)
+    private notificationModel: Model<Notification>,
+    private readonly redisService: RedisService,
+  ) {}
+
+  async addToInbox(
+    userId: string,
+    { type, message, auctionId, data }: NotificationContent,
+  ): Promise<void> {
+    const notification = await this.notificationModel.create({
+      userId,
+      type,
+      message,
+      auctionId,
+      data,
+    });
+
+    await this.redisService.publishGlobalNotification({
+      type: 'NOTIFICATION_CREATED',
+      userId,
+      notification: this.toNotificationView(notification),
+    });
+  }
+
+  async findForUser(
+    userId: string,
+    page: number = 1,
+    limit: number = 20,
+    unreadOnly: boolean = false,
+  ) {
+    page = Math.max(page, 1);
+    limit = Math.min(Math.max(limit, 1), 100);
+    const filter = unreadOnly ? { userId, readAt: null } : { userId };
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      this.notificationModel
+        .find(filter)
+        .sort({ createdAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.notificationModel.countDocuments(filter),
+      this.getUnreadCount(userId),
+    ]);
+
+    return {
+      notifications: notifications.map((notification) =>
+        this.toNotificationView(notification),
+      ),
+      total,
+      unreadCount,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  getUnreadCount(userId: string): Promise<number> {
+    return this.notificationModel
+      .countDocuments({ userId, readAt: null })
+      .exec();
+  }
+
+  async markRead(userId: string, id: string) {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Notification not found');
+    }
+
+    const readAt = new Date();
+    const updated = await this.notificationModel
+      .findOneAndUpdate(
+        { _id: id, userId, readAt: null },
+        { $set: { readAt } },
+        { new: true },
+      )
+      .exec();
+
+    if (!updated) {
+      // Already read, possibly on another device
+      const notification = await this.notificationModel
+        .findOne({ _id: id, userId })
+        .exec();
+      if (!notification) {
+        throw new NotFoundException('Notification not found');
+      }
+      return this.toNotificationView(notification);
+    }
+
+    await this.publishReadState(userId, { ids: [id], readAt });
+    return this.toNotificationView(updated);
+  }
+
+  async markAllRead(userId: string) {
+    const readAt = new Date();
+    const result = await this.notificationModel
+      .updateMany({ userId, readAt: null }, { $set: { readAt } })
+      .exec();
+
+    if (result.modifiedCount > 0) {
+      await this.publishReadState(userId, { all: true, readAt });
+    }
+    return { updated: result.modifiedCount, unreadCount: 0 };
+  }
+
+  // The user's other tabs apply the change and take the fresh count
+  private async publishReadState(
+    userId: string,
+    change: { ids?: string[]; all?: boolean; readAt: Date },
+  ): Promise<void> {
+    await this.redisService.publishGlobalNotification({
+      type: 'NOTIFICATIONS_READ',
+      userId,
+      ...change,
+      unreadCount: await this.getUnreadCount(userId),
+    });
+  }
+
+  private toNotificationView(notification: HydratedDocument<Notification>) {
+    return {
+      id: String(notification._id),
+      type: notification.type,
+      message: notification.message,
+      auctionId: notification.auctionId?.toString(),
+      data: notification.data,
+      readAt: notification.readAt,
+      createdAt: notification.get('createdAt') as Date,
+    };
+  }
+}
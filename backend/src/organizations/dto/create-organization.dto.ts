@@ -0,0 +1,21 @@
+import {
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+
+export class CreateOrganizationDto {
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  name: string;
+
+  // Total the organization may have committed across active auctions
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  spendingLimit?: number;
+}
@@ -0,0 +1,10 @@
+import { IsEmail, IsEnum } from 'class-validator';
+import { OrganizationRole } from '../../common/enums/auction.enum';
+
+export class InviteMemberDto {
+  @IsEmail()
+  email: string;
+
+  @IsEnum(OrganizationRole)
+  role: OrganizationRole;
+}
@@ -0,0 +1,7 @@
+import { IsEnum } from 'class-validator';
+import { OrganizationRole } from '../../common/enums/auction.enum';
+
+export class UpdateMemberDto {
+  @IsEnum(OrganizationRole)
+  role: OrganizationRole;
+}
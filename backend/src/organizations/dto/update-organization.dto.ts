@@ -0,0 +1,26 @@
+import {
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  MinLength,
+  ValidateIf,
+} from 'class-validator';
+
+export class UpdateOrganizationDto {
+  @IsOptional()
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  name?: string;
+
+  // null removes the limit
+  @ValidateIf(
+    (dto: UpdateOrganizationDto) =>
+      dto.spendingLimit !== undefined && dto.spendingLimit !== null,
+  )
+  @IsNumber()
+  @Min(0)
+  spendingLimit?: number | null;
+}
@@ -0,0 +1,181 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Request,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { OrganizationsService } from './organizations.service';
+import { CreateOrganizationDto } from './dto/create-organization.dto';
+import { UpdateOrganizationDto } from './dto/update-organization.dto';
+import { InviteMemberDto } from './dto/invite-member.dto';
+import { UpdateMemberDto } from './dto/update-member.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import type { IAuthenticatedRequest } from '../common/interfaces/auction.interface';
+
+@Controller('organizations')
+@UseGuards(ThrottlerGuard, JwtAuthGuard)
+export class OrganizationsController {
+  constructor(private readonly organizationsService: OrganizationsService) {}
+
+  @Post()
+  create(
+    @Request() req: IAuthenticatedRequest,
+    @Body() createOrganizationDto: CreateOrganizationDto,
+  ) {
+    return this.organizationsService.create(
+      req.user._id.toString(),
+      createOrganizationDto,
+    );
+  }
+
+  // Organizations the caller belongs to, with their role in each
+  @Get()
+  findMine(@Request() req: IAuthenticatedRequest) {
+    return this.organizationsService.findForUser(req.user._id.toString());
+  }
+
+  @Get('invitations/mine')
+  findMyInvitations(@Request() req: IAuthenticatedRequest) {
+    return this.organizationsService.findInvitationsForUser(req.user.email);
+  }
+
+  @Post('invitations/:invitationId/accept')
+  @HttpCode(HttpStatus.OK)
+  acceptInvitation(
+    @Request() req: IAuthenticatedRequest,
+    @Param('invitationId') invitationId: string,
+  ) {
+    return this.organizationsService.acceptInvitation(invitationId, req.user);
+  }
+
+  @Post('invitations/:invitationId/decline')
+  @HttpCode(HttpStatus.OK)
+  declineInvitation(
+    @Request() req: IAuthenticatedRequest,
+    @Param('invitationId') invitationId: string,
+  ) {
+    return this.organizationsService.declineInvitation(invitationId, req.user);
+  }
+
+  @Get(':id')
+  findOne(@Request() req: IAuthenticatedRequest, @Param('id') id: string) {
+    return this.organizationsService.findOneForMember(
+      id,
+      req.user._id.toString(),
+    );
+  }
+
+  @Patch(':id')
+  update(
+    @Request() req: IAuthenticatedRequest,
+    @Param('id') id: string,
+    @Body() updateOrganizationDto: UpdateOrganizationDto,
+  ) {
+    return this.organizationsService.update(
+      id,
+      req.user._id.toString(),
+      updateOrganizationDto,
+    );
+  }
+
+  @Post(':id/invitations')
+  invite(
+    @Request() req: IAuthenticatedRequest,
+    @Param('id') id: string,
+    @Body() inviteMemberDto: InviteMemberDto,
+  ) {
+    return this.organizationsService.invite(
+      id,
+      req.user._id.toString(),
+      inviteMemberDto,
+    );
+  }
+
+  @Get(':id/invitations')
+  findInvitations(
+    @Request() req: IAuthenticatedRequest,
+    @Param('id') id: string,
+  ) {
+    return this.organizationsService.findInvitations(
+      id,
+      req.user._id.toString(),
+    );
+  }
+
+  @Delete(':id/invitations/:invitationId')
+  revokeInvitation(
+    @Request() req: IAuthenticatedRequest,
+    @Param('id') id: string,
+    @Param('invitationId') invitationId: string,
+  ) {
+    return this.organizationsService.revokeInvitation(
+      id,
+      invitationId,
+      req.user._id.toString(),
+    );
+  }
+
+  @Patch(':id/members/:userId')
+  updateMember(
+    @Request() req: IAuthenticatedRequest,
+    @Param('id') id: string,
+    @Param('userId') userId: string,
+    @Body() updateMemberDto: UpdateMemberDto,
+  ) {
+    return this.organizationsService.updateMemberRole(
+      id,
+      userId,
+      updateMemberDto.role,
+      req.user._id.toString(),
+    );
+  }
+
+  // Owners remove members; any member may remove themselves to leave
+  @Delete(':id/members/:userId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  removeMember(
+    @Request() req: IAuthenticatedRequest,
+    @Param('id') id: string,
+    @Param('userId') userId: string,
+  ) {
+    return this.organizationsService.removeMember(
+      id,
+      userId,
+      req.user._id.toString(),
+    );
+  }
+
+  // Bids placed by every member on the organization's behalf
+  @Get(':id/bids')
+  findBids(
+    @Request() req: IAuthenticatedRequest,
+    @Param('id') id: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.organizationsService.findBids(
+      id,
+      req.user._id.toString(),
+      limit ? parseInt(limit, 10) : 50,
+    );
+  }
+
+  @Get(':id/wins')
+  findWins(@Request() req: IAuthenticatedRequest, @Param('id') id: string) {
+    return this.organizationsService.findWins(id, req.user._id.toString());
+  }
+
+  // Spending limit, committed amount and what is left
+  @Get(':id/exposure')
+  getExposure(@Request() req: IAuthenticatedRequest, @Param('id') id: string) {
+    return this.organizationsService.getExposure(id, req.user._id.toString());
+  }
+}
@@ -0,0 +1,36 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { OrganizationsController } from './organizations.controller';
+import { OrganizationsService } from './organizations.service';
+import { MailModule } from '../mail/mail.module';
+import {
+  Organization,
+  OrganizationSchema,
+} from '../database/schemas/organization.schema';
+import {
+  OrganizationInvitation,
+  OrganizationInvitationSchema,
+} from '../database/schemas/organization-invitation.schema';
+import { Auction, AuctionSchema } from '../database/schemas/auction.schema';
+import { Bid, BidSchema } from '../database/schemas/bid.schema';
+import { User, UserSchema } from '../database/schemas/user.schema';
+
+@Module({
+  imports: [
+    MailModule,
+    MongooseModule.forFeature([
+      { name: Organization.name, schema: OrganizationSchema },
+      {
+        name: OrganizationInvitation.name,
+        schema: OrganizationInvitationSchema,
+      },
+      { name: Auction.name, schema: AuctionSchema },
+      { name: Bid.name, schema: BidSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+  ],
+  controllers: [OrganizationsController],
+  providers: [OrganizationsService],
+  exports: [OrganizationsService],
+})
+export class OrganizationsModule {}
@@ -0,0 +1,176 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { ForbiddenException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { OrganizationsService } from './organizations.service';
+import { MailService } from '../mail/mail.service';
+import { Organization } from '../database/schemas/organization.schema';
+import { OrganizationInvitation } from '../database/schemas/organization-invitation.schema';
+import { Auction } from '../database/schemas/auction.schema';
+import { Bid } from '../database/schemas/bid.schema';
+import { User } from '../database/schemas/user.schema';
+import {
+  AuctionStatus,
+  BidStatus,
+  OrganizationRole,
+} from '../common/enums/auction.enum';
+
+// Awaitable stand-in for a mongoose query
+const query = <T>(value: T) => {
+  const chain = {
+    select: () => chain,
+    exec: () => Promise.resolve(value),
+  };
+  return chain;
+};
+
+async function createHarness() {
+  const buyerId = String(new Types.ObjectId());
+  const viewerId = String(new Types.ObjectId());
+  const organization: Record<string, any> = {
+    _id: new Types.ObjectId(),
+    name: 'Dealer Co',
+    members: [
+      { userId: new Types.ObjectId(buyerId), role: OrganizationRole.BUYER },
+      { userId: new Types.ObjectId(viewerId), role: OrganizationRole.VIEWER },
+    ],
+  };
+  const auctions: Record<string, any>[] = [];
+  const bids: Record<string, any>[] = [];
+
+  const addAuction = (status: AuctionStatus) => {
+    const auction = { _id: new Types.ObjectId(), status };
+    auctions.push(auction);
+    return String(auction._id);
+  };
+  const addBid = (auctionId: string, bidAmount: number) =>
+    bids.push({
+      auctionId: new Types.ObjectId(auctionId),
+      organizationId: organization._id as Types.ObjectId,
+      bidAmount,
+      status: BidStatus.ACCEPTED,
+    });
+
+  const module = await Test.createTestingModule({
+    providers: [
+      OrganizationsService,
+      {
+        provide: getModelToken(Organization.name),
+        useValue: {
+          findById: (id: unknown) =>
+            query(
+              String(id) === String(organization._id) ? organization : null,
+            ),
+        },
+      },
+      { provide: getModelToken(OrganizationInvitation.name), useValue: {} },
+      {
+        provide: getModelToken(Auction.name),
+        useValue: {
+          find: (filter: Record<string, any>) =>
+            query(
+              auctions.filter(
+                (auction) =>
+                  auction.status === filter.status &&
+                  (filter._id as { $in: string[] }).$in.includes(
+                    String(auction._id),
+                  ),
+              ),
+            ),
+        },
+      },
+      {
+        provide: getModelToken(Bid.name),
+        useValue: { find: () => query(bids) },
+      },
+      { provide: getModelToken(User.name), useValue: {} },
+      { provide: MailService, useValue: {} },
+      {
+        provide: ConfigService,
+        useValue: { get: (_key: string, fallback?: unknown) => fallback },
+      },
+    ],
+  }).compile();
+
+  return {
+    organizationsService: module.get(OrganizationsService),
+    organizationId: String(organization._id),
+    organization,
+    buyerId,
+    viewerId,
+    addAuction,
+    addBid,
+  };
+}
+
+describe('OrganizationsService bidding rules', () => {
+  it('lets buyers bid for the organization but not viewers', async () => {
+    const harness = await createHarness();
+    const auctionId = harness.addAuction(AuctionStatus.ACTIVE);
+
+    await expect(
+      harness.organizationsService.assertCanBid(
+        harness.organizationId,
+        harness.buyerId,
+        auctionId,
+        5000,
+      ),
+    ).resolves.toBeUndefined();
+    await expect(
+      harness.organizationsService.assertCanBid(
+        harness.organizationId,
+        harness.viewerId,
+        auctionId,
+        5000,
+      ),
+    ).rejects.toThrow(ForbiddenException);
+    await expect(
+      harness.organizationsService.assertCanBid(
+        harness.organizationId,
+        String(new Types.ObjectId()),
+        auctionId,
+        5000,
+      ),
+    ).rejects.toThrow('You are not a member of this organization');
+  });
+
+  it('counts the best bid on each active auction against the spending limit', async () => {
+    const harness = await createHarness();
+    harness.organization.spendingLimit = 20000;
+
+    const open = harness.addAuction(AuctionStatus.ACTIVE);
+    harness.addBid(open, 6000);
+    harness.addBid(open, 8000);
+    const ended = harness.addAuction(AuctionStatus.ENDED);
+    harness.addBid(ended, 50000);
+    const target = harness.addAuction(AuctionStatus.ACTIVE);
+    harness.addBid(target, 4000);
+
+    expect(
+      await harness.organizationsService.getCommittedSpend(
+        harness.organizationId,
+      ),
+    ).toBe(12000);
+
+    // Raising the bid on the target replaces the organization's earlier bid there
+    await expect(
+      harness.organizationsService.assertCanBid(
+        harness.organizationId,
+        harness.buyerId,
+        target,
+        12000,
+      ),
+    ).resolves.toBeUndefined();
+    await expect(
+      harness.organizationsService.assertCanBid(
+        harness.organizationId,
+        harness.buyerId,
+        target,
+        12001,
+      ),
+    ).rejects.toThrow(
+      "Bid would exceed Dealer Co's spending limit of $20000 ($8000 already committed)",
+    );
+  });
+});
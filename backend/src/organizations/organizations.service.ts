@@ -0,0 +1,502 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { HydratedDocument, Model, Types } from 'mongoose';
+import {
+  Organization,
+  OrganizationDocument,
+} from '../database/schemas/organization.schema';
+import { OrganizationInvitation } from '../database/schemas/organization-invitation.schema';
+import { Auction } from '../database/schemas/auction.schema';
+import { Bid } from '../database/schemas/bid.schema';
+import { User } from '../database/schemas/user.schema';
+import { MailService } from '../mail/mail.service';
+import {
+  AuctionOutcome,
+  AuctionStatus,
+  BidStatus,
+  InvitationStatus,
+  OrganizationRole,
+} from '../common/enums/auction.enum';
+import { CreateOrganizationDto } from './dto/create-organization.dto';
+import { UpdateOrganizationDto } from './dto/update-organization.dto';
+import { InviteMemberDto } from './dto/invite-member.dto';
+
+export interface OrganizationMembership {
+  organization: OrganizationDocument;
+  role: OrganizationRole;
+}
+
+// Roles that may place bids for the organization
+const BIDDING_ROLES = [OrganizationRole.OWNER, OrganizationRole.BUYER];
+
+@Injectable()
+export class OrganizationsService {
+  private readonly logger = new Logger(OrganizationsService.name);
+
+  constructor(
+    @InjectModel(Organization.name)
+    private organizationModel: Model<OrganizationDocument>,
+    @InjectModel(OrganizationInvitation.name)
+    private invitationModel: Model<OrganizationInvitation>,
+    @InjectModel(Auction.name) private auctionModel: Model<Auction>,
+    @InjectModel(Bid.name) private bidModel: Model<Bid>,
+    @InjectModel(User.name) private userModel: Model<User>,
+    private readonly mailService: MailService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // The creator becomes the first owner
+  async create(userId: string, createOrganizationDto: CreateOrganizationDto) {
+    return this.organizationModel.create({
+      ...createOrganizationDto,
+      createdBy: userId,
+      members: [{ userId, role: OrganizationRole.OWNER, joinedAt: new Date() }],
+    });
+  }
+
+  async findForUser(userId: string) {
+    const organizations = await this.organizationModel
+      .find({ 'members.userId': userId })
+      .sort({ name: 1 })
+      .exec();
+
+    return organizations.map((organization) => ({
+      _id: organization._id,
+      name: organization.name,
+      spendingLimit: organization.spendingLimit,
+      role: this.getRole(organization, userId),
+      memberCount: organization.members.length,
+    }));
+  }
+
+  async findOneForMember(id: string, userId: string) {
+    const { organization, role } = await this.getMembership(id, userId);
+    await organization.populate('members.userId', 'username email');
+    return { ...organization.toObject<Organization>(), role };
+  }
+
+  async update(
+    id: string,
+    userId: string,
+    updateOrganizationDto: UpdateOrganizationDto,
+  ) {
+    await this.assertOwner(id, userId);
+
+    // null clears the spending limit
+    const { spendingLimit, ...changes } = updateOrganizationDto;
+    const organization = await this.organizationModel
+      .findByIdAndUpdate(
+        id,
+        {
+          $set: {
+            ...changes,
+            ...(spendingLimit != null && { spendingLimit }),
+          },
+          ...(spendingLimit === null && { $unset: { spendingLimit: 1 } }),
+        },
+        { new: true },
+      )
+      .exec();
+    return organization!;
+  }
+
+  // Returns the caller's membership, or refuses outsiders
+  async getMembership(
+    id: string,
+    userId: string,
+  ): Promise<OrganizationMembership> {
+    const organization = await this.findOrganization(id);
+    const role = this.getRole(organization, userId);
+    if (!role) {
+      throw new ForbiddenException('You are not a member of this organization');
+    }
+    return { organization, role };
+  }
+
+  // Same as getMembership but answers null instead of throwing
+  async findMembership(id: string, userId: string) {
+    if (!Types.ObjectId.isValid(id)) {
+      return null;
+    }
+    const organization = await this.organizationModel.findById(id).exec();
+    const role = organization && this.getRole(organization, userId);
+    return role ? { organization: organization, role } : null;
+  }
+
+  async invite(
+    id: string,
+    inviterId: string,
+    inviteMemberDto: InviteMemberDto,
+  ) {
+    const { organization } = await this.assertOwner(id, inviterId);
+    const email = inviteMemberDto.email.trim().toLowerCase();
+
+    const existingUser = await this.userModel
+      .findOne({ email })
+      .select('_id')
+      .exec();
+    if (existingUser && this.getRole(organization, String(existingUser._id))) {
+      throw new ConflictException('That user is already a member');
+    }
+
+    const pending = await this.invitationModel
+      .findOne({
+        organizationId: id,
+        email,
+        status: InvitationStatus.PENDING,
+        expiresAt: { $gt: new Date() },
+      })
+      .exec();
+    if (pending) {
+      throw new ConflictException(
+        'That email already has a pending invitation',
+      );
+    }
+
+    const days = this.configService.get<number>(
+      'organizations.invitationExpiresInDays',
+      7,
+    );
+    const invitation = await this.invitationModel.create({
+      organizationId: id,
+      email,
+      role: inviteMemberDto.role,
+      invitedBy: inviterId,
+      expiresAt: new Date(Date.now() + days * 24 * 60 * 60 * 1000),
+    });
+
+    const inviter = await this.userModel
+      .findById(inviterId)
+      .select('username')
+      .exec();
+    await this.mailService.sendOrganizationInvitation(
+      email,
+      organization.name,
+      inviter?.username ?? 'A colleague',
+      inviteMemberDto.role,
+    );
+
+    this.logger.log(
+      `Invited ${email} to organization ${id} as ${inviteMemberDto.role}`,
+    );
+    return invitation;
+  }
+
+  async findInvitations(id: string, userId: string) {
+    await this.assertOwner(id, userId);
+    return this.invitationModel
+      .find({ organizationId: id })
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  async revokeInvitation(id: string, invitationId: string, userId: string) {
+    await this.assertOwner(id, userId);
+    const invitation = await this.respondToInvitation(
+      { _id: invitationId, organizationId: id },
+      InvitationStatus.REVOKED,
+    );
+    if (!invitation) {
+      throw new NotFoundException('Pending invitation not found');
+    }
+    return invitation;
+  }
+
+  // Pending invitations addressed to the caller's email
+  async findInvitationsForUser(email: string) {
+    return this.invitationModel
+      .find({
+        email: email.toLowerCase(),
+        status: InvitationStatus.PENDING,
+        expiresAt: { $gt: new Date() },
+      })
+      .populate('organizationId', 'name')
+      .populate('invitedBy', 'username')
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  // Only a verified owner of the invited address may accept
+  async acceptInvitation(
+    invitationId: string,
+    user: { _id: unknown; email: string; emailVerified?: boolean },
+  ) {
+    if (!user.emailVerified) {
+      throw new ForbiddenException(
+        'Verify your email address before joining an organization',
+      );
+    }
+
+    const userId = String(user._id);
+    const invitation = await this.respondToInvitation(
+      { _id: invitationId, email: user.email.toLowerCase() },
+      InvitationStatus.ACCEPTED,
+    );
+    if (!invitation) {
+      throw new NotFoundException('Pending invitation not found');
+    }
+
+    // Conditional on not already being a member, so accepting twice is harmless
+    await this.organizationModel
+      .updateOne(
+        { _id: invitation.organizationId, 'members.userId': { $ne: userId } },
+        {
+          $push: {
+            members: { userId, role: invitation.role, joinedAt: new Date() },
+          },
+        },
+      )
+      .exec();
+
+    this.logger.log(
+      `User ${userId} joined organization ${invitation.organizationId.toString()}`,
+    );
+    return this.findOneForMember(invitation.organizationId.toString(), userId);
+  }
+
+  async declineInvitation(invitationId: string, user: { email: string }) {
+    const invitation = await this.respondToInvitation(
+      { _id: invitationId, email: user.email.toLowerCase() },
+      InvitationStatus.DECLINED,
+    );
+    if (!invitation) {
+      throw new NotFoundException('Pending invitation not found');
+    }
+    return invitation;
+  }
+
+  async updateMemberRole(
+    id: string,
+    memberId: string,
+    role: OrganizationRole,
+    actorId: string,
+  ) {
+    const { organization } = await this.assertOwner(id, actorId);
+    const currentRole = this.getRole(organization, memberId);
+    if (!currentRole) {
+      throw new NotFoundException('Member not found');
+    }
+
+    const result = await this.organizationModel
+      .updateOne(
+        {
+          _id: id,
+          'members.userId': memberId,
+          ...(currentRole === OrganizationRole.OWNER &&
+            role !== OrganizationRole.OWNER &&
+            this.anotherOwnerFilter(memberId)),
+        },
+        { $set: { 'members.$.role': role } },
+      )
+      .exec();
+    if (result.matchedCount === 0) {
+      throw new BadRequestException('An organization needs at least one owner');
+    }
+
+    return this.findOneForMember(id, actorId);
+  }
+
+  // Owners may remove anyone; everyone else may only leave
+  async removeMember(id: string, memberId: string, actorId: string) {
+    const { organization, role } = await this.getMembership(id, actorId);
+    if (memberId !== actorId && role !== OrganizationRole.OWNER) {
+      throw new ForbiddenException('Only owners can remove other members');
+    }
+
+    const memberRole = this.getRole(organization, memberId);
+    if (!memberRole) {
+      throw new NotFoundException('Member not found');
+    }
+
+    const result = await this.organizationModel
+      .updateOne(
+        {
+          _id: id,
+          ...(memberRole === OrganizationRole.OWNER &&
+            this.anotherOwnerFilter(memberId)),
+        },
+        { $pull: { members: { userId: memberId } } },
+      )
+      .exec();
+    if (result.matchedCount === 0) {
+      throw new BadRequestException('An organization needs at least one owner');
+    }
+  }
+
+  // Enforced by the bid pipeline for every bid placed for an organization,
+  // including each one placed by a maximum bid: the bidder must be an owner
+  // or buyer, and the bid must fit within the spending limit alongside the
+  // organization's other commitments. The pipeline holds the organization's
+  // lock from this check until the bid is recorded.
+  async assertCanBid(
+    id: string,
+    userId: string,
+    auctionId: string,
+    amount: number,
+  ): Promise<void> {
+    const membership = await this.findMembership(id, userId);
+    if (!membership) {
+      throw new ForbiddenException('You are not a member of this organization');
+    }
+    if (!BIDDING_ROLES.includes(membership.role)) {
+      throw new ForbiddenException('Viewers cannot bid for the organization');
+    }
+
+    const { spendingLimit, name } = membership.organization;
+    if (spendingLimit == null) {
+      return;
+    }
+
+    const committed = await this.getCommittedSpend(id, auctionId);
+    if (committed + amount > spendingLimit) {
+      throw new ForbiddenException(
+        `Bid would exceed ${name}'s spending limit of $${spendingLimit} ($${committed} already committed)`,
+      );
+    }
+  }
+
+  // What the organization stands to pay on active auctions: its best
+  // accepted bid on each one. On open auctions only the leading bid stays
+  // ACCEPTED; on sealed ones every bid does until the auction closes.
+  async getCommittedSpend(
+    id: string,
+    excludeAuctionId?: string,
+  ): Promise<number> {
+    const bids = await this.bidModel
+      .find({ organizationId: id, status: BidStatus.ACCEPTED })
+      .select('auctionId bidAmount')
+      .exec();
+    if (bids.length === 0) {
+      return 0;
+    }
+
+    const activeAuctions = await this.auctionModel
+      .find({
+        _id: { $in: [...new Set(bids.map((bid) => bid.auctionId.toString()))] },
+        status: AuctionStatus.ACTIVE,
+      })
+      .select('_id')
+      .exec();
+    const active = new Set(
+      activeAuctions.map((auction) => String(auction._id)),
+    );
+
+    const best = new Map<string, number>();
+    for (const bid of bids) {
+      const auctionId = bid.auctionId.toString();
+      if (active.has(auctionId) && auctionId !== excludeAuctionId) {
+        best.set(auctionId, Math.max(best.get(auctionId) ?? 0, bid.bidAmount));
+      }
+    }
+    return [...best.values()].reduce((sum, amount) => sum + amount, 0);
+  }
+
+  async getExposure(id: string, userId: string) {
+    const { organization } = await this.getMembership(id, userId);
+    const committed = await this.getCommittedSpend(id);
+    return {
+      organizationId: id,
+      spendingLimit: organization.spendingLimit,
+      committed,
+      available:
+        organization.spendingLimit != null
+          ? Math.max(0, organization.spendingLimit - committed)
+          : undefined,
+    };
+  }
+
+  async findBids(id: string, userId: string, limit = 50) {
+    await this.getMembership(id, userId);
+    return this.bidModel
+      .find({ organizationId: id })
+      .populate('userId', 'username')
+      .populate('auctionId', 'title currentHighestBid status auctionType')
+      .sort({ timestamp: -1 })
+      .limit(limit)
+      .exec();
+  }
+
+  async findWins(id: string, userId: string) {
+    await this.getMembership(id, userId);
+    return this.auctionModel
+      .find({
+        winnerOrganizationId: id,
+        status: AuctionStatus.ENDED,
+        outcome: AuctionOutcome.SOLD,
+      })
+      .populate('winnerId', 'username')
+      .sort({ endTime: -1 })
+      .exec();
+  }
+
+  private async assertOwner(id: string, userId: string) {
+    const membership = await this.getMembership(id, userId);
+    if (membership.role !== OrganizationRole.OWNER) {
+      throw new ForbiddenException('Only owners can manage the organization');
+    }
+    return membership;
+  }
+
+  private async findOrganization(id: string): Promise<OrganizationDocument> {
+    const organization = Types.ObjectId.isValid(id)
+      ? await this.organizationModel.findById(id).exec()
+      : null;
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+    return organization;
+  }
+
+  // Conditional update so each invitation is answered exactly once
+  private async respondToInvitation(
+    filter: { _id: string; organizationId?: string; email?: string },
+    status: InvitationStatus,
+  ): Promise<HydratedDocument<OrganizationInvitation> | null> {
+    if (!Types.ObjectId.isValid(filter._id)) {
+      return null;
+    }
+    return this.invitationModel
+      .findOneAndUpdate(
+        {
+          ...filter,
+          status: InvitationStatus.PENDING,
+          // Owners may revoke expired invitations; nobody may accept them
+          ...(status !== InvitationStatus.REVOKED && {
+            expiresAt: { $gt: new Date() },
+          }),
+        },
+        { $set: { status, respondedAt: new Date() } },
+        { new: true },
+      )
+      .exec();
+  }
+
+  // Matches only while someone other than memberId is still an owner
+  private anotherOwnerFilter(memberId: string) {
+    return {
+      members: {
+        $elemMatch: {
+          role: OrganizationRole.OWNER,
+          userId: { $ne: new Types.ObjectId(memberId) },
+        },
+      },
+    };
+  }
+
+  private getRole(
+    organization: Organization,
+    userId: string,
+  ): OrganizationRole | undefined {
+    return organization.members.find(
+      (member) => member.userId.toString() === String(userId),
+    )?.role;
+  }
+}
@@ -1,24 +1,42 @@
 import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import type { Channel, ConsumeMessage } from 'amqplib';
 
 export enum RabbitMQQueues {
   BID_PROCESSING = 'bid-processing',
   NOTIFICATIONS = 'notifications',
   AUDIT_LOGS = 'audit-logs',
-  DEAD_LETTER = 'dead-letter'
+  DEAD_LETTER = 'dead-letter',
+  WEBHOOK_DELIVERIES = 'webhook-deliveries',
+  WEBHOOK_DEAD_LETTER = 'webhook-dead-letter',
 }
 
 export enum RabbitMQExchanges {
   AUCTION_EVENTS = 'auction-events',
   NOTIFICATIONS = 'notifications',
-  AUDIT = 'audit'
+  AUDIT = 'audit',
+  WEBHOOKS = 'webhooks',
 }
 
+// A webhook delivery attempt waiting in the queue
+export interface WebhookDeliveryMessage {
+  deliveryId: string;
+  attempt: number;
+}
+
+// Thrown by a bid handler that could not process the message yet; the
+// message goes back on the queue instead of to the dead-letter queue
+export class RequeueMessageError extends Error {}
+
 @Injectable()
 export class RabbitmqService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(RabbitmqService.name);
   private connection: any;
-  private channel: any;
+  private channel: Channel;
+  private notificationHandler?: (notification: any) => Promise<void>;
+  private auditHandler?: (log: any) => Promise<void>;
+  private webhookHandler?: (message: WebhookDeliveryMessage) => Promise<void>;
+  private readonly webhookRetryTimers = new Set<NodeJS.Timeout>();
 
   constructor(private readonly configService: ConfigService) {}
 
@@ -43,6 +61,9 @@ export class RabbitmqService implements OnModuleInit, OnModuleDestroy {
   }
 
   async onModuleDestroy() {
+    this.webhookRetryTimers.forEach((timer) => clearTimeout(timer));
+    this.webhookRetryTimers.clear();
+
     try {
       if (this.channel) {
         await this.channel.close();
@@ -89,6 +110,8 @@ export class RabbitmqService implements OnModuleInit, OnModuleDestroy {
       await this.channel.assertQueue(RabbitMQQueues.AUDIT_LOGS, queueOptions);
       await this.channel.bindQueue(RabbitMQQueues.AUDIT_LOGS, RabbitMQExchanges.AUDIT, 'audit');
 
+      await this.setupWebhookQueues();
+
       await this.channel.prefetch(10);
 
       this.logger.log('RabbitMQ queues and exchanges set up successfully');
@@ -97,6 +120,67 @@ export class RabbitmqService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  // Webhook attempts wait out their backoff in one retry queue per attempt
+  // number, whose TTL doubles each time; expired messages dead-letter back
+  // into the delivery queue. A queue per delay keeps every message at the
+  // head of its queue when it expires. Deliveries that used up their
+  // attempts are parked in their own dead-letter queue.
+  private async setupWebhookQueues(): Promise<void> {
+    await this.channel.assertExchange(RabbitMQExchanges.WEBHOOKS, 'direct', {
+      durable: true,
+    });
+
+    await this.channel.assertQueue(RabbitMQQueues.WEBHOOK_DEAD_LETTER, {
+      durable: true,
+    });
+    await this.channel.bindQueue(
+      RabbitMQQueues.WEBHOOK_DEAD_LETTER,
+      'dead-letter-exchange',
+      'webhook.dead',
+    );
+
+    await this.channel.assertQueue(RabbitMQQueues.WEBHOOK_DELIVERIES, {
+      durable: true,
+      arguments: {
+        'x-dead-letter-exchange': 'dead-letter-exchange',
+        'x-dead-letter-routing-key': 'webhook.dead',
+      },
+    });
+    await this.channel.bindQueue(
+      RabbitMQQueues.WEBHOOK_DELIVERIES,
+      RabbitMQExchanges.WEBHOOKS,
+      'deliver',
+    );
+
+    const maxAttempts = this.configService.get<number>(
+      'webhooks.maxAttempts',
+      6,
+    );
+    for (let attempt = 1; attempt < maxAttempts; attempt++) {
+      await this.channel.assertQueue(this.getWebhookRetryQueue(attempt), {
+        durable: true,
+        arguments: {
+          'x-dead-letter-exchange': RabbitMQExchanges.WEBHOOKS,
+          'x-dead-letter-routing-key': 'deliver',
+          'x-message-ttl': this.getWebhookRetryDelay(attempt),
+        },
+      });
+    }
+  }
+
+  // Backoff after the given failed attempt: the base delay, doubled each time
+  getWebhookRetryDelay(failedAttempt: number): number {
+    const baseMs = this.configService.get<number>(
+      'webhooks.retryBaseMs',
+      30000,
+    );
+    return baseMs * 2 ** (failedAttempt - 1);
+  }
+
+  private getWebhookRetryQueue(failedAttempt: number): string {
+    return `webhook-retry-${failedAttempt}`;
+  }
+
   async publishToQueue(queue: string, message: any): Promise<void> {
     try {
       if (!this.channel) {
@@ -136,19 +220,103 @@ export class RabbitmqService implements OnModuleInit, OnModuleDestroy {
   }
 
   async publishNotification(notification: any): Promise<void> {
-    await this.publishToExchange(RabbitMQExchanges.NOTIFICATIONS, 'notification', {
+    const message = {
       ...notification,
       eventType: 'NOTIFICATION',
       timestamp: new Date().toISOString(),
-    });
+    };
+
+    // Without a broker the consumer is called inline, so inbox entries are
+    // still written
+    if (!this.channel && this.notificationHandler) {
+      try {
+        await this.notificationHandler(message);
+      } catch (error) {
+        this.logger.error('Error processing notification:', error);
+      }
+      return;
+    }
+
+    await this.publishToExchange(
+      RabbitMQExchanges.NOTIFICATIONS,
+      'notification',
+      message,
+    );
   }
 
   async publishAuditLog(log: any): Promise<void> {
-    await this.publishToExchange(RabbitMQExchanges.AUDIT, 'audit', {
+    const message = {
       ...log,
       eventType: 'AUDIT_LOG',
       timestamp: new Date().toISOString(),
-    });
+    };
+
+    // Without a broker the consumer is called inline, so the audit trail
+    // is still written
+    if (!this.channel && this.auditHandler) {
+      try {
+        await this.auditHandler(message);
+      } catch (error) {
+        this.logger.error('Error processing audit log:', error);
+      }
+      return;
+    }
+
+    await this.publishToExchange(RabbitMQExchanges.AUDIT, 'audit', message);
+  }
+
+  // Without a broker the attempt runs inline and retries wait on a timer in
+  // this process
+  async publishWebhookDelivery(message: WebhookDeliveryMessage): Promise<void> {
+    if (!this.channel && this.webhookHandler) {
+      await this.runWebhookHandler(message);
+      return;
+    }
+
+    await this.publishToExchange(
+      RabbitMQExchanges.WEBHOOKS,
+      'deliver',
+      message,
+    );
+  }
+
+  async scheduleWebhookRetry(message: WebhookDeliveryMessage): Promise<void> {
+    const failedAttempt = message.attempt - 1;
+
+    if (!this.channel) {
+      const timer = setTimeout(() => {
+        this.webhookRetryTimers.delete(timer);
+        void this.runWebhookHandler(message);
+      }, this.getWebhookRetryDelay(failedAttempt));
+      timer.unref();
+      this.webhookRetryTimers.add(timer);
+      return;
+    }
+
+    await this.publishToQueue(
+      this.getWebhookRetryQueue(failedAttempt),
+      message,
+    );
+  }
+
+  async publishWebhookDeadLetter(
+    message: WebhookDeliveryMessage & { error?: string },
+  ): Promise<void> {
+    await this.publishToExchange(
+      'dead-letter-exchange',
+      'webhook.dead',
+      message,
+    );
+  }
+
+  private async runWebhookHandler(
+    message: WebhookDeliveryMessage,
+  ): Promise<void> {
+    try {
+      await this.webhookHandler?.(message);
+    } catch (error) {
+      this.logger.error('Error processing webhook delivery:', error);
+    }
   }
 
   async startBidProcessingConsumer(handler: (bid: any) => Promise<void>): Promise<void> {
@@ -158,18 +326,11 @@ export class RabbitmqService implements OnModuleInit, OnModuleDestroy {
     }
 
     try {
-      await this.channel.consume(RabbitMQQueues.BID_PROCESSING, async (msg: any) => {
-        if (msg) {
-          try {
-            const content = JSON.parse(msg.content.toString());
-            await handler(content);
-            this.channel.ack(msg);
-          } catch (error) {
-            this.logger.error('Error processing bid message:', error);
-            this.channel.nack(msg, false, false);
-          }
-        }
-      });
+      await this.channel.consume(
+        RabbitMQQueues.BID_PROCESSING,
+        (msg: ConsumeMessage | null) =>
+          void this.handleMessage(msg, handler, 'bid message'),
+      );
 
       this.logger.log('Bid processing consumer started');
     } catch (error) {
@@ -178,47 +339,71 @@ export class RabbitmqService implements OnModuleInit, OnModuleDestroy {
   }
 
   async startNotificationConsumer(handler: (notification: any) => Promise<void>): Promise<void> {
+    this.notificationHandler = handler;
     if (!this.channel) return;
 
     try {
-      await this.channel.consume(RabbitMQQueues.NOTIFICATIONS, async (msg: any) => {
-        if (msg) {
-          try {
-            const content = JSON.parse(msg.content.toString());
-            await handler(content);
-            this.channel.ack(msg);
-          } catch (error) {
-            this.logger.error('Error processing notification:', error);
-            this.channel.nack(msg, false, false);
-          }
-        }
-      });
+      await this.channel.consume(
+        RabbitMQQueues.NOTIFICATIONS,
+        (msg: ConsumeMessage | null) =>
+          void this.handleMessage(msg, handler, 'notification'),
+      );
     } catch (error) {
       this.logger.error('Failed to start notification consumer:', error);
     }
   }
 
+  async startWebhookConsumer(
+    handler: (message: WebhookDeliveryMessage) => Promise<void>,
+  ): Promise<void> {
+    this.webhookHandler = handler;
+    if (!this.channel) return;
+
+    try {
+      await this.channel.consume(
+        RabbitMQQueues.WEBHOOK_DELIVERIES,
+        (msg: ConsumeMessage | null) =>
+          void this.handleMessage(msg, handler, 'webhook delivery'),
+      );
+    } catch (error) {
+      this.logger.error('Failed to start webhook consumer:', error);
+    }
+  }
+
   async startAuditConsumer(handler: (log: any) => Promise<void>): Promise<void> {
+    this.auditHandler = handler;
     if (!this.channel) return;
 
     try {
-      await this.channel.consume(RabbitMQQueues.AUDIT_LOGS, async (msg: any) => {
-        if (msg) {
-          try {
-            const content = JSON.parse(msg.content.toString());
-            await handler(content);
-            this.channel.ack(msg);
-          } catch (error) {
-            this.logger.error('Error processing audit log:', error);
-            this.channel.nack(msg, false, false);
-          }
-        }
-      });
+      await this.channel.consume(
+        RabbitMQQueues.AUDIT_LOGS,
+        (msg: ConsumeMessage | null) =>
+          void this.handleMessage(msg, handler, 'audit log'),
+      );
     } catch (error) {
       this.logger.error('Failed to start audit consumer:', error);
     }
   }
 
+  // Acks a message once its handler is done with it. A failed message is
+  // dropped, unless the handler asked for it to be retried later.
+  private async handleMessage<T>(
+    msg: ConsumeMessage | null,
+    handler: (content: T) => Promise<void>,
+    description: string,
+  ): Promise<void> {
+    if (!msg) return;
+
+    try {
+      const content = JSON.parse(msg.content.toString()) as T;
+      await handler(content);
+      this.channel.ack(msg);
+    } catch (error) {
+      this.logger.error(`Error processing ${description}:`, error);
+      this.channel.nack(msg, false, error instanceof RequeueMessageError);
+    }
+  }
+
   isConnected(): boolean {
     return !!this.connection && !!this.channel;
   }
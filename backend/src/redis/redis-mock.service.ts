@@ -42,6 +42,10 @@ export class RedisService {
     return true;
   }
 
+  waitForLock(key: string, ttl = 5000): Promise<boolean> {
+    return this.acquireLock(key, ttl);
+  }
+
   async releaseLock(key: string): Promise<void> {
     this.logger.debug(`Mock: Releasing lock ${key}`);
   }
@@ -236,6 +236,24 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     return result === 'OK';
   }
 
+  // Retries acquireLock with exponential backoff until the lock is free or
+  // waitMs has passed
+  async waitForLock(key: string, ttl = 5000, waitMs = 5000): Promise<boolean> {
+    const deadline = Date.now() + waitMs;
+    for (let delay = 25; ; delay = Math.min(delay * 2, 500)) {
+      if (await this.acquireLock(key, ttl)) {
+        return true;
+      }
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        return false;
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.min(delay, remaining)),
+      );
+    }
+  }
+
   async releaseLock(key: string): Promise<void> {
     await this.del(`lock:${key}`);
   }
@@ -0,0 +1,43 @@
+import {
+  IsBoolean,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+import { AuctionStatus } from '../../common/enums/auction.enum';
+
+export class CreateSavedSearchDto {
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  // Words that must all appear in the title, description or car id
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  text?: string;
+
+  // Only auctions that have not ended can be new
+  @IsOptional()
+  @IsIn([AuctionStatus.PENDING, AuctionStatus.ACTIVE])
+  status?: AuctionStatus;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minPrice?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxPrice?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  alertsEnabled?: boolean;
+}
@@ -0,0 +1,44 @@
+import {
+  IsBoolean,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  MinLength,
+  ValidateIf,
+} from 'class-validator';
+import { AuctionStatus } from '../../common/enums/auction.enum';
+
+// null clears a criterion
+export class UpdateSavedSearchDto {
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name?: string;
+
+  @ValidateIf((dto: UpdateSavedSearchDto) => dto.text != null)
+  @IsString()
+  @MaxLength(200)
+  text?: string | null;
+
+  @ValidateIf((dto: UpdateSavedSearchDto) => dto.status != null)
+  @IsIn([AuctionStatus.PENDING, AuctionStatus.ACTIVE])
+  status?: AuctionStatus | null;
+
+  @ValidateIf((dto: UpdateSavedSearchDto) => dto.minPrice != null)
+  @IsNumber()
+  @Min(0)
+  minPrice?: number | null;
+
+  @ValidateIf((dto: UpdateSavedSearchDto) => dto.maxPrice != null)
+  @IsNumber()
+  @Min(0)
+  maxPrice?: number | null;
+
+  @IsOptional()
+  @IsBoolean()
+  alertsEnabled?: boolean;
+}
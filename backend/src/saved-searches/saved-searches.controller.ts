@@ -0,0 +1,57 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { SavedSearchesService } from './saved-searches.service';
+import { CreateSavedSearchDto } from './dto/create-saved-search.dto';
+import { UpdateSavedSearchDto } from './dto/update-saved-search.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import type { IAuthenticatedRequest } from '../common/interfaces/auction.interface';
+
+@Controller('saved-searches')
+@UseGuards(ThrottlerGuard, JwtAuthGuard)
+export class SavedSearchesController {
+  constructor(private readonly savedSearchesService: SavedSearchesService) {}
+
+  @Get()
+  findMine(@Request() req: IAuthenticatedRequest) {
+    return this.savedSearchesService.findForUser(req.user._id.toString());
+  }
+
+  @Post()
+  create(
+    @Request() req: IAuthenticatedRequest,
+    @Body() createDto: CreateSavedSearchDto,
+  ) {
+    return this.savedSearchesService.create(req.user._id.toString(), createDto);
+  }
+
+  @Patch(':id')
+  update(
+    @Request() req: IAuthenticatedRequest,
+    @Param('id') id: string,
+    @Body() updateDto: UpdateSavedSearchDto,
+  ) {
+    return this.savedSearchesService.update(
+      req.user._id.toString(),
+      id,
+      updateDto,
+    );
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  remove(@Request() req: IAuthenticatedRequest, @Param('id') id: string) {
+    return this.savedSearchesService.remove(req.user._id.toString(), id);
+  }
+}
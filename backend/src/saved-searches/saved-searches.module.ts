@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { SavedSearchesController } from './saved-searches.controller';
+import { SavedSearchesService } from './saved-searches.service';
+import {
+  SavedSearch,
+  SavedSearchSchema,
+} from '../database/schemas/saved-search.schema';
+import {
+  SavedSearchAlert,
+  SavedSearchAlertSchema,
+} from '../database/schemas/saved-search-alert.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: SavedSearch.name, schema: SavedSearchSchema },
+      { name: SavedSearchAlert.name, schema: SavedSearchAlertSchema },
+    ]),
+  ],
+  controllers: [SavedSearchesController],
+  providers: [SavedSearchesService],
+  exports: [SavedSearchesService],
+})
+export class SavedSearchesModule {}
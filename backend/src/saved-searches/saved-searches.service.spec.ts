@@ -0,0 +1,171 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { SavedSearchesService } from './saved-searches.service';
+import { pickAnchorTerm, tokenize } from './search-terms';
+import { SavedSearch } from '../database/schemas/saved-search.schema';
+import { SavedSearchAlert } from '../database/schemas/saved-search-alert.schema';
+import { AuctionDocument } from '../database/schemas/auction.schema';
+import { RabbitmqService } from '../rabbitmq/rabbitmq-simple.service';
+import { AuctionStatus } from '../common/enums/auction.enum';
+
+// Awaitable stand-in for a mongoose query
+const query = <T>(value: T) => ({ exec: () => Promise.resolve(value) });
+
+const createSearch = (
+  userId: Types.ObjectId,
+  name: string,
+  fields: { text?: string; status?: AuctionStatus; maxPrice?: number } = {},
+) => {
+  const terms = tokenize(fields.text ?? '');
+  return {
+    _id: new Types.ObjectId(),
+    userId,
+    name,
+    ...fields,
+    terms,
+    anchorTerm: pickAnchorTerm(terms),
+    alertsEnabled: true,
+  };
+};
+
+// The parts of the service's query that the stand-in applies
+interface SearchFilter {
+  anchorTerm: { $in: string[] };
+  $and: [
+    { $or: [unknown, { status: AuctionStatus }] },
+    unknown,
+    { $or: [unknown, { maxPrice: { $gte: number } }] },
+  ];
+}
+
+async function createHarness(searches: ReturnType<typeof createSearch>[]) {
+  const alerts = new Set<string>();
+  const published: Record<string, any>[] = [];
+  const anchorsQueried: string[][] = [];
+
+  const module = await Test.createTestingModule({
+    providers: [
+      SavedSearchesService,
+      {
+        provide: getModelToken(SavedSearch.name),
+        useValue: {
+          // Anchor term, status and price as Mongo would apply them
+          find: (filter: SearchFilter) => {
+            anchorsQueried.push(filter.anchorTerm.$in);
+            const status = filter.$and[0].$or[1].status;
+            const price = filter.$and[2].$or[1].maxPrice.$gte;
+            return query(
+              searches.filter(
+                (search) =>
+                  filter.anchorTerm.$in.includes(search.anchorTerm) &&
+                  (!search.status || search.status === status) &&
+                  (search.maxPrice == null || search.maxPrice >= price),
+              ),
+            );
+          },
+          updateMany: () => query({ modifiedCount: 1 }),
+        },
+      },
+      {
+        provide: getModelToken(SavedSearchAlert.name),
+        useValue: {
+          create: (alert: Record<string, any>) => {
+            const key = `${alert.searchId}:${alert.auctionId}`;
+            if (alerts.has(key)) {
+              return Promise.reject(
+                Object.assign(new Error(), { code: 11000 }),
+              );
+            }
+            alerts.add(key);
+            return Promise.resolve(alert);
+          },
+        },
+      },
+      {
+        provide: RabbitmqService,
+        useValue: {
+          publishNotification: (notification: Record<string, any>) => {
+            published.push(notification);
+            return Promise.resolve();
+          },
+        },
+      },
+      {
+        provide: ConfigService,
+        useValue: { get: (_key: string, fallback?: unknown) => fallback },
+      },
+    ],
+  }).compile();
+
+  return {
+    service: module.get(SavedSearchesService),
+    published,
+    anchorsQueried,
+  };
+}
+
+const createAuction = (status: AuctionStatus) =>
+  ({
+    _id: new Types.ObjectId(),
+    title: '1973 Porsche 911 Carrera RS',
+    description: 'Matching numbers, Grand Prix White',
+    carId: 'PORSCHE-911-RS',
+    status,
+    startingBid: 150000,
+    currentHighestBid: 150000,
+    startTime: new Date('2026-06-01T10:00:00Z'),
+    sellerId: new Types.ObjectId(),
+  }) as unknown as AuctionDocument;
+
+describe('SavedSearchesService', () => {
+  it('alerts each matching user once, on creation or start', async () => {
+    const alice = new Types.ObjectId();
+    const bob = new Types.ObjectId();
+    const { service, published, anchorsQueried } = await createHarness([
+      createSearch(alice, 'Carrera', { text: 'porsche carrera' }),
+      createSearch(alice, 'Any 911', { text: '911' }),
+      createSearch(bob, 'Live Porsches', {
+        text: 'Porsche',
+        status: AuctionStatus.ACTIVE,
+      }),
+      createSearch(bob, 'Porsche Turbo', { text: 'porsche turbo' }),
+      createSearch(bob, 'Cheap cars', { maxPrice: 20000 }),
+    ]);
+    const auction = createAuction(AuctionStatus.PENDING);
+
+    expect(await service.alertMatches(auction)).toBe(1);
+    expect(published).toMatchObject([
+      {
+        type: 'SAVED_SEARCH_MATCH',
+        userId: String(alice),
+        auctionId: String(auction._id),
+        data: { savedSearchNames: ['Carrera', 'Any 911'] },
+      },
+    ]);
+    // Only searches anchored on one of the auction's words, or on none
+    expect(anchorsQueried[0]).toEqual(
+      expect.arrayContaining(['', 'porsche', '911', 'carrera']),
+    );
+
+    auction.status = AuctionStatus.ACTIVE;
+    expect(await service.alertMatches(auction)).toBe(1);
+    expect(published).toHaveLength(2);
+    expect(published[1]).toMatchObject({
+      userId: String(bob),
+      data: { savedSearchNames: ['Live Porsches'] },
+    });
+  });
+
+  it('does not alert about ended auctions', async () => {
+    const { service, published } = await createHarness([
+      createSearch(new Types.ObjectId(), 'Everything'),
+    ]);
+
+    expect(await service.alertMatches(createAuction(AuctionStatus.ENDED))).toBe(
+      0,
+    );
+    expect(published).toHaveLength(0);
+  });
+});
@@ -0,0 +1,209 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  SavedSearch,
+  SavedSearchDocument,
+} from '../database/schemas/saved-search.schema';
+import { SavedSearchAlert } from '../database/schemas/saved-search-alert.schema';
+import { AuctionDocument } from '../database/schemas/auction.schema';
+import { CreateSavedSearchDto } from './dto/create-saved-search.dto';
+import { UpdateSavedSearchDto } from './dto/update-saved-search.dto';
+import { RabbitmqService } from '../rabbitmq/rabbitmq-simple.service';
+import { AuctionStatus } from '../common/enums/auction.enum';
+import { pickAnchorTerm, tokenize } from './search-terms';
+
+@Injectable()
+export class SavedSearchesService {
+  private readonly logger = new Logger(SavedSearchesService.name);
+
+  constructor(
+    @InjectModel(SavedSearch.name)
+    private savedSearchModel: Model<SavedSearchDocument>,
+    @InjectModel(SavedSearchAlert.name)
+    private savedSearchAlertModel: Model<SavedSearchAlert>,
+    private readonly rabbitmqService: RabbitmqService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async create(userId: string, createDto: CreateSavedSearchDto) {
+    const maxPerUser = this.configService.get<number>(
+      'savedSearches.maxPerUser',
+      20,
+    );
+    const count = await this.savedSearchModel.countDocuments({ userId });
+    if (count >= maxPerUser) {
+      throw new BadRequestException(
+        `You can save up to ${maxPerUser} searches`,
+      );
+    }
+
+    this.validatePriceRange(createDto.minPrice, createDto.maxPrice);
+
+    return this.savedSearchModel.create({
+      ...createDto,
+      userId,
+      ...this.indexText(createDto.text),
+    });
+  }
+
+  async findForUser(userId: string) {
+    return this.savedSearchModel
+      .find({ userId })
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  async update(userId: string, id: string, updateDto: UpdateSavedSearchDto) {
+    const search = await this.findOwned(userId, id);
+    const { text, status, minPrice, maxPrice, ...settings } = updateDto;
+
+    search.set(settings);
+    // null clears the criterion
+    for (const [key, value] of Object.entries({
+      text,
+      status,
+      minPrice,
+      maxPrice,
+    })) {
+      if (value !== undefined) {
+        search.set(key, value ?? undefined);
+      }
+    }
+
+    this.validatePriceRange(search.minPrice, search.maxPrice);
+    search.set(this.indexText(search.text));
+    return search.save();
+  }
+
+  async remove(userId: string, id: string): Promise<void> {
+    const search = await this.findOwned(userId, id);
+    await this.savedSearchModel.deleteOne({ _id: search._id }).exec();
+  }
+
+  // Called when an auction is created or started. The anchor term index
+  // narrows the searches to those that could match before the full check,
+  // and each search alerts about an auction once, whichever comes first.
+  async alertMatches(
+    auction: AuctionDocument,
+    now: Date = new Date(),
+  ): Promise<number> {
+    if (
+      auction.status !== AuctionStatus.PENDING &&
+      auction.status !== AuctionStatus.ACTIVE
+    ) {
+      return 0;
+    }
+
+    const auctionTerms = new Set(
+      tokenize(`${auction.title} ${auction.description} ${auction.carId}`),
+    );
+    const price = auction.currentHighestBid || auction.startingBid;
+
+    const candidates = await this.savedSearchModel
+      .find({
+        alertsEnabled: true,
+        anchorTerm: { $in: ['', ...auctionTerms] },
+        userId: { $ne: auction.sellerId },
+        $and: [
+          { $or: [{ status: null }, { status: auction.status }] },
+          { $or: [{ minPrice: null }, { minPrice: { $lte: price } }] },
+          { $or: [{ maxPrice: null }, { maxPrice: { $gte: price } }] },
+        ],
+      })
+      .exec();
+
+    // One notification per user, however many of their searches match
+    const matchesByUser = new Map<string, SavedSearchDocument[]>();
+    for (const search of candidates) {
+      if (!search.terms.every((term) => auctionTerms.has(term))) {
+        continue;
+      }
+      if (!(await this.claimAlert(search, auction))) {
+        continue;
+      }
+      const userId = search.userId.toString();
+      matchesByUser.set(userId, [...(matchesByUser.get(userId) ?? []), search]);
+    }
+
+    for (const [userId, searches] of matchesByUser) {
+      await this.savedSearchModel
+        .updateMany(
+          { _id: { $in: searches.map((search) => search._id) } },
+          { $set: { lastAlertAt: now } },
+        )
+        .exec();
+
+      await this.rabbitmqService.publishNotification({
+        type: 'SAVED_SEARCH_MATCH',
+        userId,
+        auctionId: String(auction._id),
+        message: `New match for "${searches[0].name}": ${auction.title}`,
+        data: {
+          auctionTitle: auction.title,
+          status: auction.status,
+          startTime: auction.startTime,
+          startingBid: auction.startingBid,
+          savedSearchIds: searches.map((search) => String(search._id)),
+          savedSearchNames: searches.map((search) => search.name),
+        },
+      });
+    }
+
+    if (matchesByUser.size > 0) {
+      this.logger.log(
+        `Auction ${String(auction._id)} matched saved searches of ${matchesByUser.size} users`,
+      );
+    }
+    return matchesByUser.size;
+  }
+
+  private async claimAlert(
+    search: SavedSearchDocument,
+    auction: AuctionDocument,
+  ): Promise<boolean> {
+    try {
+      await this.savedSearchAlertModel.create({
+        searchId: search._id,
+        userId: search.userId,
+        auctionId: auction._id,
+      });
+      return true;
+    } catch (error) {
+      // Already alerted
+      if ((error as { code?: number }).code !== 11000) {
+        throw error;
+      }
+      return false;
+    }
+  }
+
+  private async findOwned(userId: string, id: string) {
+    const search = Types.ObjectId.isValid(id)
+      ? await this.savedSearchModel.findOne({ _id: id, userId }).exec()
+      : null;
+    if (!search) {
+      throw new NotFoundException('Saved search not found');
+    }
+    return search;
+  }
+
+  private indexText(text?: string) {
+    const terms = tokenize(text ?? '');
+    return { terms, anchorTerm: pickAnchorTerm(terms) };
+  }
+
+  private validatePriceRange(minPrice?: number, maxPrice?: number) {
+    if (minPrice != null && maxPrice != null && minPrice > maxPrice) {
+      throw new BadRequestException(
+        'minPrice must not be greater than maxPrice',
+      );
+    }
+  }
+}
@@ -0,0 +1,21 @@
+// Saved searches and auctions are compared word by word, so both sides are
+// split the same way: lowercased runs of letters and digits
+export function tokenize(text: string): string[] {
+  return [
+    ...new Set(
+      text
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(Boolean),
+    ),
+  ];
+}
+
+// The longest term is usually the rarest, which keeps the candidates a new
+// auction loads to a minimum
+export function pickAnchorTerm(terms: string[]): string {
+  return terms.reduce(
+    (anchor, term) => (term.length > anchor.length ? term : anchor),
+    '',
+  );
+}
@@ -1,4 +1,12 @@
-import { IsEmail, IsString, MinLength } from 'class-validator';
+import {
+  IsArray,
+  IsEmail,
+  IsEnum,
+  IsOptional,
+  IsString,
+  MinLength,
+} from 'class-validator';
+import { UserRole } from '../../common/enums/auction.enum';
 
 export class CreateUserDto {
   @IsString()
@@ -11,4 +19,9 @@ export class CreateUserDto {
   @IsString()
   @MinLength(6)
   password: string;
-}
\ No newline at end of file
+
+  @IsOptional()
+  @IsArray()
+  @IsEnum(UserRole, { each: true })
+  roles?: UserRole[];
+}
@@ -0,0 +1,9 @@
+import { ArrayNotEmpty, IsArray, IsEnum } from 'class-validator';
+import { UserRole } from '../../common/enums/auction.enum';
+
+export class UpdateUserRolesDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(UserRole, { each: true })
+  roles: UserRole[];
+}
@@ -1,16 +1,32 @@
-import { Controller, Get, Post, Body, Param, Delete, UseGuards } from '@nestjs/common';
+import { Controller, Get, Post, Body, Param, Patch, Delete, Request, UseGuards } from '@nestjs/common';
 import { ThrottlerGuard } from '@nestjs/throttler';
 import { UsersService } from './users.service';
+import { AuctionsService } from '../auctions/auctions.service';
 import { CreateUserDto } from './dto/create-user.dto';
+import { UpdateUserRolesDto } from './dto/update-user-roles.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../common/enums/auction.enum';
+import type { IAuthenticatedRequest } from '../common/interfaces/auction.interface';
 
+// User management is admin-only; people sign themselves up through /auth
+// and sellers reach their own listings under /users/me
 @Controller('users')
-@UseGuards(ThrottlerGuard)
+@UseGuards(ThrottlerGuard, JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly auctionsService: AuctionsService,
+  ) {}
 
   @Post()
-  create(@Body() createUserDto: CreateUserDto) {
-    return this.usersService.create(createUserDto);
+  create(
+    @Request() req: IAuthenticatedRequest,
+    @Body() createUserDto: CreateUserDto,
+  ) {
+    return this.usersService.create(createUserDto, req.user._id.toString());
   }
 
   @Get()
@@ -18,13 +34,33 @@ export class UsersController {
     return this.usersService.findAll();
   }
 
+  // Seller view of their own listings, reserve prices included
+  @Get('me/auctions')
+  @Roles(UserRole.SELLER, UserRole.ADMIN)
+  findMyAuctions(@Request() req: IAuthenticatedRequest) {
+    return this.auctionsService.findBySeller(req.user._id.toString());
+  }
+
   @Get(':id')
   findOne(@Param('id') id: string) {
     return this.usersService.findById(id);
   }
 
+  @Patch(':id/roles')
+  updateRoles(
+    @Request() req: IAuthenticatedRequest,
+    @Param('id') id: string,
+    @Body() updateUserRolesDto: UpdateUserRolesDto,
+  ) {
+    return this.usersService.updateRoles(
+      id,
+      updateUserRolesDto.roles,
+      req.user._id.toString(),
+    );
+  }
+
   @Delete(':id')
-  remove(@Param('id') id: string) {
-    return this.usersService.remove(id);
+  remove(@Request() req: IAuthenticatedRequest, @Param('id') id: string) {
+    return this.usersService.remove(id, req.user._id.toString());
   }
 }
\ No newline at end of file
@@ -3,10 +3,12 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { UsersController } from './users.controller';
 import { UsersService } from './users.service';
 import { User, UserSchema } from '../database/schemas/user.schema';
+import { AuctionsModule } from '../auctions/auctions.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]),
+    AuctionsModule,
   ],
   controllers: [UsersController],
   providers: [UsersService],
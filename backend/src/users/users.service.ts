@@ -4,14 +4,19 @@ import { Model } from 'mongoose';
 import * as bcrypt from 'bcryptjs';
 import { User, UserDocument } from '../database/schemas/user.schema';
 import { CreateUserDto } from './dto/create-user.dto';
+import { AuditAction, UserRole } from '../common/enums/auction.enum';
+import { RabbitmqService } from '../rabbitmq/rabbitmq-simple.service';
 
 @Injectable()
 export class UsersService {
   constructor(
     @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly rabbitmqService: RabbitmqService,
   ) {}
 
-  async create(createUserDto: CreateUserDto): Promise<User> {
+  // adminId is set when an admin creates the account; sign-ups are
+  // audited by AuthService
+  async create(createUserDto: CreateUserDto, adminId?: string): Promise<User> {
     const existingUser = await this.userModel.findOne({
       $or: [
         { email: createUserDto.email },
@@ -30,7 +35,20 @@ export class UsersService {
       password: hashedPassword,
     });
 
-    return user.save();
+    const saved = await user.save();
+    if (adminId) {
+      await this.rabbitmqService.publishAuditLog({
+        action: AuditAction.USER_CREATED,
+        userId: adminId,
+        success: true,
+        details: {
+          targetUserId: String(saved._id),
+          username: saved.username,
+          roles: saved.roles,
+        },
+      });
+    }
+    return saved;
   }
 
   async findByEmail(email: string): Promise<UserDocument | null> {
@@ -53,10 +71,62 @@ export class UsersService {
     return this.userModel.find().select('-password').exec();
   }
 
-  async remove(id: string): Promise<void> {
+  async markEmailVerified(id: string): Promise<void> {
+    await this.userModel
+      .updateOne(
+        { _id: id, emailVerified: { $ne: true } },
+        { $set: { emailVerified: true, emailVerifiedAt: new Date() } },
+      )
+      .exec();
+  }
+
+  async updatePassword(id: string, password: string): Promise<void> {
+    const hashedPassword = await bcrypt.hash(password, 12);
+    const result = await this.userModel
+      .updateOne({ _id: id }, { $set: { password: hashedPassword } })
+      .exec();
+    if (result.matchedCount === 0) {
+      throw new NotFoundException('User not found');
+    }
+  }
+
+  async updateRoles(
+    id: string,
+    roles: UserRole[],
+    adminId?: string,
+  ): Promise<User> {
+    const user = await this.userModel
+      .findByIdAndUpdate(
+        id,
+        { $set: { roles: [...new Set(roles)] } },
+        { new: true },
+      )
+      .select('-password')
+      .exec();
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    await this.rabbitmqService.publishAuditLog({
+      action: AuditAction.USER_ROLES_UPDATED,
+      userId: adminId,
+      success: true,
+      details: { targetUserId: id, roles: user.roles },
+    });
+    return user;
+  }
+
+  async remove(id: string, adminId?: string): Promise<void> {
     const result = await this.userModel.deleteOne({ _id: id }).exec();
     if (result.deletedCount === 0) {
       throw new NotFoundException('User not found');
     }
+
+    await this.rabbitmqService.publishAuditLog({
+      action: AuditAction.USER_DELETED,
+      userId: adminId,
+      success: true,
+      details: { targetUserId: id },
+    });
   }
 }
\ No newline at end of file
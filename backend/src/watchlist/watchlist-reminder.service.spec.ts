@@ -0,0 +1,157 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { WatchlistReminderService } from './watchlist-reminder.service';
+import { WatchlistService } from './watchlist.service';
+import { Watch } from '../database/schemas/watch.schema';
+import { Auction } from '../database/schemas/auction.schema';
+import { RabbitmqService } from '../rabbitmq/rabbitmq-simple.service';
+import { RedisService } from '../redis/redis.service';
+import { AuctionStatus } from '../common/enums/auction.enum';
+
+// Awaitable stand-in for a mongoose query
+const query = <T>(value: T) => ({ exec: () => Promise.resolve(value) });
+
+interface WatchFilter {
+  _id?: Types.ObjectId;
+  remindersSent: { $ne: string };
+}
+
+const unsent = (watch: { remindersSent: string[] }, filter: WatchFilter) =>
+  !watch.remindersSent.includes(filter.remindersSent.$ne);
+
+async function createHarness(auction: Record<string, any>) {
+  const watches = [
+    { _id: new Types.ObjectId(), userId: new Types.ObjectId() },
+    { _id: new Types.ObjectId(), userId: new Types.ObjectId() },
+  ].map((watch) => ({
+    ...watch,
+    auctionId: auction._id as Types.ObjectId,
+    remindersSent: [] as string[],
+  }));
+  const published: Record<string, any>[] = [];
+
+  const module = await Test.createTestingModule({
+    providers: [
+      WatchlistReminderService,
+      WatchlistService,
+      {
+        provide: getModelToken(Watch.name),
+        useValue: {
+          find: (filter: WatchFilter) =>
+            query(watches.filter((watch) => unsent(watch, filter))),
+          updateOne: (
+            filter: WatchFilter,
+            update: { $addToSet: { remindersSent: { $each: string[] } } },
+          ) => {
+            const watch = watches.find(
+              (entry) =>
+                String(entry._id) === String(filter._id) &&
+                unsent(entry, filter),
+            );
+            if (watch) {
+              const keys = update.$addToSet.remindersSent.$each;
+              watch.remindersSent = [
+                ...new Set([...watch.remindersSent, ...keys]),
+              ];
+            }
+            return query({ modifiedCount: watch ? 1 : 0 });
+          },
+        },
+      },
+      {
+        provide: getModelToken(Auction.name),
+        // The time window is left to Mongo; every tick sees the auction
+        useValue: {
+          find: (filter: {
+            status: AuctionStatus | { $in: AuctionStatus[] };
+          }) =>
+            query(
+              filter.status === AuctionStatus.ACTIVE ||
+                (typeof filter.status === 'object' &&
+                  filter.status.$in.includes(auction.status as AuctionStatus))
+                ? [auction]
+                : [],
+            ),
+        },
+      },
+      {
+        provide: RabbitmqService,
+        useValue: {
+          publishNotification: (notification: Record<string, any>) => {
+            published.push(notification);
+            return Promise.resolve();
+          },
+        },
+      },
+      { provide: RedisService, useValue: {} },
+      {
+        provide: ConfigService,
+        useValue: { get: (_key: string, fallback?: unknown) => fallback },
+      },
+    ],
+  }).compile();
+
+  return {
+    reminders: module.get(WatchlistReminderService),
+    watches,
+    published,
+  };
+}
+
+describe('WatchlistReminderService', () => {
+  it('reminds every watcher once per offset before the start', async () => {
+    const harness = await createHarness({
+      _id: new Types.ObjectId(),
+      title: '1967 Jaguar E-Type',
+      status: AuctionStatus.PENDING,
+      startTime: new Date('2026-05-01T18:00:00Z'),
+      endTime: new Date('2026-05-03T18:00:00Z'),
+    });
+
+    await harness.reminders.tick(new Date('2026-05-01T17:00:00Z'));
+    await harness.reminders.tick(new Date('2026-05-01T17:00:30Z'));
+
+    expect(harness.published).toHaveLength(2);
+    expect(harness.published[0]).toMatchObject({
+      type: 'AUCTION_STARTING_SOON',
+      userId: String(harness.watches[0].userId),
+      message: '"1967 Jaguar E-Type" starts in 60 minutes',
+      data: { minutesLeft: 60 },
+    });
+
+    await harness.reminders.tick(new Date('2026-05-01T18:00:10Z'));
+
+    expect(harness.published).toHaveLength(4);
+    expect(harness.published[3].message).toBe(
+      '"1967 Jaguar E-Type" has started',
+    );
+  });
+
+  it('sends only the closest ending reminder to a watcher who missed one', async () => {
+    const harness = await createHarness({
+      _id: new Types.ObjectId(),
+      title: 'Porsche 911 Carrera RS',
+      status: AuctionStatus.ACTIVE,
+      startTime: new Date('2026-05-01T18:00:00Z'),
+      endTime: new Date('2026-05-03T18:00:00Z'),
+    });
+    // Watched since the start reminders went out
+    harness.watches.forEach((watch) => {
+      watch.remindersSent = ['start:60', 'start:0'];
+    });
+
+    await harness.reminders.tick(new Date('2026-05-03T17:52:00Z'));
+    await harness.reminders.tick(new Date('2026-05-03T17:53:00Z'));
+
+    expect(harness.published).toHaveLength(2);
+    expect(harness.published[0]).toMatchObject({
+      type: 'AUCTION_ENDING_SOON',
+      message: '"Porsche 911 Carrera RS" ends in 8 minutes',
+    });
+    expect(harness.watches[0].remindersSent).toEqual(
+      expect.arrayContaining(['end:60', 'end:10']),
+    );
+  });
+});
@@ -0,0 +1,171 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { HydratedDocument, Model } from 'mongoose';
+import { Watch } from '../database/schemas/watch.schema';
+import { Auction } from '../database/schemas/auction.schema';
+import { RabbitmqService } from '../rabbitmq/rabbitmq-simple.service';
+import { ReminderKind, WatchlistService } from './watchlist.service';
+import { AuctionStatus } from '../common/enums/auction.enum';
+
+// "Starting now" still goes out if the auction started this recently
+const STARTED_GRACE_MS = 15 * 60 * 1000;
+
+@Injectable()
+export class WatchlistReminderService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WatchlistReminderService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(
+    @InjectModel(Watch.name) private watchModel: Model<Watch>,
+    @InjectModel(Auction.name) private auctionModel: Model<Auction>,
+    private readonly watchlistService: WatchlistService,
+    private readonly rabbitmqService: RabbitmqService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    const intervalMs = this.configService.get<number>(
+      'watchlist.reminderIntervalMs',
+      30000,
+    );
+    this.timer = setInterval(() => void this.tick(), intervalMs);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Every instance runs this loop. Each watcher's reminder is claimed with
+  // a conditional update before it is published, so it goes out once.
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+
+    try {
+      await this.sendReminders('start', now);
+      await this.sendReminders('end', now);
+    } catch (error) {
+      this.logger.error('Watchlist reminder tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async sendReminders(kind: ReminderKind, now: Date): Promise<void> {
+    const offsets = this.watchlistService.getReminderMinutes(kind);
+    if (offsets.length === 0) {
+      return;
+    }
+    const horizon = new Date(now.getTime() + Math.max(...offsets) * 60_000);
+
+    const auctions = await this.auctionModel
+      .find(
+        kind === 'start'
+          ? {
+              status: { $in: [AuctionStatus.PENDING, AuctionStatus.ACTIVE] },
+              startTime: {
+                $gt: new Date(now.getTime() - STARTED_GRACE_MS),
+                $lte: horizon,
+              },
+            }
+          : {
+              status: AuctionStatus.ACTIVE,
+              endTime: { $gt: now, $lte: horizon },
+            },
+      )
+      .exec();
+
+    for (const auction of auctions) {
+      await this.remindWatchers(auction, kind, now);
+    }
+  }
+
+  // A watcher who missed earlier reminders only gets the most imminent one
+  private async remindWatchers(
+    auction: HydratedDocument<Auction>,
+    kind: ReminderKind,
+    now: Date,
+  ): Promise<void> {
+    const dueKeys = this.watchlistService
+      .getDueReminders(auction, now)
+      .filter((key) => key.startsWith(`${kind}:`));
+    if (dueKeys.length === 0) {
+      return;
+    }
+    const closestKey = dueKeys[dueKeys.length - 1];
+    const auctionId = String(auction._id);
+
+    const watches = await this.watchModel
+      .find({ auctionId, remindersSent: { $ne: closestKey } })
+      .exec();
+
+    for (const watch of watches) {
+      const claimed = await this.watchModel
+        .updateOne(
+          { _id: watch._id, remindersSent: { $ne: closestKey } },
+          { $addToSet: { remindersSent: { $each: dueKeys } } },
+        )
+        .exec();
+      if (claimed.modifiedCount === 0) {
+        continue;
+      }
+
+      await this.rabbitmqService.publishNotification(
+        this.buildReminder(auction, kind, watch.userId.toString(), now),
+      );
+    }
+  }
+
+  private buildReminder(
+    auction: HydratedDocument<Auction>,
+    kind: ReminderKind,
+    userId: string,
+    now: Date,
+  ) {
+    const time = kind === 'start' ? auction.startTime : auction.endTime;
+    const minutesLeft = Math.max(
+      0,
+      Math.round((time.getTime() - now.getTime()) / 60_000),
+    );
+    const lead = this.formatLead(minutesLeft);
+
+    return {
+      type: kind === 'start' ? 'AUCTION_STARTING_SOON' : 'AUCTION_ENDING_SOON',
+      userId,
+      auctionId: String(auction._id),
+      message:
+        kind === 'start'
+          ? minutesLeft === 0
+            ? `"${auction.title}" has started`
+            : `"${auction.title}" starts in ${lead}`
+          : minutesLeft === 0
+            ? `"${auction.title}" is ending now`
+            : `"${auction.title}" ends in ${lead}`,
+      data: {
+        auctionTitle: auction.title,
+        [kind === 'start' ? 'startTime' : 'endTime']: time,
+        minutesLeft,
+        currentHighestBid: auction.currentHighestBid,
+      },
+    };
+  }
+
+  private formatLead(minutes: number): string {
+    if (minutes < 120) {
+      return minutes === 1 ? '1 minute' : `${minutes} minutes`;
+    }
+    return `${Math.round(minutes / 60)} hours`;
+  }
+}
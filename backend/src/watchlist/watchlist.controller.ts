@@ -0,0 +1,51 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { WatchlistService } from './watchlist.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import type { IAuthenticatedRequest } from '../common/interfaces/auction.interface';
+
+@Controller('watchlist')
+@UseGuards(ThrottlerGuard, JwtAuthGuard)
+export class WatchlistController {
+  constructor(private readonly watchlistService: WatchlistService) {}
+
+  @Get()
+  findMine(@Request() req: IAuthenticatedRequest) {
+    return this.watchlistService.findForUser(req.user._id.toString());
+  }
+
+  @Get(':auctionId')
+  getWatchState(
+    @Request() req: IAuthenticatedRequest,
+    @Param('auctionId') auctionId: string,
+  ) {
+    return this.watchlistService.getWatchState(
+      req.user._id.toString(),
+      auctionId,
+    );
+  }
+
+  @Post(':auctionId')
+  watch(
+    @Request() req: IAuthenticatedRequest,
+    @Param('auctionId') auctionId: string,
+  ) {
+    return this.watchlistService.watch(req.user._id.toString(), auctionId);
+  }
+
+  @Delete(':auctionId')
+  unwatch(
+    @Request() req: IAuthenticatedRequest,
+    @Param('auctionId') auctionId: string,
+  ) {
+    return this.watchlistService.unwatch(req.user._id.toString(), auctionId);
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { WatchlistController } from './watchlist.controller';
+import { WatchlistService } from './watchlist.service';
+import { WatchlistReminderService } from './watchlist-reminder.service';
+import { Watch, WatchSchema } from '../database/schemas/watch.schema';
+import { Auction, AuctionSchema } from '../database/schemas/auction.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Watch.name, schema: WatchSchema },
+      { name: Auction.name, schema: AuctionSchema },
+    ]),
+  ],
+  controllers: [WatchlistController],
+  providers: [WatchlistService, WatchlistReminderService],
+  exports: [WatchlistService],
+})
+export class WatchlistModule {}
@@ -0,0 +1,130 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Watch } from '../database/schemas/watch.schema';
+import { Auction } from '../database/schemas/auction.schema';
+import { RedisService } from '../redis/redis.service';
+import { AuctionStatus } from '../common/enums/auction.enum';
+
+export type ReminderKind = 'start' | 'end';
+
+// Watching follows an auction without joining its room; the counts are
+// kept on the auction so lists can show them
+@Injectable()
+export class WatchlistService {
+  constructor(
+    @InjectModel(Watch.name) private watchModel: Model<Watch>,
+    @InjectModel(Auction.name) private auctionModel: Model<Auction>,
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async watch(userId: string, auctionId: string) {
+    const auction = await this.findAuction(auctionId);
+    if (auction.status === AuctionStatus.ENDED) {
+      throw new BadRequestException('Ended auctions cannot be watched');
+    }
+
+    try {
+      await this.watchModel.create({
+        userId,
+        auctionId,
+        // Reminders whose time has passed are not sent late
+        remindersSent: this.getDueReminders(auction, new Date()),
+      });
+    } catch (error) {
+      // Already watching
+      if ((error as { code?: number }).code !== 11000) {
+        throw error;
+      }
+      return this.getWatchState(userId, auctionId);
+    }
+
+    await this.changeWatcherCount(auctionId, 1);
+    return this.getWatchState(userId, auctionId);
+  }
+
+  async unwatch(userId: string, auctionId: string) {
+    const result = await this.watchModel
+      .deleteOne({ userId, auctionId })
+      .exec();
+    if (result.deletedCount === 0) {
+      throw new NotFoundException('Auction is not on your watchlist');
+    }
+
+    await this.changeWatcherCount(auctionId, -1);
+    return this.getWatchState(userId, auctionId);
+  }
+
+  // Newest first; auctions deleted since are left out
+  async findForUser(userId: string) {
+    const watches = await this.watchModel
+      .find({ userId })
+      .populate<{ auctionId: Auction | null }>('auctionId')
+      .sort({ createdAt: -1 })
+      .exec();
+
+    return watches
+      .filter((watch) => watch.auctionId)
+      .map((watch) => ({
+        auction: watch.auctionId,
+        watchedAt: watch.get('createdAt') as Date,
+      }));
+  }
+
+  async getWatchState(userId: string, auctionId: string) {
+    const [auction, watch] = await Promise.all([
+      this.findAuction(auctionId),
+      this.watchModel.exists({ userId, auctionId }),
+    ]);
+    return {
+      auctionId,
+      watching: !!watch,
+      watcherCount: auction.watcherCount ?? 0,
+    };
+  }
+
+  getReminderMinutes(kind: ReminderKind): number[] {
+    return this.configService.get<number[]>(
+      kind === 'start'
+        ? 'watchlist.startReminderMinutes'
+        : 'watchlist.endReminderMinutes',
+      kind === 'start' ? [60, 0] : [60, 10],
+    );
+  }
+
+  // Reminder keys whose time has come, as stored in Watch.remindersSent
+  getDueReminders(
+    auction: Pick<Auction, 'startTime' | 'endTime'>,
+    now: Date,
+  ): string[] {
+    return (['start', 'end'] as const).flatMap((kind) => {
+      const time = kind === 'start' ? auction.startTime : auction.endTime;
+      return this.getReminderMinutes(kind)
+        .filter((minutes) => time.getTime() - minutes * 60_000 <= now.getTime())
+        .map((minutes) => `${kind}:${minutes}`);
+    });
+  }
+
+  private async findAuction(auctionId: string) {
+    const auction = Types.ObjectId.isValid(auctionId)
+      ? await this.auctionModel.findById(auctionId).exec()
+      : null;
+    if (!auction) {
+      throw new NotFoundException('Auction not found');
+    }
+    return auction;
+  }
+
+  private async changeWatcherCount(auctionId: string, change: 1 | -1) {
+    await this.auctionModel
+      .updateOne({ _id: auctionId }, { $inc: { watcherCount: change } })
+      .exec();
+    await this.redisService.invalidateAuctionCache(auctionId);
+  }
+}
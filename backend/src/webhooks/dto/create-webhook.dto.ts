@@ -0,0 +1,32 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsEnum,
+  IsMongoId,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { WebhookEvent } from '../../common/enums/auction.enum';
+
+export class CreateWebhookDto {
+  // Public https endpoints only; the host is also resolved and checked
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  url: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsEnum(WebhookEvent, { each: true })
+  events: WebhookEvent[];
+
+  // Subscribes the organization instead of the caller; owners only
+  @IsOptional()
+  @IsMongoId()
+  organizationId?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+}
@@ -0,0 +1,33 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { WebhookEvent } from '../../common/enums/auction.enum';
+
+export class UpdateWebhookDto {
+  @IsOptional()
+  // Public https endpoints only; the host is also resolved and checked
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  url?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsEnum(WebhookEvent, { each: true })
+  events?: WebhookEvent[];
+
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+}
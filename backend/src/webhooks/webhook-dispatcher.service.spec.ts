@@ -0,0 +1,262 @@
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+import { signWebhookPayload } from './webhook-signature';
+import * as webhookUrl from './webhook-url';
+import { WebhookSubscription } from '../database/schemas/webhook-subscription.schema';
+import { WebhookDelivery } from '../database/schemas/webhook-delivery.schema';
+import {
+  RabbitmqService,
+  WebhookDeliveryMessage,
+} from '../rabbitmq/rabbitmq-simple.service';
+import {
+  WebhookDeliveryStatus,
+  WebhookEvent,
+} from '../common/enums/auction.enum';
+
+interface Received {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+// A local endpoint that answers with the queued status codes, then 200
+async function startReceiver(statusCodes: number[]) {
+  const received: Received[] = [];
+  const server: Server = createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk: Buffer) => (body += chunk.toString()));
+    request.on('end', () => {
+      received.push({ headers: request.headers, body });
+      response.statusCode = statusCodes.shift() ?? 200;
+      if (response.statusCode >= 300 && response.statusCode < 400) {
+        response.setHeader('Location', '/moved');
+      }
+      response.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/hooks`,
+    received,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+// Awaitable stand-in for a mongoose query
+const query = <T>(value: T) => {
+  const chain = {
+    select: () => chain,
+    exec: () => Promise.resolve(value),
+  };
+  return chain;
+};
+
+async function createHarness(url: string, maxAttempts = 3) {
+  const secret = 'whsec_test';
+  const subscription = {
+    _id: new Types.ObjectId(),
+    url,
+    secret,
+    active: true,
+  };
+  const delivery: Record<string, any> = {
+    _id: new Types.ObjectId(),
+    subscriptionId: subscription._id,
+    event: WebhookEvent.BID_ACCEPTED,
+    eventId: 'evt-1',
+    payload: {
+      id: 'evt-1',
+      event: WebhookEvent.BID_ACCEPTED,
+      data: { auctionId: 'auction-1', bidAmount: 52000 },
+    },
+    status: WebhookDeliveryStatus.QUEUED,
+    attempts: [],
+  };
+  const retries: WebhookDeliveryMessage[] = [];
+  const deadLetters: WebhookDeliveryMessage[] = [];
+
+  const module = await Test.createTestingModule({
+    providers: [
+      WebhookDispatcherService,
+      {
+        provide: getModelToken(WebhookSubscription.name),
+        useValue: { findById: () => query(subscription) },
+      },
+      {
+        provide: getModelToken(WebhookDelivery.name),
+        useValue: {
+          findById: () => query(delivery),
+          updateOne: (
+            _filter: unknown,
+            update: {
+              $set: Record<string, unknown>;
+              $unset?: Record<string, 1>;
+              $push: { attempts: unknown };
+            },
+          ) => {
+            Object.assign(delivery, update.$set);
+            Object.keys(update.$unset ?? {}).forEach(
+              (key) => delete delivery[key],
+            );
+            delivery.attempts = [
+              ...(delivery.attempts as unknown[]),
+              update.$push.attempts,
+            ];
+            return query({ modifiedCount: 1 });
+          },
+        },
+      },
+      {
+        provide: RabbitmqService,
+        useValue: {
+          getWebhookRetryDelay: (failedAttempt: number) =>
+            30000 * 2 ** (failedAttempt - 1),
+          scheduleWebhookRetry: (message: WebhookDeliveryMessage) => {
+            retries.push(message);
+            return Promise.resolve();
+          },
+          publishWebhookDeadLetter: (message: WebhookDeliveryMessage) => {
+            deadLetters.push(message);
+            return Promise.resolve();
+          },
+        },
+      },
+      {
+        provide: ConfigService,
+        useValue: {
+          get: (key: string, fallback?: unknown) =>
+            key === 'webhooks.maxAttempts' ? maxAttempts : fallback,
+        },
+      },
+    ],
+  }).compile();
+
+  return {
+    dispatcher: module.get(WebhookDispatcherService),
+    delivery,
+    secret,
+    retries,
+    deadLetters,
+  };
+}
+
+describe('WebhookDispatcherService', () => {
+  // The receiver listens on loopback, which real deliveries refuse
+  beforeEach(() => {
+    jest
+      .spyOn(webhookUrl, 'assertPublicWebhookUrl')
+      .mockResolvedValue(undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('signs the payload and retries a failed delivery with backoff', async () => {
+    const receiver = await startReceiver([503]);
+    try {
+      const harness = await createHarness(receiver.url);
+      const deliveryId = String(harness.delivery._id);
+      const now = new Date('2026-04-01T09:00:00Z');
+
+      await harness.dispatcher.attempt({ deliveryId, attempt: 1 }, now);
+
+      expect(harness.retries).toEqual([{ deliveryId, attempt: 2 }]);
+      expect(harness.delivery).toMatchObject({
+        status: WebhookDeliveryStatus.QUEUED,
+        nextAttemptAt: new Date('2026-04-01T09:00:30Z'),
+        attempts: [{ success: false, statusCode: 503 }],
+      });
+
+      await harness.dispatcher.attempt({ deliveryId, attempt: 2 }, now);
+
+      expect(harness.delivery.status).toBe(WebhookDeliveryStatus.SENT);
+      expect(harness.delivery.attempts).toHaveLength(2);
+      expect(receiver.received).toHaveLength(2);
+
+      const { headers, body } = receiver.received[1];
+      expect(JSON.parse(body)).toEqual(harness.delivery.payload);
+      expect(headers['x-webhook-event']).toBe('bid.accepted');
+      expect(headers['x-webhook-id']).toBe('evt-1');
+      expect(headers['x-webhook-signature']).toBe(
+        signWebhookPayload(
+          harness.secret,
+          Number(headers['x-webhook-timestamp']),
+          body,
+        ),
+      );
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('dead-letters a delivery once its attempts are used up', async () => {
+    const receiver = await startReceiver([500, 500]);
+    try {
+      const harness = await createHarness(receiver.url, 2);
+      const deliveryId = String(harness.delivery._id);
+
+      await harness.dispatcher.attempt({ deliveryId, attempt: 1 });
+      await harness.dispatcher.attempt({ deliveryId, attempt: 2 });
+
+      expect(harness.retries).toHaveLength(1);
+      expect(harness.deadLetters).toEqual([
+        expect.objectContaining({ deliveryId, attempt: 2 }),
+      ]);
+      expect(harness.delivery.status).toBe(WebhookDeliveryStatus.FAILED);
+      expect(harness.delivery.nextAttemptAt).toBeUndefined();
+
+      // Nothing is sent for a delivery that is no longer queued
+      await harness.dispatcher.attempt({ deliveryId, attempt: 3 });
+      expect(receiver.received).toHaveLength(2);
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('does not follow a redirect', async () => {
+    const receiver = await startReceiver([302]);
+    try {
+      const harness = await createHarness(receiver.url);
+      const deliveryId = String(harness.delivery._id);
+
+      await harness.dispatcher.attempt({ deliveryId, attempt: 1 });
+
+      expect(receiver.received).toHaveLength(1);
+      expect(harness.retries).toEqual([{ deliveryId, attempt: 2 }]);
+      expect(harness.delivery.attempts).toMatchObject([
+        { success: false, statusCode: 302 },
+      ]);
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('checks the address again before each attempt', async () => {
+    jest.restoreAllMocks();
+    const receiver = await startReceiver([]);
+    try {
+      const harness = await createHarness(
+        receiver.url.replace('http://', 'https://'),
+      );
+      const deliveryId = String(harness.delivery._id);
+
+      await harness.dispatcher.attempt({ deliveryId, attempt: 1 });
+
+      expect(receiver.received).toHaveLength(0);
+      expect(harness.retries).toEqual([{ deliveryId, attempt: 2 }]);
+      expect(harness.delivery.attempts).toMatchObject([
+        {
+          success: false,
+          error: 'Webhook host 127.0.0.1 is not a public address',
+        },
+      ]);
+    } finally {
+      await receiver.close();
+    }
+  });
+});
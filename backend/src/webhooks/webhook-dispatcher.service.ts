@@ -0,0 +1,193 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { HydratedDocument, Model } from 'mongoose';
+import { WebhookSubscription } from '../database/schemas/webhook-subscription.schema';
+import {
+  WebhookAttempt,
+  WebhookDelivery,
+} from '../database/schemas/webhook-delivery.schema';
+import {
+  RabbitmqService,
+  WebhookDeliveryMessage,
+} from '../rabbitmq/rabbitmq-simple.service';
+import { WebhookDeliveryStatus } from '../common/enums/auction.enum';
+import { WEBHOOK_HEADERS, signWebhookPayload } from './webhook-signature';
+import { assertPublicWebhookUrl } from './webhook-url';
+
+type Delivery = HydratedDocument<WebhookDelivery>;
+
+// Consumes the webhook delivery queue. Each message is one attempt: a
+// failure schedules the next one through the retry queues, and the last
+// failure parks the delivery in the dead-letter queue.
+@Injectable()
+export class WebhookDispatcherService implements OnModuleInit {
+  private readonly logger = new Logger(WebhookDispatcherService.name);
+
+  constructor(
+    @InjectModel(WebhookSubscription.name)
+    private webhookSubscriptionModel: Model<WebhookSubscription>,
+    @InjectModel(WebhookDelivery.name)
+    private webhookDeliveryModel: Model<WebhookDelivery>,
+    private readonly rabbitmqService: RabbitmqService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async onModuleInit() {
+    await this.rabbitmqService.startWebhookConsumer((message) =>
+      this.attempt(message),
+    );
+  }
+
+  async attempt(
+    message: WebhookDeliveryMessage,
+    now: Date = new Date(),
+  ): Promise<void> {
+    const delivery = await this.webhookDeliveryModel
+      .findById(message.deliveryId)
+      .exec();
+    if (!delivery || delivery.status !== WebhookDeliveryStatus.QUEUED) {
+      return;
+    }
+
+    const subscription = await this.webhookSubscriptionModel
+      .findById(delivery.subscriptionId)
+      .select('+secret')
+      .exec();
+
+    // Disabled since the event was queued; retrying will not help
+    if (!subscription?.active) {
+      await this.fail(
+        delivery,
+        message,
+        now,
+        {
+          attemptedAt: now,
+          success: false,
+          error: 'Webhook is disabled',
+        },
+        true,
+      );
+      return;
+    }
+
+    const result = await this.send(subscription, delivery, now);
+    if (result.success) {
+      await this.webhookDeliveryModel
+        .updateOne(
+          { _id: delivery._id },
+          {
+            $set: { status: WebhookDeliveryStatus.SENT, deliveredAt: now },
+            $unset: { nextAttemptAt: 1 },
+            $push: { attempts: result },
+          },
+        )
+        .exec();
+      return;
+    }
+
+    await this.fail(delivery, message, now, result);
+  }
+
+  private async send(
+    subscription: HydratedDocument<WebhookSubscription>,
+    delivery: Delivery,
+    now: Date,
+  ): Promise<WebhookAttempt> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(now.getTime() / 1000);
+    const startedAt = Date.now();
+
+    try {
+      // The host may have been pointed at a private address since the
+      // webhook was saved
+      await assertPublicWebhookUrl(subscription.url);
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        // A redirect would get around the address check, so it counts as
+        // a failed attempt
+        redirect: 'manual',
+        headers: {
+          'Content-Type': 'application/json',
+          [WEBHOOK_HEADERS.EVENT]: delivery.event,
+          [WEBHOOK_HEADERS.EVENT_ID]: delivery.eventId,
+          [WEBHOOK_HEADERS.DELIVERY_ID]: String(delivery._id),
+          [WEBHOOK_HEADERS.TIMESTAMP]: String(timestamp),
+          [WEBHOOK_HEADERS.SIGNATURE]: signWebhookPayload(
+            subscription.secret,
+            timestamp,
+            body,
+          ),
+        },
+        body,
+        signal: AbortSignal.timeout(
+          this.configService.get<number>('webhooks.timeoutMs', 10000),
+        ),
+      });
+
+      return {
+        attemptedAt: now,
+        success: response.ok,
+        statusCode: response.status,
+        ...(!response.ok && { error: `Responded with ${response.status}` }),
+        durationMs: Date.now() - startedAt,
+      };
+    } catch (error) {
+      return {
+        attemptedAt: now,
+        success: false,
+        error: (error as Error).message,
+        durationMs: Date.now() - startedAt,
+      };
+    }
+  }
+
+  private async fail(
+    delivery: Delivery,
+    message: WebhookDeliveryMessage,
+    now: Date,
+    result: WebhookAttempt,
+    final = false,
+  ): Promise<void> {
+    const maxAttempts = this.configService.get<number>(
+      'webhooks.maxAttempts',
+      6,
+    );
+
+    if (!final && message.attempt < maxAttempts) {
+      const retryAt = new Date(
+        now.getTime() +
+          this.rabbitmqService.getWebhookRetryDelay(message.attempt),
+      );
+      await this.webhookDeliveryModel
+        .updateOne(
+          { _id: delivery._id },
+          { $set: { nextAttemptAt: retryAt }, $push: { attempts: result } },
+        )
+        .exec();
+      await this.rabbitmqService.scheduleWebhookRetry({
+        deliveryId: message.deliveryId,
+        attempt: message.attempt + 1,
+      });
+      return;
+    }
+
+    await this.webhookDeliveryModel
+      .updateOne(
+        { _id: delivery._id },
+        {
+          $set: { status: WebhookDeliveryStatus.FAILED },
+          $unset: { nextAttemptAt: 1 },
+          $push: { attempts: result },
+        },
+      )
+      .exec();
+    await this.rabbitmqService.publishWebhookDeadLetter({
+      ...message,
+      error: result.error,
+    });
+    this.logger.warn(
+      `Webhook delivery ${message.deliveryId} failed after ${message.attempt} attempts`,
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { createHmac, randomBytes } from 'crypto';
+
+// Receivers recompute the HMAC-SHA256 of "<timestamp>.<raw body>" with
+// their secret and compare it with the signature header. Signing the
+// timestamp lets them reject replays of old deliveries.
+export const WEBHOOK_HEADERS = {
+  EVENT: 'X-Webhook-Event',
+  EVENT_ID: 'X-Webhook-Id',
+  DELIVERY_ID: 'X-Webhook-Delivery',
+  TIMESTAMP: 'X-Webhook-Timestamp',
+  SIGNATURE: 'X-Webhook-Signature',
+};
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
@@ -0,0 +1,66 @@
+import { assertPublicWebhookUrl, HostLookup } from './webhook-url';
+
+const resolvesTo =
+  (...addresses: string[]): HostLookup =>
+  () =>
+    Promise.resolve(
+      addresses.map((address) => ({
+        address,
+        family: address.includes(':') ? 6 : 4,
+      })),
+    );
+
+describe('assertPublicWebhookUrl', () => {
+  it.each([
+    'https://127.0.0.1/hooks',
+    'https://2130706433/hooks',
+    'https://10.1.2.3/hooks',
+    'https://172.20.0.1/hooks',
+    'https://192.168.1.10/hooks',
+    'https://169.254.169.254/latest/meta-data/',
+    'https://0.0.0.0/hooks',
+    'https://[::1]/hooks',
+    'https://[::ffff:169.254.169.254]/hooks',
+    'https://[fd12:3456::1]/hooks',
+    'https://[fe80::1]/hooks',
+  ])('refuses %s', async (url) => {
+    await expect(
+      assertPublicWebhookUrl(url, resolvesTo('93.184.216.34')),
+    ).rejects.toThrow('is not a public address');
+  });
+
+  it('refuses anything but https', async () => {
+    await expect(
+      assertPublicWebhookUrl(
+        'http://hooks.example.com/in',
+        resolvesTo('93.184.216.34'),
+      ),
+    ).rejects.toThrow('Webhook URL must use https');
+  });
+
+  it('refuses a host with any private address among its records', async () => {
+    await expect(
+      assertPublicWebhookUrl(
+        'https://hooks.example.com/in',
+        resolvesTo('93.184.216.34', '10.0.0.7'),
+      ),
+    ).rejects.toThrow('Webhook host hooks.example.com is not a public address');
+  });
+
+  it('refuses a host that does not resolve', async () => {
+    await expect(
+      assertPublicWebhookUrl('https://hooks.example.com/in', () =>
+        Promise.reject(new Error('ENOTFOUND')),
+      ),
+    ).rejects.toThrow('Webhook host hooks.example.com does not resolve');
+  });
+
+  it('accepts a host that resolves to public addresses only', async () => {
+    await expect(
+      assertPublicWebhookUrl(
+        'https://hooks.example.com/in',
+        resolvesTo('93.184.216.34', '2606:2800:220:1::1'),
+      ),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,88 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+// Addresses a webhook must never reach: this host, private and shared
+// networks, and link-local ranges such as the cloud metadata service at
+// 169.254.169.254. BlockList matches IPv4-mapped IPv6 addresses against
+// the IPv4 ranges; NAT64 and 6to4 addresses are refused whole, since they
+// can wrap any of them.
+const PRIVATE_ADDRESSES = new BlockList();
+(
+  [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 3],
+  ] as const
+).forEach(([network, prefix]) =>
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4'),
+);
+(
+  [
+    ['::', 127],
+    ['64:ff9b::', 96],
+    ['2002::', 16],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8],
+  ] as const
+).forEach(([network, prefix]) =>
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6'),
+);
+
+export class UnsafeWebhookUrlError extends Error {}
+
+export type HostLookup = (
+  hostname: string,
+) => Promise<{ address: string; family: number }[]>;
+
+const lookupAll: HostLookup = (hostname) =>
+  lookup(hostname, { all: true, verbatim: true });
+
+// Throws UnsafeWebhookUrlError unless the URL is https and its host
+// resolves to public addresses only. Checked when the URL is saved and
+// again right before each request, since DNS can change in between.
+export async function assertPublicWebhookUrl(
+  url: string,
+  resolve: HostLookup = lookupAll,
+): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new UnsafeWebhookUrlError('Webhook URL is not a valid URL');
+  }
+  if (parsed.protocol !== 'https:') {
+    throw new UnsafeWebhookUrlError('Webhook URL must use https');
+  }
+
+  // The URL keeps the brackets around an IPv6 literal
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: { address: string; family: number }[];
+  if (isIP(host)) {
+    addresses = [{ address: host, family: isIP(host) }];
+  } else {
+    try {
+      addresses = await resolve(host);
+    } catch {
+      throw new UnsafeWebhookUrlError(`Webhook host ${host} does not resolve`);
+    }
+  }
+
+  if (
+    addresses.length === 0 ||
+    addresses.some(({ address, family }) =>
+      PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'),
+    )
+  ) {
+    throw new UnsafeWebhookUrlError(
+      `Webhook host ${host} is not a public address`,
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { WebhooksService } from './webhooks.service';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { WebhookDeliveryStatus } from '../common/enums/auction.enum';
+import type { IAuthenticatedRequest } from '../common/interfaces/auction.interface';
+
+@Controller('webhooks')
+@UseGuards(ThrottlerGuard, JwtAuthGuard)
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  @Post()
+  create(
+    @Request() req: IAuthenticatedRequest,
+    @Body() createDto: CreateWebhookDto,
+  ) {
+    return this.webhooksService.create(req.user._id.toString(), createDto);
+  }
+
+  // The caller's own webhooks, or an organization's for its owners
+  @Get()
+  findMine(
+    @Request() req: IAuthenticatedRequest,
+    @Query('organizationId') organizationId?: string,
+  ) {
+    return this.webhooksService.findForOwner(
+      req.user._id.toString(),
+      organizationId,
+    );
+  }
+
+  @Post('deliveries/:deliveryId/redeliver')
+  @HttpCode(HttpStatus.ACCEPTED)
+  redeliver(
+    @Request() req: IAuthenticatedRequest,
+    @Param('deliveryId') deliveryId: string,
+  ) {
+    return this.webhooksService.redeliver(req.user._id.toString(), deliveryId);
+  }
+
+  @Patch(':id')
+  update(
+    @Request() req: IAuthenticatedRequest,
+    @Param('id') id: string,
+    @Body() updateDto: UpdateWebhookDto,
+  ) {
+    return this.webhooksService.update(req.user._id.toString(), id, updateDto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  remove(@Request() req: IAuthenticatedRequest, @Param('id') id: string) {
+    return this.webhooksService.remove(req.user._id.toString(), id);
+  }
+
+  @Post(':id/rotate-secret')
+  @HttpCode(HttpStatus.OK)
+  rotateSecret(@Request() req: IAuthenticatedRequest, @Param('id') id: string) {
+    return this.webhooksService.rotateSecret(req.user._id.toString(), id);
+  }
+
+  // Newest first, with every attempt
+  @Get(':id/deliveries')
+  findDeliveries(
+    @Request() req: IAuthenticatedRequest,
+    @Param('id') id: string,
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+    @Query('status') status?: WebhookDeliveryStatus,
+  ) {
+    return this.webhooksService.findDeliveries(
+      req.user._id.toString(),
+      id,
+      page,
+      limit,
+      status,
+    );
+  }
+}
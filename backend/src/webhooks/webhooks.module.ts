@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { WebhooksController } from './webhooks.controller';
+import { WebhooksService } from './webhooks.service';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+import {
+  WebhookSubscription,
+  WebhookSubscriptionSchema,
+} from '../database/schemas/webhook-subscription.schema';
+import {
+  WebhookDelivery,
+  WebhookDeliverySchema,
+} from '../database/schemas/webhook-delivery.schema';
+import { OrganizationsModule } from '../organizations/organizations.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: WebhookSubscription.name, schema: WebhookSubscriptionSchema },
+      { name: WebhookDelivery.name, schema: WebhookDeliverySchema },
+    ]),
+    OrganizationsModule,
+  ],
+  controllers: [WebhooksController],
+  providers: [WebhooksService, WebhookDispatcherService],
+  exports: [WebhooksService],
+})
+export class WebhooksModule {}
@@ -0,0 +1,313 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { HydratedDocument, Model, Types } from 'mongoose';
+import { randomUUID } from 'crypto';
+import { WebhookSubscription } from '../database/schemas/webhook-subscription.schema';
+import { WebhookDelivery } from '../database/schemas/webhook-delivery.schema';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { RabbitmqService } from '../rabbitmq/rabbitmq-simple.service';
+import {
+  OrganizationRole,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+} from '../common/enums/auction.enum';
+import { generateWebhookSecret } from './webhook-signature';
+import { assertPublicWebhookUrl } from './webhook-url';
+
+type Subscription = HydratedDocument<WebhookSubscription>;
+
+// Whose subscriptions hear an event
+export interface WebhookRecipients {
+  userIds?: (string | undefined)[];
+  organizationIds?: (string | undefined)[];
+}
+
+// Manages subscriptions and turns events into queued deliveries. Sending
+// and retrying is the WebhookDispatcherService's job.
+@Injectable()
+export class WebhooksService {
+  private readonly logger = new Logger(WebhooksService.name);
+
+  constructor(
+    @InjectModel(WebhookSubscription.name)
+    private webhookSubscriptionModel: Model<WebhookSubscription>,
+    @InjectModel(WebhookDelivery.name)
+    private webhookDeliveryModel: Model<WebhookDelivery>,
+    private readonly organizationsService: OrganizationsService,
+    private readonly rabbitmqService: RabbitmqService,
+  ) {}
+
+  // The secret is returned here and on rotation only
+  async create(userId: string, createDto: CreateWebhookDto) {
+    const { organizationId, events, ...fields } = createDto;
+    if (organizationId) {
+      await this.assertOrganizationOwner(organizationId, userId);
+    }
+    await this.assertPublicUrl(fields.url);
+
+    const secret = generateWebhookSecret();
+    const subscription = await this.webhookSubscriptionModel.create({
+      ...fields,
+      events: [...new Set(events)],
+      ...(organizationId ? { organizationId } : { userId }),
+      createdBy: userId,
+      secret,
+    });
+
+    return { ...this.toView(subscription), secret };
+  }
+
+  async findForOwner(userId: string, organizationId?: string) {
+    if (organizationId) {
+      await this.assertOrganizationOwner(organizationId, userId);
+    }
+
+    const subscriptions = await this.webhookSubscriptionModel
+      .find(organizationId ? { organizationId } : { userId })
+      .sort({ createdAt: -1 })
+      .exec();
+    return subscriptions.map((subscription) => this.toView(subscription));
+  }
+
+  async update(userId: string, id: string, updateDto: UpdateWebhookDto) {
+    const subscription = await this.findManageable(userId, id);
+    if (updateDto.url) {
+      await this.assertPublicUrl(updateDto.url);
+    }
+    subscription.set({
+      ...updateDto,
+      ...(updateDto.events && { events: [...new Set(updateDto.events)] }),
+    });
+    await subscription.save();
+    return this.toView(subscription);
+  }
+
+  async remove(userId: string, id: string): Promise<void> {
+    const subscription = await this.findManageable(userId, id);
+    await this.webhookSubscriptionModel
+      .deleteOne({ _id: subscription._id })
+      .exec();
+    await this.webhookDeliveryModel
+      .deleteMany({ subscriptionId: subscription._id })
+      .exec();
+  }
+
+  // The old secret stops working at once
+  async rotateSecret(userId: string, id: string) {
+    const subscription = await this.findManageable(userId, id);
+    const secret = generateWebhookSecret();
+    await this.webhookSubscriptionModel
+      .updateOne({ _id: subscription._id }, { $set: { secret } })
+      .exec();
+    return { id: String(subscription._id), secret };
+  }
+
+  async findDeliveries(
+    userId: string,
+    id: string,
+    page: number = 1,
+    limit: number = 20,
+    status?: WebhookDeliveryStatus,
+  ) {
+    const subscription = await this.findManageable(userId, id);
+    page = Math.max(page, 1);
+    limit = Math.min(Math.max(limit, 1), 100);
+    const filter = {
+      subscriptionId: subscription._id,
+      ...(status && { status }),
+    };
+
+    const [deliveries, total] = await Promise.all([
+      this.webhookDeliveryModel
+        .find(filter)
+        .sort({ createdAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.webhookDeliveryModel.countDocuments(filter),
+    ]);
+
+    return {
+      deliveries: deliveries.map((delivery) => this.toDeliveryView(delivery)),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  // Sends a delivery again with a fresh set of attempts, keeping the same
+  // payload and event id. Deliveries still being retried are left alone.
+  async redeliver(userId: string, deliveryId: string) {
+    const delivery = Types.ObjectId.isValid(deliveryId)
+      ? await this.webhookDeliveryModel.findById(deliveryId).exec()
+      : null;
+    if (!delivery) {
+      throw new NotFoundException('Webhook delivery not found');
+    }
+    await this.findManageable(userId, delivery.subscriptionId.toString());
+
+    const requeued = await this.webhookDeliveryModel
+      .findOneAndUpdate(
+        {
+          _id: delivery._id,
+          status: { $ne: WebhookDeliveryStatus.QUEUED },
+        },
+        {
+          $set: { status: WebhookDeliveryStatus.QUEUED },
+          $unset: { nextAttemptAt: 1 },
+        },
+        { new: true },
+      )
+      .exec();
+    if (!requeued) {
+      throw new BadRequestException('Delivery is already queued');
+    }
+
+    await this.rabbitmqService.publishWebhookDelivery({
+      deliveryId: String(requeued._id),
+      attempt: 1,
+    });
+    return this.toDeliveryView(requeued);
+  }
+
+  // Queues the event for every active subscription of the recipients that
+  // asked for it. Webhooks are a side effect of bids and auctions, so
+  // failures are logged rather than thrown.
+  async emit(
+    event: WebhookEvent,
+    recipients: WebhookRecipients,
+    data: Record<string, unknown>,
+  ): Promise<void> {
+    try {
+      const userIds = this.distinct(recipients.userIds);
+      const organizationIds = this.distinct(recipients.organizationIds);
+      if (userIds.length === 0 && organizationIds.length === 0) {
+        return;
+      }
+
+      const subscriptions = await this.webhookSubscriptionModel
+        .find({
+          active: true,
+          events: event,
+          $or: [
+            { userId: { $in: userIds } },
+            { organizationId: { $in: organizationIds } },
+          ],
+        })
+        .exec();
+      if (subscriptions.length === 0) {
+        return;
+      }
+
+      const eventId = randomUUID();
+      const payload = {
+        id: eventId,
+        event,
+        createdAt: new Date().toISOString(),
+        data,
+      };
+
+      for (const subscription of subscriptions) {
+        const delivery = await this.webhookDeliveryModel.create({
+          subscriptionId: subscription._id,
+          event,
+          eventId,
+          payload,
+        });
+        await this.rabbitmqService.publishWebhookDelivery({
+          deliveryId: String(delivery._id),
+          attempt: 1,
+        });
+      }
+    } catch (error) {
+      this.logger.error(`Failed to queue ${event} webhooks:`, error);
+    }
+  }
+
+  // Personal subscriptions belong to their user; organization ones are
+  // managed by the organization's owners
+  private async findManageable(
+    userId: string,
+    id: string,
+  ): Promise<Subscription> {
+    const subscription = Types.ObjectId.isValid(id)
+      ? await this.webhookSubscriptionModel.findById(id).exec()
+      : null;
+    if (!subscription) {
+      throw new NotFoundException('Webhook not found');
+    }
+
+    if (subscription.organizationId) {
+      await this.assertOrganizationOwner(
+        subscription.organizationId.toString(),
+        userId,
+      );
+    } else if (subscription.userId?.toString() !== userId) {
+      throw new NotFoundException('Webhook not found');
+    }
+    return subscription;
+  }
+
+  private async assertOrganizationOwner(
+    organizationId: string,
+    userId: string,
+  ) {
+    const { role } = await this.organizationsService.getMembership(
+      organizationId,
+      userId,
+    );
+    if (role !== OrganizationRole.OWNER) {
+      throw new ForbiddenException(
+        'Only owners can manage the organization webhooks',
+      );
+    }
+  }
+
+  private async assertPublicUrl(url: string) {
+    try {
+      await assertPublicWebhookUrl(url);
+    } catch (error) {
+      throw new BadRequestException((error as Error).message);
+    }
+  }
+
+  private distinct(ids: (string | undefined)[] = []): string[] {
+    return [...new Set(ids.filter((id): id is string => !!id))];
+  }
+
+  private toView(subscription: Subscription) {
+    return {
+      id: String(subscription._id),
+      url: subscription.url,
+      events: subscription.events,
+      active: subscription.active,
+      description: subscription.description,
+      userId: subscription.userId?.toString(),
+      organizationId: subscription.organizationId?.toString(),
+      createdAt: subscription.get('createdAt') as Date,
+    };
+  }
+
+  private toDeliveryView(delivery: HydratedDocument<WebhookDelivery>) {
+    return {
+      id: String(delivery._id),
+      subscriptionId: delivery.subscriptionId.toString(),
+      event: delivery.event,
+      eventId: delivery.eventId,
+      payload: delivery.payload,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      nextAttemptAt: delivery.nextAttemptAt,
+      deliveredAt: delivery.deliveredAt,
+      createdAt: delivery.get('createdAt') as Date,
+    };
+  }
+}
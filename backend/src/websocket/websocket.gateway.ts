@@ -9,18 +9,74 @@ import {
   ConnectedSocket,
   WsException,
 } from '@nestjs/websockets';
-import { Server, Socket } from 'socket.io';
+import { DefaultEventsMap, Server, Socket } from 'socket.io';
 import { Logger, UseGuards, UsePipes, ValidationPipe } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { BidsService } from '../bids/bids.service';
+import {
+  BidProcessorService,
+  BidderContext,
+} from '../bids/bid-processor.service';
 import { AuctionsService } from '../auctions/auctions.service';
 import { RedisService } from '../redis/redis.service';
-import { RabbitmqService } from '../rabbitmq/rabbitmq-simple.service';
 import { WebSocketConnectionLimitService } from '../common/guards/websocket-connection-limit.guard';
-import { WebSocketEvents, RabbitMQQueues } from '../common/enums/auction.enum';
+import { SessionsService } from '../auth/sessions.service';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import {
+  AuctionStatus,
+  BidRequestStatus,
+  WebSocketEvents,
+  UserRole,
+} from '../common/enums/auction.enum';
 import { CreateBidDto } from '../bids/dto/create-bid.dto';
+import { IJwtPayload } from '../common/interfaces/auction.interface';
 // import { WsThrottlerGuard } from './guards/ws-throttler.guard';
 
+// What handleConnection stores on an authenticated socket
+interface ClientData {
+  user: Pick<IJwtPayload, 'username' | 'email' | 'roles'> & { _id: string };
+  sessionId: string;
+  organizationId?: string;
+  clientIP: string;
+  subscribedAuctions?: Set<string>;
+}
+
+export type ClientSocket = Socket<
+  DefaultEventsMap,
+  DefaultEventsMap,
+  DefaultEventsMap,
+  ClientData
+>;
+
+interface AuctionEndedEvent {
+  auctionId: string;
+  auctionType?: string;
+  winnerId?: string;
+  winningBid?: number;
+  outcome?: string;
+  reserveMet?: boolean;
+  boughtNow?: boolean;
+}
+
+interface InboxNotification {
+  type: string;
+  auctionId?: string;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+// Published on the global notification channel; the rest of the fields
+// depend on the type
+interface GlobalNotification {
+  type: string;
+  userId: string;
+  sessionId?: string;
+  socketId?: string;
+  notification?: InboxNotification;
+  [field: string]: unknown;
+}
+
 @WebSocketGateway({
   cors: {
     origin: process.env.FRONTEND_URL || 'http://localhost:3001',
@@ -39,10 +95,11 @@ export class WebsocketGateway
   constructor(
     private readonly jwtService: JwtService,
     private readonly bidsService: BidsService,
+    private readonly bidProcessorService: BidProcessorService,
     private readonly auctionsService: AuctionsService,
     private readonly redisService: RedisService,
-    private readonly rabbitmqService: RabbitmqService,
     private readonly connectionLimitService: WebSocketConnectionLimitService,
+    private readonly sessionsService: SessionsService,
   ) {}
 
   afterInit(server: Server) {
@@ -50,7 +107,7 @@ export class WebsocketGateway
     this.setupRedisSubscriptions();
   }
 
-  async handleConnection(socket: Socket) {
+  async handleConnection(socket: ClientSocket) {
     const clientIP = this.getClientIP(socket);
     
     try {
@@ -69,8 +126,12 @@ export class WebsocketGateway
         throw new WsException('No token provided');
       }
 
-      const payload = this.jwtService.verify(token);
+      const payload = this.jwtService.verify<IJwtPayload>(token);
       const userId = payload.sub;
+
+      if (!(await this.sessionsService.isActive(payload.sid))) {
+        throw new WsException('Session has expired or was revoked');
+      }
       
       // 3. Check user-specific connection limits
       const userLimitCheck = await this.connectionLimitService.checkConnectionLimit(
@@ -89,9 +150,15 @@ export class WebsocketGateway
         _id: userId,
         username: payload.username,
         email: payload.email,
+        roles: payload.roles ?? [],
       };
+      socket.data.sessionId = payload.sid;
+      socket.data.organizationId = payload.org;
       socket.data.clientIP = clientIP;
 
+      // Lets a session revocation find this socket on any instance
+      await socket.join(`session:${payload.sid}`);
+
       // 5. Track connections in Redis and local memory
       await this.connectionLimitService.trackConnection(clientIP, socket.id, userId);
       
@@ -115,7 +182,7 @@ export class WebsocketGateway
     }
   }
 
-  async handleDisconnect(socket: Socket) {
+  async handleDisconnect(socket: ClientSocket) {
     try {
       // Untrack connection from Redis
       await this.connectionLimitService.untrackConnection(socket.id);
@@ -141,7 +208,7 @@ export class WebsocketGateway
   @SubscribeMessage(WebSocketEvents.JOIN_AUCTION)
   async handleJoinAuction(
     @MessageBody() auctionId: string,
-    @ConnectedSocket() socket: Socket,
+    @ConnectedSocket() socket: ClientSocket,
   ) {
     try {
       const auction = await this.auctionsService.findOne(auctionId);
@@ -160,37 +227,77 @@ export class WebsocketGateway
       }
       
       if (!socket.data.subscribedAuctions.has(auctionId)) {
-        await this.redisService.subscribeToAuctionBids(auctionId, (data) => {
-          // Broadcast bid update to all clients in the auction room
-          this.server.to(`auction:${auctionId}`).emit(WebSocketEvents.BID_UPDATE, {
-            auctionId: data.data.auctionId,
-            bidId: data.data.bidId,
-            userId: data.data.userId,
-            bidAmount: data.data.bidAmount,
-            timestamp: data.data.timestamp,
-            user: data.data.user,
-          });
-        });
-
-        await this.redisService.subscribeToAuctionEvents(auctionId, (data) => {
-          if (data.type === 'AUCTION_ENDED') {
-            this.server.to(`auction:${auctionId}`).emit(WebSocketEvents.AUCTION_END, {
-              auctionId: data.data.auctionId,
-              winningBid: data.data.winningBid,
-              message: 'Auction has ended',
-            });
-          }
-        });
+        await this.redisService.subscribeToAuctionBids(
+          auctionId,
+          (data: { data: Record<string, unknown> }) => {
+            // Broadcast bid update to all clients in the auction room.
+            // Sealed bids only announce that a bid arrived.
+            if (data.data.sealed) {
+              this.server
+                .to(`auction:${auctionId}`)
+                .emit(WebSocketEvents.BID_UPDATE, {
+                  auctionId: data.data.auctionId,
+                  bidCount: data.data.bidCount,
+                  timestamp: data.data.timestamp,
+                  sealed: true,
+                });
+              return;
+            }
+
+            this.server
+              .to(`auction:${auctionId}`)
+              .emit(WebSocketEvents.BID_UPDATE, {
+                auctionId: data.data.auctionId,
+                bidId: data.data.bidId,
+                userId: data.data.userId,
+                bidAmount: data.data.bidAmount,
+                timestamp: data.data.timestamp,
+                user: data.data.user,
+                isProxy: data.data.isProxy,
+                isBuyNow: data.data.isBuyNow,
+              });
+          },
+        );
+
+        await this.redisService.subscribeToAuctionEvents(
+          auctionId,
+          (data: { type: string; data: AuctionEndedEvent }) => {
+            switch (data.type) {
+              case 'AUCTION_STARTED':
+              case 'AUCTION_EXTENDED':
+              case 'RESERVE_MET':
+              case 'RESERVE_UPDATED':
+              case 'PRICE_DROPPED':
+                this.handleAuctionUpdate(data.data);
+                break;
+              case 'AUCTION_ENDED':
+                this.handleAuctionEnd(data.data);
+                break;
+            }
+          },
+        );
 
         socket.data.subscribedAuctions.add(auctionId);
       }
 
-      // Send current auction state
+      // Send current auction state; Dutch prices are computed fresh rather
+      // than waiting for the next scheduler step
+      const isLiveDutch =
+        this.auctionsService.isDutch(auction) &&
+        auction.status === AuctionStatus.ACTIVE;
       socket.emit(WebSocketEvents.AUCTION_UPDATE, {
         auctionId,
-        currentHighestBid: auction.currentHighestBid,
+        currentHighestBid: isLiveDutch
+          ? this.auctionsService.getDutchPrice(auction)
+          : auction.currentHighestBid,
+        ...(isLiveDutch && {
+          nextPriceAt: this.auctionsService.getNextDutchPriceAt(auction),
+        }),
         bidCount: auction.bidCount,
         status: auction.status,
+        endTime: auction.endTime,
+        reserveMet: await this.auctionsService.checkReserveMet(auctionId),
+        buyNowAvailable: this.auctionsService.isBuyNowAvailable(auction),
       });
 
       // Notify other users
@@ -209,7 +316,7 @@ export class WebsocketGateway
   @SubscribeMessage(WebSocketEvents.LEAVE_AUCTION)
   async handleLeaveAuction(
     @MessageBody() auctionId: string,
-    @ConnectedSocket() socket: Socket,
+    @ConnectedSocket() socket: ClientSocket,
   ) {
     try {
       socket.leave(`auction:${auctionId}`);
@@ -231,26 +338,44 @@ export class WebsocketGateway
   }
 
   @SubscribeMessage(WebSocketEvents.PLACE_BID)
-  @UsePipes(new ValidationPipe({ transform: true }))
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.BIDDER)
+  // Invalid bids are answered on the exception event like other socket
+  // errors, rather than as an internal server error
+  @UsePipes(
+    new ValidationPipe({
+      transform: true,
+      exceptionFactory: (errors) =>
+        new WsException(
+          errors
+            .flatMap((error) => Object.values(error.constraints ?? {}))
+            .join(', '),
+        ),
+    }),
+  )
   async handlePlaceBid(
-    @MessageBody() bidData: { auctionId: string; bidAmount: number },
-    @ConnectedSocket() socket: Socket,
+    @MessageBody() bidData: CreateBidDto,
+    @ConnectedSocket() socket: ClientSocket,
   ) {
     try {
-      const bidPayload = {
+      // Record the request and send it to RabbitMQ for processing
+      const bidRequest = await this.bidProcessorService.submitBid({
         auctionId: bidData.auctionId,
         userId: socket.data.user._id,
         bidAmount: bidData.bidAmount,
+        idempotencyKey: bidData.idempotencyKey,
         username: socket.data.user.username,
         socketId: socket.id,
-      };
-
-      // Send bid to RabbitMQ for processing
-      await this.rabbitmqService.publishBidProcessing(bidPayload);
+        ...this.getBidderContext(socket),
+      });
 
-      // Acknowledge bid received
+      // Acknowledge bid received; the final result follows as bidResult
       socket.emit(WebSocketEvents.BID_RECEIVED, {
-        message: 'Bid is being processed',
+        ...bidRequest,
+        message:
+          bidRequest.status === BidRequestStatus.PENDING
+            ? 'Bid is being processed'
+            : `Bid was already ${bidRequest.status.toLowerCase()}`,
       });
     } catch (error) {
       this.logger.error('Place bid error:', error.message);
@@ -258,6 +383,87 @@ export class WebsocketGateway
     }
   }
 
+  @SubscribeMessage(WebSocketEvents.SET_PROXY_BID)
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.BIDDER)
+  async handleSetProxyBid(
+    @MessageBody() proxyData: { auctionId: string; maxAmount: number },
+    @ConnectedSocket() socket: ClientSocket,
+  ) {
+    try {
+      const proxyBid = await this.bidProcessorService.setProxyBid(
+        proxyData.auctionId,
+        socket.data.user._id,
+        proxyData.maxAmount,
+        this.getBidderContext(socket),
+      );
+
+      // Ceilings are private, so reply only to the requesting socket
+      socket.emit(WebSocketEvents.PROXY_BID_UPDATE, proxyBid);
+    } catch (error) {
+      this.logger.error('Set proxy bid error:', error.message);
+      socket.emit('error', { message: error.message });
+    }
+  }
+
+  @SubscribeMessage(WebSocketEvents.CANCEL_PROXY_BID)
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.BIDDER)
+  async handleCancelProxyBid(
+    @MessageBody() auctionId: string,
+    @ConnectedSocket() socket: ClientSocket,
+  ) {
+    try {
+      const proxyBid = await this.bidProcessorService.cancelProxyBid(
+        auctionId,
+        socket.data.user._id,
+      );
+      socket.emit(WebSocketEvents.PROXY_BID_UPDATE, proxyBid);
+    } catch (error) {
+      this.logger.error('Cancel proxy bid error:', error.message);
+      socket.emit('error', { message: error.message });
+    }
+  }
+
+  @SubscribeMessage(WebSocketEvents.BUY_NOW)
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.BIDDER)
+  async handleBuyNow(
+    @MessageBody() auctionId: string,
+    @ConnectedSocket() socket: ClientSocket,
+  ) {
+    try {
+      // The room hears auctionEnd and the buyer auctionWon via AUCTION_ENDED
+      await this.bidProcessorService.buyNow(
+        auctionId,
+        socket.data.user._id,
+        this.getBidderContext(socket),
+      );
+    } catch (error) {
+      this.logger.error('Buy now error:', error.message);
+      socket.emit('error', { message: error.message });
+    }
+  }
+
+  @SubscribeMessage(WebSocketEvents.ACCEPT_PRICE)
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.BIDDER)
+  async handleAcceptPrice(
+    @MessageBody() auctionId: string,
+    @ConnectedSocket() socket: ClientSocket,
+  ) {
+    try {
+      await this.bidProcessorService.acceptDutchPrice(
+        auctionId,
+        socket.data.user._id,
+        this.getBidderContext(socket),
+      );
+    } catch (error) {
+      this.logger.error('Accept price error:', error.message);
+      socket.emit('error', { message: error.message });
+    }
+  }
+
   private async setupRedisSubscriptions() {
     try {
       // Subscribe to global notifications
@@ -272,7 +478,7 @@ export class WebsocketGateway
   }
 
 
-  private handleGlobalNotification(data: any) {
+  private handleGlobalNotification(data: { data: GlobalNotification }) {
     this.logger.debug('Received global notification:', data);
     // Handle different notification types
     switch (data.data.type) {
@@ -280,25 +486,63 @@ export class WebsocketGateway
       case 'BID_FAILED':
         this.emitToUser(data.data.userId, 'notification', data.data);
         break;
-      case 'OUTBID_NOTIFICATION':
-        // Emit to all users in the auction except the new highest bidder
-        this.emitOutbidNotification(data.data);
-        break;
       case 'AUCTION_WON':
         this.emitToUser(data.data.userId, WebSocketEvents.AUCTION_WON, data.data);
         break;
+      case 'NOTIFICATION_CREATED':
+        this.emitToUser(
+          data.data.userId,
+          WebSocketEvents.NOTIFICATION,
+          data.data.notification,
+        );
+        if (data.data.notification?.type === 'OUTBID_NOTIFICATION') {
+          this.emitOutbidNotification(data.data.userId, data.data.notification);
+        }
+        break;
+      case 'NOTIFICATIONS_READ': {
+        const readState: Partial<GlobalNotification> = { ...data.data };
+        delete readState.type;
+        delete readState.userId;
+        this.emitToUser(
+          data.data.userId,
+          WebSocketEvents.NOTIFICATIONS_READ,
+          readState,
+        );
+        break;
+      }
+      case 'BID_RESULT':
+        this.emitBidResult(data.data);
+        break;
+      case 'SESSION_REVOKED':
+        this.server
+          .in(`session:${data.data.sessionId}`)
+          .disconnectSockets(true);
+        break;
       default:
         this.logger.debug('Unhandled notification type:', data.data.type);
     }
   }
 
-  private emitOutbidNotification(notificationData: any) {
-    // Emit to all users in the auction room except the new highest bidder
-    this.server.to(`auction:${notificationData.auctionId}`).emit(WebSocketEvents.OUTBID, {
-      auctionId: notificationData.auctionId,
-      newBidAmount: notificationData.newBidAmount,
-      newBidUser: notificationData.newBidUser,
-      message: notificationData.message,
+  // Every instance hears the result; only the one holding the submitting
+  // socket actually delivers it
+  private emitBidResult(result: GlobalNotification) {
+    const { socketId, ...payload }: Partial<GlobalNotification> = result;
+    delete payload.type;
+    if (socketId) {
+      this.server.to(socketId).emit(WebSocketEvents.BID_RESULT, payload);
+    }
+  }
+
+  // Only the outbid bidder hears it, in every tab whether or not it is
+  // watching the auction
+  private emitOutbidNotification(
+    userId: string,
+    notification: InboxNotification,
+  ) {
+    this.emitToUser(userId, WebSocketEvents.OUTBID, {
+      auctionId: notification.auctionId,
+      newBidAmount: notification.data?.newBidAmount,
+      message: notification.message,
     });
   }
 
@@ -306,13 +550,25 @@ export class WebsocketGateway
     this.server.to(`auction:${data.auctionId}`).emit(WebSocketEvents.AUCTION_UPDATE, data);
   }
 
-  private handleAuctionEnd(data: any) {
-    this.server.to(`auction:${data.auctionId}`).emit(WebSocketEvents.AUCTION_END, {
-      auctionId: data.auctionId,
-      winnerId: data.winnerId,
-      winningBid: data.winningBid,
-      message: 'Auction has ended',
-    });
+  private handleAuctionEnd(data: AuctionEndedEvent) {
+    this.server
+      .to(`auction:${data.auctionId}`)
+      .emit(WebSocketEvents.AUCTION_END, {
+        auctionId: data.auctionId,
+        winnerId: data.winnerId,
+        winningBid: data.winningBid,
+        outcome: data.outcome,
+        reserveMet: data.reserveMet,
+        boughtNow: data.boughtNow,
+        message:
+          data.outcome === 'RESERVE_NOT_MET'
+            ? 'Auction has ended: reserve not met'
+            : data.boughtNow && data.auctionType === 'DUTCH'
+              ? 'Auction has ended: price accepted'
+              : data.boughtNow
+                ? 'Auction has ended: bought with buy-it-now'
+                : 'Auction has ended',
+      });
 
     // Send winning notification
     if (data.winnerId) {
@@ -322,7 +578,10 @@ export class WebsocketGateway
           this.server.to(socketId).emit(WebSocketEvents.AUCTION_WON, {
             auctionId: data.auctionId,
             winningBid: data.winningBid,
-            message: `Congratulations! You won the auction with a bid of $${data.winningBid}`,
+            boughtNow: data.boughtNow,
+            message: data.boughtNow
+              ? `Congratulations! You bought the auction for $${data.winningBid}`
+              : `Congratulations! You won the auction with a bid of $${data.winningBid}`,
           });
         });
       }
@@ -344,8 +603,16 @@ export class WebsocketGateway
     }
   }
 
+  // Session and organization from the token the socket connected with
+  private getBidderContext(socket: ClientSocket): BidderContext {
+    return {
+      sessionId: socket.data.sessionId,
+      organizationId: socket.data.organizationId,
+    };
+  }
+
   // Helper method to get client IP address
-  private getClientIP(socket: Socket): string {
+  private getClientIP(socket: ClientSocket): string {
     return (
       socket.handshake.headers['x-forwarded-for'] as string ||
       socket.handshake.headers['x-real-ip'] as string ||
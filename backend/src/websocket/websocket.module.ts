@@ -4,6 +4,7 @@ import { BidsModule } from '../bids/bids.module';
 import { AuctionsModule } from '../auctions/auctions.module';
 import { RedisModule } from '../redis/redis.module';
 import { RabbitmqModule } from '../rabbitmq/rabbitmq.module';
+import { AuthModule } from '../auth/auth.module';
 import { WebSocketConnectionLimitService } from '../common/guards/websocket-connection-limit.guard';
 import { JwtModule } from '@nestjs/jwt';
 import { ConfigModule, ConfigService } from '@nestjs/config';
@@ -14,6 +15,7 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
     AuctionsModule,
     RedisModule,
     RabbitmqModule,
+    AuthModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: async (configService: ConfigService) => ({
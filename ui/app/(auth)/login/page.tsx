@@ -6,11 +6,13 @@ import Link from 'next/link';
 import toast from 'react-hot-toast';
 
 export default function LoginPage() {
-  const { login } = useAuth();
+  const { login, completeTwoFactorLogin } = useAuth();
   const [formData, setFormData] = useState({
     email: '',
     password: '',
   });
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState('');
   const [loading, setLoading] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -18,7 +20,11 @@ export default function LoginPage() {
     setLoading(true);
 
     try {
-      await login(formData.email, formData.password);
+      const result = await login(formData.email, formData.password);
+      if (result.challengeToken) {
+        setChallengeToken(result.challengeToken);
+        return;
+      }
       toast.success('Login successful!');
     } catch (error: any) {
       toast.error(error.response?.data?.message || 'Login failed');
@@ -27,6 +33,72 @@ export default function LoginPage() {
     }
   };
 
+  const handleCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      await completeTwoFactorLogin(challengeToken!, code);
+      toast.success('Login successful!');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Invalid code');
+      // An expired challenge cannot be retried; start over from the password
+      if (error.response?.data?.message?.includes('challenge')) {
+        setChallengeToken(null);
+        setCode('');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (challengeToken) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="max-w-md w-full space-y-8">
+          <div>
+            <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+              Two-factor authentication
+            </h2>
+            <p className="mt-2 text-center text-sm text-gray-600">
+              Enter the code from your authenticator app, or one of your recovery codes
+            </p>
+          </div>
+          <form className="mt-8 space-y-6" onSubmit={handleCodeSubmit}>
+            <div>
+              <label htmlFor="code" className="sr-only">
+                Authentication code
+              </label>
+              <input
+                id="code"
+                name="code"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                required
+                autoFocus
+                className="appearance-none rounded-md relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+
+            <div>
+              <button
+                type="submit"
+                disabled={loading}
+                className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+              >
+                {loading ? 'Verifying...' : 'Verify'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50">
       <div className="max-w-md w-full space-y-8">
@@ -81,10 +153,13 @@ export default function LoginPage() {
             </button>
           </div>
 
-          <div className="text-center">
-            <Link href="/register" className="text-blue-600 hover:text-blue-500">
+          <div className="text-center space-y-2">
+            <Link href="/register" className="block text-blue-600 hover:text-blue-500">
               Don't have an account? Register
             </Link>
+            <Link href="/forgot-password" className="block text-sm text-gray-600 hover:text-gray-500">
+              Forgot your password?
+            </Link>
           </div>
         </form>
       </div>
@@ -11,6 +11,7 @@ export default function RegisterPage() {
     username: '',
     email: '',
     password: '',
+    seller: false,
   });
   const [loading, setLoading] = useState(false);
 
@@ -19,7 +20,12 @@ export default function RegisterPage() {
     setLoading(true);
 
     try {
-      await register(formData.username, formData.email, formData.password);
+      await register(
+        formData.username,
+        formData.email,
+        formData.password,
+        formData.seller ? ['BIDDER', 'SELLER'] : ['BIDDER'],
+      );
       toast.success('Registration successful!');
     } catch (error: any) {
       toast.error(error.response?.data?.message || 'Registration failed');
@@ -87,6 +93,16 @@ export default function RegisterPage() {
             </div>
           </div>
 
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              className="mr-2 h-4 w-4 text-blue-600 border-gray-300 rounded"
+              checked={formData.seller}
+              onChange={(e) => setFormData({ ...formData, seller: e.target.checked })}
+            />
+            I also want to sell cars
+          </label>
+
           <div>
             <button
               type="submit"
@@ -0,0 +1,58 @@
+'use client';
+
+import { Suspense, useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { api } from '@/lib/api';
+
+function VerifyEmail() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+  const [message, setMessage] = useState('');
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    // Guard against the double effect run in development
+    if (submitted.current) return;
+    submitted.current = true;
+
+    if (!token) {
+      setStatus('failed');
+      setMessage('This verification link is incomplete');
+      return;
+    }
+
+    api
+      .post('/auth/verify-email', { token })
+      .then(() => setStatus('verified'))
+      .catch((error) => {
+        setStatus('failed');
+        setMessage(error.response?.data?.message || 'Verification failed');
+      });
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50">
+      <div className="max-w-md w-full space-y-6 text-center">
+        <h2 className="mt-6 text-3xl font-extrabold text-gray-900">Email verification</h2>
+        {status === 'verifying' && <p className="text-gray-600">Verifying your email address...</p>}
+        {status === 'verified' && (
+          <p className="text-green-700">Your email address is verified. You can now place bids.</p>
+        )}
+        {status === 'failed' && <p className="text-red-600">{message}</p>}
+        <Link href="/" className="text-blue-600 hover:text-blue-500">
+          Back to auctions
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <Suspense>
+      <VerifyEmail />
+    </Suspense>
+  );
+}
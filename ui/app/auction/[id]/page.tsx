@@ -3,10 +3,11 @@
 import { useEffect, useState } from 'react';
 import { useParams } from 'next/navigation';
 import { api } from '@/lib/api';
-import { Auction, Bid } from '@/types';
+import { Auction, Bid, WatchState } from '@/types';
 import { useAuth } from '@/context/AuthContext';
 import Navbar from '@/components/Navbar';
 import RealTimeBidding from '@/components/RealTimeBidding';
+import WatchButton from '@/components/WatchButton';
 import { formatCurrency, formatDate } from '@/lib/utils';
 import { ArrowLeft, Car, Calendar, DollarSign } from 'lucide-react';
 import toast from 'react-hot-toast';
@@ -18,6 +19,7 @@ export default function AuctionDetailPage() {
   const [auction, setAuction] = useState<Auction | null>(null);
   const [bids, setBids] = useState<Bid[]>([]);
   const [loading, setLoading] = useState(true);
+  const [watching, setWatching] = useState(false);
 
   useEffect(() => {
     if (params.id) {
@@ -26,6 +28,14 @@ export default function AuctionDetailPage() {
     }
   }, [params.id]);
 
+  useEffect(() => {
+    if (params.id && user) {
+      fetchWatchState();
+    } else {
+      setWatching(false);
+    }
+  }, [params.id, user]);
+
   const fetchAuctionDetails = async () => {
     try {
       const response = await api.get(`/auctions/${params.id}`);
@@ -46,6 +56,20 @@ export default function AuctionDetailPage() {
     }
   };
 
+  const fetchWatchState = async () => {
+    try {
+      const response = await api.get<WatchState>(`/watchlist/${params.id}`);
+      setWatching(response.data.watching);
+    } catch (error) {
+      console.error('Failed to load watchlist state');
+    }
+  };
+
+  const handleWatchChange = (state: WatchState) => {
+    setWatching(state.watching);
+    setAuction((prev) => (prev ? { ...prev, watcherCount: state.watcherCount } : prev));
+  };
+
   const handleAuctionUpdate = (updatedAuction: Auction) => {
     setAuction(updatedAuction);
   };
@@ -103,6 +127,13 @@ export default function AuctionDetailPage() {
             }`}>
               {auction.status}
             </span>
+            <WatchButton
+              auctionId={auction._id}
+              watching={watching}
+              watcherCount={auction.watcherCount ?? 0}
+              disabled={auction.status === 'ENDED'}
+              onChange={handleWatchChange}
+            />
           </div>
         </div>
 
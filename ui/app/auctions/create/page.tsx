@@ -17,9 +17,15 @@ export default function CreateAuctionPage() {
     carId: '',
     title: '',
     description: '',
+    auctionType: 'ENGLISH',
     startTime: '',
     endTime: '',
     startingBid: '',
+    reservePrice: '',
+    buyNowPrice: '',
+    dutchFloorPrice: '',
+    dutchPriceStep: '',
+    dutchStepIntervalSeconds: '',
   });
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -30,6 +36,25 @@ export default function CreateAuctionPage() {
       const response = await api.post('/auctions', {
         ...formData,
         startingBid: parseInt(formData.startingBid),
+        reservePrice: formData.reservePrice && formData.auctionType !== 'DUTCH'
+          ? parseInt(formData.reservePrice)
+          : undefined,
+        buyNowPrice: formData.buyNowPrice && formData.auctionType === 'ENGLISH'
+          ? parseInt(formData.buyNowPrice)
+          : undefined,
+        ...(formData.auctionType === 'DUTCH'
+          ? {
+              dutchFloorPrice: parseInt(formData.dutchFloorPrice),
+              dutchPriceStep: parseInt(formData.dutchPriceStep),
+              dutchStepIntervalSeconds: formData.dutchStepIntervalSeconds
+                ? parseInt(formData.dutchStepIntervalSeconds)
+                : undefined,
+            }
+          : {
+              dutchFloorPrice: undefined,
+              dutchPriceStep: undefined,
+              dutchStepIntervalSeconds: undefined,
+            }),
         startTime: new Date(formData.startTime).toISOString(),
         endTime: new Date(formData.endTime).toISOString(),
       });
@@ -43,7 +68,7 @@ export default function CreateAuctionPage() {
     }
   };
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     setFormData({
       ...formData,
       [e.target.name]: e.target.value,
@@ -143,6 +168,28 @@ export default function CreateAuctionPage() {
               />
             </div>
 
+            {/* Auction Format */}
+            <div>
+              <label htmlFor="auctionType" className="block text-sm font-medium text-gray-700 mb-2">
+                Auction Format
+              </label>
+              <select
+                id="auctionType"
+                name="auctionType"
+                value={formData.auctionType}
+                onChange={handleChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="ENGLISH">Open (English)</option>
+                <option value="SEALED_FIRST_PRICE">Sealed bid, first price</option>
+                <option value="SEALED_SECOND_PRICE">Sealed bid, second price (Vickrey)</option>
+                <option value="DUTCH">Descending price (Dutch)</option>
+              </select>
+              <p className="text-sm text-gray-500 mt-1">
+                Sealed bids stay hidden until the auction closes; each bidder may revise theirs until then.
+              </p>
+            </div>
+
             {/* Starting Bid */}
             <div>
               <label htmlFor="startingBid" className="flex items-center text-sm font-medium text-gray-700 mb-2">
@@ -163,6 +210,105 @@ export default function CreateAuctionPage() {
               />
             </div>
 
+            {/* Reserve Price */}
+            {formData.auctionType !== 'DUTCH' && (
+              <div>
+                <label htmlFor="reservePrice" className="flex items-center text-sm font-medium text-gray-700 mb-2">
+                  <DollarSign className="w-4 h-4 mr-2" />
+                  Reserve Price (USD, optional)
+                </label>
+                <input
+                  type="number"
+                  id="reservePrice"
+                  name="reservePrice"
+                  value={formData.reservePrice}
+                  onChange={handleChange}
+                  min={formData.startingBid || '1000'}
+                  step="1000"
+                  placeholder="Hidden from bidders"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <p className="text-sm text-gray-500 mt-1">
+                  The car will not sell if bidding ends below this amount. Bidders only see whether it has been met.
+                </p>
+              </div>
+            )}
+
+            {/* Buy-It-Now Price */}
+            {formData.auctionType === 'ENGLISH' && (
+              <div>
+                <label htmlFor="buyNowPrice" className="flex items-center text-sm font-medium text-gray-700 mb-2">
+                  <DollarSign className="w-4 h-4 mr-2" />
+                  Buy-It-Now Price (USD, optional)
+                </label>
+                <input
+                  type="number"
+                  id="buyNowPrice"
+                  name="buyNowPrice"
+                  value={formData.buyNowPrice}
+                  onChange={handleChange}
+                  min={formData.reservePrice || formData.startingBid || '1000'}
+                  step="1000"
+                  placeholder="e.g., 60000"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <p className="text-sm text-gray-500 mt-1">
+                  Any bidder can end the auction immediately by paying this price.
+                </p>
+              </div>
+            )}
+
+            {/* Dutch Schedule */}
+            {formData.auctionType === 'DUTCH' && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div>
+                  <label htmlFor="dutchFloorPrice" className="block text-sm font-medium text-gray-700 mb-2">
+                    Floor Price (USD)
+                  </label>
+                  <input
+                    type="number"
+                    id="dutchFloorPrice"
+                    name="dutchFloorPrice"
+                    value={formData.dutchFloorPrice}
+                    onChange={handleChange}
+                    min="1"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="dutchPriceStep" className="block text-sm font-medium text-gray-700 mb-2">
+                    Price Drop (USD)
+                  </label>
+                  <input
+                    type="number"
+                    id="dutchPriceStep"
+                    name="dutchPriceStep"
+                    value={formData.dutchPriceStep}
+                    onChange={handleChange}
+                    min="1"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="dutchStepIntervalSeconds" className="block text-sm font-medium text-gray-700 mb-2">
+                    Seconds Between Drops
+                  </label>
+                  <input
+                    type="number"
+                    id="dutchStepIntervalSeconds"
+                    name="dutchStepIntervalSeconds"
+                    value={formData.dutchStepIntervalSeconds}
+                    onChange={handleChange}
+                    min="1"
+                    placeholder="60"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              </div>
+            )}
+
             {/* Date/Time Fields */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div>
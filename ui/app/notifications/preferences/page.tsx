@@ -0,0 +1,303 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/context/AuthContext';
+import { api } from '@/lib/api';
+import {
+  DigestFrequency,
+  NotificationChannel,
+  NotificationDelivery,
+  NotificationEvent,
+  NotificationPreferences,
+} from '@/types';
+import Navbar from '@/components/Navbar';
+import { formatDate } from '@/lib/utils';
+import { Bell } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const EVENTS: { event: NotificationEvent; label: string }[] = [
+  { event: 'OUTBID', label: 'Outbid' },
+  { event: 'AUCTION_WON', label: 'Auction won' },
+  { event: 'AUCTION_STARTING', label: 'Auction starting soon' },
+  { event: 'AUCTION_ENDING', label: 'Watched auction ending' },
+  { event: 'BID_FAILED', label: 'Bid failed' },
+  { event: 'SAVED_SEARCH', label: 'Saved search match' },
+];
+
+const CHANNELS: { channel: NotificationChannel; label: string }[] = [
+  { channel: 'IN_APP', label: 'In-app' },
+  { channel: 'EMAIL', label: 'Email' },
+  { channel: 'WEBHOOK', label: 'Webhook' },
+];
+
+export default function NotificationPreferencesPage() {
+  const { user } = useAuth();
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+  const [quietStart, setQuietStart] = useState('');
+  const [quietEnd, setQuietEnd] = useState('');
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      fetchPreferences();
+    }
+  }, [user]);
+
+  const fetchPreferences = async () => {
+    try {
+      const [preferencesResponse, deliveriesResponse] = await Promise.all([
+        api.get<NotificationPreferences>('/notifications/preferences'),
+        api.get('/notifications/deliveries', { params: { limit: 20 } }),
+      ]);
+      applyPreferences(preferencesResponse.data);
+      setDeliveries(deliveriesResponse.data.deliveries);
+    } catch (error) {
+      toast.error('Failed to load notification preferences');
+    }
+  };
+
+  const applyPreferences = (updated: NotificationPreferences) => {
+    setPreferences(updated);
+    setQuietStart(updated.quietHours?.start || '');
+    setQuietEnd(updated.quietHours?.end || '');
+    setWebhookUrl(updated.webhookUrl || '');
+  };
+
+  const save = async (changes: Record<string, unknown>) => {
+    setBusy(true);
+    try {
+      const response = await api.put<NotificationPreferences>('/notifications/preferences', changes);
+      applyPreferences(response.data);
+      toast.success('Preferences saved');
+    } catch (error: any) {
+      const message = error.response?.data?.message;
+      toast.error(Array.isArray(message) ? message[0] : message || 'Failed to save preferences');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleChannel = (event: NotificationEvent, channel: NotificationChannel) => {
+    const current = preferences!.channels[event];
+    const channels = current.includes(channel)
+      ? current.filter((entry) => entry !== channel)
+      : [...current, channel];
+    save({ channels: { [event]: channels } });
+  };
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="flex items-center justify-center h-96">
+          <div className="text-center">
+            <p className="text-gray-500 mb-4">Please login to manage notifications</p>
+            <Link href="/login" className="bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600">
+              Login
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!preferences) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="flex items-center justify-center h-96">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+      <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+        <div className="bg-white rounded-lg shadow p-6">
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <Bell className="w-6 h-6 mr-2" />
+            Notification preferences
+          </h1>
+          <p className="text-gray-600 mt-1">Choose how each kind of notification reaches you</p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold mb-4">Channels</h2>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2">Event</th>
+                {CHANNELS.map(({ channel, label }) => (
+                  <th key={channel} className="py-2 text-center">{label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {EVENTS.map(({ event, label }) => (
+                <tr key={event}>
+                  <td className="py-2">{label}</td>
+                  {CHANNELS.map(({ channel }) => (
+                    <td key={channel} className="py-2 text-center">
+                      <input
+                        type="checkbox"
+                        checked={preferences.channels[event].includes(channel)}
+                        disabled={busy}
+                        onChange={() => toggleChannel(event, channel)}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 mt-3">
+            Other updates, such as confirmations of your bids, always go to your in-app inbox.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6 space-y-4">
+          <h2 className="text-lg font-semibold">Email timing</h2>
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="text-sm text-gray-700">
+              Time zone
+              <input
+                type="text"
+                defaultValue={preferences.timezone}
+                onBlur={(event) =>
+                  event.target.value !== preferences.timezone && save({ timezone: event.target.value })
+                }
+                className="block mt-1 px-3 py-2 border rounded"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Digest
+              <select
+                value={preferences.digest}
+                disabled={busy}
+                onChange={(event) => save({ digest: event.target.value as DigestFrequency })}
+                className="block mt-1 px-3 py-2 border rounded"
+              >
+                <option value="NONE">Send right away</option>
+                <option value="HOURLY">Hourly digest</option>
+                <option value="DAILY">Daily digest</option>
+              </select>
+            </label>
+            {preferences.digest === 'DAILY' && (
+              <label className="text-sm text-gray-700">
+                Daily digest at
+                <input
+                  type="time"
+                  value={preferences.digestTime}
+                  disabled={busy}
+                  onChange={(event) => save({ digestTime: event.target.value })}
+                  className="block mt-1 px-3 py-2 border rounded"
+                />
+              </label>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="text-sm text-gray-700">
+              Quiet hours from
+              <input
+                type="time"
+                value={quietStart}
+                onChange={(event) => setQuietStart(event.target.value)}
+                className="block mt-1 px-3 py-2 border rounded"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              until
+              <input
+                type="time"
+                value={quietEnd}
+                onChange={(event) => setQuietEnd(event.target.value)}
+                className="block mt-1 px-3 py-2 border rounded"
+              />
+            </label>
+            <button
+              onClick={() => save({ quietHours: { start: quietStart, end: quietEnd } })}
+              disabled={busy || !quietStart || !quietEnd}
+              className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+            >
+              Save quiet hours
+            </button>
+            {preferences.quietHours && (
+              <button
+                onClick={() => save({ quietHours: null })}
+                disabled={busy}
+                className="px-4 py-2 border rounded text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Turn off
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">
+            Emails held during quiet hours are sent together when they end.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6 space-y-4">
+          <h2 className="text-lg font-semibold">Webhook</h2>
+          <div className="flex flex-wrap items-end gap-4">
+            <input
+              type="url"
+              value={webhookUrl}
+              placeholder="https://example.com/hooks/auctions"
+              onChange={(event) => setWebhookUrl(event.target.value)}
+              className="flex-1 px-3 py-2 border rounded"
+            />
+            <button
+              onClick={() => save({ webhookUrl: webhookUrl || null })}
+              disabled={busy}
+              className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+            >
+              Save URL
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold mb-4">Recent deliveries</h2>
+          {deliveries.length === 0 ? (
+            <p className="text-gray-500">Nothing delivered yet</p>
+          ) : (
+            <ul className="divide-y text-sm">
+              {deliveries.map((delivery) => (
+                <li key={delivery.id} className="py-3 flex items-start justify-between">
+                  <div>
+                    <p className="text-gray-900">{delivery.message}</p>
+                    <p className="text-xs text-gray-500">
+                      {delivery.channel} · {formatDate(delivery.createdAt)}
+                      {delivery.attempts.length > 1 && ` · ${delivery.attempts.length} attempts`}
+                    </p>
+                    {delivery.status !== 'SENT' && delivery.attempts.at(-1)?.error && (
+                      <p className="text-xs text-red-600">{delivery.attempts.at(-1)!.error}</p>
+                    )}
+                  </div>
+                  <span
+                    className={`text-xs font-medium ${
+                      delivery.status === 'SENT'
+                        ? 'text-green-600'
+                        : delivery.status === 'FAILED'
+                          ? 'text-red-600'
+                          : 'text-gray-500'
+                    }`}
+                  >
+                    {delivery.status === 'QUEUED' && delivery.digest ? 'IN DIGEST' : delivery.status}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
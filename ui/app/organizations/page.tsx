@@ -0,0 +1,436 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/context/AuthContext';
+import { api } from '@/lib/api';
+import {
+  Auction,
+  Bid,
+  Organization,
+  OrganizationExposure,
+  OrganizationInvitation,
+  OrganizationRole,
+  OrganizationSummary,
+} from '@/types';
+import Navbar from '@/components/Navbar';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { Building2, Check, Mail, Trophy, UserMinus, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const ROLES: OrganizationRole[] = ['OWNER', 'BUYER', 'VIEWER'];
+
+// Populated bids carry the bidder and the auction
+type OrganizationBid = Omit<Bid, 'userId' | 'auctionId'> & {
+  userId: { _id: string; username: string };
+  auctionId: { _id: string; title: string };
+};
+
+export default function OrganizationsPage() {
+  const { user, activeOrganization, switchOrganization } = useAuth();
+  const [organizations, setOrganizations] = useState<OrganizationSummary[]>([]);
+  const [invitations, setInvitations] = useState<OrganizationInvitation[]>([]);
+  const [selected, setSelected] = useState<Organization | null>(null);
+  const [exposure, setExposure] = useState<OrganizationExposure | null>(null);
+  const [bids, setBids] = useState<OrganizationBid[]>([]);
+  const [wins, setWins] = useState<Auction[]>([]);
+  const [name, setName] = useState('');
+  const [spendingLimit, setSpendingLimit] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<OrganizationRole>('BUYER');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      fetchOrganizations();
+    }
+  }, [user]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const fetchOrganizations = async () => {
+    try {
+      const [organizationsResponse, invitationsResponse] = await Promise.all([
+        api.get('/organizations'),
+        api.get('/organizations/invitations/mine'),
+      ]);
+      setOrganizations(organizationsResponse.data);
+      setInvitations(invitationsResponse.data);
+    } catch (error) {
+      console.error('Failed to fetch organizations:', error);
+      toast.error('Failed to load organizations');
+    }
+  };
+
+  const selectOrganization = (id: string) =>
+    run(async () => {
+      const [organizationResponse, exposureResponse, bidsResponse, winsResponse] =
+        await Promise.all([
+          api.get(`/organizations/${id}`),
+          api.get(`/organizations/${id}/exposure`),
+          api.get(`/organizations/${id}/bids`),
+          api.get(`/organizations/${id}/wins`),
+        ]);
+      setSelected(organizationResponse.data);
+      setExposure(exposureResponse.data);
+      setBids(bidsResponse.data);
+      setWins(winsResponse.data);
+    }, 'Failed to load organization');
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await api.post('/organizations', {
+        name,
+        ...(spendingLimit && { spendingLimit: parseFloat(spendingLimit) }),
+      });
+      setName('');
+      setSpendingLimit('');
+      toast.success('Organization created');
+      await fetchOrganizations();
+    }, 'Could not create organization');
+  };
+
+  const handleSwitch = (organizationId: string | null) =>
+    run(async () => {
+      await switchOrganization(organizationId);
+      toast.success(organizationId ? 'Now bidding for the organization' : 'Now bidding personally');
+    }, 'Could not switch organization');
+
+  const handleInvitation = (invitationId: string, response: 'accept' | 'decline') =>
+    run(async () => {
+      await api.post(`/organizations/invitations/${invitationId}/${response}`);
+      toast.success(response === 'accept' ? 'Invitation accepted' : 'Invitation declined');
+      await fetchOrganizations();
+    }, 'Could not answer the invitation');
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    run(async () => {
+      await api.post(`/organizations/${selected._id}/invitations`, {
+        email: inviteEmail,
+        role: inviteRole,
+      });
+      setInviteEmail('');
+      toast.success('Invitation sent');
+    }, 'Could not send the invitation');
+  };
+
+  const handleRoleChange = (memberId: string, role: OrganizationRole) => {
+    if (!selected) return;
+    run(async () => {
+      const response = await api.patch(`/organizations/${selected._id}/members/${memberId}`, {
+        role,
+      });
+      setSelected(response.data);
+    }, 'Could not change the role');
+  };
+
+  const handleRemove = (memberId: string) => {
+    if (!selected) return;
+    run(async () => {
+      await api.delete(`/organizations/${selected._id}/members/${memberId}`);
+      if (memberId === user?._id) {
+        if (activeOrganization?.id === selected._id) {
+          await switchOrganization(null);
+        }
+        setSelected(null);
+        await fetchOrganizations();
+      } else {
+        await selectOrganization(selected._id);
+      }
+    }, 'Could not remove the member');
+  };
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="flex justify-center items-center h-screen">
+          <div className="text-center">
+            <p className="text-gray-500 mb-4">Please login to manage organizations</p>
+            <Link href="/login" className="bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600">
+              Login
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const isOwner = selected?.role === 'OWNER';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+      <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+        <div className="bg-white rounded-lg shadow p-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+              <Building2 className="w-6 h-6 mr-2" />
+              Organizations
+            </h1>
+            <p className="text-gray-600 mt-1">
+              {activeOrganization
+                ? `Bidding for ${activeOrganization.name} (${activeOrganization.role.toLowerCase()})`
+                : 'Bidding personally'}
+            </p>
+          </div>
+          {activeOrganization && (
+            <button
+              onClick={() => handleSwitch(null)}
+              disabled={busy}
+              className="px-4 py-2 border rounded text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              Bid personally
+            </button>
+          )}
+        </div>
+
+        {invitations.length > 0 && (
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold mb-4 flex items-center">
+              <Mail className="w-5 h-5 mr-2" />
+              Invitations
+            </h2>
+            <ul className="divide-y">
+              {invitations.map((invitation) => (
+                <li key={invitation._id} className="py-3 flex items-center justify-between">
+                  <span>
+                    {typeof invitation.organizationId === 'string'
+                      ? 'An organization'
+                      : invitation.organizationId.name}{' '}
+                    invited you as {invitation.role.toLowerCase()}
+                  </span>
+                  <span className="space-x-2">
+                    <button
+                      onClick={() => handleInvitation(invitation._id, 'accept')}
+                      disabled={busy}
+                      className="inline-flex items-center px-3 py-1 bg-green-500 text-white rounded hover:bg-green-600 disabled:opacity-50"
+                    >
+                      <Check className="w-4 h-4 mr-1" />
+                      Accept
+                    </button>
+                    <button
+                      onClick={() => handleInvitation(invitation._id, 'decline')}
+                      disabled={busy}
+                      className="inline-flex items-center px-3 py-1 border rounded text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <X className="w-4 h-4 mr-1" />
+                      Decline
+                    </button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold mb-4">Your organizations</h2>
+          {organizations.length === 0 ? (
+            <p className="text-gray-500">You are not a member of any organization yet.</p>
+          ) : (
+            <ul className="divide-y">
+              {organizations.map((organization) => (
+                <li key={organization._id} className="py-3 flex items-center justify-between">
+                  <button
+                    onClick={() => selectOrganization(organization._id)}
+                    className="text-left hover:text-blue-600"
+                  >
+                    <span className="font-medium">{organization.name}</span>
+                    <span className="text-sm text-gray-500 ml-2">
+                      {organization.role.toLowerCase()} · {organization.memberCount} members
+                      {organization.spendingLimit != null &&
+                        ` · limit ${formatCurrency(organization.spendingLimit)}`}
+                    </span>
+                  </button>
+                  {organization.role !== 'VIEWER' && activeOrganization?.id !== organization._id && (
+                    <button
+                      onClick={() => handleSwitch(organization._id)}
+                      disabled={busy}
+                      className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+                    >
+                      Bid for this organization
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleCreate} className="mt-6 flex flex-wrap gap-2">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="New organization name"
+              required
+              minLength={2}
+              className="flex-1 min-w-48 px-3 py-2 border rounded"
+            />
+            <input
+              type="number"
+              min={0}
+              value={spendingLimit}
+              onChange={(e) => setSpendingLimit(e.target.value)}
+              placeholder="Spending limit (optional)"
+              className="w-56 px-3 py-2 border rounded"
+            />
+            <button
+              type="submit"
+              disabled={busy}
+              className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+            >
+              Create
+            </button>
+          </form>
+        </div>
+
+        {selected && (
+          <div className="bg-white rounded-lg shadow p-6 space-y-6">
+            <div>
+              <h2 className="text-lg font-semibold">{selected.name}</h2>
+              {exposure && (
+                <p className="text-gray-600 mt-1">
+                  Committed {formatCurrency(exposure.committed)}
+                  {exposure.spendingLimit != null &&
+                    ` of ${formatCurrency(exposure.spendingLimit)} (${formatCurrency(exposure.available ?? 0)} available)`}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <h3 className="font-medium mb-2">Members</h3>
+              <ul className="divide-y">
+                {selected.members.map((member) => (
+                  <li key={member.userId._id} className="py-2 flex items-center justify-between">
+                    <span>
+                      {member.userId.username}
+                      <span className="text-sm text-gray-500 ml-2">{member.userId.email}</span>
+                    </span>
+                    <span className="flex items-center space-x-2">
+                      {isOwner ? (
+                        <select
+                          value={member.role}
+                          onChange={(e) =>
+                            handleRoleChange(member.userId._id, e.target.value as OrganizationRole)
+                          }
+                          disabled={busy}
+                          className="px-2 py-1 border rounded"
+                        >
+                          {ROLES.map((role) => (
+                            <option key={role} value={role}>
+                              {role.toLowerCase()}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="text-sm text-gray-600">{member.role.toLowerCase()}</span>
+                      )}
+                      {(isOwner || member.userId._id === user._id) && (
+                        <button
+                          onClick={() => handleRemove(member.userId._id)}
+                          disabled={busy}
+                          title={member.userId._id === user._id ? 'Leave' : 'Remove'}
+                          className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                        >
+                          <UserMinus className="w-4 h-4" />
+                        </button>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {isOwner && (
+              <form onSubmit={handleInvite} className="flex flex-wrap gap-2">
+                <input
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="Email to invite"
+                  required
+                  className="flex-1 min-w-48 px-3 py-2 border rounded"
+                />
+                <select
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as OrganizationRole)}
+                  className="px-3 py-2 border rounded"
+                >
+                  {ROLES.map((role) => (
+                    <option key={role} value={role}>
+                      {role.toLowerCase()}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="submit"
+                  disabled={busy}
+                  className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+                >
+                  Invite
+                </button>
+              </form>
+            )}
+
+            <div>
+              <h3 className="font-medium mb-2">Recent bids</h3>
+              {bids.length === 0 ? (
+                <p className="text-gray-500">No bids yet.</p>
+              ) : (
+                <ul className="divide-y">
+                  {bids.map((bid) => (
+                    <li key={bid._id} className="py-2 flex justify-between text-sm">
+                      <Link href={`/auction/${bid.auctionId._id}`} className="hover:text-blue-600">
+                        {bid.auctionId.title}
+                      </Link>
+                      <span className="text-gray-600">
+                        {formatCurrency(bid.bidAmount)} by {bid.userId.username} ·{' '}
+                        {formatDate(bid.timestamp)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div>
+              <h3 className="font-medium mb-2 flex items-center">
+                <Trophy className="w-4 h-4 mr-1" />
+                Wins
+              </h3>
+              {wins.length === 0 ? (
+                <p className="text-gray-500">No wins yet.</p>
+              ) : (
+                <ul className="divide-y">
+                  {wins.map((auction) => (
+                    <li key={auction._id} className="py-2 flex justify-between text-sm">
+                      <Link href={`/auction/${auction._id}`} className="hover:text-blue-600">
+                        {auction.title}
+                      </Link>
+                      <span className="text-gray-600">
+                        {formatCurrency(auction.clearingPrice ?? auction.currentHighestBid)} ·{' '}
+                        {formatDate(auction.endTime)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,14 +2,19 @@
 
 import { useEffect, useState } from 'react';
 import { api } from '@/lib/api';
-import { Auction } from '@/types';
+import { Auction, WatchlistEntry, WatchState } from '@/types';
 import Link from 'next/link';
+import { useAuth } from '@/context/AuthContext';
 import { formatCurrency, formatDate } from '@/lib/utils';
 import Navbar from '@/components/Navbar';
-import { Clock, Users, Search, Filter, SortAsc } from 'lucide-react';
+import WatchButton from '@/components/WatchButton';
+import { Clock, Users, Search, Filter, SortAsc, BookmarkPlus } from 'lucide-react';
+import toast from 'react-hot-toast';
 
 export default function Home() {
+  const { user } = useAuth();
   const [auctions, setAuctions] = useState<Auction[]>([]);
+  const [watchedIds, setWatchedIds] = useState<Set<string>>(new Set());
   const [filteredAuctions, setFilteredAuctions] = useState<Auction[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
@@ -20,6 +25,14 @@ export default function Home() {
     fetchAuctions();
   }, []);
 
+  useEffect(() => {
+    if (user) {
+      fetchWatchlist();
+    } else {
+      setWatchedIds(new Set());
+    }
+  }, [user]);
+
   const fetchAuctions = async () => {
     try {
       const response = await api.get('/auctions');
@@ -32,6 +45,46 @@ export default function Home() {
     }
   };
 
+  const fetchWatchlist = async () => {
+    try {
+      const response = await api.get<WatchlistEntry[]>('/watchlist');
+      setWatchedIds(new Set(response.data.map((entry) => entry.auction._id)));
+    } catch (error) {
+      console.error('Failed to fetch watchlist:', error);
+    }
+  };
+
+  const handleWatchChange = (state: WatchState) => {
+    setWatchedIds((prev) => {
+      const next = new Set(prev);
+      if (state.watching) {
+        next.add(state.auctionId);
+      } else {
+        next.delete(state.auctionId);
+      }
+      return next;
+    });
+    setAuctions((prev) =>
+      prev.map((auction) =>
+        auction._id === state.auctionId ? { ...auction, watcherCount: state.watcherCount } : auction
+      )
+    );
+  };
+
+  // Ended auctions are never new, so that filter is not kept
+  const saveSearch = async () => {
+    try {
+      await api.post('/saved-searches', {
+        name: searchTerm.trim() || 'All new auctions',
+        text: searchTerm.trim() || undefined,
+        status: statusFilter === 'ACTIVE' || statusFilter === 'PENDING' ? statusFilter : undefined,
+      });
+      toast.success('Search saved. We will let you know about new matches.');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to save search');
+    }
+  };
+
   // Filter and sort auctions
   useEffect(() => {
     let filtered = auctions.filter((auction) => {
@@ -148,6 +201,17 @@ export default function Home() {
                 <option value="bidCount">Most Bids</option>
               </select>
             </div>
+
+            {user && (
+              <button
+                onClick={saveSearch}
+                className="flex items-center justify-center px-3 py-2 border border-gray-300 rounded-md bg-white text-sm text-gray-700 hover:bg-gray-50"
+                title="Get notified about new auctions matching this search"
+              >
+                <BookmarkPlus className="h-5 w-5 mr-1 text-gray-400" />
+                Save search
+              </button>
+            )}
           </div>
         </div>
 
@@ -235,6 +299,16 @@ export default function Home() {
                       </span>
                     </div>
                   </div>
+
+                  <div className="mt-4">
+                    <WatchButton
+                      auctionId={auction._id}
+                      watching={watchedIds.has(auction._id)}
+                      watcherCount={auction.watcherCount ?? 0}
+                      disabled={auction.status === 'ENDED'}
+                      onChange={handleWatchChange}
+                    />
+                  </div>
                   
                   {auction.status === 'ACTIVE' && (
                     <div className="mt-4 pt-4 border-t">
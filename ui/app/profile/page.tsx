@@ -3,8 +3,9 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '@/context/AuthContext';
 import { api } from '@/lib/api';
-import { Auction, Bid } from '@/types';
+import { Auction, Bid, CreditAccount } from '@/types';
 import Navbar from '@/components/Navbar';
+import TwoFactorSettings from '@/components/TwoFactorSettings';
 import { formatCurrency, formatDate } from '@/lib/utils';
 import { 
   User, 
@@ -37,6 +38,7 @@ export default function ProfilePage() {
     wonAuctions: 0,
     totalSpent: 0
   });
+  const [credit, setCredit] = useState<CreditAccount | null>(null);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<'bids' | 'auctions'>('bids');
 
@@ -52,11 +54,16 @@ export default function ProfilePage() {
       return;
     }
 
+    // Only sellers and admins have listings of their own
+    const canSell = user.roles?.some((role) => role === 'SELLER' || role === 'ADMIN');
+
     try {
-      const [bidsResponse, auctionsResponse] = await Promise.all([
+      const [bidsResponse, auctionsResponse, creditResponse] = await Promise.all([
         api.get(`/bids/user/${user._id}`),
-        api.get(`/auctions?userId=${user._id}`)
+        canSell ? api.get('/users/me/auctions') : Promise.resolve({ data: [] }),
+        api.get('/credit/me').catch(() => ({ data: null })),
       ]);
+      setCredit(creditResponse.data);
 
       const bids = Array.isArray(bidsResponse.data) ? bidsResponse.data : [];
       const auctions = Array.isArray(auctionsResponse.data) ? auctionsResponse.data : [];
@@ -141,6 +148,29 @@ export default function ProfilePage() {
           </div>
         </div>
 
+        <TwoFactorSettings initiallyEnabled={!!user.twoFactorEnabled} />
+
+        <div className="bg-white rounded-lg shadow p-6 mb-8 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 mb-1">Webhooks</h2>
+            <p className="text-gray-600">Send signed bid and auction events to your own systems</p>
+          </div>
+          <Link href="/webhooks" className="px-4 py-2 border rounded text-gray-700 hover:bg-gray-50">
+            Manage
+          </Link>
+        </div>
+
+        {credit?.creditLimit != null && (
+          <div className="bg-white rounded-lg shadow p-6 mb-8">
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">Bidding Credit</h2>
+            <p className="text-gray-600">
+              {formatCurrency(credit.available ?? 0)} available of your{' '}
+              {formatCurrency(credit.creditLimit)} limit;{' '}
+              {formatCurrency(credit.exposure)} is held for your leading bids.
+            </p>
+          </div>
+        )}
+
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
           <div className="bg-white rounded-lg shadow p-6">
@@ -0,0 +1,244 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/context/AuthContext';
+import { api } from '@/lib/api';
+import { SavedSearch } from '@/types';
+import Navbar from '@/components/Navbar';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { BookmarkCheck, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const describe = (search: SavedSearch) => {
+  const parts = [
+    search.text ? `"${search.text}"` : 'Any auction',
+    search.status && search.status.toLowerCase(),
+    search.minPrice != null && `from ${formatCurrency(search.minPrice)}`,
+    search.maxPrice != null && `up to ${formatCurrency(search.maxPrice)}`,
+  ];
+  return parts.filter(Boolean).join(' · ');
+};
+
+export default function SavedSearchesPage() {
+  const { user } = useAuth();
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [text, setText] = useState('');
+  const [status, setStatus] = useState('');
+  const [minPrice, setMinPrice] = useState('');
+  const [maxPrice, setMaxPrice] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      fetchSearches();
+    }
+  }, [user]);
+
+  const fetchSearches = async () => {
+    try {
+      const response = await api.get<SavedSearch[]>('/saved-searches');
+      setSearches(response.data);
+    } catch (error) {
+      toast.error('Failed to load saved searches');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showError = (error: any, fallback: string) => {
+    const message = error.response?.data?.message;
+    toast.error(Array.isArray(message) ? message[0] : message || fallback);
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setBusy(true);
+    try {
+      const response = await api.post<SavedSearch>('/saved-searches', {
+        name,
+        text: text || undefined,
+        status: status || undefined,
+        minPrice: minPrice ? Number(minPrice) : undefined,
+        maxPrice: maxPrice ? Number(maxPrice) : undefined,
+      });
+      setSearches((prev) => [response.data, ...prev]);
+      setName('');
+      setText('');
+      setStatus('');
+      setMinPrice('');
+      setMaxPrice('');
+      toast.success('Search saved');
+    } catch (error: any) {
+      showError(error, 'Failed to save search');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleAlerts = async (search: SavedSearch) => {
+    try {
+      const response = await api.patch<SavedSearch>(`/saved-searches/${search._id}`, {
+        alertsEnabled: !search.alertsEnabled,
+      });
+      setSearches((prev) => prev.map((entry) => (entry._id === search._id ? response.data : entry)));
+    } catch (error: any) {
+      showError(error, 'Failed to update search');
+    }
+  };
+
+  const handleDelete = async (search: SavedSearch) => {
+    try {
+      await api.delete(`/saved-searches/${search._id}`);
+      setSearches((prev) => prev.filter((entry) => entry._id !== search._id));
+    } catch (error: any) {
+      showError(error, 'Failed to delete search');
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="flex items-center justify-center h-96">
+          <div className="text-center">
+            <p className="text-gray-500 mb-4">Please login to save searches</p>
+            <Link href="/login" className="bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600">
+              Login
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+      <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+        <div className="bg-white rounded-lg shadow p-6">
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <BookmarkCheck className="w-6 h-6 mr-2" />
+            Saved searches
+          </h1>
+          <p className="text-gray-600 mt-1">
+            Get notified when a newly listed or newly started auction matches
+          </p>
+        </div>
+
+        <form onSubmit={handleCreate} className="bg-white rounded-lg shadow p-6 space-y-4">
+          <h2 className="text-lg font-semibold">New search</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="text-sm text-gray-700">
+              Name
+              <input
+                type="text"
+                required
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                placeholder="Air-cooled Porsches"
+                className="block w-full mt-1 px-3 py-2 border rounded"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Words
+              <input
+                type="text"
+                value={text}
+                onChange={(event) => setText(event.target.value)}
+                placeholder="porsche 911"
+                className="block w-full mt-1 px-3 py-2 border rounded"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Status
+              <select
+                value={status}
+                onChange={(event) => setStatus(event.target.value)}
+                className="block w-full mt-1 px-3 py-2 border rounded"
+              >
+                <option value="">Upcoming or live</option>
+                <option value="PENDING">Upcoming</option>
+                <option value="ACTIVE">Live</option>
+              </select>
+            </label>
+            <div className="grid grid-cols-2 gap-4">
+              <label className="text-sm text-gray-700">
+                Min price
+                <input
+                  type="number"
+                  min="0"
+                  value={minPrice}
+                  onChange={(event) => setMinPrice(event.target.value)}
+                  className="block w-full mt-1 px-3 py-2 border rounded"
+                />
+              </label>
+              <label className="text-sm text-gray-700">
+                Max price
+                <input
+                  type="number"
+                  min="0"
+                  value={maxPrice}
+                  onChange={(event) => setMaxPrice(event.target.value)}
+                  className="block w-full mt-1 px-3 py-2 border rounded"
+                />
+              </label>
+            </div>
+          </div>
+          <button
+            type="submit"
+            disabled={busy || !name}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+          >
+            Save search
+          </button>
+        </form>
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold mb-4">Your searches</h2>
+          {loading ? (
+            <div className="text-center py-6">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+            </div>
+          ) : searches.length === 0 ? (
+            <p className="text-gray-500">No saved searches yet</p>
+          ) : (
+            <ul className="divide-y">
+              {searches.map((search) => (
+                <li key={search._id} className="py-3 flex items-start justify-between">
+                  <div>
+                    <p className="font-medium text-gray-900">{search.name}</p>
+                    <p className="text-sm text-gray-600">{describe(search)}</p>
+                    {search.lastAlertAt && (
+                      <p className="text-xs text-gray-500">Last match {formatDate(search.lastAlertAt)}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-4">
+                    <label className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={search.alertsEnabled}
+                        onChange={() => toggleAlerts(search)}
+                        className="mr-2"
+                      />
+                      Alerts
+                    </label>
+                    <button
+                      onClick={() => handleDelete(search)}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Delete search"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
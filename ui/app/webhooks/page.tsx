@@ -0,0 +1,340 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/context/AuthContext';
+import { api } from '@/lib/api';
+import { OrganizationSummary, WebhookDelivery, WebhookEvent, WebhookSubscription } from '@/types';
+import Navbar from '@/components/Navbar';
+import { formatDate } from '@/lib/utils';
+import { Webhook, RefreshCw, Trash2, KeyRound } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const EVENTS: { event: WebhookEvent; label: string }[] = [
+  { event: 'bid.accepted', label: 'Bid accepted' },
+  { event: 'bid.rejected', label: 'Bid rejected' },
+  { event: 'auction.started', label: 'Auction started' },
+  { event: 'auction.ended', label: 'Auction ended' },
+  { event: 'auction.won', label: 'Auction won' },
+];
+
+export default function WebhooksPage() {
+  const { user } = useAuth();
+  const [organizations, setOrganizations] = useState<OrganizationSummary[]>([]);
+  // '' manages the caller's own webhooks
+  const [owner, setOwner] = useState('');
+  const [webhooks, setWebhooks] = useState<WebhookSubscription[]>([]);
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>(EVENTS.map(({ event }) => event));
+  const [secret, setSecret] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      api
+        .get<OrganizationSummary[]>('/organizations')
+        .then((response) => setOrganizations(response.data.filter((org) => org.role === 'OWNER')))
+        .catch(() => undefined);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      fetchWebhooks();
+    }
+  }, [user, owner]);
+
+  const showError = (error: any, fallback: string) => {
+    const message = error.response?.data?.message;
+    toast.error(Array.isArray(message) ? message[0] : message || fallback);
+  };
+
+  const fetchWebhooks = async () => {
+    try {
+      const response = await api.get<WebhookSubscription[]>('/webhooks', {
+        params: owner ? { organizationId: owner } : {},
+      });
+      setWebhooks(response.data);
+      setSelected(null);
+      setDeliveries([]);
+    } catch (error: any) {
+      showError(error, 'Failed to load webhooks');
+    }
+  };
+
+  const fetchDeliveries = async (id: string) => {
+    try {
+      const response = await api.get(`/webhooks/${id}/deliveries`, { params: { limit: 20 } });
+      setSelected(id);
+      setDeliveries(response.data.deliveries);
+    } catch (error: any) {
+      showError(error, 'Failed to load deliveries');
+    }
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setBusy(true);
+    try {
+      const response = await api.post<WebhookSubscription>('/webhooks', {
+        url,
+        events,
+        organizationId: owner || undefined,
+      });
+      const { secret: created, ...webhook } = response.data;
+      setWebhooks((prev) => [webhook, ...prev]);
+      setSecret(created ?? null);
+      setUrl('');
+    } catch (error: any) {
+      showError(error, 'Failed to add webhook');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleActive = async (webhook: WebhookSubscription) => {
+    try {
+      const response = await api.patch<WebhookSubscription>(`/webhooks/${webhook.id}`, {
+        active: !webhook.active,
+      });
+      setWebhooks((prev) => prev.map((entry) => (entry.id === webhook.id ? response.data : entry)));
+    } catch (error: any) {
+      showError(error, 'Failed to update webhook');
+    }
+  };
+
+  const rotateSecret = async (webhook: WebhookSubscription) => {
+    if (!confirm('The current secret stops working immediately. Continue?')) return;
+    try {
+      const response = await api.post<{ secret: string }>(`/webhooks/${webhook.id}/rotate-secret`);
+      setSecret(response.data.secret);
+    } catch (error: any) {
+      showError(error, 'Failed to rotate secret');
+    }
+  };
+
+  const handleDelete = async (webhook: WebhookSubscription) => {
+    if (!confirm(`Delete the webhook for ${webhook.url}?`)) return;
+    try {
+      await api.delete(`/webhooks/${webhook.id}`);
+      setWebhooks((prev) => prev.filter((entry) => entry.id !== webhook.id));
+      if (selected === webhook.id) {
+        setSelected(null);
+        setDeliveries([]);
+      }
+    } catch (error: any) {
+      showError(error, 'Failed to delete webhook');
+    }
+  };
+
+  const redeliver = async (delivery: WebhookDelivery) => {
+    try {
+      const response = await api.post<WebhookDelivery>(`/webhooks/deliveries/${delivery.id}/redeliver`);
+      setDeliveries((prev) => prev.map((entry) => (entry.id === delivery.id ? response.data : entry)));
+      toast.success('Delivery queued');
+    } catch (error: any) {
+      showError(error, 'Failed to redeliver');
+    }
+  };
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents((prev) => (prev.includes(event) ? prev.filter((entry) => entry !== event) : [...prev, event]));
+  };
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="flex items-center justify-center h-96">
+          <div className="text-center">
+            <p className="text-gray-500 mb-4">Please login to manage webhooks</p>
+            <Link href="/login" className="bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600">
+              Login
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+      <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+        <div className="bg-white rounded-lg shadow p-6 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+              <Webhook className="w-6 h-6 mr-2" />
+              Webhooks
+            </h1>
+            <p className="text-gray-600 mt-1">
+              Payloads are signed with HMAC-SHA256 over <code>timestamp.body</code> in the X-Webhook-Signature header
+            </p>
+          </div>
+          {organizations.length > 0 && (
+            <select
+              value={owner}
+              onChange={(event) => setOwner(event.target.value)}
+              className="px-3 py-2 border rounded"
+            >
+              <option value="">My webhooks</option>
+              {organizations.map((org) => (
+                <option key={org._id} value={org._id}>
+                  {org.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {secret && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+            <p className="text-sm text-yellow-800 mb-2">
+              Copy the signing secret now. It will not be shown again.
+            </p>
+            <code className="block bg-white border rounded px-3 py-2 text-sm break-all">{secret}</code>
+            <button onClick={() => setSecret(null)} className="mt-2 text-sm text-yellow-800 underline">
+              Done
+            </button>
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="bg-white rounded-lg shadow p-6 space-y-4">
+          <h2 className="text-lg font-semibold">Add a webhook</h2>
+          <input
+            type="url"
+            required
+            value={url}
+            placeholder="https://dealer.example.com/hooks/auctions"
+            onChange={(event) => setUrl(event.target.value)}
+            className="w-full px-3 py-2 border rounded"
+          />
+          <div className="flex flex-wrap gap-4">
+            {EVENTS.map(({ event, label }) => (
+              <label key={event} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={events.includes(event)}
+                  onChange={() => toggleEvent(event)}
+                  className="mr-2"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+          <button
+            type="submit"
+            disabled={busy || !url || events.length === 0}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+          >
+            Add webhook
+          </button>
+        </form>
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold mb-4">Endpoints</h2>
+          {webhooks.length === 0 ? (
+            <p className="text-gray-500">No webhooks yet</p>
+          ) : (
+            <ul className="divide-y">
+              {webhooks.map((webhook) => (
+                <li key={webhook.id} className="py-3 flex items-start justify-between gap-4">
+                  <button onClick={() => fetchDeliveries(webhook.id)} className="text-left min-w-0">
+                    <p className={`font-medium break-all ${webhook.active ? 'text-gray-900' : 'text-gray-400'}`}>
+                      {webhook.url}
+                    </p>
+                    <p className="text-xs text-gray-500">{webhook.events.join(', ')}</p>
+                  </button>
+                  <div className="flex items-center space-x-3 flex-shrink-0">
+                    <label className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={webhook.active}
+                        onChange={() => toggleActive(webhook)}
+                        className="mr-2"
+                      />
+                      Active
+                    </label>
+                    <button
+                      onClick={() => rotateSecret(webhook)}
+                      className="text-gray-400 hover:text-gray-700"
+                      title="Rotate secret"
+                    >
+                      <KeyRound className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(webhook)}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Delete webhook"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {selected && (
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold">Recent deliveries</h2>
+              <button onClick={() => fetchDeliveries(selected)} className="text-gray-400 hover:text-gray-700">
+                <RefreshCw className="w-4 h-4" />
+              </button>
+            </div>
+            {deliveries.length === 0 ? (
+              <p className="text-gray-500">Nothing sent yet</p>
+            ) : (
+              <ul className="divide-y text-sm">
+                {deliveries.map((delivery) => {
+                  const lastAttempt = delivery.attempts.at(-1);
+                  return (
+                    <li key={delivery.id} className="py-3 flex items-start justify-between">
+                      <div>
+                        <p className="text-gray-900">{delivery.event}</p>
+                        <p className="text-xs text-gray-500">
+                          {formatDate(delivery.createdAt)} · {delivery.attempts.length} attempt
+                          {delivery.attempts.length === 1 ? '' : 's'}
+                          {lastAttempt?.statusCode && ` · last response ${lastAttempt.statusCode}`}
+                          {delivery.nextAttemptAt && ` · retrying ${formatDate(delivery.nextAttemptAt)}`}
+                        </p>
+                        {delivery.status !== 'SENT' && lastAttempt?.error && (
+                          <p className="text-xs text-red-600">{lastAttempt.error}</p>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        <span
+                          className={`text-xs font-medium ${
+                            delivery.status === 'SENT'
+                              ? 'text-green-600'
+                              : delivery.status === 'FAILED'
+                                ? 'text-red-600'
+                                : 'text-gray-500'
+                          }`}
+                        >
+                          {delivery.status}
+                        </span>
+                        {delivery.status !== 'QUEUED' && (
+                          <button
+                            onClick={() => redeliver(delivery)}
+                            className="text-xs text-blue-600 hover:text-blue-800"
+                          >
+                            Redeliver
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
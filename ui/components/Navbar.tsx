@@ -2,12 +2,13 @@
 
 import Link from 'next/link';
 import { useAuth } from '@/context/AuthContext';
-import { LogOut, User, Plus, Menu, X } from 'lucide-react';
+import { LogOut, User, Plus, Menu, X, Building2, BookmarkCheck } from 'lucide-react';
 import NotificationCenter from './NotificationCenter';
 import { useState } from 'react';
 
 export default function Navbar() {
-  const { user, logout } = useAuth();
+  const { user, logout, activeOrganization } = useAuth();
+  const canSell = user?.roles?.some((role) => role === 'SELLER' || role === 'ADMIN');
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
   return (
@@ -29,10 +30,20 @@ export default function Navbar() {
             
             {user ? (
               <>
-                <Link href="/auctions/create" className="flex items-center text-gray-700 hover:text-gray-900">
-                  <Plus className="w-4 h-4 mr-1" />
-                  <span className="hidden lg:inline">Create Auction</span>
-                  <span className="lg:hidden">Create</span>
+                {canSell && (
+                  <Link href="/auctions/create" className="flex items-center text-gray-700 hover:text-gray-900">
+                    <Plus className="w-4 h-4 mr-1" />
+                    <span className="hidden lg:inline">Create Auction</span>
+                    <span className="lg:hidden">Create</span>
+                  </Link>
+                )}
+                <Link href="/organizations" className="flex items-center text-gray-700 hover:text-gray-900">
+                  <Building2 className="w-4 h-4 mr-1" />
+                  <span className="hidden lg:inline">{activeOrganization?.name ?? 'Organizations'}</span>
+                </Link>
+                <Link href="/saved-searches" className="flex items-center text-gray-700 hover:text-gray-900">
+                  <BookmarkCheck className="w-4 h-4 mr-1" />
+                  <span className="hidden lg:inline">Saved Searches</span>
                 </Link>
                 <NotificationCenter />
                 <Link href="/profile" className="flex items-center text-gray-700 hover:text-gray-900">
@@ -88,13 +99,31 @@ export default function Navbar() {
               
               {user ? (
                 <>
-                  <Link 
-                    href="/auctions/create" 
+                  {canSell && (
+                    <Link 
+                      href="/auctions/create" 
+                      className="flex items-center px-4 py-2 text-gray-700 hover:text-gray-900 hover:bg-gray-50"
+                      onClick={() => setMobileMenuOpen(false)}
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Create Auction
+                    </Link>
+                  )}
+                  <Link
+                    href="/organizations"
+                    className="flex items-center px-4 py-2 text-gray-700 hover:text-gray-900 hover:bg-gray-50"
+                    onClick={() => setMobileMenuOpen(false)}
+                  >
+                    <Building2 className="w-4 h-4 mr-2" />
+                    {activeOrganization ? `Bidding for ${activeOrganization.name}` : 'Organizations'}
+                  </Link>
+                  <Link
+                    href="/saved-searches"
                     className="flex items-center px-4 py-2 text-gray-700 hover:text-gray-900 hover:bg-gray-50"
                     onClick={() => setMobileMenuOpen(false)}
                   >
-                    <Plus className="w-4 h-4 mr-2" />
-                    Create Auction
+                    <BookmarkCheck className="w-4 h-4 mr-2" />
+                    Saved Searches
                   </Link>
                   <Link 
                     href="/profile" 
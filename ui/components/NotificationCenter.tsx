@@ -2,124 +2,112 @@
 
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/context/AuthContext';
-import { getSocket } from '@/lib/socket';
-import { Bell, X, Check, AlertCircle, Trophy, Gavel } from 'lucide-react';
-
-interface Notification {
-  id: string;
-  type: 'bid_update' | 'auction_won' | 'outbid' | 'auction_end' | 'general';
-  title: string;
-  message: string;
-  timestamp: Date;
-  read: boolean;
-  auctionId?: string;
-}
-
+import { api } from '@/lib/api';
+import { connectSocket } from '@/lib/socket';
+import { NotificationPage, NotificationsReadEvent, UserNotification } from '@/types';
+import { Bell, Check, AlertCircle, Trophy, Gavel, Settings } from 'lucide-react';
+
+const PAGE_SIZE = 20;
+
+const titles: Record<string, string> = {
+  BID_SUCCESS: 'Bid placed',
+  BID_FAILED: 'Bid failed',
+  OUTBID_NOTIFICATION: 'You\'ve been outbid!',
+  PROXY_BID_EXHAUSTED: 'Maximum bid exceeded',
+  PROXY_BID_CANCELLED: 'Maximum bid cancelled',
+  AUCTION_WON: 'Congratulations!',
+  RESERVE_NOT_MET: 'Reserve not met',
+  AUCTION_STARTING_SOON: 'Starting soon',
+  AUCTION_ENDING_SOON: 'Ending soon',
+  SAVED_SEARCH_MATCH: 'New match for your search',
+};
+
+// The inbox lives on the server, so it survives reloads and read state is
+// the same in every tab and on every device
 export default function NotificationCenter() {
-  const { user } = useAuth();
-  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const { user, token } = useAuth();
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
   const [isOpen, setIsOpen] = useState(false);
   const [unreadCount, setUnreadCount] = useState(0);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
 
   useEffect(() => {
-    if (!user) return;
-
-    const socket = getSocket();
-    if (!socket) return;
-
-    // Listen for real-time notifications
-    socket.on('bidUpdate', (data) => {
-      if (data.userId !== user._id) {
-        addNotification({
-          type: 'bid_update',
-          title: 'New Bid Placed',
-          message: `Someone placed a bid of $${data.bidAmount.toLocaleString()} on an auction you're watching`,
-          auctionId: data.auctionId
-        });
-      }
-    });
-
-    socket.on('outbid', (data) => {
-      if (data.userId === user._id) {
-        addNotification({
-          type: 'outbid',
-          title: 'You\'ve been outbid!',
-          message: data.message,
-          auctionId: data.auctionId
-        });
-      }
-    });
-
-    socket.on('auctionWon', (data) => {
-      if (data.userId === user._id) {
-        addNotification({
-          type: 'auction_won',
-          title: 'Congratulations!',
-          message: data.message,
-          auctionId: data.auctionId
-        });
-      }
-    });
-
-    socket.on('auctionEnd', (data) => {
-      addNotification({
-        type: 'auction_end',
-        title: 'Auction Ended',
-        message: `An auction you were participating in has ended`,
-        auctionId: data.auctionId
-      });
-    });
+    if (!user || !token) return;
+
+    api
+      .get<NotificationPage>('/notifications', { params: { limit: PAGE_SIZE } })
+      .then((response) => {
+        setNotifications(response.data.notifications);
+        setUnreadCount(response.data.unreadCount);
+        setPage(1);
+        setTotalPages(response.data.totalPages);
+      })
+      .catch(() => undefined);
+
+    const socket = connectSocket(token);
+
+    const onNotification = (notification: UserNotification) => {
+      setNotifications((prev) => [notification, ...prev.filter((n) => n.id !== notification.id)]);
+      setUnreadCount((count) => count + 1);
+    };
 
-    return () => {
-      socket.off('bidUpdate');
-      socket.off('outbid');
-      socket.off('auctionWon');
-      socket.off('auctionEnd');
+    // Read on this tab or another one; the server sends the fresh count
+    const onNotificationsRead = (event: NotificationsReadEvent) => {
+      setNotifications((prev) =>
+        prev.map((n) =>
+          !n.readAt && (event.all || event.ids?.includes(n.id)) ? { ...n, readAt: event.readAt } : n
+        )
+      );
+      setUnreadCount(event.unreadCount);
     };
-  }, [user]);
 
-  useEffect(() => {
-    const count = notifications.filter(n => !n.read).length;
-    setUnreadCount(count);
-  }, [notifications]);
+    socket.on('notification', onNotification);
+    socket.on('notificationsRead', onNotificationsRead);
 
-  const addNotification = (notification: Omit<Notification, 'id' | 'timestamp' | 'read'>) => {
-    const newNotification: Notification = {
-      ...notification,
-      id: Date.now().toString(),
-      timestamp: new Date(),
-      read: false
+    return () => {
+      socket.off('notification', onNotification);
+      socket.off('notificationsRead', onNotificationsRead);
     };
+  }, [user, token]);
 
-    setNotifications(prev => [newNotification, ...prev.slice(0, 49)]); // Keep only 50 notifications
+  const loadMore = async () => {
+    try {
+      const response = await api.get<NotificationPage>('/notifications', {
+        params: { page: page + 1, limit: PAGE_SIZE },
+      });
+      setNotifications((prev) => [
+        ...prev,
+        ...response.data.notifications.filter((n) => !prev.some((existing) => existing.id === n.id)),
+      ]);
+      setUnreadCount(response.data.unreadCount);
+      setPage(response.data.page);
+      setTotalPages(response.data.totalPages);
+    } catch {
+      // Keep what is already shown
+    }
   };
 
+  // The change comes back over the socket, for this tab as for the others
   const markAsRead = (id: string) => {
-    setNotifications(prev =>
-      prev.map(n => n.id === id ? { ...n, read: true } : n)
-    );
+    api.patch(`/notifications/${id}/read`).catch(() => undefined);
   };
 
   const markAllAsRead = () => {
-    setNotifications(prev =>
-      prev.map(n => ({ ...n, read: true }))
-    );
+    api.patch('/notifications/read-all').catch(() => undefined);
   };
 
-  const removeNotification = (id: string) => {
-    setNotifications(prev => prev.filter(n => n.id !== id));
-  };
-
-  const getNotificationIcon = (type: Notification['type']) => {
+  const getNotificationIcon = (type: string) => {
     switch (type) {
-      case 'bid_update':
+      case 'BID_SUCCESS':
         return <Gavel className="w-5 h-5 text-blue-500" />;
-      case 'auction_won':
+      case 'AUCTION_WON':
         return <Trophy className="w-5 h-5 text-yellow-500" />;
-      case 'outbid':
+      case 'OUTBID_NOTIFICATION':
+      case 'PROXY_BID_EXHAUSTED':
+      case 'PROXY_BID_CANCELLED':
+      case 'BID_FAILED':
         return <AlertCircle className="w-5 h-5 text-red-500" />;
-      case 'auction_end':
-        return <Bell className="w-5 h-5 text-gray-500" />;
       default:
         return <Bell className="w-5 h-5 text-gray-500" />;
     }
@@ -148,14 +136,24 @@ export default function NotificationCenter() {
           <div className="p-4 border-b border-gray-200">
             <div className="flex items-center justify-between">
               <h3 className="text-lg font-medium text-gray-900">Notifications</h3>
-              {unreadCount > 0 && (
-                <button
-                  onClick={markAllAsRead}
-                  className="text-sm text-blue-600 hover:text-blue-800"
+              <div className="flex items-center space-x-3">
+                {unreadCount > 0 && (
+                  <button
+                    onClick={markAllAsRead}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    Mark all read
+                  </button>
+                )}
+                <a
+                  href="/notifications/preferences"
+                  className="text-gray-400 hover:text-gray-600"
+                  title="Notification preferences"
+                  onClick={() => setIsOpen(false)}
                 >
-                  Mark all read
-                </button>
-              )}
+                  <Settings className="w-4 h-4" />
+                </a>
+              </div>
             </div>
           </div>
 
@@ -171,38 +169,30 @@ export default function NotificationCenter() {
                   <div
                     key={notification.id}
                     className={`p-4 hover:bg-gray-50 ${
-                      !notification.read ? 'bg-blue-50' : ''
+                      !notification.readAt ? 'bg-blue-50' : ''
                     }`}
                   >
                     <div className="flex items-start space-x-3">
                       <div className="flex-shrink-0">
                         {getNotificationIcon(notification.type)}
                       </div>
-                      
+
                       <div className="flex-1 min-w-0">
-                        <div className="flex items-center justify-between">
-                          <p className="text-sm font-medium text-gray-900">
-                            {notification.title}
-                          </p>
-                          <button
-                            onClick={() => removeNotification(notification.id)}
-                            className="text-gray-400 hover:text-gray-600"
-                          >
-                            <X className="w-4 h-4" />
-                          </button>
-                        </div>
-                        
+                        <p className="text-sm font-medium text-gray-900">
+                          {titles[notification.type] || 'Notification'}
+                        </p>
+
                         <p className="text-sm text-gray-600 mt-1">
                           {notification.message}
                         </p>
-                        
+
                         <div className="flex items-center justify-between mt-2">
                           <p className="text-xs text-gray-500">
-                            {notification.timestamp.toLocaleTimeString()}
+                            {new Date(notification.createdAt).toLocaleString()}
                           </p>
-                          
+
                           <div className="flex items-center space-x-2">
-                            {!notification.read && (
+                            {!notification.readAt && (
                               <button
                                 onClick={() => markAsRead(notification.id)}
                                 className="text-xs text-blue-600 hover:text-blue-800"
@@ -210,12 +200,15 @@ export default function NotificationCenter() {
                                 <Check className="w-4 h-4" />
                               </button>
                             )}
-                            
+
                             {notification.auctionId && (
                               <a
                                 href={`/auction/${notification.auctionId}`}
                                 className="text-xs text-blue-600 hover:text-blue-800"
-                                onClick={() => setIsOpen(false)}
+                                onClick={() => {
+                                  if (!notification.readAt) markAsRead(notification.id);
+                                  setIsOpen(false);
+                                }}
                               >
                                 View Auction
                               </a>
@@ -230,16 +223,13 @@ export default function NotificationCenter() {
             )}
           </div>
 
-          {notifications.length > 0 && (
+          {page < totalPages && (
             <div className="p-4 border-t border-gray-200">
               <button
-                onClick={() => {
-                  setNotifications([]);
-                  setIsOpen(false);
-                }}
+                onClick={loadMore}
                 className="w-full text-sm text-gray-600 hover:text-gray-900"
               >
-                Clear all notifications
+                Load older notifications
               </button>
             </div>
           )}
@@ -255,4 +245,4 @@ export default function NotificationCenter() {
       )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -5,7 +5,7 @@ import { useAuth } from '@/context/AuthContext';
 import { connectSocket, getSocket, disconnectSocket } from '@/lib/socket';
 import { formatCurrency } from '@/lib/utils';
 import { api } from '@/lib/api';
-import { Auction, Bid } from '@/types';
+import { Auction, Bid, NextMinimumBid } from '@/types';
 import toast from 'react-hot-toast';
 import { 
   TrendingUp, 
@@ -28,7 +28,7 @@ export default function RealTimeBidding({
   initialBids, 
   onAuctionUpdate 
 }: RealTimeBiddingProps) {
-  const { user, token } = useAuth();
+  const { user, token, activeOrganization } = useAuth();
   const [auction, setAuction] = useState(initialAuction);
   const [bids, setBids] = useState<Bid[]>(initialBids);
   const [bidAmount, setBidAmount] = useState('');
@@ -37,7 +37,25 @@ export default function RealTimeBidding({
   const [isConnected, setIsConnected] = useState(false);
   const [activeUsers, setActiveUsers] = useState(0);
   const [lastBidTime, setLastBidTime] = useState<Date | null>(null);
+  const [minimumBid, setMinimumBid] = useState<NextMinimumBid | null>(null);
+  const [nextPriceAt, setNextPriceAt] = useState<string | null>(null);
   const bidSectionRef = useRef<HTMLDivElement>(null);
+  // Reused while the same amount is pending, so retries and double-clicks
+  // resolve to a single bid on the server
+  const pendingBidRef = useRef<{ amount: number; idempotencyKey: string } | null>(null);
+
+  // Minimum bid comes from the server's increment table for this auction
+  useEffect(() => {
+    const fetchNextMinimum = async () => {
+      try {
+        const response = await api.get(`/auctions/${auction._id}/next-minimum`);
+        setMinimumBid(response.data);
+      } catch (error) {
+        console.error('Failed to fetch next minimum bid:', error);
+      }
+    };
+    fetchNextMinimum();
+  }, [auction._id, auction.currentHighestBid, auction.bidCount]);
 
   // Real-time timer
   useEffect(() => {
@@ -51,19 +69,8 @@ export default function RealTimeBidding({
         if (auction.status === 'PENDING') {
           const diffToStart = start - now;
           if (diffToStart <= 0) {
-            // Start time has passed - this auction should be active
-            setTimeLeft('Should be ACTIVE');
-            
-            // Try to start the auction automatically
-            const startAuction = async () => {
-              try {
-                await api.post(`/auctions/${auction._id}/start`);
-                window.location.reload();
-              } catch (error) {
-                console.error('Failed to start auction:', error);
-              }
-            };
-            startAuction();
+            // The server scheduler starts the auction and pushes an auctionUpdate
+            setTimeLeft('Starting...');
           } else {
             const days = Math.floor(diffToStart / (1000 * 60 * 60 * 24));
             const hours = Math.floor((diffToStart % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
@@ -82,9 +89,8 @@ export default function RealTimeBidding({
           // For ACTIVE auctions, show time until end
           const diff = end - now;
           if (diff <= 0) {
-            setTimeLeft('ENDED');
-            setAuction(prev => ({ ...prev, status: 'ENDED' }));
-            clearInterval(timer);
+            // Wait for the server to close the auction via auctionEnd
+            setTimeLeft('Closing...');
           } else {
             const days = Math.floor(diff / (1000 * 60 * 60 * 24));
             const hours = Math.floor((diff % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
@@ -118,19 +124,36 @@ export default function RealTimeBidding({
         socket.emit('joinAuction', auction._id);
       });
 
+      // The notification center may have connected the socket already
+      if (socket.connected) {
+        setIsConnected(true);
+        socket.emit('joinAuction', auction._id);
+      }
+
       socket.on('disconnect', () => {
         setIsConnected(false);
       });
       
       socket.on('bidUpdate', (data) => {
-        if (data.auctionId === auction._id) {
-          const updatedAuction = {
-            ...auction,
-            currentHighestBid: data.bidAmount,
-            bidCount: auction.bidCount + 1
-          };
-          setAuction(updatedAuction);
-          onAuctionUpdate(updatedAuction);
+        if (data.auctionId === auction._id && data.sealed) {
+          // Sealed auctions only announce that a bid arrived
+          setAuction(prev => {
+            const updatedAuction = { ...prev, bidCount: data.bidCount };
+            onAuctionUpdate(updatedAuction);
+            return updatedAuction;
+          });
+          setLastBidTime(new Date());
+        } else if (data.auctionId === auction._id) {
+          // Use the latest state so a soft-close endTime from auctionUpdate is kept
+          setAuction(prev => {
+            const updatedAuction = {
+              ...prev,
+              currentHighestBid: data.bidAmount,
+              bidCount: prev.bidCount + 1
+            };
+            onAuctionUpdate(updatedAuction);
+            return updatedAuction;
+          });
           
           const newBid = {
             _id: data.bidId,
@@ -159,10 +182,51 @@ export default function RealTimeBidding({
         }
       });
       
+      socket.on('auctionUpdate', (data) => {
+        if (data.auctionId === auction._id) {
+          setAuction(prev => {
+            const updatedAuction = {
+              ...prev,
+              ...(data.status && { status: data.status }),
+              ...(data.startTime && { startTime: data.startTime }),
+              ...(data.endTime && { endTime: data.endTime }),
+              ...(data.currentHighestBid !== undefined && { currentHighestBid: data.currentHighestBid }),
+              ...(data.bidCount !== undefined && { bidCount: data.bidCount }),
+              ...(data.reserveMet !== undefined && { reserveMet: data.reserveMet }),
+            };
+            onAuctionUpdate(updatedAuction);
+            return updatedAuction;
+          });
+
+          if (data.nextPriceAt !== undefined) {
+            setNextPriceAt(data.nextPriceAt);
+          }
+
+          if (data.reason === 'SOFT_CLOSE') {
+            toast(`Late bid! Auction extended to ${new Date(data.endTime).toLocaleTimeString()}`, {
+              icon: '⏱️',
+              duration: 4000,
+            });
+          }
+        }
+      });
+
       socket.on('auctionEnd', (data) => {
         if (data.auctionId === auction._id) {
-          setAuction(prev => ({ ...prev, status: 'ENDED' }));
-          toast.success('Auction has ended!', {
+          setAuction(prev => {
+            const updatedAuction = {
+              ...prev,
+              status: 'ENDED' as const,
+              winnerId: data.winnerId,
+              outcome: data.outcome,
+              ...(data.winningBid !== undefined && { clearingPrice: data.winningBid }),
+              reserveMet: data.reserveMet,
+            };
+            onAuctionUpdate(updatedAuction);
+            return updatedAuction;
+          });
+          setTimeLeft('ENDED');
+          toast.success(data.message || 'Auction has ended!', {
             icon: '🏁',
             duration: 5000,
           });
@@ -178,6 +242,19 @@ export default function RealTimeBidding({
         }
       });
 
+      socket.on('bidResult', (data) => {
+        if (data.auctionId !== auction._id) {
+          return;
+        }
+        if (pendingBidRef.current?.idempotencyKey === data.idempotencyKey) {
+          pendingBidRef.current = null;
+        }
+        if (data.status === 'REJECTED') {
+          toast.error(data.reason ? `Bid rejected: ${data.reason}` : 'Bid rejected');
+          promptStepUp(data.reason);
+        }
+      });
+
       socket.on('outbid', (data) => {
         if (data.auctionId === auction._id) {
           toast.error(data.message, {
@@ -198,8 +275,10 @@ export default function RealTimeBidding({
       return () => {
         socket.emit('leaveAuction', auction._id);
         socket.off('bidUpdate');
+        socket.off('auctionUpdate');
         socket.off('auctionEnd');
         socket.off('auctionWon');
+        socket.off('bidResult');
         socket.off('outbid');
         socket.off('userJoined');
         socket.off('userLeft');
@@ -207,6 +286,29 @@ export default function RealTimeBidding({
     }
   }, [token, auction._id, auction.status, user]);
 
+  // High-value bids are refused until a two-factor code is confirmed on
+  // this session; the bidder then places the bid again
+  const promptStepUp = async (reason?: string) => {
+    if (!reason?.includes('Confirm a two-factor code')) {
+      return;
+    }
+
+    const code = window.prompt('Enter the code from your authenticator app to confirm high-value bids');
+    if (!code) {
+      return;
+    }
+
+    try {
+      await api.post('/auth/2fa/step-up', { code: code.trim() });
+      toast.success('Confirmed, you can place your bid again');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Invalid code');
+    }
+  };
+
+  const minBidAmount = minimumBid?.nextMinimum ?? (auction.currentHighestBid || auction.startingBid);
+  const bidIncrement = minimumBid?.increment ?? 100;
+
   const handlePlaceBid = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -216,29 +318,34 @@ export default function RealTimeBidding({
     }
 
     const amount = parseFloat(bidAmount);
-    const minBid = (auction.currentHighestBid || auction.startingBid) + 100;
 
-    if (amount < minBid) {
-      toast.error(`Minimum bid amount is ${formatCurrency(minBid)}`);
+    if (amount < minBidAmount) {
+      toast.error(`Minimum bid amount is ${formatCurrency(minBidAmount)}`);
       return;
     }
 
     setPlacing(true);
 
+    if (pendingBidRef.current?.amount !== amount) {
+      pendingBidRef.current = { amount, idempotencyKey: crypto.randomUUID() };
+    }
+    const { idempotencyKey } = pendingBidRef.current;
+
     try {
       const socket = getSocket();
       // Try WebSocket first, fallback to HTTP API
       if (socket && isConnected) {
         socket.emit('placeBid', {
           auctionId: auction._id,
-          bidAmount: amount
+          bidAmount: amount,
+          idempotencyKey,
         });
       } else {
         // Fallback to HTTP API if WebSocket not available
         await api.post('/bids', {
           auctionId: auction._id,
           bidAmount: amount,
-          userId: user?._id
+          idempotencyKey,
         });
       }
       
@@ -254,6 +361,55 @@ export default function RealTimeBidding({
     }
   };
 
+  const handleBuyNow = async () => {
+    if (!user || !auction.buyNowPrice) {
+      return;
+    }
+
+    if (!window.confirm(`Buy "${auction.title}" now for ${formatCurrency(auction.buyNowPrice)}?`)) {
+      return;
+    }
+
+    setPlacing(true);
+
+    try {
+      // The server closes the auction; auctionEnd/auctionWon update the view
+      await api.post(`/bids/buy-now/${auction._id}`);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to buy now');
+      promptStepUp(error.response?.data?.message);
+    } finally {
+      setPlacing(false);
+    }
+  };
+
+  const handleAcceptPrice = async () => {
+    if (!user) {
+      return;
+    }
+
+    setPlacing(true);
+
+    try {
+      // The server settles at its own current price, never above what is shown
+      await api.post(`/bids/dutch/${auction._id}/accept`);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to accept price');
+      promptStepUp(error.response?.data?.message);
+    } finally {
+      setPlacing(false);
+    }
+  };
+
+  const handleResendVerification = async () => {
+    try {
+      const response = await api.post('/auth/resend-verification');
+      toast.success(response.data.message);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to send verification email');
+    }
+  };
+
   const getConnectionStatus = () => {
     if (!user) return { color: 'gray', text: 'Not logged in' };
     if (!token) return { color: 'gray', text: 'No token' };
@@ -262,9 +418,21 @@ export default function RealTimeBidding({
   };
 
   const connectionStatus = getConnectionStatus();
-  const isWinning = bids.length > 0 && bids[0].userId === user?._id;
-  const minBidAmount = (auction.currentHighestBid || auction.startingBid) + 100;
+  const isDutch = auction.auctionType === 'DUTCH';
+  const isSealed = !!auction.auctionType && auction.auctionType !== 'ENGLISH' && !isDutch;
+  const isWinning = !isSealed && !isDutch && bids.length > 0 && bids[0].userId === user?._id;
   const isAuctionActive = auction.status === 'ACTIVE' && timeLeft !== 'ENDED';
+  // Sellers cannot bid on their own lots
+  const isOwnAuction = !!user && !!auction.sellerId && auction.sellerId === user._id;
+  // Unverified accounts can follow the auction but the server refuses their bids
+  const needsVerification = !!user && user.emailVerified === false;
+  const canBid = !!user && !isOwnAuction && !needsVerification;
+  // Mirrors the server's rule; the server has the final say
+  const isBuyNowAvailable =
+    !!auction.buyNowPrice &&
+    (auction.bidCount === 0 ||
+      (auction.currentHighestBid < auction.buyNowPrice &&
+        (!auction.buyNowBidThreshold || auction.currentHighestBid < auction.buyNowBidThreshold)));
 
   return (
     <div className="space-y-6">
@@ -295,17 +463,39 @@ export default function RealTimeBidding({
           <div className="text-center">
             <div className="flex items-center justify-center mb-2">
               <TrendingUp className="w-5 h-5 text-green-600 mr-2" />
-              <span className="text-sm text-gray-600">Current Highest Bid</span>
+              <span className="text-sm text-gray-600">
+                {isSealed && isAuctionActive
+                  ? 'Starting Bid'
+                  : isDutch && isAuctionActive
+                    ? 'Current Price'
+                    : 'Current Highest Bid'}
+              </span>
             </div>
             <div className="text-3xl font-bold text-gray-900">
               {formatCurrency(auction.currentHighestBid || auction.startingBid)}
             </div>
+            {isDutch && isAuctionActive && nextPriceAt && (
+              <div className="mt-2 text-sm font-medium text-gray-600">
+                Next drop at {new Date(nextPriceAt).toLocaleTimeString()}
+              </div>
+            )}
+            {isSealed && isAuctionActive && (
+              <div className="mt-2 text-sm font-medium text-gray-600">
+                Sealed bids: amounts are revealed at close
+              </div>
+            )}
             {isWinning && (
               <div className="flex items-center justify-center mt-2 text-green-600">
                 <Trophy className="w-4 h-4 mr-1" />
                 <span className="text-sm font-medium">You're winning!</span>
               </div>
             )}
+            {auction.reserveMet === false && (
+              <div className="mt-2 text-sm font-medium text-orange-600">Reserve not met</div>
+            )}
+            {auction.reserveMet === true && auction.bidCount > 0 && (
+              <div className="mt-2 text-sm font-medium text-green-600">Reserve met</div>
+            )}
           </div>
 
           <div className="text-center">
@@ -332,36 +522,39 @@ export default function RealTimeBidding({
         </div>
       </div>
 
-      {/* Debug: Start Auction if needed */}
-      {auction.status === 'PENDING' && new Date(auction.startTime) <= new Date() && user && (
-        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6 text-center">
-          <AlertCircle className="w-8 h-8 text-yellow-600 mx-auto mb-3" />
-          <h3 className="text-lg font-semibold text-yellow-900 mb-2">Auction Ready to Start</h3>
-          <p className="text-yellow-700 mb-4">This auction's start time has passed. Click below to start it.</p>
+      {/* Dutch acceptance */}
+      {isAuctionActive && canBid && isDutch && (
+        <div className="bg-white rounded-lg shadow p-6" ref={bidSectionRef}>
+          <h3 className="text-lg font-semibold mb-4 flex items-center">
+            <Zap className="w-5 h-5 text-yellow-500 mr-2" />
+            Accept the Current Price
+          </h3>
+          <p className="text-sm text-gray-500 mb-4">
+            The price keeps dropping until someone accepts it. The first bidder to accept wins.
+          </p>
           <button
-            onClick={async () => {
-              try {
-                await api.post(`/auctions/${auction._id}/start`);
-                toast.success('Auction started!');
-                window.location.reload();
-              } catch (error: any) {
-                toast.error(error.response?.data?.message || 'Failed to start auction');
-              }
-            }}
-            className="inline-flex items-center px-4 py-2 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 focus:outline-none focus:ring-2 focus:ring-yellow-500"
+            type="button"
+            onClick={handleAcceptPrice}
+            disabled={placing}
+            className="w-full px-6 py-3 bg-green-600 text-white text-lg font-semibold rounded-lg hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            Start Auction Now
+            Accept {formatCurrency(auction.currentHighestBid || auction.startingBid)}
           </button>
         </div>
       )}
 
       {/* Bidding Form */}
-      {isAuctionActive && user && (
+      {isAuctionActive && canBid && !isDutch && (
         <div className="bg-white rounded-lg shadow p-6" ref={bidSectionRef}>
           <h3 className="text-lg font-semibold mb-4 flex items-center">
             <Zap className="w-5 h-5 text-yellow-500 mr-2" />
-            Place Your Bid
+            {isSealed ? 'Place or Revise Your Sealed Bid' : 'Place Your Bid'}
           </h3>
+          {activeOrganization && (
+            <p className="text-sm text-gray-600 -mt-2 mb-4">
+              Bidding for {activeOrganization.name}
+            </p>
+          )}
           
           <form onSubmit={handlePlaceBid} className="space-y-4">
             <div>
@@ -378,7 +571,7 @@ export default function RealTimeBidding({
                   value={bidAmount}
                   onChange={(e) => setBidAmount(e.target.value)}
                   min={minBidAmount}
-                  step="100"
+                  step={bidIncrement}
                   placeholder={minBidAmount.toString()}
                   className="block w-full pl-7 pr-12 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-lg"
                   required
@@ -431,10 +624,46 @@ export default function RealTimeBidding({
                 </>
               )}
             </button>
+
+            {isBuyNowAvailable && (
+              <button
+                type="button"
+                onClick={handleBuyNow}
+                disabled={placing}
+                className="w-full px-6 py-3 bg-green-600 text-white text-lg font-semibold rounded-lg hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Buy Now for {formatCurrency(auction.buyNowPrice!)}
+              </button>
+            )}
           </form>
         </div>
       )}
 
+      {/* Seller's own lot */}
+      {isOwnAuction && isAuctionActive && (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-6 text-center">
+          <AlertCircle className="w-8 h-8 text-gray-600 mx-auto mb-3" />
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">This is your auction</h3>
+          <p className="text-gray-600">Sellers cannot bid on their own lots</p>
+        </div>
+      )}
+
+      {/* Email verification prompt */}
+      {needsVerification && !isOwnAuction && isAuctionActive && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6 text-center">
+          <AlertCircle className="w-8 h-8 text-yellow-600 mx-auto mb-3" />
+          <h3 className="text-lg font-semibold text-yellow-900 mb-2">Verify your email to bid</h3>
+          <p className="text-yellow-700 mb-4">Follow the link we emailed you, then reload this page</p>
+          <button
+            type="button"
+            onClick={handleResendVerification}
+            className="inline-flex items-center px-4 py-2 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 focus:outline-none focus:ring-2 focus:ring-yellow-500"
+          >
+            Resend verification email
+          </button>
+        </div>
+      )}
+
       {/* Login prompt */}
       {!user && isAuctionActive && (
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-6 text-center">
@@ -455,8 +684,17 @@ export default function RealTimeBidding({
         <div className="bg-gray-50 border border-gray-200 rounded-lg p-6 text-center">
           <Clock className="w-8 h-8 text-gray-600 mx-auto mb-3" />
           <h3 className="text-lg font-semibold text-gray-900 mb-2">Auction Ended</h3>
-          <p className="text-gray-600">This auction has concluded</p>
-          {bids.length > 0 && bids[0].user && (
+          <p className="text-gray-600">
+            {auction.outcome === 'RESERVE_NOT_MET'
+              ? 'This auction closed without a sale: the reserve was not met'
+              : 'This auction has concluded'}
+          </p>
+          {auction.outcome === 'SOLD' && auction.clearingPrice !== undefined && (
+            <p className="text-sm text-gray-500 mt-2">
+              Sold for <span className="font-medium">{formatCurrency(auction.clearingPrice)}</span>
+            </p>
+          )}
+          {!isSealed && auction.outcome !== 'RESERVE_NOT_MET' && bids.length > 0 && bids[0].user && (
             <p className="text-sm text-gray-500 mt-2">
               Winner: <span className="font-medium">{bids[0].user.username}</span>
             </p>
@@ -0,0 +1,162 @@
+'use client';
+
+import { useState } from 'react';
+import { api } from '@/lib/api';
+import { ShieldCheck } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface Enrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+export default function TwoFactorSettings({ initiallyEnabled }: { initiallyEnabled: boolean }) {
+  const [enabled, setEnabled] = useState(initiallyEnabled);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSetup = () =>
+    run(async () => {
+      const response = await api.post('/auth/2fa/setup');
+      setEnrollment(response.data);
+    }, 'Could not start enrollment');
+
+  const handleEnable = () =>
+    run(async () => {
+      const response = await api.post('/auth/2fa/enable', { code });
+      setRecoveryCodes(response.data.recoveryCodes);
+      setEnrollment(null);
+      setEnabled(true);
+      setCode('');
+      toast.success('Two-factor authentication enabled');
+    }, 'Invalid code');
+
+  const handleDisable = () =>
+    run(async () => {
+      await api.post('/auth/2fa/disable', { code });
+      setEnabled(false);
+      setRecoveryCodes(null);
+      setCode('');
+      toast.success('Two-factor authentication disabled');
+    }, 'Invalid code');
+
+  const handleRegenerate = () =>
+    run(async () => {
+      const response = await api.post('/auth/2fa/recovery-codes', { code });
+      setRecoveryCodes(response.data.recoveryCodes);
+      setCode('');
+    }, 'Invalid code');
+
+  const codeInput = (
+    <input
+      type="text"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      placeholder="Authenticator code"
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+    />
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-8">
+      <div className="flex items-center space-x-3 mb-4">
+        <ShieldCheck className={`w-6 h-6 ${enabled ? 'text-green-600' : 'text-gray-400'}`} />
+        <h2 className="text-lg font-semibold text-gray-900">Two-factor authentication</h2>
+        <span className={`text-sm ${enabled ? 'text-green-700' : 'text-gray-500'}`}>
+          {enabled ? 'On' : 'Off'}
+        </span>
+      </div>
+
+      {recoveryCodes && (
+        <div className="mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded-md">
+          <p className="text-sm text-yellow-800 mb-2">
+            Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+            phone, and they will not be shown again.
+          </p>
+          <ul className="grid grid-cols-2 gap-1 font-mono text-sm text-gray-900">
+            {recoveryCodes.map((entry) => (
+              <li key={entry}>{entry}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {!enabled && !enrollment && (
+        <div>
+          <p className="text-sm text-gray-600 mb-4">
+            Protect your account with an authenticator app. High-value bids may ask for a code.
+          </p>
+          <button
+            type="button"
+            onClick={handleSetup}
+            disabled={busy}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            Set up two-factor authentication
+          </button>
+        </div>
+      )}
+
+      {!enabled && enrollment && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Add this key to your authenticator app, or open the setup link on your phone, then
+            enter the code it shows.
+          </p>
+          <p className="font-mono text-sm break-all text-gray-900">{enrollment.secret}</p>
+          <a href={enrollment.otpauthUri} className="text-sm text-blue-600 hover:text-blue-500">
+            Open in authenticator app
+          </a>
+          <div className="flex space-x-2">
+            {codeInput}
+            <button
+              type="button"
+              onClick={handleEnable}
+              disabled={busy || !code}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              Confirm
+            </button>
+          </div>
+        </div>
+      )}
+
+      {enabled && (
+        <div className="flex flex-wrap gap-2">
+          {codeInput}
+          <button
+            type="button"
+            onClick={handleRegenerate}
+            disabled={busy || !code}
+            className="px-4 py-2 bg-gray-100 text-gray-800 rounded-md text-sm hover:bg-gray-200 disabled:opacity-50"
+          >
+            New recovery codes
+          </button>
+          <button
+            type="button"
+            onClick={handleDisable}
+            disabled={busy || !code}
+            className="px-4 py-2 bg-red-600 text-white rounded-md text-sm hover:bg-red-700 disabled:opacity-50"
+          >
+            Turn off
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
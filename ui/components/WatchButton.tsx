@@ -0,0 +1,74 @@
+'use client';
+
+import { useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { api } from '@/lib/api';
+import { WatchState } from '@/types';
+import { Eye } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface WatchButtonProps {
+  auctionId: string;
+  watching: boolean;
+  watcherCount: number;
+  disabled?: boolean;
+  onChange: (state: WatchState) => void;
+}
+
+// Watchers get reminders before the start and end without joining the
+// auction room; signed-out visitors only see the count
+export default function WatchButton({
+  auctionId,
+  watching,
+  watcherCount,
+  disabled,
+  onChange,
+}: WatchButtonProps) {
+  const { user } = useAuth();
+  const [busy, setBusy] = useState(false);
+
+  const toggle = async (event: React.MouseEvent) => {
+    // The button sits inside auction cards, which are links
+    event.preventDefault();
+    event.stopPropagation();
+
+    setBusy(true);
+    try {
+      const response = watching
+        ? await api.delete<WatchState>(`/watchlist/${auctionId}`)
+        : await api.post<WatchState>(`/watchlist/${auctionId}`);
+      onChange(response.data);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to update watchlist');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const label = `${watcherCount} watching`;
+
+  if (!user) {
+    return (
+      <span className="inline-flex items-center text-sm text-gray-500">
+        <Eye className="w-4 h-4 mr-1" />
+        {label}
+      </span>
+    );
+  }
+
+  return (
+    <button
+      onClick={toggle}
+      disabled={busy || (disabled && !watching)}
+      title={watching ? 'Remove from watchlist' : 'Add to watchlist'}
+      className={`inline-flex items-center px-2 py-1 text-sm rounded border disabled:opacity-50 ${
+        watching
+          ? 'border-blue-500 bg-blue-50 text-blue-700 hover:bg-blue-100'
+          : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+      }`}
+    >
+      <Eye className="w-4 h-4 mr-1" />
+      {watching ? 'Watching' : 'Watch'} · {label}
+    </button>
+  );
+}
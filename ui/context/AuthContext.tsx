@@ -2,15 +2,21 @@
 
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { api } from '@/lib/api';
-import { User } from '@/types';
+import { disconnectSocket } from '@/lib/socket';
+import { ActiveOrganization, User, UserRole } from '@/types';
 import { useRouter } from 'next/navigation';
 
 interface AuthContextType {
   user: User | null;
   token: string | null;
-  login: (email: string, password: string) => Promise<void>;
-  register: (username: string, email: string, password: string) => Promise<void>;
+  // Resolves with a challenge token when the account needs a two-factor code
+  login: (email: string, password: string) => Promise<{ challengeToken?: string }>;
+  completeTwoFactorLogin: (challengeToken: string, code: string) => Promise<void>;
+  register: (username: string, email: string, password: string, roles: UserRole[]) => Promise<void>;
   logout: () => void;
+  // Bids are placed for this organization; null bids personally
+  activeOrganization: ActiveOrganization | null;
+  switchOrganization: (organizationId: string | null) => Promise<void>;
   isLoading: boolean;
 }
 
@@ -19,11 +25,16 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [token, setToken] = useState<string | null>(null);
+  const [activeOrganization, setActiveOrganization] = useState<ActiveOrganization | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const router = useRouter();
 
   useEffect(() => {
     const storedToken = localStorage.getItem('token');
+    const storedOrganization = localStorage.getItem('activeOrganization');
+    if (storedOrganization) {
+      setActiveOrganization(JSON.parse(storedOrganization));
+    }
     if (storedToken) {
       setToken(storedToken);
       fetchUser();
@@ -38,37 +49,93 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setUser(response.data);
     } catch (error) {
       localStorage.removeItem('token');
+      localStorage.removeItem('refreshToken');
+      localStorage.removeItem('activeOrganization');
       setToken(null);
+      setActiveOrganization(null);
     } finally {
       setIsLoading(false);
     }
   };
 
+  const startSession = (data: { access_token: string; refresh_token: string; user: User }) => {
+    localStorage.setItem('token', data.access_token);
+    localStorage.setItem('refreshToken', data.refresh_token);
+    localStorage.removeItem('activeOrganization');
+    setToken(data.access_token);
+    setUser(data.user);
+    setActiveOrganization(null);
+
+    router.push('/');
+  };
+
   const login = async (email: string, password: string) => {
     const response = await api.post('/auth/login', { email, password });
-    const { access_token, user } = response.data;
-    
-    localStorage.setItem('token', access_token);
-    setToken(access_token);
-    setUser(user);
-    
-    router.push('/');
+    if (response.data.two_factor_required) {
+      return { challengeToken: response.data.challenge_token as string };
+    }
+
+    startSession(response.data);
+    return {};
   };
 
-  const register = async (username: string, email: string, password: string) => {
-    await api.post('/auth/register', { username, email, password });
+  const completeTwoFactorLogin = async (challengeToken: string, code: string) => {
+    const response = await api.post('/auth/2fa/login', { challengeToken, code });
+    startSession(response.data);
+  };
+
+  const register = async (username: string, email: string, password: string, roles: UserRole[]) => {
+    await api.post('/auth/register', { username, email, password, roles });
     await login(email, password);
   };
 
+  const switchOrganization = async (organizationId: string | null) => {
+    const response = await api.post('/auth/organization', { organizationId });
+    localStorage.setItem('token', response.data.access_token);
+    setToken(response.data.access_token);
+
+    const organization: ActiveOrganization | null = response.data.organization;
+    if (organization) {
+      localStorage.setItem('activeOrganization', JSON.stringify(organization));
+    } else {
+      localStorage.removeItem('activeOrganization');
+    }
+    setActiveOrganization(organization);
+
+    // The socket keeps the organization of the token it connected with
+    disconnectSocket();
+  };
+
   const logout = () => {
+    // Revoke this device's session; local sign-out happens regardless
+    const currentToken = localStorage.getItem('token');
+    api
+      .post('/auth/logout', null, { headers: { Authorization: `Bearer ${currentToken}` } })
+      .catch(() => undefined);
     localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
+    localStorage.removeItem('activeOrganization');
+    disconnectSocket();
     setToken(null);
     setUser(null);
+    setActiveOrganization(null);
     router.push('/login');
   };
 
   return (
-    <AuthContext.Provider value={{ user, token, login, register, logout, isLoading }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        token,
+        login,
+        completeTwoFactorLogin,
+        register,
+        logout,
+        activeOrganization,
+        switchOrganization,
+        isLoading,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
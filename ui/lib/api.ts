@@ -17,12 +17,38 @@ api.interceptors.request.use((config) => {
   return config;
 });
 
+// Refresh tokens are single-use, so concurrent 401s share one refresh
+let refreshing: Promise<string> | null = null;
+
+const refreshAccessToken = async () => {
+  const refreshToken = localStorage.getItem('refreshToken');
+  if (!refreshToken) {
+    throw new Error('No refresh token');
+  }
+  const response = await axios.post(`${API_URL}/auth/refresh`, { refreshToken });
+  localStorage.setItem('token', response.data.access_token);
+  localStorage.setItem('refreshToken', response.data.refresh_token);
+  return response.data.access_token as string;
+};
+
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      localStorage.removeItem('token');
-      window.location.href = '/login';
+  async (error) => {
+    const request = error.config;
+    if (error.response?.status === 401 && request && !request._retried) {
+      request._retried = true;
+      try {
+        refreshing = refreshing || refreshAccessToken();
+        const token = await refreshing;
+        request.headers.Authorization = `Bearer ${token}`;
+        return api(request);
+      } catch {
+        localStorage.removeItem('token');
+        localStorage.removeItem('refreshToken');
+        window.location.href = '/login';
+      } finally {
+        refreshing = null;
+      }
     }
     return Promise.reject(error);
   }
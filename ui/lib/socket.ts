@@ -3,10 +3,13 @@ import { io, Socket } from 'socket.io-client';
 let socket: Socket | null = null;
 
 export const connectSocket = (token: string) => {
-  if (socket?.connected) return socket;
+  // Shared by the notification center and auction pages; reused while it
+  // is connected or still (re)connecting
+  if (socket?.active) return socket;
 
   socket = io(process.env.NEXT_PUBLIC_WS_URL || 'http://localhost:3000', {
-    auth: { token },
+    // Read on every (re)connect so a refreshed access token is picked up
+    auth: (cb) => cb({ token: localStorage.getItem('token') || token }),
     transports: ['websocket'],
   });
 
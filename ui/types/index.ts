@@ -1,7 +1,12 @@
+export type UserRole = 'ADMIN' | 'SELLER' | 'BIDDER';
+
 export interface User {
   _id: string;
   username: string;
   email: string;
+  roles: UserRole[];
+  emailVerified?: boolean;
+  twoFactorEnabled?: boolean;
   createdAt: string;
 }
 
@@ -10,17 +15,54 @@ export interface Auction {
   carId: string;
   title: string;
   description: string;
+  auctionType?: 'ENGLISH' | 'SEALED_FIRST_PRICE' | 'SEALED_SECOND_PRICE' | 'DUTCH';
   startTime: string;
   endTime: string;
   startingBid: number;
   currentHighestBid: number;
+  clearingPrice?: number;
+  buyNowPrice?: number;
+  buyNowBidThreshold?: number;
+  stepUpBidThreshold?: number;
+  dutchFloorPrice?: number;
+  dutchPriceStep?: number;
+  dutchStepIntervalSeconds?: number;
   winnerId?: string;
+  winnerOrganizationId?: string;
+  sellerId?: string;
   status: 'PENDING' | 'ACTIVE' | 'ENDED';
+  outcome?: 'SOLD' | 'RESERVE_NOT_MET' | 'NO_BIDS';
+  reserveMet?: boolean;
   bidCount: number;
+  extensionCount?: number;
+  watcherCount?: number;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface WatchState {
+  auctionId: string;
+  watching: boolean;
+  watcherCount: number;
+}
+
+export interface SavedSearch {
+  _id: string;
+  name: string;
+  text?: string;
+  status?: 'PENDING' | 'ACTIVE';
+  minPrice?: number;
+  maxPrice?: number;
+  alertsEnabled: boolean;
+  lastAlertAt?: string;
+  createdAt: string;
+}
+
+export interface WatchlistEntry {
+  auction: Auction;
+  watchedAt: string;
+}
+
 export interface Bid {
   _id: string;
   userId: string;
@@ -28,5 +70,172 @@ export interface Bid {
   bidAmount: number;
   timestamp: string;
   isWinning: boolean;
+  organizationId?: string;
   user?: User;
-}
\ No newline at end of file
+}
+
+// GET /credit/me; no creditLimit means bidding is not capped
+export interface CreditAccount {
+  userId: string;
+  creditLimit?: number;
+  exposure: number;
+  available?: number;
+}
+
+// An inbox entry from GET /notifications; type is the published
+// notification type, e.g. BID_SUCCESS or AUCTION_WON
+export interface UserNotification {
+  id: string;
+  type: string;
+  message: string;
+  auctionId?: string;
+  data?: Record<string, any>;
+  readAt?: string;
+  createdAt: string;
+}
+
+export interface NotificationPage {
+  notifications: UserNotification[];
+  total: number;
+  unreadCount: number;
+  page: number;
+  totalPages: number;
+}
+
+// Pushed to every tab when notifications are read on any of them
+export interface NotificationsReadEvent {
+  ids?: string[];
+  all?: boolean;
+  readAt: string;
+  unreadCount: number;
+}
+
+export type NotificationEvent =
+  | 'OUTBID'
+  | 'AUCTION_WON'
+  | 'AUCTION_STARTING'
+  | 'AUCTION_ENDING'
+  | 'BID_FAILED'
+  | 'SAVED_SEARCH';
+
+export type NotificationChannel = 'IN_APP' | 'EMAIL' | 'WEBHOOK';
+
+export type DigestFrequency = 'NONE' | 'HOURLY' | 'DAILY';
+
+export interface NotificationPreferences {
+  channels: Record<NotificationEvent, NotificationChannel[]>;
+  timezone: string;
+  quietHours?: { start: string; end: string };
+  digest: DigestFrequency;
+  digestTime: string;
+  webhookUrl?: string;
+}
+
+export interface NotificationDelivery {
+  id: string;
+  channel: NotificationChannel;
+  type: string;
+  message: string;
+  status: 'QUEUED' | 'SENT' | 'FAILED';
+  digest: boolean;
+  deliverAfter?: string;
+  deliveredAt?: string;
+  attempts: { attemptedAt: string; success: boolean; error?: string }[];
+  createdAt: string;
+}
+
+export type OrganizationRole = 'OWNER' | 'BUYER' | 'VIEWER';
+
+// One of the caller's organizations, as listed by GET /organizations
+export interface OrganizationSummary {
+  _id: string;
+  name: string;
+  spendingLimit?: number;
+  role: OrganizationRole;
+  memberCount: number;
+}
+
+export interface OrganizationMember {
+  userId: Pick<User, '_id' | 'username' | 'email'>;
+  role: OrganizationRole;
+  joinedAt: string;
+}
+
+export interface Organization {
+  _id: string;
+  name: string;
+  spendingLimit?: number;
+  members: OrganizationMember[];
+  role: OrganizationRole;
+}
+
+export interface OrganizationInvitation {
+  _id: string;
+  organizationId: { _id: string; name: string } | string;
+  email: string;
+  role: OrganizationRole;
+  invitedBy?: { _id: string; username: string } | string;
+  status: 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'REVOKED';
+  expiresAt: string;
+}
+
+export interface OrganizationExposure {
+  organizationId: string;
+  spendingLimit?: number;
+  committed: number;
+  available?: number;
+}
+
+export type WebhookEvent =
+  | 'bid.accepted'
+  | 'bid.rejected'
+  | 'auction.started'
+  | 'auction.ended'
+  | 'auction.won';
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  active: boolean;
+  description?: string;
+  userId?: string;
+  organizationId?: string;
+  createdAt: string;
+  // Only when created or rotated
+  secret?: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  event: WebhookEvent;
+  eventId: string;
+  payload: Record<string, unknown>;
+  status: 'QUEUED' | 'SENT' | 'FAILED';
+  attempts: {
+    attemptedAt: string;
+    success: boolean;
+    statusCode?: number;
+    error?: string;
+    durationMs?: number;
+  }[];
+  nextAttemptAt?: string;
+  deliveredAt?: string;
+  createdAt: string;
+}
+
+// The organization this session bids for
+export interface ActiveOrganization {
+  id: string;
+  name: string;
+  role: OrganizationRole;
+}
+
+export interface NextMinimumBid {
+  auctionId: string;
+  currentHighestBid: number;
+  bidCount: number;
+  increment: number;
+  nextMinimum: number;
+}